@@ -96,18 +96,21 @@ const compileWorkList = [
             fsExtra.removeSync(nodePath.resolve(ecDir, 'index.blank.js'));
             fsExtra.removeSync(nodePath.resolve(ecDir, 'index.common.js'));
             fsExtra.removeSync(nodePath.resolve(ecDir, 'index.simple.js'));
+            fsExtra.removeSync(nodePath.resolve(ecDir, 'index.hydrate.js'));
         },
         after: async function () {
             fs.renameSync(nodePath.resolve(tmpDir, 'src/echarts.all.js'), nodePath.resolve(ecDir, 'index.js'));
             fs.renameSync(nodePath.resolve(tmpDir, 'src/echarts.blank.js'), nodePath.resolve(ecDir, 'index.blank.js'));
             fs.renameSync(nodePath.resolve(tmpDir, 'src/echarts.common.js'), nodePath.resolve(ecDir, 'index.common.js'));
             fs.renameSync(nodePath.resolve(tmpDir, 'src/echarts.simple.js'), nodePath.resolve(ecDir, 'index.simple.js'));
+            fs.renameSync(nodePath.resolve(tmpDir, 'src/echarts.hydrate.js'), nodePath.resolve(ecDir, 'index.hydrate.js'));
             fs.renameSync(nodePath.resolve(tmpDir, 'src'), nodePath.resolve(ecDir, esmDir));
 
             transformRootFolderInEntry(nodePath.resolve(ecDir, 'index.js'), esmDir);
             transformRootFolderInEntry(nodePath.resolve(ecDir, 'index.blank.js'), esmDir);
             transformRootFolderInEntry(nodePath.resolve(ecDir, 'index.common.js'), esmDir);
             transformRootFolderInEntry(nodePath.resolve(ecDir, 'index.simple.js'), esmDir);
+            transformRootFolderInEntry(nodePath.resolve(ecDir, 'index.hydrate.js'), esmDir);
 
             await transformDistributionFiles(nodePath.resolve(ecDir, esmDir), esmDir);
             await transformDistributionFiles(nodePath.resolve(ecDir, 'types'), esmDir);
@@ -345,7 +348,7 @@ async function bundleDTS() {
 
     // Bundle chunks.
     const parts = [
-        'core', 'charts', 'components', 'renderers', 'option'
+        'core', 'charts', 'components', 'renderers', 'features', 'option'
     ];
     const inputs = {};
     parts.forEach(partName => {
@@ -387,7 +390,7 @@ function readTSConfig() {
 
 
 function generateEntries() {
-    ['charts', 'components', 'renderers', 'core'].forEach(entryName => {
+    ['charts', 'components', 'renderers', 'features', 'core'].forEach(entryName => {
         if (entryName !== 'option') {
             const jsCode = fs.readFileSync(nodePath.join(__dirname, `template/${entryName}.js`), 'utf-8');
             fs.writeFileSync(nodePath.join(__dirname, `../${entryName}.js`), jsCode, 'utf-8');
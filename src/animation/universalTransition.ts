@@ -0,0 +1,363 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import Element from 'zrender/src/Element';
+import Group from 'zrender/src/graphic/Group';
+import Path from 'zrender/src/graphic/Path';
+import Rect from 'zrender/src/graphic/shape/Rect';
+import Sector from 'zrender/src/graphic/shape/Sector';
+import PathProxy from 'zrender/src/core/PathProxy';
+import * as matrix from 'zrender/src/core/matrix';
+import transformPath from 'zrender/src/tool/transformPath';
+import {
+    morphPath, combine, separate, CombineSeparateConfig, CombineSeparateResult
+} from 'zrender/src/tool/morphPath';
+import { clone, isObject, isFunction, isString } from 'zrender/src/core/util';
+import DataDiffer from '../data/DataDiffer';
+import SeriesModel from '../model/Series';
+import GlobalModel from '../model/Global';
+import ExtensionAPI from '../core/ExtensionAPI';
+import { EChartsExtensionInstallRegisters } from '../extension';
+import { makeInner } from '../util/model';
+import { updateProps, isElementRemoved } from '../util/graphic';
+import { UniversalTransitionOption, ZRColor, OptionId } from '../util/types';
+
+interface TransitionItem {
+    key: string
+    // The element returned by `data.getItemGraphicEl`.
+    el: Element
+    // The path that is morphed.
+    path: Path
+    seriesModel: SeriesModel
+    dataIndex: number
+}
+
+interface OldTransitionItem extends TransitionItem {
+    // The path of the old item may be modified or removed during the update.
+    // So the state before update is saved.
+    fromPath: Path
+    transform: matrix.MatrixArray
+    fill: ZRColor
+}
+
+const inner = makeInner<{
+    oldItems: OldTransitionItem[]
+}, ExtensionAPI>();
+
+function getTransitionOption(seriesModel: SeriesModel): UniversalTransitionOption {
+    const opt = seriesModel.get('universalTransition');
+    return isObject(opt)
+        ? opt
+        : { enabled: !!opt };
+}
+
+function isTransitionEnabled(seriesModel: SeriesModel): boolean {
+    return getTransitionOption(seriesModel).enabled !== false
+        && !!seriesModel.get('universalTransition');
+}
+
+/**
+ * Find the main path of the data item element.
+ * For example the symbol path in the symbol group.
+ */
+function findMorphPath(el: Element): Path {
+    if (el instanceof Path) {
+        return el;
+    }
+    if (el.isGroup) {
+        const children = (el as Group).children();
+        for (let i = 0; i < children.length; i++) {
+            const path = findMorphPath(children[i]);
+            if (path) {
+                return path;
+            }
+        }
+    }
+}
+
+function createPathFromProxy(pathProxy: PathProxy): Path {
+    return new Path({
+        buildPath(ctx) {
+            (ctx as PathProxy).appendPath(pathProxy);
+        }
+    });
+}
+
+/**
+ * Rect and sector are kept as they are so that they can be split in
+ * one-to-many and many-to-one transition. Other paths are saved as path data.
+ */
+function copyPath(path: Path): Path {
+    if (path instanceof Rect) {
+        return new Rect({ shape: clone(path.shape) });
+    }
+    if (path instanceof Sector) {
+        return new Sector({ shape: clone(path.shape) });
+    }
+    const pathProxy = new PathProxy();
+    pathProxy.beginPath();
+    path.buildPath(pathProxy, path.shape);
+    pathProxy.toStatic();
+    return createPathFromProxy(pathProxy);
+}
+
+function isTransformEqual(m1: matrix.MatrixArray, m2: matrix.MatrixArray): boolean {
+    m1 = m1 || matrix.create();
+    m2 = m2 || matrix.create();
+    for (let i = 0; i < 6; i++) {
+        if (Math.abs(m1[i] - m2[i]) > 1e-6) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * `morphPath` only morphs the shape in the local coordinate of `toPath`.
+ * If the transforms are different, the old path is baked into it.
+ */
+function getMorphFrom(oldItem: OldTransitionItem, toPath: Path): Path {
+    const toTransform = toPath.getComputedTransform();
+    if (isTransformEqual(oldItem.transform, toTransform)) {
+        return oldItem.fromPath;
+    }
+    const m = matrix.create();
+    toTransform && matrix.invert(m, toTransform);
+    oldItem.transform && matrix.mul(m, m, oldItem.transform);
+
+    const fromPath = oldItem.fromPath;
+    const pathProxy = new PathProxy();
+    pathProxy.beginPath();
+    fromPath.buildPath(pathProxy, fromPath.shape);
+    pathProxy.toStatic();
+    transformPath(pathProxy, m);
+    return createPathFromProxy(pathProxy);
+}
+
+function getItemKey(
+    seriesModel: SeriesModel,
+    dataIndex: number,
+    dataGroupId: OptionId
+): string {
+    const data = seriesModel.getData();
+    const groupId = data.getItemModel<{ groupId?: OptionId }>(dataIndex).get('groupId');
+    return groupId != null
+        ? groupId + ''
+        : dataGroupId != null
+        ? dataGroupId + ''
+        : data.getId(dataIndex);
+}
+
+function collectItems(ecModel: GlobalModel): TransitionItem[] {
+    const items: TransitionItem[] = [];
+    ecModel.eachSeries(function (seriesModel) {
+        if (!isTransitionEnabled(seriesModel)) {
+            return;
+        }
+        const data = seriesModel.getData();
+        const dataGroupId = seriesModel.get('dataGroupId');
+        data.each(function (dataIndex) {
+            const el = data.getItemGraphicEl(dataIndex);
+            const path = el && findMorphPath(el);
+            if (path) {
+                items.push({
+                    key: getItemKey(seriesModel, dataIndex, dataGroupId),
+                    el: el,
+                    path: path,
+                    seriesModel: seriesModel,
+                    dataIndex: dataIndex
+                });
+            }
+        });
+    });
+    return items;
+}
+
+function saveOldItems(ecModel: GlobalModel, api: ExtensionAPI): void {
+    const items = collectItems(ecModel) as OldTransitionItem[];
+    for (let i = 0; i < items.length; i++) {
+        const item = items[i];
+        const transform = item.path.getComputedTransform();
+        item.fromPath = copyPath(item.path);
+        item.transform = transform && matrix.clone(transform);
+        item.fill = item.path.style.fill;
+    }
+    inner(api).oldItems = items;
+}
+
+function getMorphConfig(item: TransitionItem): CombineSeparateConfig {
+    const seriesModel = item.seriesModel;
+    if (!seriesModel.isAnimationEnabled()) {
+        return;
+    }
+    const dataIndex = item.dataIndex;
+    const duration = seriesModel.get('animationDurationUpdate');
+    const delay = seriesModel.get('animationDelayUpdate');
+    return {
+        duration: isFunction(duration) ? duration(dataIndex) : duration,
+        delay: isFunction(delay) ? delay(dataIndex) : delay,
+        easing: seriesModel.get('animationEasingUpdate'),
+        dividingMethod: getTransitionOption(seriesModel).divideShape === 'clone' ? 'duplicate' : 'split'
+    };
+}
+
+/**
+ * Finish the init animation of new item, the item will start from the old one.
+ */
+function prepareNewItem(item: TransitionItem): void {
+    const el = item.el;
+    el.stopAnimation(null, true);
+    if (el.isGroup) {
+        (el as Group).traverse(function (child) {
+            child.stopAnimation(null, true);
+        });
+    }
+}
+
+function hideOldItem(item: OldTransitionItem): void {
+    // Element may be still fading out.
+    if (isElementRemoved(item.el)) {
+        item.el.ignore = true;
+    }
+}
+
+function copyPropsWhenDivided(srcPath: Path, tarPath: Path, willClone: boolean): void {
+    tarPath.style = willClone ? clone(srcPath.style) : srcPath.style;
+    tarPath.zlevel = srcPath.zlevel;
+    tarPath.z = srcPath.z;
+    tarPath.z2 = srcPath.z2;
+}
+
+function transitionFill(fromFill: ZRColor, toPath: Path, toItem: TransitionItem): void {
+    const toFill = toPath.style.fill;
+    if (isString(fromFill) && isString(toFill) && fromFill !== toFill) {
+        toPath.style.fill = fromFill;
+        updateProps(toPath, {
+            style: { fill: toFill }
+        }, toItem.seriesModel, toItem.dataIndex);
+    }
+}
+
+function oneToOne(oldItem: OldTransitionItem, newItem: TransitionItem): void {
+    if (oldItem.path === newItem.path) {
+        return;
+    }
+    const config = getMorphConfig(newItem);
+    if (!config) {
+        return;
+    }
+    prepareNewItem(newItem);
+    hideOldItem(oldItem);
+    morphPath(getMorphFrom(oldItem, newItem.path), newItem.path, config);
+    transitionFill(oldItem.fill, newItem.path, newItem);
+}
+
+function manyToOne(oldItems: OldTransitionItem[], newItem: TransitionItem): void {
+    const config = getMorphConfig(newItem);
+    if (!config) {
+        return;
+    }
+    prepareNewItem(newItem);
+    const toPath = newItem.path;
+    const fromList: Path[] = [];
+    for (let i = 0; i < oldItems.length; i++) {
+        hideOldItem(oldItems[i]);
+        fromList.push(getMorphFrom(oldItems[i], toPath));
+    }
+    const result = combine(fromList, toPath, config, copyPropsWhenDivided);
+    if (result) {
+        for (let i = 0; i < result.count; i++) {
+            transitionFill(oldItems[i].fill, result.toIndividuals[i], newItem);
+        }
+    }
+}
+
+function oneToMany(oldItem: OldTransitionItem, newItems: TransitionItem[]): void {
+    const config = getMorphConfig(newItems[0]);
+    if (!config) {
+        return;
+    }
+    hideOldItem(oldItem);
+
+    const toList: Path[] = [];
+    let isSameTransform = true;
+    for (let i = 0; i < newItems.length; i++) {
+        prepareNewItem(newItems[i]);
+        const toPath = newItems[i].path;
+        toList.push(toPath);
+        isSameTransform = isSameTransform
+            && isTransformEqual(oldItem.transform, toPath.getComputedTransform());
+    }
+
+    let result: CombineSeparateResult;
+    if (isSameTransform) {
+        result = separate(oldItem.fromPath, toList, config, copyPropsWhenDivided);
+    }
+    // The old path can only be divided in its own coordinate. Clone it to every new path instead.
+    else {
+        for (let i = 0; i < toList.length; i++) {
+            morphPath(getMorphFrom(oldItem, toList[i]), toList[i], config);
+        }
+    }
+
+    for (let i = 0; i < newItems.length; i++) {
+        transitionFill(oldItem.fill, result ? result.toIndividuals[i] : toList[i], newItems[i]);
+    }
+}
+
+function transitionItems(oldItems: OldTransitionItem[], newItems: TransitionItem[]): void {
+    function getKey(item: TransitionItem): string {
+        return item.key;
+    }
+
+    new DataDiffer(oldItems, newItems, getKey, getKey, null, 'multiple')
+        .update(function (newIndex, oldIndex) {
+            oneToOne(oldItems[oldIndex], newItems[newIndex]);
+        })
+        .updateManyToOne(function (newIndex, oldIndices) {
+            const fromItems: OldTransitionItem[] = [];
+            for (let i = 0; i < oldIndices.length; i++) {
+                fromItems.push(oldItems[oldIndices[i]]);
+            }
+            manyToOne(fromItems, newItems[newIndex]);
+        })
+        .updateOneToMany(function (newIndices, oldIndex) {
+            const toItems: TransitionItem[] = [];
+            for (let i = 0; i < newIndices.length; i++) {
+                toItems.push(newItems[newIndices[i]]);
+            }
+            oneToMany(oldItems[oldIndex], toItems);
+        })
+        .execute();
+}
+
+export function installUniversalTransition(registers: EChartsExtensionInstallRegisters) {
+    registers.registerUpdateLifecycle('series:beforeupdate', function (ecModel, api) {
+        saveOldItems(ecModel, api);
+    });
+
+    registers.registerUpdateLifecycle('series:afterupdate', function (ecModel, api) {
+        const oldItems = inner(api).oldItems;
+        // Only transition once after `setOption`.
+        inner(api).oldItems = null;
+        if (oldItems && oldItems.length) {
+            transitionItems(oldItems, collectItems(ecModel));
+        }
+    });
+}
@@ -31,7 +31,7 @@ import { getECData } from '../../util/innerStore';
 import { enableHoverEmphasis, setStatesStylesFromModel } from '../../util/states';
 import { setLabelStyle, getLabelStatesModels, setLabelValueAnimation } from '../../label/labelStyle';
 import {throttle} from '../../util/throttle';
-import {createClipPath} from '../helper/createClipPathFromCoordSys';
+import {createClipPath, hasAxisBreaks} from '../helper/createClipPathFromCoordSys';
 import Sausage from '../../util/shape/sausage';
 import ChartView from '../../view/Chart';
 import List, {DefaultDataVisual} from '../../data/List';
@@ -207,6 +207,10 @@ class BarView extends ChartView {
         group.removeClipPath();
         // We don't use clipPath in normal mode because we needs a perfect animation
         // And don't want the label are clipped.
+        // Except that bars spanning collapsed axis breaks have to be cut off.
+        if (needsClip && hasAxisBreaks(coord)) {
+            group.setClipPath(createClipPath(coord, false, seriesModel));
+        }
 
         const roundCap = seriesModel.get('roundCap', true);
 
@@ -0,0 +1,227 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import SeriesModel from '../../model/Series';
+import createGraphFromNodeEdge from '../helper/createGraphFromNodeEdge';
+import {
+    SeriesOption,
+    BoxLayoutOptionMixin,
+    CircleLayoutOptionMixin,
+    OptionDataValue,
+    SeriesLabelOption,
+    ItemStyleOption,
+    LineStyleOption,
+    StatesOptionMixin,
+    OptionDataItemObject,
+    GraphEdgeItemObject,
+    OptionDataValueNumeric,
+    DefaultEmphasisFocus
+} from '../../util/types';
+import { createTooltipMarkup } from '../../component/tooltip/tooltipMarkup';
+
+interface ChordItemStyleOption extends ItemStyleOption {
+    borderRadius?: (number | string)[] | number | string
+}
+
+export interface ChordNodeStateOption {
+    label?: ChordLabelOption
+    itemStyle?: ChordItemStyleOption
+}
+
+interface ChordEdgeStyleOption extends Omit<LineStyleOption, 'color'> {
+    /**
+     * Can be 'source', 'target' or 'gradient' to use the color of the nodes.
+     */
+    color?: LineStyleOption['color'] | 'source' | 'target' | 'gradient'
+}
+
+export interface ChordEdgeStateOption {
+    lineStyle?: ChordEdgeStyleOption
+}
+
+interface ChordBothStateOption extends ChordNodeStateOption, ChordEdgeStateOption {
+}
+
+interface ChordLabelOption extends Omit<SeriesLabelOption, 'position' | 'rotate'> {
+    position?: 'outside' | 'inside'
+    rotate?: 'radial' | 'tangential' | number
+}
+
+interface ExtraStateOption {
+    emphasis?: {
+        focus?: DefaultEmphasisFocus | 'adjacency'
+    }
+}
+
+export interface ChordNodeItemOption extends ChordNodeStateOption,
+    StatesOptionMixin<ChordNodeStateOption, ExtraStateOption>,
+    OptionDataItemObject<OptionDataValue> {
+    id?: string
+}
+
+export interface ChordEdgeItemOption extends
+        ChordEdgeStateOption,
+        StatesOptionMixin<ChordEdgeStateOption, ExtraStateOption>,
+        GraphEdgeItemObject<OptionDataValueNumeric> {
+}
+
+export interface ChordSeriesOption
+    extends SeriesOption<ChordBothStateOption, ExtraStateOption>, ChordBothStateOption,
+    CircleLayoutOptionMixin, BoxLayoutOptionMixin {
+    type?: 'chord'
+
+    /**
+     * Start angle of the first node, in degree.
+     */
+    startAngle?: number
+    clockwise?: boolean
+    /**
+     * Angle between two adjacent nodes, in degree.
+     */
+    padAngle?: number
+    /**
+     * Minimum angle of a node, in degree.
+     */
+    minAngle?: number
+
+    data?: ChordNodeItemOption[]
+    nodes?: ChordNodeItemOption[]
+
+    edges?: ChordEdgeItemOption[]
+    links?: ChordEdgeItemOption[]
+}
+
+class ChordSeriesModel extends SeriesModel<ChordSeriesOption> {
+    static readonly type = 'series.chord';
+    readonly type = ChordSeriesModel.type;
+
+    useColorPaletteOnData = true;
+
+    getInitialData(option: ChordSeriesOption) {
+        const links = option.edges || option.links || [];
+        const nodes = option.data || option.nodes || [];
+        const graph = createGraphFromNodeEdge(nodes, links, this, true, null);
+        return graph.data;
+    }
+
+    /**
+     * Return the graphic data structure
+     */
+    getGraph() {
+        return this.getData().graph;
+    }
+
+    /**
+     * Get edge data of graphic data structure
+     */
+    getEdgeData() {
+        return this.getGraph().edgeData;
+    }
+
+    formatTooltip(
+        dataIndex: number,
+        multipleSeries: boolean,
+        dataType: 'node' | 'edge'
+    ) {
+        const params = this.getDataParams(dataIndex, dataType);
+        const value = params.value;
+        const noValue = value == null || isNaN(value as number);
+        if (dataType === 'edge') {
+            const edge = this.getGraph().getEdgeByIndex(dataIndex);
+            const sourceName = edge.node1.hostGraph.data.getName(edge.node1.dataIndex);
+            const targetName = edge.node2.hostGraph.data.getName(edge.node2.dataIndex);
+            return createTooltipMarkup('nameValue', {
+                name: sourceName + ' -- ' + targetName,
+                value: value,
+                noValue: noValue
+            });
+        }
+        return createTooltipMarkup('nameValue', {
+            name: params.name,
+            value: value,
+            noValue: noValue
+        });
+    }
+
+    // Override Series.getDataParams()
+    getDataParams(dataIndex: number, dataType: 'node' | 'edge') {
+        const params = super.getDataParams(dataIndex, dataType);
+        if (params.value == null && dataType === 'node') {
+            const layout = this.getGraph().getNodeByIndex(dataIndex).getLayout();
+            params.value = layout && layout.value;
+        }
+        return params;
+    }
+
+    static defaultOption: ChordSeriesOption = {
+        zlevel: 0,
+        z: 2,
+
+        left: 0,
+        top: 0,
+        right: 0,
+        bottom: 0,
+        width: null,
+        height: null,
+
+        center: ['50%', '50%'],
+        radius: ['70%', '80%'],
+
+        startAngle: 90,
+        clockwise: true,
+        padAngle: 3,
+        minAngle: 0,
+
+        itemStyle: {
+            borderRadius: 0
+        },
+
+        label: {
+            show: true,
+            position: 'outside',
+            distance: 5
+        },
+
+        lineStyle: {
+            color: 'source',
+            opacity: 0.3
+        },
+
+        emphasis: {
+            label: {
+                show: true
+            },
+            lineStyle: {
+                opacity: 0.6
+            }
+        },
+
+        select: {
+            itemStyle: {
+                borderColor: '#212121'
+            }
+        },
+
+        animationEasing: 'cubicInOut',
+
+        animationDuration: 1000
+    };
+}
+
+export default ChordSeriesModel;
@@ -0,0 +1,332 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import * as graphic from '../../util/graphic';
+import { enableHoverEmphasis, setStatesStylesFromModel, DISPLAY_STATES } from '../../util/states';
+import { ECElement, ColorString } from '../../util/types';
+import { PathProps } from 'zrender/src/graphic/Path';
+import ChordSeriesModel, { ChordEdgeItemOption, ChordNodeItemOption } from './ChordSeries';
+import { ChordNodeLayout, ChordEdgeLayout } from './chordLayout';
+import ChartView from '../../view/Chart';
+import GlobalModel from '../../model/Global';
+import ExtensionAPI from '../../core/ExtensionAPI';
+import List from '../../data/List';
+import Model from '../../model/Model';
+import { GraphEdge, GraphNode } from '../../data/Graph';
+import { setLabelStyle, getLabelStatesModels } from '../../label/labelStyle';
+import { getECData } from '../../util/innerStore';
+import { getSectorCornerRadius } from '../helper/pieHelper';
+
+class ChordRibbonShape {
+    cx = 0;
+    cy = 0;
+    r = 0;
+
+    sourceStartAngle = 0;
+    sourceEndAngle = 0;
+
+    targetStartAngle = 0;
+    targetEndAngle = 0;
+
+    clockwise = true;
+}
+
+interface ChordRibbonProps extends PathProps {
+    shape?: Partial<ChordRibbonShape>
+}
+
+/**
+ * Ribbon between two nodes. Both ends are arcs on the circle
+ * and they are connected by quadratic curves through the center.
+ */
+class ChordRibbon extends graphic.Path<ChordRibbonProps> {
+    shape: ChordRibbonShape;
+
+    constructor(opts?: ChordRibbonProps) {
+        super(opts);
+    }
+
+    getDefaultShape() {
+        return new ChordRibbonShape();
+    }
+
+    buildPath(ctx: CanvasRenderingContext2D, shape: ChordRibbonShape) {
+        const cx = shape.cx;
+        const cy = shape.cy;
+        const r = shape.r;
+        const anticlockwise = !shape.clockwise;
+
+        ctx.moveTo(
+            cx + r * Math.cos(shape.sourceStartAngle),
+            cy + r * Math.sin(shape.sourceStartAngle)
+        );
+        ctx.arc(cx, cy, r, shape.sourceStartAngle, shape.sourceEndAngle, anticlockwise);
+        ctx.quadraticCurveTo(
+            cx, cy,
+            cx + r * Math.cos(shape.targetStartAngle),
+            cy + r * Math.sin(shape.targetStartAngle)
+        );
+        ctx.arc(cx, cy, r, shape.targetStartAngle, shape.targetEndAngle, anticlockwise);
+        ctx.quadraticCurveTo(
+            cx, cy,
+            cx + r * Math.cos(shape.sourceStartAngle),
+            cy + r * Math.sin(shape.sourceStartAngle)
+        );
+        ctx.closePath();
+    }
+}
+
+class ChordView extends ChartView {
+
+    static readonly type = 'chord';
+    readonly type = ChordView.type;
+
+    private _data: List;
+
+    render(seriesModel: ChordSeriesModel, ecModel: GlobalModel, api: ExtensionAPI) {
+        const graph = seriesModel.getGraph();
+        const group = this.group;
+        const nodeData = seriesModel.getData();
+        const edgeData = seriesModel.getEdgeData();
+        const isFirstRender = !this._data;
+        const animationEnabled = seriesModel.isAnimationEnabled();
+
+        group.removeAll();
+
+        graph.eachEdge(function (edge) {
+            const ribbon = createRibbon(edge, seriesModel);
+            group.add(ribbon);
+            edgeData.setItemGraphicEl(edge.dataIndex, ribbon);
+
+            if (isFirstRender && animationEnabled) {
+                const opacity = ribbon.style.opacity;
+                ribbon.style.opacity = 0;
+                graphic.initProps(ribbon, {
+                    style: { opacity: opacity }
+                }, seriesModel, edge.dataIndex);
+            }
+        });
+
+        graph.eachNode(function (node) {
+            const sector = createNodeSector(node, seriesModel);
+            group.add(sector);
+            nodeData.setItemGraphicEl(node.dataIndex, sector);
+
+            if (isFirstRender && animationEnabled) {
+                const endAngle = sector.shape.endAngle;
+                sector.shape.endAngle = sector.shape.startAngle;
+                graphic.initProps(sector, {
+                    shape: { endAngle: endAngle }
+                }, seriesModel, node.dataIndex);
+            }
+        });
+
+        this._data = nodeData;
+    }
+
+    dispose() {
+    }
+}
+
+function createRibbon(edge: GraphEdge, seriesModel: ChordSeriesModel) {
+    const layout = edge.getLayout() as ChordEdgeLayout;
+    const edgeModel = edge.getModel<ChordEdgeItemOption>();
+    const lineStyleModel = edgeModel.getModel('lineStyle');
+    const emphasisModel = edgeModel.getModel('emphasis');
+
+    const ribbon = new ChordRibbon({
+        shape: {
+            cx: layout.cx,
+            cy: layout.cy,
+            r: layout.r,
+            sourceStartAngle: layout.sourceStartAngle,
+            sourceEndAngle: layout.sourceEndAngle,
+            targetStartAngle: layout.targetStartAngle,
+            targetEndAngle: layout.targetEndAngle,
+            clockwise: layout.clockwise
+        }
+    });
+
+    ribbon.useStyle(lineStyleModel.getItemStyle());
+    // Special color, use source node color or target node color
+    const sourceStyle = edge.node1.getVisual('style');
+    const targetStyle = edge.node2.getVisual('style');
+    switch (ribbon.style.fill) {
+        case 'source':
+            ribbon.style.fill = sourceStyle.fill;
+            ribbon.style.decal = sourceStyle.decal;
+            break;
+        case 'target':
+            ribbon.style.fill = targetStyle.fill;
+            ribbon.style.decal = targetStyle.decal;
+            break;
+        case 'gradient':
+            const sourceColor = sourceStyle.fill;
+            const targetColor = targetStyle.fill;
+            if (typeof sourceColor === 'string' && typeof targetColor === 'string') {
+                const sourceAngle = (layout.sourceStartAngle + layout.sourceEndAngle) / 2;
+                const targetAngle = (layout.targetStartAngle + layout.targetEndAngle) / 2;
+                ribbon.style.fill = new graphic.LinearGradient(
+                    layout.cx + layout.r * Math.cos(sourceAngle),
+                    layout.cy + layout.r * Math.sin(sourceAngle),
+                    layout.cx + layout.r * Math.cos(targetAngle),
+                    layout.cy + layout.r * Math.sin(targetAngle),
+                    [{
+                        color: sourceColor,
+                        offset: 0
+                    }, {
+                        color: targetColor,
+                        offset: 1
+                    }],
+                    true
+                );
+            }
+    }
+
+    setStatesStylesFromModel(ribbon, edgeModel, 'lineStyle', (model) => model.getItemStyle());
+
+    const ecData = getECData(ribbon);
+    ecData.dataIndex = edge.dataIndex;
+    ecData.seriesIndex = seriesModel.seriesIndex;
+    ecData.dataType = 'edge';
+
+    const focus = emphasisModel.get('focus');
+    enableHoverEmphasis(
+        ribbon,
+        focus === 'adjacency' ? edge.getAdjacentDataIndices() : focus,
+        emphasisModel.get('blurScope')
+    );
+
+    return ribbon;
+}
+
+function createNodeSector(node: GraphNode, seriesModel: ChordSeriesModel) {
+    const layout = node.getLayout() as ChordNodeLayout;
+    const itemModel = node.getModel<ChordNodeItemOption>();
+    const emphasisModel = itemModel.getModel('emphasis');
+    const itemStyleModel = itemModel.getModel('itemStyle');
+
+    const sector = new graphic.Sector({
+        shape: {
+            cx: layout.cx,
+            cy: layout.cy,
+            r0: layout.r0,
+            r: layout.r,
+            startAngle: layout.startAngle,
+            endAngle: layout.endAngle,
+            clockwise: layout.clockwise
+        },
+        z2: 10
+    });
+    sector.setShape(getSectorCornerRadius(itemStyleModel, layout));
+
+    sector.useStyle(node.getVisual('style'));
+    setStatesStylesFromModel(sector, itemModel);
+
+    setLabelStyle(
+        sector, getLabelStatesModels(itemModel),
+        {
+            labelFetcher: seriesModel,
+            labelDataIndex: node.dataIndex,
+            defaultText: node.id,
+            inheritColor: sector.style.fill as ColorString
+        }
+    );
+    (sector as ECElement).disableLabelAnimation = true;
+    updateNodeLabel(sector, itemModel, layout);
+
+    const ecData = getECData(sector);
+    ecData.dataIndex = node.dataIndex;
+    ecData.seriesIndex = seriesModel.seriesIndex;
+    ecData.dataType = 'node';
+
+    const focus = emphasisModel.get('focus');
+    enableHoverEmphasis(
+        sector,
+        focus === 'adjacency' ? node.getAdjacentDataIndices() : focus,
+        emphasisModel.get('blurScope')
+    );
+
+    return sector;
+}
+
+/**
+ * Place the label along the radial direction of the node, like the sunburst pieces.
+ */
+function updateNodeLabel(
+    sector: graphic.Sector,
+    itemModel: Model<ChordNodeItemOption>,
+    layout: ChordNodeLayout
+) {
+    const label = sector.getTextContent();
+    if (!label) {
+        return;
+    }
+    const labelModel = itemModel.getModel('label');
+    const position = labelModel.get('position');
+    const distance = labelModel.get('distance') || 0;
+    const rotateType = labelModel.get('rotate');
+
+    const midAngle = (layout.startAngle + layout.endAngle) / 2;
+    const dx = Math.cos(midAngle);
+    const dy = Math.sin(midAngle);
+    const isOutside = position !== 'inside';
+    const r = isOutside ? layout.r + distance : (layout.r + layout.r0) / 2;
+
+    // Position is calculated here instead of by the text config.
+    const textConfig = {
+        inside: !isOutside,
+        outsideFill: sector.textConfig && sector.textConfig.outsideFill
+    };
+    sector.textConfig = textConfig;
+    for (let i = 0; i < DISPLAY_STATES.length; i++) {
+        const state = sector.states[DISPLAY_STATES[i]];
+        if (state && state.textConfig) {
+            state.textConfig = textConfig;
+        }
+    }
+
+    label.x = layout.cx + r * dx;
+    label.y = layout.cy + r * dy;
+    label.style.align = isOutside ? (dx < 0 ? 'right' : 'left') : 'center';
+    label.style.verticalAlign = 'middle';
+
+    let rotate = 0;
+    if (rotateType === 'radial' || rotateType === 'tangential') {
+        rotate = rotateType === 'radial' ? -midAngle : Math.PI / 2 - midAngle;
+        // Keep the text upright.
+        rotate = Math.atan2(Math.sin(rotate), Math.cos(rotate));
+        if (rotate > Math.PI / 2) {
+            rotate -= Math.PI;
+        }
+        else if (rotate < -Math.PI / 2) {
+            rotate += Math.PI;
+        }
+        if (rotateType === 'tangential') {
+            label.style.align = 'center';
+        }
+    }
+    else if (typeof rotateType === 'number') {
+        rotate = rotateType * Math.PI / 180;
+    }
+    label.rotation = rotate;
+    label.dirtyStyle();
+}
+
+export default ChordView;
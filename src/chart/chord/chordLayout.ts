@@ -0,0 +1,207 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import * as zrUtil from 'zrender/src/core/util';
+import * as layout from '../../util/layout';
+import { parsePercent } from '../../util/number';
+import GlobalModel from '../../model/Global';
+import ExtensionAPI from '../../core/ExtensionAPI';
+import ChordSeriesModel from './ChordSeries';
+import { GraphNode, GraphEdge } from '../../data/Graph';
+
+const PI2 = Math.PI * 2;
+const RADIAN = Math.PI / 180;
+
+export interface ChordNodeLayout {
+    cx: number
+    cy: number
+    r0: number
+    r: number
+    startAngle: number
+    endAngle: number
+    clockwise: boolean
+    value: number
+}
+
+export interface ChordEdgeLayout {
+    cx: number
+    cy: number
+    // Radius where the ribbons are attached to.
+    r: number
+    // Angle range on the source node.
+    sourceStartAngle: number
+    sourceEndAngle: number
+    // Angle range on the target node.
+    targetStartAngle: number
+    targetEndAngle: number
+    clockwise: boolean
+}
+
+export default function chordLayout(ecModel: GlobalModel, api: ExtensionAPI) {
+    ecModel.eachSeriesByType('chord', function (seriesModel: ChordSeriesModel) {
+        const graph = seriesModel.getGraph();
+        // Nodes and edges filtered by legend are excluded.
+        const nodes: GraphNode[] = [];
+        const edges: GraphEdge[] = [];
+        graph.eachNode(function (node) {
+            nodes.push(node);
+        });
+        graph.eachEdge(function (edge) {
+            edges.push(edge);
+        });
+
+        const viewRect = layout.getLayoutRect(
+            seriesModel.getBoxLayoutParams(), {
+                width: api.getWidth(),
+                height: api.getHeight()
+            }
+        );
+
+        let center = seriesModel.get('center');
+        let radius = seriesModel.get('radius');
+        if (!zrUtil.isArray(radius)) {
+            radius = [0, radius];
+        }
+        if (!zrUtil.isArray(center)) {
+            center = [center, center];
+        }
+        const size = Math.min(viewRect.width, viewRect.height);
+        const cx = parsePercent(center[0], viewRect.width) + viewRect.x;
+        const cy = parsePercent(center[1], viewRect.height) + viewRect.y;
+        const r0 = parsePercent(radius[0], size / 2);
+        const r = parsePercent(radius[1], size / 2);
+
+        const clockwise = seriesModel.get('clockwise');
+        const dir = clockwise ? 1 : -1;
+        const startAngle = -seriesModel.get('startAngle') * RADIAN;
+        const minAngle = seriesModel.get('minAngle') * RADIAN;
+
+        const nodeValues = computeNodeValues(nodes, edges);
+        let sum = 0;
+        zrUtil.each(nodes, function (node) {
+            sum += nodeValues[node.dataIndex];
+        });
+
+        let padAngle = seriesModel.get('padAngle') * RADIAN;
+        // Gaps can't take up the whole circle.
+        if (padAngle * nodes.length >= PI2) {
+            padAngle = 0;
+        }
+        const restAngle = PI2 - padAngle * nodes.length;
+
+        // Nodes smaller than `minAngle` are enlarged, others share the rest.
+        let unitAngle = sum ? restAngle / sum : 0;
+        if (minAngle && sum) {
+            let smallCount = 0;
+            let largeSum = 0;
+            zrUtil.each(nodes, function (node) {
+                const value = nodeValues[node.dataIndex];
+                if (value * unitAngle < minAngle) {
+                    smallCount++;
+                }
+                else {
+                    largeSum += value;
+                }
+            });
+            if (smallCount && largeSum && minAngle * smallCount < restAngle) {
+                unitAngle = (restAngle - minAngle * smallCount) / largeSum;
+            }
+        }
+
+        // Angle occupied by the unit value of edges in each node.
+        const edgeUnitAngles: number[] = [];
+        // Current angle where the next edge is attached on each node.
+        const edgeCursors: number[] = [];
+
+        let currentAngle = startAngle;
+        zrUtil.each(nodes, function (node) {
+            const idx = node.dataIndex;
+            const value = nodeValues[idx];
+            let angle = sum ? value * unitAngle : restAngle / nodes.length;
+            if (sum && angle < minAngle) {
+                angle = minAngle;
+            }
+            const endAngle = currentAngle + dir * angle;
+            node.setLayout({
+                cx: cx,
+                cy: cy,
+                r0: r0,
+                r: r,
+                startAngle: currentAngle,
+                endAngle: endAngle,
+                clockwise: clockwise,
+                value: value
+            } as ChordNodeLayout);
+
+            edgeUnitAngles[idx] = value ? angle / value : 0;
+            edgeCursors[idx] = currentAngle;
+
+            currentAngle = endAngle + dir * padAngle;
+        });
+
+        function takeAngle(node: GraphNode, value: number): number[] {
+            const idx = node.dataIndex;
+            const start = edgeCursors[idx];
+            edgeCursors[idx] = start + dir * value * edgeUnitAngles[idx];
+            return [start, edgeCursors[idx]];
+        }
+
+        zrUtil.each(edges, function (edge) {
+            const value = getEdgeValue(edge.getValue());
+            const sourceRange = takeAngle(edge.node1, value);
+            const targetRange = takeAngle(edge.node2, value);
+            edge.setLayout({
+                cx: cx,
+                cy: cy,
+                r: r0,
+                sourceStartAngle: sourceRange[0],
+                sourceEndAngle: sourceRange[1],
+                targetStartAngle: targetRange[0],
+                targetEndAngle: targetRange[1],
+                clockwise: clockwise
+            } as ChordEdgeLayout);
+        });
+    });
+}
+
+function getEdgeValue(value: unknown): number {
+    const num = +value;
+    return isNaN(num) || num < 0 ? 0 : num;
+}
+
+/**
+ * The value of a node is the total value of the edges attached to it,
+ * unless a larger value is given. Values are indexed by `dataIndex`.
+ */
+function computeNodeValues(nodes: GraphNode[], edges: GraphEdge[]): number[] {
+    const values: number[] = [];
+    zrUtil.each(nodes, function (node) {
+        values[node.dataIndex] = 0;
+    });
+    zrUtil.each(edges, function (edge) {
+        const edgeValue = getEdgeValue(edge.getValue());
+        values[edge.node1.dataIndex] += edgeValue;
+        values[edge.node2.dataIndex] += edgeValue;
+    });
+    zrUtil.each(nodes, function (node) {
+        const idx = node.dataIndex;
+        values[idx] = Math.max(values[idx], getEdgeValue(node.getValue()));
+    });
+    return values;
+}
@@ -0,0 +1,64 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+/**
+ * Registry of reusable `renderItem`, so that a custom series can be
+ * declared by `{type: 'custom', renderItem: 'violin'}` or `{type: 'violin'}`.
+ */
+
+import { createHashMap } from 'zrender/src/core/util';
+import type {
+    CustomSeriesRenderItem, CustomSeriesOption
+} from './install';
+import { CallbackDataParams } from '../../util/types';
+
+export interface CustomSeriesRegistrationOption {
+    // Merged into the series option with lower priority than the user option.
+    defaultOption?: Omit<CustomSeriesOption, 'type' | 'renderItem'>;
+    // If true, data items are listed in legend by name and can be toggled, like pie.
+    legendVisualProvider?: boolean;
+    // Tooltip content of a data item, works like the `tooltip.formatter` callback.
+    formatTooltip?: (params: CallbackDataParams) => string;
+}
+
+export interface CustomSeriesRegistration extends CustomSeriesRegistrationOption {
+    type: string;
+    renderItem: CustomSeriesRenderItem;
+}
+
+const registry = createHashMap<CustomSeriesRegistration>();
+
+export function registerCustomSeries(
+    type: string,
+    renderItem: CustomSeriesRenderItem,
+    opt?: CustomSeriesRegistrationOption
+): void {
+    opt = opt || {};
+    registry.set(type, {
+        type: type,
+        renderItem: renderItem,
+        defaultOption: opt.defaultOption,
+        legendVisualProvider: opt.legendVisualProvider,
+        formatTooltip: opt.formatTooltip
+    });
+}
+
+export function getCustomSeries(type: string): CustomSeriesRegistration {
+    return registry.get(type);
+}
@@ -19,7 +19,7 @@
 
 import {
     hasOwn, assert, isString, retrieve2, retrieve3, defaults, each,
-    keys, isArrayLike, bind, isFunction, eqNaN, indexOf, clone
+    keys, isArrayLike, bind, isFunction, eqNaN, indexOf, clone, merge
 } from 'zrender/src/core/util';
 import * as graphicUtil from '../../util/graphic';
 import { setDefaultStateProxy, enableHoverEmphasis } from '../../util/states';
@@ -35,7 +35,7 @@ import {createClipPath} from '../helper/createClipPathFromCoordSys';
 import {
     EventQueryItem, SeriesOption, SeriesOnCartesianOptionMixin,
     SeriesOnPolarOptionMixin, SeriesOnSingleOptionMixin, SeriesOnGeoOptionMixin,
-    SeriesOnCalendarOptionMixin, ItemStyleOption, SeriesEncodeOptionMixin,
+    SeriesOnCalendarOptionMixin, SeriesOnMatrixOptionMixin, ItemStyleOption, SeriesEncodeOptionMixin,
     DimensionLoose,
     ParsedValue,
     Dictionary,
@@ -56,7 +56,8 @@ import {
     DecalObject,
     InnerDecalObject,
     TextCommonOption,
-    ECActionEvent
+    ECActionEvent,
+    ECUnitOption
 } from '../../util/types';
 import Element, { ElementProps, ElementTextConfig } from 'zrender/src/Element';
 import prepareCartesian2d from '../../coord/cartesian/prepareCustom';
@@ -64,6 +65,7 @@ import prepareGeo from '../../coord/geo/prepareCustom';
 import prepareSingleAxis from '../../coord/single/prepareCustom';
 import preparePolar from '../../coord/polar/prepareCustom';
 import prepareCalendar from '../../coord/calendar/prepareCustom';
+import prepareMatrix from '../../coord/matrix/prepareCustom';
 import List, { DefaultDataVisual } from '../../data/List';
 import GlobalModel from '../../model/Global';
 import { makeInner, normalizeToArray } from '../../util/model';
@@ -95,6 +97,10 @@ import { PatternObject } from 'zrender/src/graphic/Pattern';
 import { createOrUpdatePatternFromDecal } from '../../util/decal';
 import { ZRenderType } from 'zrender/src/zrender';
 import { EChartsExtensionInstallRegisters } from '../../extension';
+import { getCustomSeries, CustomSeriesRegistration } from './customSeriesRegistry';
+import LegendVisualProvider from '../../visual/LegendVisualProvider';
+import dataFilter from '../../processor/dataFilter';
+import ComponentModel, { ComponentModelConstructor } from '../../model/Component';
 
 
 const inner = makeInner<{
@@ -277,7 +283,7 @@ export interface CustomSeriesRenderItemParams {
     dataInsideLength: number;
     encode: WrapEncodeDefRet;
 }
-type CustomSeriesRenderItem = (
+export type CustomSeriesRenderItem = (
     params: CustomSeriesRenderItemParams,
     api: CustomSeriesRenderItemAPI
 ) => CustomElementOption;
@@ -294,14 +300,16 @@ export interface CustomSeriesOption extends
     SeriesOnPolarOptionMixin,
     SeriesOnSingleOptionMixin,
     SeriesOnGeoOptionMixin,
-    SeriesOnCalendarOptionMixin {
+    SeriesOnCalendarOptionMixin,
+    SeriesOnMatrixOptionMixin {
 
     type?: 'custom'
 
     // If set as 'none', do not depends on coord sys.
     coordinateSystem?: string | 'none';
 
-    renderItem?: CustomSeriesRenderItem;
+    // Can be the type registered by `registerCustomSeries`.
+    renderItem?: CustomSeriesRenderItem | string;
 
     // Only works on polar and cartesian2d coordinate system.
     clip?: boolean;
@@ -411,7 +419,8 @@ const prepareCustoms: Dictionary<PrepareCustomInfo> = {
     geo: prepareGeo,
     singleAxis: prepareSingleAxis,
     polar: preparePolar,
-    calendar: prepareCalendar
+    calendar: prepareCalendar,
+    matrix: prepareMatrix
 };
 
 class CustomSeriesModel extends SeriesModel<CustomSeriesOption> {
@@ -419,7 +428,7 @@ class CustomSeriesModel extends SeriesModel<CustomSeriesOption> {
     static type = 'series.custom';
     readonly type = CustomSeriesModel.type;
 
-    static dependencies = ['grid', 'polar', 'geo', 'singleAxis', 'calendar'];
+    static dependencies = ['grid', 'polar', 'geo', 'singleAxis', 'calendar', 'matrix'];
 
     // preventAutoZ = true;
 
@@ -448,6 +457,26 @@ class CustomSeriesModel extends SeriesModel<CustomSeriesOption> {
         // geoIndex: 0,
     };
 
+    init(option: CustomSeriesOption, parentModel: Model, ecModel: GlobalModel): void {
+        super.init(option, parentModel, ecModel);
+
+        const registration = this.getRegistration();
+        if (registration && registration.legendVisualProvider) {
+            // Enable legend selection for each data item, like pie.
+            this.useColorPaletteOnData = true;
+            this.legendVisualProvider = new LegendVisualProvider(
+                bind(this.getData, this), bind(this.getRawData, this)
+            );
+        }
+    }
+
+    mergeDefaultAndTheme(option: CustomSeriesOption, ecModel: GlobalModel): void {
+        const registration = isString(option.renderItem) && getCustomSeries(option.renderItem);
+        registration && registration.defaultOption
+            && merge(option, clone(registration.defaultOption));
+        super.mergeDefaultAndTheme(option, ecModel);
+    }
+
     optionUpdated() {
         this.currentZLevel = this.get('zlevel', true);
         this.currentZ = this.get('z', true);
@@ -457,6 +486,37 @@ class CustomSeriesModel extends SeriesModel<CustomSeriesOption> {
         return createListFromArray(this.getSource(), this);
     }
 
+    /**
+     * Get the registration if `renderItem` is a registered type.
+     */
+    getRegistration(): CustomSeriesRegistration {
+        const renderItem = this.get('renderItem');
+        return isString(renderItem) ? getCustomSeries(renderItem) : null;
+    }
+
+    getRenderItem(): CustomSeriesRenderItem {
+        const renderItem = this.get('renderItem');
+        if (isString(renderItem)) {
+            const registration = getCustomSeries(renderItem);
+            if (__DEV__ && !registration) {
+                warn('Custom series type "' + renderItem + '" is not registered.');
+            }
+            return registration && registration.renderItem;
+        }
+        return renderItem;
+    }
+
+    formatTooltip(
+        dataIndex: number,
+        multipleSeries?: boolean,
+        dataType?: SeriesDataType
+    ): ReturnType<SeriesModel['formatTooltip']> {
+        const registration = this.getRegistration();
+        return registration && registration.formatTooltip
+            ? registration.formatTooltip(this.getDataParams(dataIndex, dataType))
+            : super.formatTooltip(dataIndex, multipleSeries, dataType);
+    }
+
     getDataParams(dataIndex: number, dataType?: SeriesDataType, el?: Element): CallbackDataParams & {
         info: CustomExtraElementInfo
     } {
@@ -1588,7 +1648,7 @@ function makeRenderItem(
     ecModel: GlobalModel,
     api: ExtensionAPI
 ) {
-    const renderItem = customSeries.get('renderItem');
+    const renderItem = customSeries.getRenderItem();
     const coordSys = customSeries.coordinateSystem;
     let prepareResult = {} as ReturnType<PrepareCustomInfo>;
 
@@ -2779,7 +2839,35 @@ function copyPropsWhenDivided(
     tarPath.z2 = srcPath.z2;
 }
 
+/**
+ * Convert `{type: 'violin'}` to `{type: 'custom', renderItem: 'violin'}`
+ * if 'violin' is registered by `registerCustomSeries`.
+ */
+function customSeriesTypePreprocessor(option: ECUnitOption): void {
+    each(normalizeToArray(option.series) as SeriesOption[], function (seriesOpt) {
+        const type = seriesOpt && seriesOpt.type;
+        if (type && type !== 'custom' && getCustomSeries(type)
+            && !(ComponentModel as ComponentModelConstructor).getClass('series', type)
+        ) {
+            seriesOpt.type = 'custom';
+            (seriesOpt as CustomSeriesOption).renderItem = type;
+        }
+    });
+}
+
+const customDataFilter = dataFilter('custom');
+
 export function install(registers: EChartsExtensionInstallRegisters) {
     registers.registerChartView(CustomSeriesView);
     registers.registerSeriesModel(CustomSeriesModel);
+    registers.registerPreprocessor(customSeriesTypePreprocessor);
+    // Only for the registered types that list data items in legend.
+    registers.registerProcessor({
+        seriesType: 'custom',
+        reset(seriesModel: CustomSeriesModel, ecModel, api, payload) {
+            if (seriesModel.legendVisualProvider) {
+                return customDataFilter.reset(seriesModel, ecModel, api, payload);
+            }
+        }
+    });
 }
\ No newline at end of file
@@ -50,6 +50,7 @@ import Graph from '../../data/Graph';
 import GlobalModel from '../../model/Global';
 import { VectorArray } from 'zrender/src/core/vector';
 import { ForceLayoutInstance } from './forceLayout';
+import { ForceLayoutRunner } from './forceHelper';
 import { LineDataVisual } from '../../visual/commonVisualTypes';
 import { createTooltipMarkup } from '../../component/tooltip/tooltipMarkup';
 import { defaultSeriesFormatTooltip } from '../../component/tooltip/seriesFormatTooltip';
@@ -136,6 +137,14 @@ export interface GraphCategoryItemOption extends SymbolOptionMixin,
     value?: OptionDataValue
 }
 
+/**
+ * A string or an item without `children` refers to a graph node by id (which is name by default).
+ */
+export type GraphEdgeBundlingHierarchyItemOption = string | {
+    name?: string
+    children?: GraphEdgeBundlingHierarchyItemOption[]
+};
+
 export interface GraphSeriesOption extends SeriesOption,
     SeriesOnCartesianOptionMixin, SeriesOnPolarOptionMixin, SeriesOnCalendarOptionMixin,
     SeriesOnGeoOptionMixin, SeriesOnSingleOptionMixin,
@@ -219,8 +228,43 @@ export interface GraphSeriesOption extends SeriesOption,
 
         // Edge length. Can be an array to represent range.
         edgeLength?: number | number[]
+        // Multiplier of the spring force of edges.
+        edgeStrength?: number
+
+        // Barnes-Hut approximation of repulsion, 0 means exact (but slow for large graph).
+        theta?: number
+        // Nodes closer than twice of the radius are pushed apart. 0 means no collision.
+        collisionRadius?: number
+        // Translate the nodes to keep their centroid at the center.
+        centering?: boolean
 
         layoutAnimation?: boolean
+
+        // Run the ticks elsewhere, like `createForceLayoutWorkerRunner(worker)` to run in web worker.
+        runner?: ForceLayoutRunner
+    }
+
+    // Render edges as bundled polylines. Edge symbols and labels are not supported in this case.
+    edgeBundling?: {
+        show?: boolean
+        // 'hierarchical': Bundle edges through the path between their nodes in `hierarchy`.
+        // 'force': Force directed edge bundling, which needs no hierarchy.
+        // By default 'hierarchical' in circular layout, otherwise 'force'.
+        type?: 'hierarchical' | 'force'
+        // 'category': Nodes are grouped by their categories.
+        // Or a tree whose leaves are graph nodes.
+        // Only for 'hierarchical'.
+        hierarchy?: 'category' | GraphEdgeBundlingHierarchyItemOption[]
+        // In range [0, 1]. 0 means straight lines.
+        strength?: number
+
+        // Only for 'force'.
+        // Number of cycles, where the subdivision points of edges are doubled in each cycle.
+        cycles?: number
+        // Iterations in the first cycle.
+        iterations?: number
+        // Min compatibility in range [0, 1] of edges that attract each other.
+        compatibility?: number
     }
 }
 
@@ -435,10 +479,25 @@ class GraphSeriesModel extends SeriesModel<GraphSeriesOption> {
 
             // Edge length. Can be an array to represent range.
             edgeLength: 30,
+            edgeStrength: 1,
+
+            theta: 0.9,
+            collisionRadius: 0,
+            centering: false,
 
             layoutAnimation: true
         },
 
+        edgeBundling: {
+            show: false,
+            type: null,
+            hierarchy: 'category',
+            strength: 0.85,
+            cycles: 6,
+            iterations: 60,
+            compatibility: 0.6
+        },
+
         left: 'center',
         top: 'center',
         // right: null,
@@ -35,7 +35,9 @@ import View from '../../coord/View';
 import Symbol from '../helper/Symbol';
 import List from '../../data/List';
 import Line from '../helper/Line';
+import Polyline from '../helper/Polyline';
 import { getECData } from '../../util/innerStore';
+import { isEdgeBundlingEnabled, bundleEdges } from './edgeBundlingHelper';
 
 function isViewCoordSys(coordSys: CoordinateSystem): coordSys is View {
     return coordSys.type === 'view';
@@ -60,6 +62,13 @@ class GraphView extends ChartView {
 
     private _layouting: boolean;
 
+    // Steps of previous iteration may be called back asynchronously (like from worker),
+    // which should be ignored.
+    private _layoutIterationId = 0;
+
+    // If edges are rendered as bundled polylines.
+    private _edgeBundled: boolean;
+
     init(ecModel: GlobalModel, api: ExtensionAPI) {
         const symbolDraw = new SymbolDraw();
         const lineDraw = new LineDraw();
@@ -75,6 +84,7 @@ class GraphView extends ChartView {
 
         this._symbolDraw = symbolDraw;
         this._lineDraw = lineDraw;
+        this._edgeBundled = false;
 
         this._firstRender = true;
     }
@@ -85,7 +95,7 @@ class GraphView extends ChartView {
         this._model = seriesModel;
 
         const symbolDraw = this._symbolDraw;
-        const lineDraw = this._lineDraw;
+        const lineDraw = this._updateLineDraw(seriesModel);
 
         const group = this.group;
 
@@ -102,7 +112,7 @@ class GraphView extends ChartView {
             }
         }
         // Fix edge contact point with node
-        adjustEdge(seriesModel.getGraph(), getNodeGlobalScale(seriesModel));
+        this._adjustEdge(seriesModel);
 
         const data = seriesModel.getData();
         symbolDraw.updateData(data as ListForSymbolDraw);
@@ -207,17 +217,33 @@ class GraphView extends ChartView {
     }
 
     dispose() {
+        this._stopForceLayout();
         this._controller && this._controller.dispose();
         this._controllerHost = null;
     }
 
+    _stopForceLayout() {
+        clearTimeout(this._layoutTimeout);
+        // Ignore the steps still in flight, like the ticks posted back from worker.
+        this._layoutIterationId++;
+        this._layouting = false;
+        const forceLayout = this._model && this._model.forceLayout;
+        forceLayout && forceLayout.dispose && forceLayout.dispose();
+    }
+
     _startForceLayoutIteration(
         forceLayout: GraphSeriesModel['forceLayout'],
         layoutAnimation?: boolean
     ) {
         const self = this;
+        const iterationId = ++this._layoutIterationId;
         (function step() {
             forceLayout.step(function (stopped) {
+                if (iterationId !== self._layoutIterationId) {
+                    return;
+                }
+                // Bundle edges only when the layout is stable.
+                self._edgeBundled && stopped && bundleEdges(self._model);
                 self.updateLayout(self._model);
                 (self._layouting = !stopped) && (
                     layoutAnimation
@@ -274,7 +300,7 @@ class GraphView extends ChartView {
                     originY: e.originY
                 });
                 this._updateNodeAndLinkScale();
-                adjustEdge(seriesModel.getGraph(), getNodeGlobalScale(seriesModel));
+                this._adjustEdge(seriesModel);
                 this._lineDraw.updateLayout();
                 // Only update label layout on zoom
                 api.updateLabelLayout();
@@ -292,14 +318,35 @@ class GraphView extends ChartView {
         });
     }
 
+    _updateLineDraw(seriesModel: GraphSeriesModel) {
+        let lineDraw = this._lineDraw;
+        const edgeBundled = isEdgeBundlingEnabled(seriesModel);
+        if (edgeBundled !== this._edgeBundled) {
+            lineDraw.remove();
+            this.group.remove(lineDraw.group);
+            lineDraw = this._lineDraw = new LineDraw(edgeBundled ? Polyline : Line);
+            this.group.add(lineDraw.group);
+            this._edgeBundled = edgeBundled;
+        }
+        return lineDraw;
+    }
+
+    _adjustEdge(seriesModel: GraphSeriesModel) {
+        // Bundled edges are polylines, where edge symbols are not supported.
+        if (!this._edgeBundled) {
+            adjustEdge(seriesModel.getGraph(), getNodeGlobalScale(seriesModel));
+        }
+    }
+
     updateLayout(seriesModel: GraphSeriesModel) {
-        adjustEdge(seriesModel.getGraph(), getNodeGlobalScale(seriesModel));
+        this._adjustEdge(seriesModel);
 
         this._symbolDraw.updateLayout();
         this._lineDraw.updateLayout();
     }
 
     remove(ecModel: GlobalModel, api: ExtensionAPI) {
+        this._stopForceLayout();
         this._symbolDraw && this._symbolDraw.remove();
         this._lineDraw && this._lineDraw.remove();
     }
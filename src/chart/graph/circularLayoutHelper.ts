@@ -21,10 +21,11 @@
 import * as vec2 from 'zrender/src/core/vector';
 import {getSymbolSize, getNodeGlobalScale} from './graphHelper';
 import GraphSeriesModel, { GraphEdgeItemOption } from './GraphSeries';
-import Graph from '../../data/Graph';
+import { GraphNode } from '../../data/Graph';
 import List from '../../data/List';
 import * as zrUtil from 'zrender/src/core/util';
 import {getCurvenessForEdge} from '../helper/multipleGraphEdgeHelper';
+import {getCircularNodeOrder} from './edgeBundlingHelper';
 
 const PI = Math.PI;
 
@@ -77,7 +78,7 @@ export function circularLayout(
         return;
     }
 
-    _layoutNodesBasedOn[basedOn](seriesModel, graph, nodeData, r, cx, cy, count);
+    _layoutNodesBasedOn[basedOn](seriesModel, getCircularNodeOrder(seriesModel), nodeData, r, cx, cy, count);
 
     graph.eachEdge(function (edge, index) {
         let curveness = zrUtil.retrieve3(
@@ -104,7 +105,7 @@ export function circularLayout(
 interface LayoutNode {
     (
         seriesModel: GraphSeriesModel,
-        graph: Graph,
+        nodes: GraphNode[],
         nodeData: List,
         r: number,
         cx: number,
@@ -115,12 +116,12 @@ interface LayoutNode {
 
 const _layoutNodesBasedOn: Record<'value' | 'symbolSize', LayoutNode> = {
 
-    value(seriesModel, graph, nodeData, r, cx, cy, count) {
+    value(seriesModel, nodes, nodeData, r, cx, cy, count) {
         let angle = 0;
         const sum = nodeData.getSum('value');
         const unitAngle = Math.PI * 2 / (sum || count);
 
-        graph.eachNode(function (node) {
+        zrUtil.each(nodes, function (node) {
             const value = node.getValue('value') as number;
             const radianHalf = unitAngle * (sum ? value : 1) / 2;
 
@@ -133,13 +134,13 @@ const _layoutNodesBasedOn: Record<'value' | 'symbolSize', LayoutNode> = {
         });
     },
 
-    symbolSize(seriesModel, graph, nodeData, r, cx, cy, count) {
+    symbolSize(seriesModel, nodes, nodeData, r, cx, cy, count) {
         let sumRadian = 0;
         _symbolRadiansHalf.length = count;
 
         const nodeScale = getNodeGlobalScale(seriesModel);
 
-        graph.eachNode(function (node) {
+        zrUtil.each(nodes, function (node) {
             let symbolSize = getSymbolSize(node);
 
             // Normally this case will not happen, but we still add
@@ -159,7 +160,7 @@ const _layoutNodesBasedOn: Record<'value' | 'symbolSize', LayoutNode> = {
         const halfRemainRadian = (2 * PI - sumRadian) / count / 2;
 
         let angle = 0;
-        graph.eachNode(function (node) {
+        zrUtil.each(nodes, function (node) {
             const radianHalf = halfRemainRadian + _symbolRadiansHalf[node.dataIndex];
 
             angle += radianHalf;
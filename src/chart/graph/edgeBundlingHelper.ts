@@ -0,0 +1,505 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+/**
+ * Edge bundling of graph, where the edges are rendered as polylines.
+ *
+ * 'hierarchical':
+ *     Holten, D. (2006). Hierarchical Edge Bundles: Visualization of Adjacency
+ *     Relations in Hierarchical Data. The control points of an edge are the nodes
+ *     on the path between its end nodes in the hierarchy.
+ * 'force':
+ *     Holten, D., van Wijk, J. J. (2009). Force-Directed Edge Bundling for Graph
+ *     Visualization. Compatible edges are subdivided and attracted to each other.
+ */
+
+import * as zrUtil from 'zrender/src/core/util';
+import * as vec2 from 'zrender/src/core/vector';
+import GraphSeriesModel, { GraphNodeItemOption, GraphEdgeBundlingHierarchyItemOption } from './GraphSeries';
+import Graph, { GraphNode, GraphEdge } from '../../data/Graph';
+
+interface HierarchyNode {
+    parent: HierarchyNode
+    children: HierarchyNode[]
+    depth: number
+    // Only leaves have `graphNode`.
+    graphNode?: GraphNode
+    point?: number[]
+}
+
+interface Hierarchy {
+    root: HierarchyNode
+    // Leaves in order of depth first traversal.
+    leaves: HierarchyNode[]
+    // Leaves by node dataIndex.
+    leafMap: HierarchyNode[]
+}
+
+// Samples on each segment of B-spline.
+const HIERARCHICAL_SPLINE_SAMPLES = 8;
+const FORCE_SPLINE_SAMPLES = 2;
+// Spring constant of force directed bundling.
+const SPRING_CONSTANT = 0.1;
+// Initial step size in the unit of 1/1000 of the diagonal of the graph.
+const INIT_STEP_SIZE = 0.1;
+const ITERATION_RATE = 2 / 3;
+const EPSILON = 1e-6;
+
+export function isEdgeBundlingEnabled(seriesModel: GraphSeriesModel): boolean {
+    return !!seriesModel.get(['edgeBundling', 'show']);
+}
+
+export function getEdgeBundlingType(seriesModel: GraphSeriesModel): 'hierarchical' | 'force' {
+    return seriesModel.get(['edgeBundling', 'type'])
+        || (seriesModel.get('layout') === 'circular' ? 'hierarchical' : 'force');
+}
+
+/**
+ * Nodes in circular layout should be placed in the order of leaves of the hierarchy,
+ * otherwise the edges in the same group can not be bundled together.
+ */
+export function getCircularNodeOrder(seriesModel: GraphSeriesModel): GraphNode[] {
+    const graph = seriesModel.getGraph();
+    if (isEdgeBundlingEnabled(seriesModel) && getEdgeBundlingType(seriesModel) === 'hierarchical') {
+        return zrUtil.map(buildHierarchy(seriesModel, graph).leaves, function (leaf) {
+            return leaf.graphNode;
+        });
+    }
+    const nodes: GraphNode[] = [];
+    graph.eachNode(function (node) {
+        nodes.push(node);
+    });
+    return nodes;
+}
+
+/**
+ * Set the layout of edges to the points of bundled polyline.
+ */
+export function bundleEdges(seriesModel: GraphSeriesModel) {
+    const graph = seriesModel.getGraph();
+    const strength = zrUtil.retrieve2(seriesModel.get(['edgeBundling', 'strength']), 0.85);
+
+    if (getEdgeBundlingType(seriesModel) === 'hierarchical') {
+        const hierarchy = buildHierarchy(seriesModel, graph);
+        layoutHierarchy(seriesModel, hierarchy);
+        graph.eachEdge(function (edge) {
+            const path = getHierarchyPath(
+                hierarchy.leafMap[edge.node1.dataIndex],
+                hierarchy.leafMap[edge.node2.dataIndex]
+            );
+            const controlPoints = zrUtil.map(path, function (hierarchyNode) {
+                return hierarchyNode.point;
+            });
+            edge.setLayout(sampleBSpline(
+                straightenPoints(controlPoints, strength), HIERARCHICAL_SPLINE_SAMPLES
+            ));
+        });
+    }
+    else {
+        const edges: GraphEdge[] = [];
+        const segments: number[][][] = [];
+        graph.eachEdge(function (edge) {
+            edges.push(edge);
+            segments.push([
+                vec2.clone(edge.node1.getLayout()),
+                vec2.clone(edge.node2.getLayout())
+            ]);
+        });
+        const bundlingModel = seriesModel.getModel('edgeBundling');
+        const paths = forceDirectedBundle(segments, {
+            cycles: bundlingModel.get('cycles'),
+            iterations: bundlingModel.get('iterations'),
+            compatibility: bundlingModel.get('compatibility')
+        });
+        for (let i = 0; i < edges.length; i++) {
+            edges[i].setLayout(sampleBSpline(
+                straightenPoints(paths[i], strength), FORCE_SPLINE_SAMPLES
+            ));
+        }
+    }
+}
+
+/**
+ * Set the layout of edges to straight lines without control points, which is
+ * used before the bundling is performed.
+ */
+export function resetEdges(graph: Graph) {
+    graph.eachEdge(function (edge) {
+        edge.setLayout([
+            vec2.clone(edge.node1.getLayout()),
+            vec2.clone(edge.node2.getLayout())
+        ]);
+    });
+}
+
+function createHierarchyNode(parent: HierarchyNode): HierarchyNode {
+    const hierarchyNode: HierarchyNode = {
+        parent: parent,
+        children: [],
+        depth: parent ? parent.depth + 1 : 0
+    };
+    parent && parent.children.push(hierarchyNode);
+    return hierarchyNode;
+}
+
+/**
+ * `hierarchy` can be:
+ * 'category': Nodes are grouped by categories.
+ * Tree items: Leaf items (a string or an item without `children`) refer to
+ *     graph nodes by id (which is name by default).
+ * Nodes not in the hierarchy are attached to the root.
+ */
+function buildHierarchy(seriesModel: GraphSeriesModel, graph: Graph): Hierarchy {
+    const hierarchyOption = seriesModel.get(['edgeBundling', 'hierarchy']);
+    const root = createHierarchyNode(null);
+    const leaves: HierarchyNode[] = [];
+    const leafMap: HierarchyNode[] = [];
+
+    function addLeaf(parent: HierarchyNode, graphNode: GraphNode) {
+        if (graphNode && graphNode.dataIndex >= 0 && !leafMap[graphNode.dataIndex]) {
+            const leaf = createHierarchyNode(parent);
+            leaf.graphNode = graphNode;
+            leafMap[graphNode.dataIndex] = leaf;
+        }
+    }
+
+    function addItems(parent: HierarchyNode, items: GraphEdgeBundlingHierarchyItemOption[]) {
+        zrUtil.each(items, function (item) {
+            if (zrUtil.isString(item)) {
+                addLeaf(parent, graph.getNodeById(item));
+            }
+            else if (item && item.children && item.children.length) {
+                addItems(createHierarchyNode(parent), item.children);
+            }
+            else if (item && item.name != null) {
+                addLeaf(parent, graph.getNodeById(item.name));
+            }
+        });
+    }
+
+    if (zrUtil.isArray(hierarchyOption)) {
+        addItems(root, hierarchyOption);
+    }
+    else {
+        const categoryMap = zrUtil.createHashMap<HierarchyNode>();
+        graph.eachNode(function (node) {
+            const category = node.getModel<GraphNodeItemOption>().get('category');
+            if (category != null) {
+                const key = category + '';
+                addLeaf(categoryMap.get(key) || categoryMap.set(key, createHierarchyNode(root)), node);
+            }
+        });
+    }
+    graph.eachNode(function (node) {
+        addLeaf(root, node);
+    });
+
+    (function collectLeaves(hierarchyNode: HierarchyNode) {
+        hierarchyNode.graphNode && leaves.push(hierarchyNode);
+        zrUtil.each(hierarchyNode.children, collectLeaves);
+    })(root);
+
+    return {
+        root: root,
+        leaves: leaves,
+        leafMap: leafMap
+    };
+}
+
+/**
+ * Position of non-leaf nodes:
+ * In circular layout, they are placed radially by depth, in the direction of their leaves.
+ * Otherwise they are placed at the centroid of their leaves.
+ */
+function layoutHierarchy(seriesModel: GraphSeriesModel, hierarchy: Hierarchy) {
+    const nodeData = seriesModel.getData();
+    const isCircular = seriesModel.get('layout') === 'circular';
+    const center = [nodeData.getLayout('cx'), nodeData.getLayout('cy')];
+    let radius = 0;
+    let maxDepth = 0;
+
+    zrUtil.each(hierarchy.leaves, function (leaf) {
+        leaf.point = vec2.clone(leaf.graphNode.getLayout());
+        if (isCircular) {
+            radius += vec2.dist(leaf.point, center) / hierarchy.leaves.length;
+        }
+        maxDepth = Math.max(maxDepth, leaf.depth);
+    });
+
+    // Returns the sum of leaf points (or directions in circular layout) and the leaf count.
+    (function layoutNode(hierarchyNode: HierarchyNode): number[] {
+        if (hierarchyNode.graphNode) {
+            if (isCircular) {
+                const dir = vec2.sub([], hierarchyNode.point, center);
+                return vec2.normalize(dir, dir).concat(1);
+            }
+            return hierarchyNode.point.concat(1);
+        }
+        const sum = [0, 0, 0];
+        zrUtil.each(hierarchyNode.children, function (child) {
+            const childSum = layoutNode(child);
+            sum[0] += childSum[0];
+            sum[1] += childSum[1];
+            sum[2] += childSum[2];
+        });
+        if (isCircular) {
+            const dir = [sum[0], sum[1]];
+            const len = vec2.len(dir);
+            hierarchyNode.point = len > EPSILON
+                ? vec2.scaleAndAdd([], center, dir, radius * hierarchyNode.depth / maxDepth / len)
+                : center.slice();
+        }
+        else {
+            hierarchyNode.point = sum[2] ? [sum[0] / sum[2], sum[1] / sum[2]] : [NaN, NaN];
+        }
+        return sum;
+    })(hierarchy.root);
+}
+
+/**
+ * Path from `from` up to the lowest common ancestor and down to `to`.
+ */
+function getHierarchyPath(from: HierarchyNode, to: HierarchyNode): HierarchyNode[] {
+    const upPath: HierarchyNode[] = [];
+    const downPath: HierarchyNode[] = [];
+    while (from.depth > to.depth) {
+        upPath.push(from);
+        from = from.parent;
+    }
+    while (to.depth > from.depth) {
+        downPath.push(to);
+        to = to.parent;
+    }
+    while (from !== to) {
+        upPath.push(from);
+        downPath.push(to);
+        from = from.parent;
+        to = to.parent;
+    }
+    upPath.push(from);
+    // Self loop.
+    if (upPath.length === 1) {
+        upPath.push(from);
+    }
+    return upPath.concat(downPath.reverse());
+}
+
+/**
+ * Move the control points towards the straight line between the end points.
+ * `strength` 1 means no change and 0 means straight line.
+ */
+function straightenPoints(points: number[][], strength: number): number[][] {
+    const len = points.length;
+    const start = points[0];
+    const end = points[len - 1];
+    return zrUtil.map(points, function (point, idx) {
+        const t = idx / (len - 1);
+        return [
+            strength * point[0] + (1 - strength) * (start[0] + t * (end[0] - start[0])),
+            strength * point[1] + (1 - strength) * (start[1] + t * (end[1] - start[1]))
+        ];
+    });
+}
+
+/**
+ * Sample uniform cubic B-spline of the control points. End points are repeated
+ * so that the curve passes through them.
+ */
+function sampleBSpline(controlPoints: number[][], segmentSamples: number): number[][] {
+    const len = controlPoints.length;
+    if (len < 3) {
+        return zrUtil.map(controlPoints, vec2.clone);
+    }
+    const first = controlPoints[0];
+    const last = controlPoints[len - 1];
+    const pts = [first, first].concat(controlPoints, [last, last]);
+    const result = [vec2.clone(first)];
+
+    for (let i = 0; i < pts.length - 3; i++) {
+        const p0 = pts[i];
+        const p1 = pts[i + 1];
+        const p2 = pts[i + 2];
+        const p3 = pts[i + 3];
+        for (let k = 1; k <= segmentSamples; k++) {
+            const t = k / segmentSamples;
+            const t2 = t * t;
+            const t3 = t2 * t;
+            const w0 = (1 - t) * (1 - t) * (1 - t) / 6;
+            const w1 = (3 * t3 - 6 * t2 + 4) / 6;
+            const w2 = (-3 * t3 + 3 * t2 + 3 * t + 1) / 6;
+            const w3 = t3 / 6;
+            result.push([
+                w0 * p0[0] + w1 * p1[0] + w2 * p2[0] + w3 * p3[0],
+                w0 * p0[1] + w1 * p1[1] + w2 * p2[1] + w3 * p3[1]
+            ]);
+        }
+    }
+    // Avoid precision error.
+    result[result.length - 1] = vec2.clone(last);
+    return result;
+}
+
+/**
+ * Product of angle, scale and position compatibility.
+ */
+function edgeCompatibility(a: number[][], b: number[][]): number {
+    const ax = a[1][0] - a[0][0];
+    const ay = a[1][1] - a[0][1];
+    const bx = b[1][0] - b[0][0];
+    const by = b[1][1] - b[0][1];
+    const lenA = Math.sqrt(ax * ax + ay * ay);
+    const lenB = Math.sqrt(bx * bx + by * by);
+    if (lenA < EPSILON || lenB < EPSILON) {
+        return 0;
+    }
+    const angleCompat = Math.abs(ax * bx + ay * by) / (lenA * lenB);
+    const lenAvg = (lenA + lenB) / 2;
+    const scaleCompat = 2 / (lenAvg / Math.min(lenA, lenB) + Math.max(lenA, lenB) / lenAvg);
+    const midDist = Math.sqrt(
+        Math.pow((a[0][0] + a[1][0] - b[0][0] - b[1][0]) / 2, 2)
+        + Math.pow((a[0][1] + a[1][1] - b[0][1] - b[1][1]) / 2, 2)
+    );
+    const positionCompat = lenAvg / (lenAvg + midDist);
+    return angleCompat * scaleCompat * positionCompat;
+}
+
+/**
+ * Resample the polyline to have `count` inner points with equal spacing.
+ */
+function subdividePath(path: number[][], count: number): number[][] {
+    let totalLen = 0;
+    for (let i = 1; i < path.length; i++) {
+        totalLen += vec2.dist(path[i - 1], path[i]);
+    }
+    const segLen = totalLen / (count + 1);
+    const result = [vec2.clone(path[0])];
+    let remain = segLen;
+    for (let i = 1; i < path.length && result.length <= count; i++) {
+        const prev = path[i - 1];
+        const curr = path[i];
+        const dist = vec2.dist(prev, curr);
+        let offset = 0;
+        while (dist - offset >= remain && result.length <= count) {
+            offset += remain;
+            result.push(vec2.lerp([], prev, curr, dist > 0 ? offset / dist : 0));
+            remain = segLen;
+        }
+        remain -= dist - offset;
+    }
+    // Fill the rest caused by float precision.
+    while (result.length <= count) {
+        result.push(vec2.clone(path[path.length - 1]));
+    }
+    result.push(vec2.clone(path[path.length - 1]));
+    return result;
+}
+
+function forceDirectedBundle(
+    segments: number[][][],
+    opt: {
+        cycles: number
+        iterations: number
+        compatibility: number
+    }
+): number[][][] {
+    const count = segments.length;
+    const compatibleList: number[][] = [];
+    // If the compatible edge is in the opposite direction.
+    const reversedList: boolean[][] = [];
+    const edgeLengths: number[] = [];
+
+    let xMin = Infinity;
+    let yMin = Infinity;
+    let xMax = -Infinity;
+    let yMax = -Infinity;
+    for (let i = 0; i < count; i++) {
+        const seg = segments[i];
+        compatibleList.push([]);
+        reversedList.push([]);
+        edgeLengths.push(vec2.dist(seg[0], seg[1]));
+        for (let k = 0; k < 2; k++) {
+            xMin = Math.min(xMin, seg[k][0]);
+            yMin = Math.min(yMin, seg[k][1]);
+            xMax = Math.max(xMax, seg[k][0]);
+            yMax = Math.max(yMax, seg[k][1]);
+        }
+    }
+    for (let i = 0; i < count; i++) {
+        for (let j = i + 1; j < count; j++) {
+            if (edgeCompatibility(segments[i], segments[j]) >= opt.compatibility) {
+                const a = segments[i];
+                const b = segments[j];
+                const reversed = (a[1][0] - a[0][0]) * (b[1][0] - b[0][0])
+                    + (a[1][1] - a[0][1]) * (b[1][1] - b[0][1]) < 0;
+                compatibleList[i].push(j);
+                reversedList[i].push(reversed);
+                compatibleList[j].push(i);
+                reversedList[j].push(reversed);
+            }
+        }
+    }
+
+    const diagonal = Math.sqrt((xMax - xMin) * (xMax - xMin) + (yMax - yMin) * (yMax - yMin)) || 1;
+    let stepSize = INIT_STEP_SIZE * diagonal / 1000;
+    let iterations = opt.iterations;
+    let subdivision = 1;
+    let paths = segments;
+    const force = [0, 0];
+
+    for (let cycle = 0; cycle < opt.cycles; cycle++) {
+        const subdividedPaths: number[][][] = [];
+        for (let i = 0; i < count; i++) {
+            subdividedPaths.push(subdividePath(paths[i], subdivision));
+        }
+        paths = subdividedPaths;
+        for (let iter = 0; iter < iterations; iter++) {
+            const newPaths: number[][][] = [];
+            for (let i = 0; i < count; i++) {
+                const path = paths[i];
+                const newPath = [path[0]];
+                const springConstant = SPRING_CONSTANT / ((edgeLengths[i] || 1) * (subdivision + 1));
+                const compatibles = compatibleList[i];
+                for (let k = 1; k <= subdivision; k++) {
+                    const p = path[k];
+                    force[0] = springConstant * (path[k - 1][0] + path[k + 1][0] - 2 * p[0]);
+                    force[1] = springConstant * (path[k - 1][1] + path[k + 1][1] - 2 * p[1]);
+                    for (let c = 0; c < compatibles.length; c++) {
+                        const q = paths[compatibles[c]][reversedList[i][c] ? subdivision + 1 - k : k];
+                        const dx = q[0] - p[0];
+                        const dy = q[1] - p[1];
+                        const dist = Math.sqrt(dx * dx + dy * dy);
+                        if (dist > EPSILON) {
+                            force[0] += dx / dist;
+                            force[1] += dy / dist;
+                        }
+                    }
+                    newPath.push([p[0] + stepSize * force[0], p[1] + stepSize * force[1]]);
+                }
+                newPath.push(path[subdivision + 1]);
+                newPaths.push(newPath);
+            }
+            paths = newPaths;
+        }
+        stepSize /= 2;
+        subdivision *= 2;
+        iterations = Math.max(1, Math.round(iterations * ITERATION_RATE));
+    }
+
+    return paths;
+}
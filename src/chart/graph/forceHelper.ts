@@ -32,7 +32,10 @@ import { RectLike } from 'zrender/src/core/BoundingRect';
 
 const scaleAndAdd = vec2.scaleAndAdd;
 
-interface InputNode {
+// Max depth of quad tree, in case that many nodes are at the same position.
+const MAX_QUAD_TREE_DEPTH = 32;
+
+export interface InputNode {
     p?: vec2.VectorArray
     fixed?: boolean
     /**
@@ -44,11 +47,13 @@ interface InputNode {
      */
     rep: number
 }
-interface LayoutNode extends InputNode {
+export interface LayoutNode extends InputNode {
     pp?: vec2.VectorArray
     edges?: LayoutEdge[]
+    // Index in the node list.
+    idx?: number
 }
-interface InputEdge {
+export interface InputEdge {
     ignoreForceLayout?: boolean
     n1: InputNode
     n2: InputNode
@@ -62,16 +67,261 @@ interface LayoutEdge extends InputEdge {
     n1: LayoutNode
     n2: LayoutNode
 }
-interface LayoutCfg {
+export interface LayoutCfg {
     gravity?: number
     friction?: number
     rect?: RectLike
+    /**
+     * Barnes-Hut approximation parameter. A group of far nodes is regarded as one
+     * node if `cellSize / distance < theta`. 0 means exact pairwise repulsion.
+     */
+    theta?: number
+    /**
+     * Nodes closer than twice of the radius are pushed apart. 0 means no collision.
+     */
+    collisionRadius?: number
+    /**
+     * Multiplier of the edge spring force.
+     */
+    edgeStrength?: number
+    /**
+     * Translate the nodes to keep their centroid at the center of `rect`.
+     */
+    centering?: boolean
+}
+
+export interface ForceLayoutSimulation<N extends InputNode = InputNode, E extends InputEdge = InputEdge> {
+    warmUp(): void
+    setFixed(idx: number): void
+    setUnfixed(idx: number): void
+    beforeStep(cb: (nodes: N[], edges: E[]) => void): void
+    afterStep(cb: (nodes: N[], edges: E[], finished: boolean) => void): void
+    /**
+     * `cb` may be called asynchronously if the ticks do not run on the main thread.
+     */
+    step(cb?: (finished: boolean) => void): void
+    dispose?(): void
 }
-// function adjacentNode(n, e) {
-//     return e.n1 === n ? e.n2 : e.n1;
-// }
 
-export function forceLayout<N extends InputNode, E extends InputEdge>(
+/**
+ * Creates simulation of the nodes and edges. The built-in one runs on the main thread.
+ * Custom runners (like `createForceLayoutWorkerRunner`) can run it elsewhere.
+ */
+export type ForceLayoutRunner = <N extends InputNode, E extends InputEdge>(
+    nodes: N[],
+    edges: E[],
+    opts: LayoutCfg
+) => ForceLayoutSimulation<N, E>;
+
+interface QuadCell {
+    x: number
+    y: number
+    size: number
+    // Count and sum of repulsion of the nodes inside.
+    count: number
+    rep: number
+    // Centroid of the nodes inside.
+    cx: number
+    cy: number
+    children?: QuadCell[]
+    // Only for leaves.
+    nodes?: LayoutNode[]
+}
+
+/**
+ * Init position of nodes without position, randomly in the rect.
+ */
+export function initNodePositions(inNodes: InputNode[], rect: RectLike) {
+    const nodes = inNodes as LayoutNode[];
+    const width = rect.width;
+    const height = rect.height;
+    const center = [rect.x + width / 2, rect.y + height / 2];
+    for (let i = 0; i < nodes.length; i++) {
+        const n = nodes[i];
+        if (!n.p) {
+            n.p = vec2.create(
+                width * (Math.random() - 0.5) + center[0],
+                height * (Math.random() - 0.5) + center[1]
+            );
+        }
+        n.idx = i;
+    }
+}
+
+function createQuadCell(x: number, y: number, size: number): QuadCell {
+    return {
+        x: x,
+        y: y,
+        size: size,
+        count: 0,
+        rep: 0,
+        cx: 0,
+        cy: 0,
+        nodes: []
+    };
+}
+
+function insertToQuadCell(cell: QuadCell, node: LayoutNode, depth: number) {
+    if (cell.nodes) {
+        if (!cell.nodes.length || depth >= MAX_QUAD_TREE_DEPTH) {
+            cell.nodes.push(node);
+            return;
+        }
+        // Split the leaf.
+        const half = cell.size / 2;
+        const oldNodes = cell.nodes;
+        cell.children = [
+            createQuadCell(cell.x, cell.y, half),
+            createQuadCell(cell.x + half, cell.y, half),
+            createQuadCell(cell.x, cell.y + half, half),
+            createQuadCell(cell.x + half, cell.y + half, half)
+        ];
+        cell.nodes = null;
+        for (let i = 0; i < oldNodes.length; i++) {
+            insertToQuadCell(cell, oldNodes[i], depth);
+        }
+    }
+    const half = cell.size / 2;
+    const childIdx = (node.p[0] >= cell.x + half ? 1 : 0) + (node.p[1] >= cell.y + half ? 2 : 0);
+    insertToQuadCell(cell.children[childIdx], node, depth + 1);
+}
+
+function accumulateQuadCell(cell: QuadCell) {
+    const nodes = cell.nodes;
+    let x = 0;
+    let y = 0;
+    if (nodes) {
+        for (let i = 0; i < nodes.length; i++) {
+            x += nodes[i].p[0];
+            y += nodes[i].p[1];
+            cell.rep += nodes[i].rep;
+        }
+        cell.count = nodes.length;
+    }
+    else {
+        for (let i = 0; i < 4; i++) {
+            const child = cell.children[i];
+            accumulateQuadCell(child);
+            x += child.cx * child.count;
+            y += child.cy * child.count;
+            cell.rep += child.rep;
+            cell.count += child.count;
+        }
+    }
+    if (cell.count) {
+        cell.cx = x / cell.count;
+        cell.cy = y / cell.count;
+    }
+}
+
+function buildQuadTree(nodes: LayoutNode[]): QuadCell {
+    let xMin = Infinity;
+    let yMin = Infinity;
+    let xMax = -Infinity;
+    let yMax = -Infinity;
+    for (let i = 0; i < nodes.length; i++) {
+        const p = nodes[i].p;
+        xMin = Math.min(xMin, p[0]);
+        yMin = Math.min(yMin, p[1]);
+        xMax = Math.max(xMax, p[0]);
+        yMax = Math.max(yMax, p[1]);
+    }
+    // Add a small margin so that the nodes on the max edges are inside.
+    const size = Math.max(xMax - xMin, yMax - yMin) * (1 + 1e-6) + 1e-6;
+    const root = createQuadCell(xMin, yMin, size);
+    for (let i = 0; i < nodes.length; i++) {
+        insertToQuadCell(root, nodes[i], 0);
+    }
+    accumulateQuadCell(root);
+    return root;
+}
+
+const v12: number[] = [];
+
+/**
+ * Apply repulsion of the nodes in the cell on the node, by moving its previous position.
+ */
+function applyRepulsion(cell: QuadCell, n: LayoutNode, theta2: number) {
+    if (!cell.count) {
+        return;
+    }
+    if (cell.nodes) {
+        for (let i = 0; i < cell.nodes.length; i++) {
+            const n2 = cell.nodes[i];
+            if (n2 === n) {
+                continue;
+            }
+            vec2.sub(v12, n2.p, n.p);
+            let d = vec2.len(v12);
+            if (d === 0) {
+                // Random repulse
+                vec2.set(v12, Math.random() - 0.5, Math.random() - 0.5);
+                d = 1;
+            }
+            scaleAndAdd(n.pp, n.pp, v12, (n.rep + n2.rep) / d / d);
+        }
+        return;
+    }
+    vec2.set(v12, cell.cx - n.p[0], cell.cy - n.p[1]);
+    const d2 = v12[0] * v12[0] + v12[1] * v12[1];
+    // Far enough to be regarded as one node.
+    if (d2 > 0 && cell.size * cell.size < theta2 * d2) {
+        scaleAndAdd(n.pp, n.pp, v12, (n.rep * cell.count + cell.rep) / d2);
+        return;
+    }
+    for (let i = 0; i < 4; i++) {
+        applyRepulsion(cell.children[i], n, theta2);
+    }
+}
+
+/**
+ * Push apart the nodes overlapped with the node. Each pair is resolved once.
+ */
+function applyCollision(cell: QuadCell, n: LayoutNode, radius: number) {
+    const dist = radius * 2;
+    const x = n.p[0];
+    const y = n.p[1];
+    if (!cell.count
+        || cell.x > x + dist || cell.x + cell.size < x - dist
+        || cell.y > y + dist || cell.y + cell.size < y - dist
+    ) {
+        return;
+    }
+    if (!cell.nodes) {
+        for (let i = 0; i < 4; i++) {
+            applyCollision(cell.children[i], n, radius);
+        }
+        return;
+    }
+    for (let i = 0; i < cell.nodes.length; i++) {
+        const n2 = cell.nodes[i];
+        if (n2.idx <= n.idx || (n.fixed && n2.fixed)) {
+            continue;
+        }
+        vec2.sub(v12, n2.p, n.p);
+        let d = vec2.len(v12);
+        if (d >= dist) {
+            continue;
+        }
+        if (d === 0) {
+            vec2.set(v12, Math.random() - 0.5, Math.random() - 0.5);
+            d = vec2.len(v12) || 1;
+        }
+        // Fixed node does not move, the other one takes all of the overlap.
+        const overlap = (dist - d) / d / (n.fixed || n2.fixed ? 1 : 2);
+        // Move previous position too, which does not add velocity.
+        if (!n.fixed) {
+            scaleAndAdd(n.p, n.p, v12, -overlap);
+            scaleAndAdd(n.pp, n.pp, v12, -overlap);
+        }
+        if (!n2.fixed) {
+            scaleAndAdd(n2.p, n2.p, v12, overlap);
+            scaleAndAdd(n2.pp, n2.pp, v12, overlap);
+        }
+    }
+}
+
+export const forceLayout: ForceLayoutRunner = function <N extends InputNode, E extends InputEdge>(
     inNodes: N[],
     inEdges: E[],
     opts: LayoutCfg
@@ -79,11 +329,13 @@ export function forceLayout<N extends InputNode, E extends InputEdge>(
     const nodes = inNodes as LayoutNode[];
     const edges = inEdges as LayoutEdge[];
     const rect = opts.rect;
-    const width = rect.width;
-    const height = rect.height;
-    const center = [rect.x + width / 2, rect.y + height / 2];
+    const center = [rect.x + rect.width / 2, rect.y + rect.height / 2];
     // let scale = opts.scale || 1;
     const gravity = opts.gravity == null ? 0.1 : opts.gravity;
+    const theta = opts.theta == null ? 0.9 : opts.theta;
+    const theta2 = theta * theta;
+    const collisionRadius = opts.collisionRadius || 0;
+    const edgeStrength = opts.edgeStrength == null ? 1 : opts.edgeStrength;
 
     // for (let i = 0; i < edges.length; i++) {
     //     let e = edges[i];
@@ -95,14 +347,9 @@ export function forceLayout<N extends InputNode, E extends InputEdge>(
     //     n2.edges.push(e);
     // }
     // Init position
+    initNodePositions(nodes, rect);
     for (let i = 0; i < nodes.length; i++) {
         const n = nodes[i] as LayoutNode;
-        if (!n.p) {
-            n.p = vec2.create(
-                width * (Math.random() - 0.5) + center[0],
-                height * (Math.random() - 0.5) + center[1]
-            );
-        }
         n.pp = vec2.clone(n.p);
         n.edges = null;
     }
@@ -152,7 +399,6 @@ export function forceLayout<N extends InputNode, E extends InputEdge>(
         step: function (cb?: (finished: boolean) => void) {
             beforeStepCallback && beforeStepCallback(nodes as N[], edges as E[]);
 
-            const v12: number[] = [];
             const nLen = nodes.length;
             for (let i = 0; i < edges.length; i++) {
                 const e = edges[i];
@@ -163,7 +409,7 @@ export function forceLayout<N extends InputNode, E extends InputEdge>(
                 const n2 = e.n2;
 
                 vec2.sub(v12, n2.p, n1.p);
-                const d = vec2.len(v12) - e.d;
+                const d = (vec2.len(v12) - e.d) * edgeStrength;
                 let w = n2.w / (n1.w + n2.w);
 
                 if (isNaN(w)) {
@@ -187,24 +433,14 @@ export function forceLayout<N extends InputNode, E extends InputEdge>(
                 }
             }
 
-            // Repulsive
-            // PENDING
-            for (let i = 0; i < nLen; i++) {
-                const n1 = nodes[i];
-                for (let j = i + 1; j < nLen; j++) {
-                    const n2 = nodes[j];
-                    vec2.sub(v12, n2.p, n1.p);
-                    let d = vec2.len(v12);
-                    if (d === 0) {
-                        // Random repulse
-                        vec2.set(v12, Math.random() - 0.5, Math.random() - 0.5);
-                        d = 1;
-                    }
-                    const repFact = (n1.rep + n2.rep) / d / d;
-                    !n1.fixed && scaleAndAdd(n1.pp, n1.pp, v12, repFact);
-                    !n2.fixed && scaleAndAdd(n2.pp, n2.pp, v12, -repFact);
+            // Repulsive, approximated with Barnes-Hut quad tree.
+            if (nLen) {
+                const quadTree = buildQuadTree(nodes);
+                for (let i = 0; i < nLen; i++) {
+                    !nodes[i].fixed && applyRepulsion(quadTree, nodes[i], theta2);
                 }
             }
+
             const v: number[] = [];
             for (let i = 0; i < nLen; i++) {
                 const n = nodes[i];
@@ -215,6 +451,34 @@ export function forceLayout<N extends InputNode, E extends InputEdge>(
                 }
             }
 
+            if (collisionRadius > 0 && nLen) {
+                const quadTree = buildQuadTree(nodes);
+                for (let i = 0; i < nLen; i++) {
+                    applyCollision(quadTree, nodes[i], collisionRadius);
+                }
+            }
+
+            if (opts.centering) {
+                let freeCount = 0;
+                vec2.set(v, 0, 0);
+                for (let i = 0; i < nLen; i++) {
+                    if (!nodes[i].fixed) {
+                        vec2.add(v, v, nodes[i].p);
+                        freeCount++;
+                    }
+                }
+                if (freeCount) {
+                    vec2.scaleAndAdd(v, center, v, -1 / freeCount);
+                    for (let i = 0; i < nLen; i++) {
+                        const n = nodes[i];
+                        if (!n.fixed) {
+                            vec2.add(n.p, n.p, v);
+                            vec2.add(n.pp, n.pp, v);
+                        }
+                    }
+                }
+            }
+
             friction = friction * 0.992;
 
             const finished = friction < 0.01;
@@ -224,4 +488,4 @@ export function forceLayout<N extends InputNode, E extends InputEdge>(
             cb && cb(finished);
         }
     };
-}
+};
@@ -26,12 +26,14 @@ import * as zrUtil from 'zrender/src/core/util';
 import GlobalModel from '../../model/Global';
 import GraphSeriesModel, { GraphNodeItemOption, GraphEdgeItemOption } from './GraphSeries';
 import {getCurvenessForEdge} from '../helper/multipleGraphEdgeHelper';
+import {isEdgeBundlingEnabled} from './edgeBundlingHelper';
 
 export interface ForceLayoutInstance {
     step(cb: (stopped: boolean) => void): void
     warmUp(): void
     setFixed(idx: number): void
     setUnfixed(idx: number): void
+    dispose?(): void
 }
 
 
@@ -41,6 +43,10 @@ export default function graphForceLayout(ecModel: GlobalModel) {
         if (coordSys && coordSys.type !== 'view') {
             return;
         }
+        // Stop the ticks of previous layout, which may be running in worker.
+        const prevForceLayout = graphSeries.forceLayout;
+        prevForceLayout && prevForceLayout.dispose && prevForceLayout.dispose();
+
         if (graphSeries.get('layout') === 'force') {
             const preservedPoints = graphSeries.preservedPoints || {};
             const graph = graphSeries.getGraph();
@@ -110,10 +116,15 @@ export default function graphForceLayout(ecModel: GlobalModel) {
 
             // let coordSys = graphSeries.coordinateSystem;
             const rect = coordSys.getBoundingRect();
-            const forceInstance = forceLayout(nodes, edges, {
+            const runner = forceModel.get('runner') || forceLayout;
+            const forceInstance = runner(nodes, edges, {
                 rect: rect,
                 gravity: forceModel.get('gravity'),
-                friction: forceModel.get('friction')
+                friction: forceModel.get('friction'),
+                theta: forceModel.get('theta'),
+                collisionRadius: forceModel.get('collisionRadius'),
+                edgeStrength: forceModel.get('edgeStrength'),
+                centering: forceModel.get('centering')
             });
             forceInstance.beforeStep(function (nodes, edges) {
                 for (let i = 0, l = nodes.length; i < l; i++) {
@@ -126,6 +137,7 @@ export default function graphForceLayout(ecModel: GlobalModel) {
                     }
                 }
             });
+            const edgeBundled = isEdgeBundlingEnabled(graphSeries);
             forceInstance.afterStep(function (nodes, edges, stopped) {
                 for (let i = 0, l = nodes.length; i < l; i++) {
                     if (!nodes[i].fixed) {
@@ -138,6 +150,12 @@ export default function graphForceLayout(ecModel: GlobalModel) {
                     const edge = graph.getEdgeByIndex(i);
                     const p1 = e.n1.p;
                     const p2 = e.n2.p;
+                    // Points of the bundled polyline are stale once nodes moved. Use straight
+                    // lines until the view bundles edges again when the layout stops.
+                    if (edgeBundled) {
+                        edge.setLayout([vec2.clone(p1), vec2.clone(p2)]);
+                        continue;
+                    }
                     let points = edge.getLayout() as number[][];
                     points = points ? points.slice() : [];
                     points[0] = points[0] || [];
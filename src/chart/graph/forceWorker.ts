@@ -0,0 +1,283 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+/**
+ * Run the ticks of force layout in web worker, so that large graph does not freeze the page.
+ * ```js
+ * // In worker script. Import this module only, to avoid bundling the whole echarts.
+ * import { runForceLayoutWorker } from 'echarts/lib/chart/graph/forceWorker';
+ * runForceLayoutWorker(self);
+ *
+ * // In main thread.
+ * series: {
+ *     type: 'graph',
+ *     layout: 'force',
+ *     force: {
+ *         runner: echarts.createForceLayoutWorkerRunner(new Worker('forceWorker.js'))
+ *     }
+ * }
+ * ```
+ * Positions are sent back after each tick, and the fixed (like dragging) nodes
+ * are sent to worker before each tick.
+ */
+
+import * as zrUtil from 'zrender/src/core/util';
+import {
+    forceLayout, initNodePositions, ForceLayoutRunner, ForceLayoutSimulation,
+    InputNode, InputEdge, LayoutNode, LayoutCfg
+} from './forceHelper';
+import { Dictionary } from '../../util/types';
+
+/**
+ * `Worker` in main thread or the global scope in worker.
+ */
+export interface ForceWorkerLike {
+    postMessage(message: any, transfer?: any[]): void
+    addEventListener(type: 'message', listener: (e: { data: any }) => void): void
+    removeEventListener(type: 'message', listener: (e: { data: any }) => void): void
+}
+
+interface WorkerNode extends InputNode {
+    p: number[]
+}
+
+interface InitMessage {
+    type: 'init'
+    id: number
+    nodes: WorkerNode[]
+    // Indices of nodes.
+    edges: { n1: number, n2: number, d: number, ignoreForceLayout: boolean }[]
+    opts: LayoutCfg
+}
+interface StepMessage {
+    type: 'step'
+    id: number
+    // Flattened [idx, x, y, idx, x, y, ...] of fixed nodes.
+    fixed: number[]
+}
+interface NodeMessage {
+    type: 'setFixed' | 'setUnfixed'
+    id: number
+    idx: number
+}
+interface SimpleMessage {
+    type: 'warmUp' | 'dispose'
+    id: number
+}
+type MainToWorkerMessage = InitMessage | StepMessage | NodeMessage | SimpleMessage;
+
+interface TickMessage {
+    type: 'tick'
+    id: number
+    // Flattened [x, y, x, y, ...] of all nodes.
+    positions: Float64Array
+    finished: boolean
+}
+
+let simulationIdBase = 0;
+
+export function createForceLayoutWorkerRunner(worker: ForceWorkerLike): ForceLayoutRunner {
+    return function <N extends InputNode, E extends InputEdge>(
+        nodes: N[],
+        edges: E[],
+        opts: LayoutCfg
+    ): ForceLayoutSimulation<N, E> {
+        const id = simulationIdBase++;
+        // Callbacks of the steps sent, the ticks are sent back in order.
+        let stepCallbacks: ((finished: boolean) => void)[] = [];
+        let beforeStepCallback: (nodes: N[], edges: E[]) => void;
+        let afterStepCallback: (nodes: N[], edges: E[], finished: boolean) => void;
+        let disposed = false;
+        let stepped = false;
+
+        function post(message: MainToWorkerMessage) {
+            !disposed && worker.postMessage(message);
+        }
+
+        function onMessage(e: { data: TickMessage }) {
+            const message = e.data;
+            if (!message || message.type !== 'tick' || message.id !== id) {
+                return;
+            }
+            const positions = message.positions;
+            for (let i = 0; i < nodes.length; i++) {
+                // Position of fixed nodes are decided by main thread.
+                if (!nodes[i].fixed) {
+                    nodes[i].p[0] = positions[i * 2];
+                    nodes[i].p[1] = positions[i * 2 + 1];
+                }
+            }
+            afterStepCallback && afterStepCallback(nodes, edges, message.finished);
+            const cb = stepCallbacks.shift();
+            cb && cb(message.finished);
+        }
+
+        initNodePositions(nodes, opts.rect);
+        worker.addEventListener('message', onMessage);
+
+        const rect = opts.rect;
+        post({
+            type: 'init',
+            id: id,
+            nodes: zrUtil.map(nodes, function (node) {
+                return {
+                    p: [node.p[0], node.p[1]],
+                    fixed: !!node.fixed,
+                    w: node.w,
+                    rep: node.rep
+                };
+            }),
+            edges: zrUtil.map(edges, function (edge) {
+                return {
+                    n1: (edge.n1 as LayoutNode).idx,
+                    n2: (edge.n2 as LayoutNode).idx,
+                    d: edge.d,
+                    ignoreForceLayout: !!edge.ignoreForceLayout
+                };
+            }),
+            opts: zrUtil.extend(zrUtil.extend({}, opts), {
+                // Not to send the instance of BoundingRect.
+                rect: {x: rect.x, y: rect.y, width: rect.width, height: rect.height}
+            })
+        });
+
+        return {
+            warmUp() {
+                post({type: 'warmUp', id: id});
+            },
+            setFixed(idx: number) {
+                nodes[idx].fixed = true;
+                post({type: 'setFixed', id: id, idx: idx});
+            },
+            setUnfixed(idx: number) {
+                nodes[idx].fixed = false;
+                post({type: 'setUnfixed', id: id, idx: idx});
+            },
+            beforeStep(cb) {
+                beforeStepCallback = cb;
+            },
+            afterStep(cb) {
+                afterStepCallback = cb;
+            },
+            step(cb?: (finished: boolean) => void) {
+                if (disposed) {
+                    return;
+                }
+                // Layout is needed before the first tick is sent back, use the init positions.
+                if (!stepped) {
+                    stepped = true;
+                    afterStepCallback && afterStepCallback(nodes, edges, false);
+                }
+                beforeStepCallback && beforeStepCallback(nodes, edges);
+                const fixed: number[] = [];
+                for (let i = 0; i < nodes.length; i++) {
+                    if (nodes[i].fixed) {
+                        fixed.push(i, nodes[i].p[0], nodes[i].p[1]);
+                    }
+                }
+                stepCallbacks.push(cb);
+                post({type: 'step', id: id, fixed: fixed});
+            },
+            dispose() {
+                post({type: 'dispose', id: id});
+                disposed = true;
+                stepCallbacks = [];
+                worker.removeEventListener('message', onMessage);
+            }
+        };
+    };
+}
+
+/**
+ * Should be called in worker.
+ */
+export function runForceLayoutWorker(scope: ForceWorkerLike) {
+    const simulations: Dictionary<{
+        nodes: WorkerNode[]
+        simulation: ForceLayoutSimulation<WorkerNode>
+    }> = {};
+
+    scope.addEventListener('message', function (e: { data: MainToWorkerMessage }) {
+        const message = e.data;
+        if (!message) {
+            return;
+        }
+        const id = message.id;
+        if (message.type === 'init') {
+            const nodes = message.nodes;
+            const edges = zrUtil.map(message.edges, function (edge) {
+                return {
+                    n1: nodes[edge.n1],
+                    n2: nodes[edge.n2],
+                    d: edge.d,
+                    ignoreForceLayout: edge.ignoreForceLayout
+                };
+            });
+            simulations[id] = {
+                nodes: nodes,
+                simulation: forceLayout(nodes, edges, message.opts)
+            };
+            return;
+        }
+
+        const record = simulations[id];
+        if (!record) {
+            return;
+        }
+        const simulation = record.simulation;
+        switch (message.type) {
+            case 'step': {
+                const fixed = message.fixed;
+                for (let i = 0; i < fixed.length; i += 3) {
+                    const p = record.nodes[fixed[i]].p;
+                    p[0] = fixed[i + 1];
+                    p[1] = fixed[i + 2];
+                }
+                simulation.step(function (finished) {
+                    const nodes = record.nodes;
+                    const positions = new Float64Array(nodes.length * 2);
+                    for (let i = 0; i < nodes.length; i++) {
+                        positions[i * 2] = nodes[i].p[0];
+                        positions[i * 2 + 1] = nodes[i].p[1];
+                    }
+                    const tick: TickMessage = {
+                        type: 'tick',
+                        id: id,
+                        positions: positions,
+                        finished: finished
+                    };
+                    scope.postMessage(tick, [positions.buffer]);
+                });
+                break;
+            }
+            case 'warmUp':
+                simulation.warmUp();
+                break;
+            case 'setFixed':
+                simulation.setFixed(message.idx);
+                break;
+            case 'setUnfixed':
+                simulation.setUnfixed(message.idx);
+                break;
+            case 'dispose':
+                delete simulations[id];
+                break;
+        }
+    });
+}
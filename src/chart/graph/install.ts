@@ -25,6 +25,7 @@ import edgeVisual from './edgeVisual';
 import simpleLayout from './simpleLayout';
 import circularLayout from './circularLayout';
 import forceLayout from './forceLayout';
+import edgeBundlingLayout from './edgeBundlingLayout';
 import createView from './createView';
 import View from '../../coord/View';
 import GraphView from './GraphView';
@@ -51,6 +52,8 @@ export function install(registers: EChartsExtensionInstallRegisters) {
     registers.registerLayout(simpleLayout);
     registers.registerLayout(registers.PRIORITY.VISUAL.POST_CHART_LAYOUT, circularLayout);
     registers.registerLayout(forceLayout);
+    // After all of the node layouts.
+    registers.registerLayout(registers.PRIORITY.VISUAL.POST_CHART_LAYOUT, edgeBundlingLayout);
 
     registers.registerCoordinateSystem('graphView', {
         dimensions: View.dimensions,
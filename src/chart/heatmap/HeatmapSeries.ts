@@ -29,13 +29,15 @@ import {
     OptionDataValue,
     StatesOptionMixin,
     SeriesEncodeOptionMixin,
-    SeriesOnCalendarOptionMixin
+    SeriesOnCalendarOptionMixin,
+    SeriesOnMatrixOptionMixin
 } from '../../util/types';
 import GlobalModel from '../../model/Global';
 import List from '../../data/List';
 import type Geo from '../../coord/geo/Geo';
 import type Cartesian2D from '../../coord/cartesian/Cartesian2D';
 import type Calendar from '../../coord/calendar/Calendar';
+import type Matrix from '../../coord/matrix/Matrix';
 
 type HeatmapDataValue = OptionDataValue[];
 
@@ -50,10 +52,11 @@ export interface HeatmapDataItemOption extends HeatmapStateOption, StatesOptionM
 }
 
 export interface HeatmapSeriesOption extends SeriesOption<HeatmapStateOption>, HeatmapStateOption,
-    SeriesOnCartesianOptionMixin, SeriesOnGeoOptionMixin, SeriesOnCalendarOptionMixin, SeriesEncodeOptionMixin {
+    SeriesOnCartesianOptionMixin, SeriesOnGeoOptionMixin, SeriesOnCalendarOptionMixin, SeriesOnMatrixOptionMixin,
+    SeriesEncodeOptionMixin {
     type?: 'heatmap'
 
-    coordinateSystem?: 'cartesian2d' | 'geo' | 'calendar'
+    coordinateSystem?: 'cartesian2d' | 'geo' | 'calendar' | 'matrix'
 
     // Available on geo coordinate system
     blurSize?: number
@@ -68,9 +71,9 @@ class HeatmapSeriesModel extends SeriesModel<HeatmapSeriesOption> {
     static readonly type = 'series.heatmap';
     readonly type = HeatmapSeriesModel.type;
 
-    static readonly dependencies = ['grid', 'geo', 'calendar'];
+    static readonly dependencies = ['grid', 'geo', 'calendar', 'matrix'];
     // @ts-ignore
-    coordinateSystem: Cartesian2D | Geo | Calendar;
+    coordinateSystem: Cartesian2D | Geo | Calendar | Matrix;
 
     getInitialData(option: HeatmapSeriesOption, ecModel: GlobalModel): List {
         return createListFromArray(this.getSource(), this, {
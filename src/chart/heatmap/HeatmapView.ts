@@ -32,6 +32,7 @@ import { CoordinateSystem, isCoordinateSystemType } from '../../coord/Coordinate
 import { StageHandlerProgressParams, Dictionary, OptionDataValue } from '../../util/types';
 import type Cartesian2D from '../../coord/cartesian/Cartesian2D';
 import type Calendar from '../../coord/calendar/Calendar';
+import type Matrix from '../../coord/matrix/Matrix';
 import { setLabelStyle, getLabelStatesModels } from '../../label/labelStyle';
 
 // Coord can be 'geo' 'bmap' 'amap' 'leaflet'...
@@ -127,7 +128,7 @@ class HeatmapView extends ChartView {
         this._incrementalDisplayable = null;
 
         const coordSys = seriesModel.coordinateSystem;
-        if (coordSys.type === 'cartesian2d' || coordSys.type === 'calendar') {
+        if (coordSys.type === 'cartesian2d' || coordSys.type === 'calendar' || coordSys.type === 'matrix') {
             this._renderOnCartesianAndCalendar(seriesModel, api, 0, seriesModel.getData().count());
         }
         else if (isGeoCoordSys(coordSys)) {
@@ -167,7 +168,7 @@ class HeatmapView extends ChartView {
         incremental?: boolean
     ) {
 
-        const coordSys = seriesModel.coordinateSystem as Cartesian2D | Calendar;
+        const coordSys = seriesModel.coordinateSystem as Cartesian2D | Calendar | Matrix;
         let width;
         let height;
         let xAxisExtent;
@@ -202,14 +203,14 @@ class HeatmapView extends ChartView {
         let focus = seriesModel.get(['emphasis', 'focus']);
         let blurScope = seriesModel.get(['emphasis', 'blurScope']);
 
-        const dataDims = isCoordinateSystemType<Cartesian2D>(coordSys, 'cartesian2d')
+        const dataDims = isCoordinateSystemType<Calendar>(coordSys, 'calendar')
             ? [
-                data.mapDimension('x'),
-                data.mapDimension('y'),
+                data.mapDimension('time'),
                 data.mapDimension('value')
             ]
             : [
-                data.mapDimension('time'),
+                data.mapDimension('x'),
+                data.mapDimension('y'),
                 data.mapDimension('value')
             ];
 
@@ -246,6 +247,23 @@ class HeatmapView extends ChartView {
                     style
                 });
             }
+            else if (isCoordinateSystemType<Matrix>(coordSys, 'matrix')) {
+                const cellRect = coordSys.dataToRect([
+                    data.get(dataDims[0], idx) as OptionDataValue,
+                    data.get(dataDims[1], idx) as OptionDataValue
+                ]);
+
+                // Ignore empty data and data out of matrix
+                if (isNaN(data.get(dataDims[2], idx) as number) || isNaN(cellRect.x)) {
+                    continue;
+                }
+
+                rect = new graphic.Rect({
+                    z2: 1,
+                    shape: cellRect,
+                    style
+                });
+            }
             else {
                 // Ignore empty data
                 if (isNaN(data.get(dataDims[1], idx) as number)) {
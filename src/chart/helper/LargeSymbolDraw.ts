@@ -175,25 +175,34 @@ class LargeSymbolDraw {
 
     _incremental: IncrementalDisplayable;
 
+    // The path created by `updateData`.
+    _symbolEl: LargeSymbolPath;
+
     isPersistent() {
         return !this._incremental;
     };
 
     /**
-     * Update symbols draw by new data
+     * Update symbols draw by new data.
+     * The path of the last update is patched rather than created again, which
+     * is the usual case of `streamData`.
      */
     updateData(data: List, opt?: UpdateOpt) {
-        this.group.removeAll();
-        const symbolEl = new LargeSymbolPath({
-            rectHover: true,
-            cursor: 'default'
-        });
+        let symbolEl = this._symbolEl;
+        if (!symbolEl) {
+            this.group.removeAll();
+            symbolEl = this._symbolEl = new LargeSymbolPath({
+                rectHover: true,
+                cursor: 'default'
+            });
+            this._enableTooltip(symbolEl);
+            this.group.add(symbolEl);
+        }
 
         symbolEl.setShape({
             points: data.getLayout('points')
         });
         this._setCommon(symbolEl, data, false, opt);
-        this.group.add(symbolEl);
 
         this._incremental = null;
     }
@@ -216,6 +225,7 @@ class LargeSymbolDraw {
 
     incrementalPrepareUpdate(data: List) {
         this.group.removeAll();
+        this._symbolEl = null;
 
         this._clearIncremental();
         // Only use incremental displayables when data amount is larger than 2 million.
@@ -247,6 +257,7 @@ class LargeSymbolDraw {
                 endIndex: taskParams.end
             });
             symbolEl.incremental = true;
+            this._enableTooltip(symbolEl);
             this.group.add(symbolEl);
         }
 
@@ -292,24 +303,28 @@ class LargeSymbolDraw {
         }
 
         if (!isIncremental) {
-            const ecData = getECData(symbolEl);
             // Enable tooltip
-            // PENDING May have performance issue when path is extremely large
-            ecData.seriesIndex = (hostModel as SeriesModel).seriesIndex;
-            symbolEl.on('mousemove', function (e) {
-                ecData.dataIndex = null;
-                const dataIndex = symbolEl.findDataIndex(e.offsetX, e.offsetY);
-                if (dataIndex >= 0) {
-                    // Provide dataIndex for tooltip
-                    ecData.dataIndex = dataIndex + (symbolEl.startIndex || 0);
-                }
-            });
+            getECData(symbolEl).seriesIndex = (hostModel as SeriesModel).seriesIndex;
         }
     }
 
+    _enableTooltip(symbolEl: LargeSymbolPath) {
+        const ecData = getECData(symbolEl);
+        // PENDING May have performance issue when path is extremely large
+        symbolEl.on('mousemove', function (e) {
+            ecData.dataIndex = null;
+            const dataIndex = symbolEl.findDataIndex(e.offsetX, e.offsetY);
+            if (dataIndex >= 0) {
+                // Provide dataIndex for tooltip
+                ecData.dataIndex = dataIndex + (symbolEl.startIndex || 0);
+            }
+        });
+    }
+
     remove() {
         this._clearIncremental();
         this._incremental = null;
+        this._symbolEl = null;
         this.group.removeAll();
     }
 
@@ -63,9 +63,13 @@ class Polyline extends graphic.Group {
 
 
         let hoverLineStyle = seriesScope && seriesScope.emphasisLineStyle;
+        let blurLineStyle = seriesScope && seriesScope.blurLineStyle;
+        let selectLineStyle = seriesScope && seriesScope.selectLineStyle;
 
         if (!seriesScope || lineData.hasItemOption) {
             hoverLineStyle = itemModel.getModel(['emphasis', 'lineStyle']).getLineStyle();
+            blurLineStyle = itemModel.getModel(['blur', 'lineStyle']).getLineStyle();
+            selectLineStyle = itemModel.getModel(['select', 'lineStyle']).getLineStyle();
         }
         line.useStyle(lineData.getItemVisual(idx, 'style'));
         line.style.fill = null;
@@ -73,6 +77,8 @@ class Polyline extends graphic.Group {
 
         const lineEmphasisState = line.ensureState('emphasis');
         lineEmphasisState.style = hoverLineStyle;
+        line.ensureState('blur').style = blurLineStyle;
+        line.ensureState('select').style = selectLineStyle;
 
         enableHoverEmphasis(this);
     };
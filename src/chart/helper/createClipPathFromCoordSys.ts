@@ -24,10 +24,78 @@ import { SeriesOption } from '../../util/types';
 import type Cartesian2D from '../../coord/cartesian/Cartesian2D';
 import type Polar from '../../coord/polar/Polar';
 import { CoordinateSystem } from '../../coord/CoordinateSystem';
+import type Axis2D from '../../coord/cartesian/Axis2D';
 
 type SeriesModelWithLineWidth = SeriesModel<SeriesOption & {
     lineStyle?: { width?: number }
 }>;
+
+/**
+ * Clip rect that excludes the collapsed ranges of axis breaks.
+ * Gaps are not in shape so that they are not animated with the rect.
+ */
+class GridClipRect extends graphic.Rect {
+    // Global coord ranges, [min, max] of each.
+    xGaps: number[][] = [];
+    yGaps: number[][] = [];
+
+    buildPath(ctx: CanvasRenderingContext2D, shape: graphic.Rect['shape']) {
+        const xSegments = subtractGaps(shape.x, shape.x + shape.width, this.xGaps);
+        const ySegments = subtractGaps(shape.y, shape.y + shape.height, this.yGaps);
+        for (let i = 0; i < xSegments.length; i++) {
+            for (let j = 0; j < ySegments.length; j++) {
+                const xSeg = xSegments[i];
+                const ySeg = ySegments[j];
+                ctx.rect(xSeg[0], ySeg[0], xSeg[1] - xSeg[0], ySeg[1] - ySeg[0]);
+            }
+        }
+    }
+}
+
+function subtractGaps(min: number, max: number, gaps: number[][]): number[][] {
+    if (min > max) {
+        const tmp = min;
+        min = max;
+        max = tmp;
+    }
+    const segments = [];
+    for (let i = 0; i < gaps.length; i++) {
+        const gap = gaps[i];
+        if (gap[0] > min && gap[0] < max) {
+            segments.push([min, gap[0]]);
+        }
+        min = Math.max(min, gap[1]);
+    }
+    if (min < max) {
+        segments.push([min, max]);
+    }
+    return segments;
+}
+
+function getGlobalGaps(axis: Axis2D): number[][] {
+    const gaps = [];
+    const breakCoords = axis.getBreakCoords();
+    for (let i = 0; i < breakCoords.length; i++) {
+        const coords = breakCoords[i].coords;
+        const c0 = axis.toGlobalCoord(coords[0]);
+        const c1 = axis.toGlobalCoord(coords[1]);
+        gaps.push([Math.min(c0, c1), Math.max(c0, c1)]);
+    }
+    return gaps.sort(function (a, b) {
+        return a[0] - b[0];
+    });
+}
+
+function hasAxisBreaks(coordSys: CoordinateSystem): boolean {
+    if (!coordSys || coordSys.type !== 'cartesian2d') {
+        return false;
+    }
+    const cartesian = coordSys as Cartesian2D;
+    return !!(
+        cartesian.getAxis('x').scale.getBreaks().length
+        || cartesian.getAxis('y').scale.getBreaks().length
+    );
+}
 function createGridClipPath(
     cartesian: Cartesian2D,
     hasAnimation: boolean,
@@ -53,7 +121,7 @@ function createGridClipPath(
     x = Math.floor(x);
     width = Math.round(width);
 
-    const clipPath = new graphic.Rect({
+    const clipPath = new GridClipRect({
         shape: {
             x: x,
             y: y,
@@ -61,6 +129,8 @@ function createGridClipPath(
             height: height
         }
     });
+    clipPath.xGaps = getGlobalGaps(cartesian.getAxis('x'));
+    clipPath.yGaps = getGlobalGaps(cartesian.getAxis('y'));
 
     if (hasAnimation) {
         const baseAxis = cartesian.getBaseAxis();
@@ -163,5 +233,6 @@ function createClipPath(
 export {
     createGridClipPath,
     createPolarClipPath,
-    createClipPath
+    createClipPath,
+    hasAxisBreaks
 };
\ No newline at end of file
@@ -27,6 +27,7 @@ import {getCoordSysInfoBySeries} from '../../model/referHelper';
 import { createSourceFromSeriesDataOption, isSourceInstance, Source } from '../../data/Source';
 import {enableDataStack} from '../../data/helper/dataStackHelper';
 import {makeSeriesEncodeForAxisCoordSys} from '../../data/helper/sourceHelper';
+import {isDimensionTypeGuessed} from '../../data/helper/csv';
 import {
     SOURCE_FORMAT_ORIGINAL, DimensionDefinitionLoose, DimensionDefinition, OptionSourceData, EncodeDefaulter
 } from '../../util/types';
@@ -96,6 +97,11 @@ function createListFromArray(source: Source | OptionSourceData, seriesModel: Ser
                 firstCategoryDimIndex = dimIndex;
             }
             dimInfo.ordinalMeta = categoryAxisModel.getOrdinalMeta();
+            // Date strings detected in CSV source on category axis are collected as
+            // categories rather than parsed to timestamps.
+            if (dimInfo.type === 'time' && isDimensionTypeGuessed(source as Source, dimIndex)) {
+                dimInfo.type = 'ordinal';
+            }
             if (opt.createInvertedIndices) {
                 dimInfo.createInvertedIndices = true;
             }
@@ -20,6 +20,8 @@
 import * as zrUtil from 'zrender/src/core/util';
 import SeriesModel from '../../model/Series';
 import {TreeNode} from '../../data/Tree';
+import {lift} from 'zrender/src/tool/color';
+import {Dictionary, ColorString, OptionDataItemObject, OptionDataValue, ZRColor} from '../../util/types';
 
 export function retrieveTargetInfo(
     payload: {
@@ -87,3 +89,127 @@ export function wrapTreePathInfo<T = unknown>(node: TreeNode, seriesModel: Serie
 
     return treePathInfo;
 }
+
+export interface TreeSortParam {
+    dataIndex: number
+    depth: number
+    height: number
+    getValue(): number
+}
+
+export type TreeSortOption = 'desc' | 'asc' | ((a: TreeSortParam, b: TreeSortParam) => number);
+
+/**
+ * Sort children of the node and its descendants.
+ *
+ * @param sortOrder 'desc' and 'asc' for descend and ascendant order by value,
+ *     or callback function.
+ */
+export function sortTreeChildren(node: TreeNode, sortOrder: TreeSortOption) {
+    const children = node.children || [];
+
+    node.children = sortNodes(children, sortOrder);
+
+    // Sort children recursively
+    if (children.length) {
+        zrUtil.each(node.children, function (child) {
+            sortTreeChildren(child, sortOrder);
+        });
+    }
+}
+
+function sortNodes(children: TreeNode[], sortOrder: TreeSortOption) {
+    if (typeof sortOrder === 'function') {
+        const sortTargets = zrUtil.map(children, (child, idx) => {
+            const value = child.getValue() as number;
+            return {
+                params: {
+                    depth: child.depth,
+                    height: child.height,
+                    dataIndex: child.dataIndex,
+                    getValue: () => value
+                },
+                index: idx
+            };
+        });
+        sortTargets.sort((a, b) => {
+            return sortOrder(a.params, b.params);
+        });
+
+        return zrUtil.map(sortTargets, (target) => {
+            return children[target.index];
+        });
+    }
+    else {
+        const isAsc = sortOrder === 'asc';
+        return children.sort(function (a, b) {
+            const diff = ((a.getValue() as number) - (b.getValue() as number)) * (isAsc ? 1 : -1);
+            return diff === 0
+                ? (a.dataIndex - b.dataIndex) * (isAsc ? -1 : 1)
+                : diff;
+        });
+    }
+}
+
+interface TreeValueDataNode extends OptionDataItemObject<OptionDataValue> {
+    children?: TreeValueDataNode[]
+}
+
+/**
+ * Postorder travel tree. If value of none-leaf node is not set,
+ * calculate it by suming up the value of all children.
+ *
+ * @param notLessThanSum If the value should be raised to the sum of children
+ *     when it is less than that.
+ */
+export function completeTreeValue(dataNode: TreeValueDataNode, notLessThanSum?: boolean) {
+    let sum = 0;
+
+    zrUtil.each(dataNode.children, function (child) {
+
+        completeTreeValue(child, notLessThanSum);
+
+        let childValue = child.value;
+        // TODO First value of array must be a number
+        zrUtil.isArray(childValue) && (childValue = childValue[0]);
+        sum += childValue as number;
+    });
+
+    let thisValue = dataNode.value as number;
+    if (zrUtil.isArray(thisValue)) {
+        thisValue = thisValue[0];
+    }
+
+    if (thisValue == null || isNaN(thisValue) || (notLessThanSum && thisValue < sum)) {
+        thisValue = sum;
+    }
+    // Value should not less than 0.
+    if (thisValue < 0) {
+        thisValue = 0;
+    }
+
+    zrUtil.isArray(dataNode.value)
+        ? (dataNode.value[0] = thisValue)
+        : (dataNode.value = thisValue);
+}
+
+/**
+ * Default color strategy of sunburst and icicle. Choose color from palette based on
+ * the first level, and lighter on the deeper level.
+ */
+export function pickColor(
+    node: TreeNode,
+    seriesModel: SeriesModel,
+    treeHeight: number,
+    paletteScope: Dictionary<ColorString>
+): ZRColor {
+    let current = node;
+    while (current && current.depth > 1) {
+        current = current.parentNode;
+    }
+    let color = seriesModel.getColorFromPalette((current.name || current.dataIndex + ''), paletteScope);
+    if (node.depth > 1 && typeof color === 'string') {
+        color = lift(color, (node.depth - 1) / (treeHeight - 1) * 0.5);
+    }
+    return color;
+}
@@ -0,0 +1,260 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+import * as zrUtil from 'zrender/src/core/util';
+import SeriesModel from '../../model/Series';
+import Tree, { TreeNode } from '../../data/Tree';
+import {wrapTreePathInfo, TreeSortOption, completeTreeValue} from '../helper/treeHelper';
+import {
+    SeriesOption,
+    BoxLayoutOptionMixin,
+    SeriesLabelOption,
+    ItemStyleOption,
+    OptionDataValue,
+    CallbackDataParams,
+    StatesOptionMixin,
+    OptionDataItemObject,
+    DefaultEmphasisFocus
+} from '../../util/types';
+import GlobalModel from '../../model/Global';
+import List from '../../data/List';
+import Model from '../../model/Model';
+import { LayoutRect } from '../../util/layout';
+import enableAriaDecalForTree from '../helper/enableAriaDecalForTree';
+import { BreadcrumbOption } from '../treemap/Breadcrumb';
+
+interface IcicleItemStyleOption extends ItemStyleOption {
+    borderRadius?: number | number[]
+}
+
+interface IcicleDataParams extends CallbackDataParams {
+    treePathInfo: {
+        name: string,
+        dataIndex: number
+        value: IcicleSeriesNodeItemOption['value']
+    }[]
+}
+
+interface ExtraStateOption {
+    emphasis?: {
+        focus?: DefaultEmphasisFocus | 'descendant' | 'ancestor'
+    }
+}
+
+export interface IcicleStateOption {
+    itemStyle?: IcicleItemStyleOption
+    label?: SeriesLabelOption
+}
+
+export interface IcicleSeriesNodeItemOption extends
+    IcicleStateOption, StatesOptionMixin<IcicleStateOption, ExtraStateOption>,
+    OptionDataItemObject<OptionDataValue>
+{
+    nodeClick?: 'rootToNode' | 'link' | false
+    // Available when nodeClick is link
+    link?: string
+    target?: string
+
+    children?: IcicleSeriesNodeItemOption[]
+
+    cursor?: string
+}
+
+export interface IcicleSeriesLevelOption extends IcicleStateOption, StatesOptionMixin<IcicleStateOption> {
+}
+
+export interface IcicleSeriesOption extends
+    SeriesOption<IcicleStateOption, ExtraStateOption>, IcicleStateOption,
+    BoxLayoutOptionMixin {
+
+    type?: 'icicle'
+
+    /**
+     * 'vertical': root on the top and levels grow downward.
+     * 'horizontal': root on the left and levels grow rightward.
+     */
+    orient?: 'horizontal' | 'vertical'
+
+    /**
+     * Nodes whose size along the breadth direction is less than it (in pixel)
+     * are not rendered. Useful for the flame graph of large profile.
+     */
+    minItemSize?: number
+
+    nodeClick?: 'rootToNode' | 'link' | false
+
+    breadcrumb?: BreadcrumbOption
+
+    levels?: IcicleSeriesLevelOption[]
+
+    sort?: TreeSortOption
+
+    data?: IcicleSeriesNodeItemOption[]
+}
+
+class IcicleSeriesModel extends SeriesModel<IcicleSeriesOption> {
+
+    static readonly type = 'series.icicle';
+    readonly type = IcicleSeriesModel.type;
+
+    static layoutMode = 'box' as const;
+
+    ignoreStyleOnData = true;
+
+    layoutInfo: LayoutRect;
+
+    private _viewRoot: TreeNode;
+
+    getInitialData(option: IcicleSeriesOption, ecModel: GlobalModel) {
+        // Create a virtual root.
+        const root = { name: option.name, children: option.data } as IcicleSeriesNodeItemOption;
+
+        // The value of a frame is not less than the sum of its children,
+        // the remaining part is the self value, which is left blank.
+        completeTreeValue(root, true);
+
+        const levelModels = zrUtil.map(option.levels || [], function (levelDefine) {
+            return new Model(levelDefine, this, ecModel);
+        }, this);
+
+        const tree = Tree.createTree(root, this, beforeLink);
+
+        function beforeLink(nodeData: List) {
+            nodeData.wrapMethod('getItemModel', function (model, idx) {
+                const node = tree.getNodeByDataIndex(idx);
+                const levelModel = levelModels[node.depth];
+                levelModel && (model.parentModel = levelModel);
+                return model;
+            });
+        }
+        return tree.data;
+    }
+
+    optionUpdated() {
+        this.resetViewRoot();
+    }
+
+    /*
+     * @override
+     */
+    getDataParams(dataIndex: number) {
+        const params = super.getDataParams.apply(this, arguments as any) as IcicleDataParams;
+
+        const node = this.getData().tree.getNodeByDataIndex(dataIndex);
+        params.treePathInfo = wrapTreePathInfo<IcicleSeriesNodeItemOption['value']>(node, this);
+
+        return params;
+    }
+
+    static defaultOption: IcicleSeriesOption = {
+        zlevel: 0,
+        z: 2,
+
+        left: 'center',
+        top: 'middle',
+        width: '80%',
+        height: '80%',
+
+        orient: 'vertical',
+
+        minItemSize: 0.5,
+
+        // 'rootToNode', 'link', or false
+        nodeClick: 'rootToNode',
+
+        breadcrumb: {
+            show: true,
+            height: 22,
+            left: 'center',
+            top: 'bottom',
+            emptyItemWidth: 25,
+            itemStyle: {
+                color: 'rgba(0,0,0,0.7)',
+                textStyle: {
+                    color: '#fff'
+                }
+            }
+        },
+
+        label: {
+            show: true,
+            position: 'insideLeft',
+            distance: 5,
+            overflow: 'truncate'
+        },
+        itemStyle: {
+            borderWidth: 1,
+            borderColor: 'white',
+            borderType: 'solid',
+            opacity: 1
+        },
+
+        emphasis: {
+            focus: 'descendant'
+        },
+
+        blur: {
+            itemStyle: {
+                opacity: 0.2
+            },
+            label: {
+                opacity: 0.1
+            }
+        },
+
+        animationDuration: 1000,
+        animationDurationUpdate: 500,
+
+        data: [],
+
+        levels: [],
+
+        /**
+         * Sort order.
+         *
+         * Valid values: 'desc', 'asc', null, or callback function.
+         * See `sort` of sunburst.
+         */
+        sort: 'desc'
+    };
+
+    getViewRoot() {
+        return this._viewRoot;
+    }
+
+    resetViewRoot(viewRoot?: TreeNode) {
+        viewRoot
+            ? (this._viewRoot = viewRoot)
+            : (viewRoot = this._viewRoot);
+
+        const root = this.getRawData().tree.root;
+
+        if (!viewRoot
+            || (viewRoot !== root && !root.contains(viewRoot))
+        ) {
+            this._viewRoot = root;
+        }
+    }
+
+    enableAriaDecal() {
+        enableAriaDecalForTree(this);
+    }
+}
+
+
+export default IcicleSeriesModel;
@@ -0,0 +1,262 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+import { extend } from 'zrender/src/core/util';
+import ChartView from '../../view/Chart';
+import * as graphic from '../../util/graphic';
+import DataDiffer from '../../data/DataDiffer';
+import IcicleSeriesModel, { IcicleSeriesNodeItemOption } from './IcicleSeries';
+import GlobalModel from '../../model/Global';
+import ExtensionAPI from '../../core/ExtensionAPI';
+import { TreeNode } from '../../data/Tree';
+import { ROOT_TO_NODE_ACTION } from './icicleAction';
+import { windowOpen } from '../../util/format';
+import { setStatesStylesFromModel, enableHoverEmphasis } from '../../util/states';
+import { setLabelStyle, getLabelStatesModels } from '../../label/labelStyle';
+import { getECData } from '../../util/innerStore';
+import { findEventDispatcher } from '../../util/event';
+import { createOrUpdatePatternFromDecal } from '../../util/decal';
+import { PathStyleProps } from 'zrender/src/graphic/Path';
+import { RectLike } from 'zrender/src/core/BoundingRect';
+import Breadcrumb from '../treemap/Breadcrumb';
+
+interface DrawTreeNode extends TreeNode {
+    rect: graphic.Rect
+    children: DrawTreeNode[]
+}
+
+class IcicleView extends ChartView {
+
+    static readonly type = 'icicle';
+    readonly type = IcicleView.type;
+
+    seriesModel: IcicleSeriesModel;
+    api: ExtensionAPI;
+
+    private _oldNodes: DrawTreeNode[];
+
+    private _breadcrumb: Breadcrumb;
+
+    render(
+        seriesModel: IcicleSeriesModel,
+        ecModel: GlobalModel,
+        api: ExtensionAPI
+    ) {
+        this.seriesModel = seriesModel;
+        this.api = api;
+
+        const data = seriesModel.getData();
+        const group = this.group;
+        const isVertical = seriesModel.get('orient') !== 'horizontal';
+        const minItemSize = seriesModel.get('minItemSize') || 0;
+
+        // Only nodes that are large enough are rendered. Descendants are never
+        // larger than their ancestor, so the whole subtree can be skipped, which
+        // is necessary for flame graph with huge amount of frames.
+        const newNodes: DrawTreeNode[] = [];
+        collectVisibleNodes(data.tree.root as DrawTreeNode);
+
+        const oldNodes = this._oldNodes || [];
+
+        new DataDiffer(oldNodes, newNodes, getKey, getKey)
+            .add(function (newIdx) {
+                renderNode(newNodes[newIdx], null);
+            })
+            .update(function (newIdx, oldIdx) {
+                renderNode(newNodes[newIdx], oldNodes[oldIdx].rect);
+                oldNodes[oldIdx].rect = null;
+            })
+            .remove(function (oldIdx) {
+                const oldNode = oldNodes[oldIdx];
+                if (oldNode.rect) {
+                    group.remove(oldNode.rect);
+                    oldNode.hostTree.data.setItemGraphicEl(oldNode.dataIndex, null);
+                    oldNode.rect = null;
+                }
+            })
+            .execute();
+
+        this._oldNodes = newNodes;
+
+        this._initEvents();
+
+        this._renderBreadcrumb(seriesModel, api);
+
+        function getKey(node: DrawTreeNode) {
+            return node.getId();
+        }
+
+        function collectVisibleNodes(node: DrawTreeNode) {
+            const layout = node.getLayout() as RectLike;
+            if (layout) {
+                if ((isVertical ? layout.width : layout.height) < minItemSize) {
+                    return;
+                }
+                newNodes.push(node);
+            }
+            for (let i = 0; i < node.children.length; i++) {
+                collectVisibleNodes(node.children[i]);
+            }
+        }
+
+        function renderNode(node: DrawTreeNode, rect: graphic.Rect) {
+            const dataIndex = node.dataIndex;
+            const itemModel = node.getModel<IcicleSeriesNodeItemOption>();
+            const layout = node.getLayout() as RectLike;
+            const shape = {
+                x: layout.x,
+                y: layout.y,
+                width: layout.width,
+                height: layout.height,
+                r: itemModel.get(['itemStyle', 'borderRadius']) || 0
+            };
+
+            if (rect) {
+                graphic.updateProps(rect, {
+                    shape: shape
+                }, seriesModel, dataIndex);
+            }
+            else {
+                // Grow from the top (or left) side of the level.
+                rect = new graphic.Rect({
+                    shape: extend(extend({}, shape), isVertical ? {height: 0} : {width: 0})
+                });
+                group.add(rect);
+                graphic.initProps(rect, {
+                    shape: isVertical ? {height: shape.height} : {width: shape.width}
+                }, seriesModel, dataIndex);
+            }
+            node.rect = rect;
+
+            const style = extend({}, data.getItemVisual(dataIndex, 'style')) as PathStyleProps;
+            const decal = data.getItemVisual(dataIndex, 'decal');
+            if (decal) {
+                style.decal = createOrUpdatePatternFromDecal(decal, api);
+            }
+            rect.useStyle(style);
+            setStatesStylesFromModel(rect, itemModel);
+
+            setLabelStyle(rect, getLabelStatesModels(itemModel), {
+                labelFetcher: seriesModel,
+                labelDataIndex: dataIndex,
+                defaultText: node.name,
+                inheritColor: style.fill as string,
+                defaultOpacity: style.opacity
+            });
+
+            const textEl = rect.getTextContent();
+            if (textEl) {
+                const labelDistance = itemModel.get(['label', 'distance']) || 0;
+                const textStyle = textEl.style;
+                // Truncate the label to fit the size of the rect.
+                textEl.beforeUpdate = function () {
+                    const width = Math.max(rect.shape.width - labelDistance * 2, 0);
+                    const height = Math.max(rect.shape.height, 0);
+                    if (textStyle.width !== width || textStyle.height !== height) {
+                        textEl.setStyle({
+                            width,
+                            height
+                        });
+                    }
+                };
+                textStyle.truncateMinChar = 2;
+                textStyle.lineOverflow = 'truncate';
+            }
+
+            const cursorStyle = itemModel.getShallow('cursor');
+            cursorStyle && rect.attr('cursor', cursorStyle);
+
+            data.setItemGraphicEl(dataIndex, rect);
+
+            const emphasisModel = itemModel.getModel('emphasis');
+            const focus = emphasisModel.get('focus');
+            enableHoverEmphasis(
+                rect,
+                focus === 'ancestor' ? node.getAncestorsIndices()
+                    : focus === 'descendant' ? node.getDescendantIndices()
+                    : focus,
+                emphasisModel.get('blurScope')
+            );
+        }
+    }
+
+    private _initEvents() {
+        this.group.off('click');
+        this.group.on('click', (e) => {
+            const target = findEventDispatcher(e.target, (el) => getECData(el).dataIndex != null, true);
+            if (!target) {
+                return;
+            }
+            const node = this.seriesModel.getData().tree.getNodeByDataIndex(getECData(target).dataIndex);
+            const itemModel = node.getModel<IcicleSeriesNodeItemOption>();
+            const nodeClick = itemModel.get('nodeClick');
+            if (nodeClick === 'rootToNode') {
+                this._rootToNode(node);
+            }
+            else if (nodeClick === 'link') {
+                const link = itemModel.get('link');
+                if (link) {
+                    const linkTarget = itemModel.get('target', true)
+                        || '_blank';
+                    windowOpen(link, linkTarget);
+                }
+            }
+        });
+    }
+
+    private _renderBreadcrumb(seriesModel: IcicleSeriesModel, api: ExtensionAPI) {
+        (this._breadcrumb || (this._breadcrumb = new Breadcrumb(this.group)))
+            .render(seriesModel, api, seriesModel.getViewRoot(), (node) => {
+                this._rootToNode(node);
+            });
+    }
+
+    private _rootToNode(node: TreeNode) {
+        if (node !== this.seriesModel.getViewRoot()) {
+            this.api.dispatchAction({
+                type: ROOT_TO_NODE_ACTION,
+                from: this.uid,
+                seriesId: this.seriesModel.id,
+                targetNode: node
+            });
+        }
+    }
+
+    /**
+     * @override
+     */
+    remove() {
+        const oldNodes = this._oldNodes || [];
+        for (let i = 0; i < oldNodes.length; i++) {
+            oldNodes[i].rect = null;
+        }
+        this._oldNodes = null;
+        this.group.removeAll();
+        this._breadcrumb = null;
+    }
+
+    /**
+     * @implement
+     */
+    containPoint(point: number[], seriesModel: IcicleSeriesModel) {
+        const layoutInfo = seriesModel.layoutInfo;
+        return layoutInfo && layoutInfo.contain(point[0], point[1]);
+    }
+}
+
+export default IcicleView;
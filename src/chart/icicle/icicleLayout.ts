@@ -0,0 +1,98 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+import GlobalModel from '../../model/Global';
+import ExtensionAPI from '../../core/ExtensionAPI';
+import IcicleSeriesModel from './IcicleSeries';
+import { TreeNode } from '../../data/Tree';
+import { getLayoutRect } from '../../util/layout';
+import { sortTreeChildren, getPathToRoot } from '../helper/treeHelper';
+import { RectLike } from 'zrender/src/core/BoundingRect';
+
+export default function icicleLayout(ecModel: GlobalModel, api: ExtensionAPI) {
+    ecModel.eachSeriesByType('icicle', function (seriesModel: IcicleSeriesModel) {
+        const layoutInfo = getLayoutRect(
+            seriesModel.getBoxLayoutParams(),
+            {
+                width: api.getWidth(),
+                height: api.getHeight()
+            }
+        );
+        seriesModel.layoutInfo = layoutInfo;
+
+        const isVertical = seriesModel.get('orient') !== 'horizontal';
+        // Levels are placed along the depth direction and the siblings
+        // share the breadth of their parent.
+        const breadthStart = isVertical ? layoutInfo.x : layoutInfo.y;
+        const breadthSize = isVertical ? layoutInfo.width : layoutInfo.height;
+        const depthStart = isVertical ? layoutInfo.y : layoutInfo.x;
+        const depthSize = isVertical ? layoutInfo.height : layoutInfo.width;
+
+        const treeRoot = seriesModel.getData().tree.root;
+        const viewRoot = seriesModel.getViewRoot();
+
+        const sort = seriesModel.get('sort');
+        if (sort != null) {
+            sortTreeChildren(treeRoot, sort);
+        }
+
+        treeRoot.eachNode(function (node) {
+            node.setLayout(null);
+        });
+
+        // The virtual root takes no level. The ancestors of the view root
+        // are kept on the top levels with the full breadth so that user
+        // can roll up by clicking them. Height of leaf is 1.
+        const levelCount = viewRoot.depth + viewRoot.height - 1;
+        const levelSize = levelCount ? depthSize / levelCount : 0;
+
+        const ancestors = getPathToRoot(viewRoot);
+        for (let i = 0; i < ancestors.length; i++) {
+            if (ancestors[i] !== treeRoot) {
+                setNodeLayout(ancestors[i], breadthStart, breadthSize);
+            }
+        }
+
+        layoutNode(viewRoot, breadthStart, breadthSize);
+
+        function layoutNode(node: TreeNode, start: number, size: number) {
+            if (node !== treeRoot) {
+                setNodeLayout(node, start, size);
+            }
+
+            const value = node.getValue() as number;
+            if (!value) {
+                return;
+            }
+            const children = node.children;
+            for (let i = 0; i < children.length; i++) {
+                const childSize = size * (children[i].getValue() as number || 0) / value;
+                layoutNode(children[i], start, childSize);
+                start += childSize;
+            }
+        }
+
+        function setNodeLayout(node: TreeNode, start: number, size: number) {
+            const levelStart = depthStart + (node.depth - 1) * levelSize;
+            const layout: RectLike = isVertical
+                ? {x: start, y: levelStart, width: size, height: levelSize}
+                : {x: levelStart, y: start, width: levelSize, height: size};
+            node.setLayout(layout);
+        }
+    });
+}
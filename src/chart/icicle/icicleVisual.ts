@@ -0,0 +1,45 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+import GlobalModel from '../../model/Global';
+import IcicleSeriesModel, { IcicleSeriesNodeItemOption } from './IcicleSeries';
+import { extend } from 'zrender/src/core/util';
+import { Dictionary, ColorString } from '../../util/types';
+import { pickColor } from '../helper/treeHelper';
+
+export default function icicleVisual(ecModel: GlobalModel) {
+
+    const paletteScope: Dictionary<ColorString> = {};
+
+    ecModel.eachSeriesByType('icicle', function (seriesModel: IcicleSeriesModel) {
+        const data = seriesModel.getData();
+        const tree = data.tree;
+
+        tree.eachNode(function (node) {
+            const model = node.getModel<IcicleSeriesNodeItemOption>();
+            const style = model.getModel('itemStyle').getItemStyle();
+
+            if (!style.fill) {
+                style.fill = pickColor(node, seriesModel, tree.root.height, paletteScope);
+            }
+
+            const existsStyle = data.ensureUniqueItemVisual(node.dataIndex, 'style');
+            extend(existsStyle, style);
+        });
+    });
+}
@@ -543,7 +543,7 @@ class LineView extends ChartView {
         this._lineGroup = lineGroup;
     }
 
-    render(seriesModel: LineSeriesModel, ecModel: GlobalModel, api: ExtensionAPI) {
+    render(seriesModel: LineSeriesModel, ecModel: GlobalModel, api: ExtensionAPI, payload?: Payload) {
         const coordSys = seriesModel.coordinateSystem;
         const group = this.group;
         const data = seriesModel.getData();
@@ -697,7 +697,8 @@ class LineView extends ChartView {
             ) {
                 if (hasAnimation) {
                     this._doUpdateAnimation(
-                        data, stackedOnPoints, coordSys, api, step, valueOrigin
+                        data, stackedOnPoints, coordSys, api, step, valueOrigin,
+                        payload && payload.type === 'streamData'
                     );
                 }
                 else {
@@ -1186,7 +1187,8 @@ class LineView extends ChartView {
         coordSys: Cartesian2D | Polar,
         api: ExtensionAPI,
         step: LineSeriesOption['step'],
-        valueOrigin: LineSeriesOption['areaStyle']['origin']
+        valueOrigin: LineSeriesOption['areaStyle']['origin'],
+        isStreamed: boolean
     ) {
         const polyline = this._polyline;
         const polygon = this._polygon;
@@ -1196,7 +1198,8 @@ class LineView extends ChartView {
             this._data, data,
             this._stackedOnPoints, stackedOnPoints,
             this._coordSys, coordSys,
-            this._valueOrigin, valueOrigin
+            this._valueOrigin, valueOrigin,
+            isStreamed
         );
 
         let current = diff.current;
@@ -48,14 +48,36 @@ function diffData(oldData: List, newData: List) {
     return diffResult;
 }
 
+/**
+ * Diff the data updated by `streamData`, where the items are only appended
+ * and shifted. So the old item of a new item can be found by the count of
+ * the shifted items rather than diffing all of the ids.
+ * The shifted items are not included, which are not animated either in `diffData`.
+ */
+function diffStreamedData(oldData: List, newData: List) {
+    const diffResult: DiffItem[] = [];
+    const shiftedCount = newData.getShiftedCount() - oldData.getShiftedCount();
+
+    for (let newIdx = 0, len = newData.count(); newIdx < len; newIdx++) {
+        const oldIdx = oldData.indexOfRawIndex(newData.getRawIndex(newIdx) + shiftedCount);
+        diffResult.push(oldIdx >= 0
+            ? {cmd: '=', idx: oldIdx, idx1: newIdx}
+            : {cmd: '+', idx: newIdx}
+        );
+    }
+
+    return diffResult;
+}
+
 export default function lineAnimationDiff(
     oldData: List, newData: List,
     oldStackedOnPoints: ArrayLike<number>, newStackedOnPoints: ArrayLike<number>,
     oldCoordSys: Cartesian2D | Polar, newCoordSys: Cartesian2D | Polar,
     oldValueOrigin: LineSeriesOption['areaStyle']['origin'],
-    newValueOrigin: LineSeriesOption['areaStyle']['origin']
+    newValueOrigin: LineSeriesOption['areaStyle']['origin'],
+    isStreamed?: boolean
 ) {
-    const diff = diffData(oldData, newData);
+    const diff = isStreamed ? diffStreamedData(oldData, newData) : diffData(oldData, newData);
 
     // let newIdList = newData.mapArray(newData.getId);
     // let oldIdList = oldData.mapArray(oldData.getId);
@@ -22,6 +22,11 @@
 import createRenderPlanner from '../helper/createRenderPlanner';
 import { StageHandler } from '../../util/types';
 import LinesSeriesModel, {LinesDataItemOption} from './LinesSeries';
+import type Geo from '../../coord/geo/Geo';
+import { interpolateGreatCircle } from '../../coord/geo/projection';
+
+// Max degree of each segment of the great circle path.
+const GREAT_CIRCLE_STEP = 2;
 
 const linesLayout: StageHandler = {
     seriesType: 'lines',
@@ -32,6 +37,8 @@ const linesLayout: StageHandler = {
         const coordSys = seriesModel.coordinateSystem;
         const isPolyline = seriesModel.get('polyline');
         const isLarge = seriesModel.pipelineContext.large;
+        // Lines on the projected geo follow the great circle.
+        const useGreatCircle = isPolyline && coordSys.type === 'geo' && !!(coordSys as Geo).projection;
         return {
             progress(params, lineData) {
                 const lineCoords: number[][] = [];
@@ -73,7 +80,17 @@ const linesLayout: StageHandler = {
                         const pts = [];
                         if (isPolyline) {
                             for (let j = 0; j < len; j++) {
-                                pts.push(coordSys.dataToPoint(lineCoords[j]));
+                                if (useGreatCircle && j > 0) {
+                                    const arcCoords = interpolateGreatCircle(
+                                        lineCoords[j - 1], lineCoords[j], GREAT_CIRCLE_STEP
+                                    );
+                                    for (let k = 0; k < arcCoords.length; k++) {
+                                        pts.push(coordSys.dataToPoint(arcCoords[k]));
+                                    }
+                                }
+                                else {
+                                    pts.push(coordSys.dataToPoint(lineCoords[j]));
+                                }
                             }
                         }
                         else {
@@ -36,9 +36,11 @@ import {
     OptionDataItemObject,
     StatesOptionMixin,
     SeriesLabelOption,
-    DefaultEmphasisFocus
+    DefaultEmphasisFocus,
+    SeriesOnMatrixOptionMixin
 } from '../../util/types';
 import List from '../../data/List';
+import type { MatrixCoordItemOption } from '../../coord/matrix/MatrixModel';
 
 interface PieItemStyleOption extends ItemStyleOption {
     // can be 10
@@ -98,10 +100,17 @@ export interface PieSeriesOption extends
     Omit<SeriesOption<PieStateOption, ExtraStateOption>, 'labelLine'>, PieStateOption,
     CircleLayoutOptionMixin,
     BoxLayoutOptionMixin,
+    SeriesOnMatrixOptionMixin,
     SeriesEncodeOptionMixin {
 
     type?: 'pie'
 
+    /**
+     * Cell of the matrix to place the pie, if `coordinateSystem` is 'matrix'.
+     * `center` and `radius` are relative to the cell then.
+     */
+    coord?: MatrixCoordItemOption[]
+
     roseType?: 'radius' | 'area'
 
     clockwise?: boolean
@@ -126,6 +135,8 @@ class PieSeriesModel extends SeriesModel<PieSeriesOption> {
 
     static type = 'series.pie' as const;
 
+    static readonly dependencies = ['matrix'];
+
     useColorPaletteOnData = true;
 
     /**
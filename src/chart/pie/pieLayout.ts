@@ -23,11 +23,18 @@ import * as zrUtil from 'zrender/src/core/util';
 import GlobalModel from '../../model/Global';
 import ExtensionAPI from '../../core/ExtensionAPI';
 import PieSeriesModel from './PieSeries';
+import { isCoordinateSystemType } from '../../coord/CoordinateSystem';
+import type Matrix from '../../coord/matrix/Matrix';
+import { RectLike } from 'zrender/src/core/BoundingRect';
 
 const PI2 = Math.PI * 2;
 const RADIAN = Math.PI / 180;
 
-function getViewRect(seriesModel: PieSeriesModel, api: ExtensionAPI) {
+function getViewRect(seriesModel: PieSeriesModel, api: ExtensionAPI): RectLike {
+    const coordSys = seriesModel.coordinateSystem;
+    if (coordSys && isCoordinateSystemType<Matrix>(coordSys, 'matrix')) {
+        return coordSys.dataToRect(seriesModel.get('coord'));
+    }
     return layout.getLayoutRect(
         seriesModel.getBoxLayoutParams(), {
             width: api.getWidth(),
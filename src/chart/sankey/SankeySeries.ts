@@ -33,7 +33,8 @@ import {
     OptionDataItemObject,
     GraphEdgeItemObject,
     OptionDataValueNumeric,
-    DefaultEmphasisFocus
+    DefaultEmphasisFocus,
+    CallbackDataParams
 } from '../../util/types';
 import GlobalModel from '../../model/Global';
 import List from '../../data/List';
@@ -56,6 +57,10 @@ interface SankeyBothStateOption extends SankeyNodeStateOption, SankeyEdgeStateOp
 }
 
 interface SankeyEdgeStyleOption extends LineStyleOption {
+    /**
+     * 'source', 'target' and 'gradient' use the colors of the adjacent nodes.
+     */
+    color?: LineStyleOption['color'] | 'source' | 'target' | 'gradient'
     curveness?: number
 }
 
@@ -129,6 +134,17 @@ export interface SankeySeriesOption
 
     nodeAlign?: 'justify' | 'left' | 'right'    // TODO justify should be auto
 
+    /**
+     * The order of nodes within the same depth. Can be:
+     * + 'value': by node value, descending.
+     * + 'name': by node name, ascending.
+     * + 'data': keep the order of nodes in `data`.
+     * + a compare function of the data params of two nodes.
+     * + null/undefined: decided by the layout iterations.
+     * If specified, the order is kept whatever `layoutIterations` is.
+     */
+    nodeSort?: 'value' | 'name' | 'data' | ((a: CallbackDataParams, b: CallbackDataParams) => number)
+
     data?: SankeyNodeItemOption[]
     nodes?: SankeyNodeItemOption[]
 
@@ -305,6 +321,8 @@ class SankeySeriesModel extends SeriesModel<SankeySeriesOption> {
 
         nodeAlign: 'justify',
 
+        nodeSort: null,
+
         lineStyle: {
             color: '#314656',
             opacity: 0.2,
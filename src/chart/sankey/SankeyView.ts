@@ -45,6 +45,10 @@ class SankeyPathShape {
 
     extent = 0;
     orient: LayoutOrient;
+
+    // Cyclic edge is routed around the nodes through the channel.
+    cyclic = false;
+    channel = 0;
 }
 
 interface SankeyPathProps extends PathProps {
@@ -63,6 +67,10 @@ class SankeyPath extends graphic.Path<SankeyPathProps> {
     }
 
     buildPath(ctx: CanvasRenderingContext2D, shape: SankeyPathShape) {
+        if (shape.cyclic) {
+            buildCyclicPath(ctx, shape);
+            return;
+        }
         const extent = shape.extent;
         ctx.moveTo(shape.x1, shape.y1);
         ctx.bezierCurveTo(
@@ -98,6 +106,49 @@ class SankeyPath extends graphic.Path<SankeyPathProps> {
     }
 }
 
+/**
+ * Build the path of a cyclic edge, which leaves the source forward, turns
+ * into the channel beyond the nodes, goes backward along the channel and
+ * turns into the target.
+ * It's built in the coordinates along (u) and across (v) the flow.
+ */
+function buildCyclicPath(ctx: CanvasRenderingContext2D, shape: SankeyPathShape) {
+    const isVertical = shape.orient === 'vertical';
+    const u1 = isVertical ? shape.y1 : shape.x1;
+    const v1 = isVertical ? shape.x1 : shape.y1;
+    const u2 = isVertical ? shape.y2 : shape.x2;
+    const v2 = isVertical ? shape.x2 : shape.y2;
+    const extent = shape.extent;
+    const channel = shape.channel;
+    // Control point offsets to approximate half circles.
+    const outer1 = (channel + extent - v1) * 2 / 3;
+    const inner1 = Math.max(channel - v1 - extent, 0) * 2 / 3;
+    const outer2 = (channel + extent - v2) * 2 / 3;
+    const inner2 = Math.max(channel - v2 - extent, 0) * 2 / 3;
+
+    function moveTo(u: number, v: number) {
+        isVertical ? ctx.moveTo(v, u) : ctx.moveTo(u, v);
+    }
+    function lineTo(u: number, v: number) {
+        isVertical ? ctx.lineTo(v, u) : ctx.lineTo(u, v);
+    }
+    function curveTo(cu1: number, cv1: number, cu2: number, cv2: number, u: number, v: number) {
+        isVertical
+            ? ctx.bezierCurveTo(cv1, cu1, cv2, cu2, v, u)
+            : ctx.bezierCurveTo(cu1, cv1, cu2, cv2, u, v);
+    }
+
+    moveTo(u1, v1);
+    curveTo(u1 + outer1, v1, u1 + outer1, channel + extent, u1, channel + extent);
+    lineTo(u2, channel + extent);
+    curveTo(u2 - outer2, channel + extent, u2 - outer2, v2, u2, v2);
+    lineTo(u2, v2 + extent);
+    curveTo(u2 - inner2, v2 + extent, u2 - inner2, channel, u2, channel);
+    lineTo(u1, channel);
+    curveTo(u1 + inner1, channel, u1 + inner1, v1 + extent, u1, v1 + extent);
+    ctx.closePath();
+}
+
 class SankeyView extends ChartView {
 
     static readonly type = 'sankey';
@@ -159,6 +210,8 @@ class SankeyView extends ChartView {
 
             curve.shape.extent = Math.max(1, edgeLayout.dy);
             curve.shape.orient = orient;
+            curve.shape.cyclic = !!edgeLayout.cyclic;
+            curve.shape.channel = edgeLayout.channel || 0;
 
             if (orient === 'vertical') {
                 x1 = (dragX1 != null ? dragX1 * width : n1Layout.x) + edgeLayout.sy;
@@ -207,13 +260,18 @@ class SankeyView extends ChartView {
                     const sourceColor = edge.node1.getVisual('color');
                     const targetColor = edge.node2.getVisual('color');
                     if (typeof sourceColor === 'string' && typeof targetColor === 'string') {
-                        curve.style.fill = new graphic.LinearGradient(0, 0, 1, 0, [{
-                            color: sourceColor,
-                            offset: 0
-                        }, {
-                            color: targetColor,
-                            offset: 1
-                        }]);
+                        // Gradient is along the flow. Cyclic edge goes backward,
+                        // so the target is at the start of the flow axis.
+                        const isCyclic = curve.shape.cyclic;
+                        curve.style.fill = new graphic.LinearGradient(
+                            0, 0, +(orient !== 'vertical'), +(orient === 'vertical'), [{
+                                color: isCyclic ? targetColor : sourceColor,
+                                offset: 0
+                            }, {
+                                color: isCyclic ? sourceColor : targetColor,
+                                offset: 1
+                            }]
+                        );
                     }
             }
 
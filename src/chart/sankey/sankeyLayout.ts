@@ -23,7 +23,7 @@ import {groupData} from '../../util/model';
 import ExtensionAPI from '../../core/ExtensionAPI';
 import SankeySeriesModel, { SankeySeriesOption, SankeyNodeItemOption } from './SankeySeries';
 import { GraphNode, GraphEdge } from '../../data/Graph';
-import { LayoutOrient } from '../../util/types';
+import { LayoutOrient, CallbackDataParams } from '../../util/types';
 import GlobalModel from '../../model/Global';
 
 export default function sankeyLayout(ecModel: GlobalModel, api: ExtensionAPI) {
@@ -57,10 +57,58 @@ export default function sankeyLayout(ecModel: GlobalModel, api: ExtensionAPI) {
 
         const nodeAlign = seriesModel.get('nodeAlign');
 
-        layoutSankey(nodes, edges, nodeWidth, nodeGap, width, height, iterations, orient, nodeAlign);
+        const nodeComparator = getNodeComparator(seriesModel);
+
+        layoutSankey(
+            nodes, edges, nodeWidth, nodeGap, width, height, iterations, orient, nodeAlign, nodeComparator
+        );
     });
 }
 
+type NodeComparator = (a: GraphNode, b: GraphNode) => number;
+
+/**
+ * Get the comparator to order nodes within the same depth according to `nodeSort`.
+ */
+function getNodeComparator(seriesModel: SankeySeriesModel): NodeComparator {
+    const nodeSort = seriesModel.get('nodeSort');
+    const nodeData = seriesModel.getData();
+    let compare: NodeComparator;
+
+    if (nodeSort === 'value') {
+        compare = function (a, b) {
+            return b.getLayout().value - a.getLayout().value;
+        };
+    }
+    else if (nodeSort === 'name') {
+        compare = function (a, b) {
+            const nameA = nodeData.getName(a.dataIndex);
+            const nameB = nodeData.getName(b.dataIndex);
+            return nameA < nameB ? -1 : nameA > nameB ? 1 : 0;
+        };
+    }
+    else if (nodeSort === 'data') {
+        compare = function () {
+            return 0;
+        };
+    }
+    else if (zrUtil.isFunction(nodeSort)) {
+        const paramsList: CallbackDataParams[] = [];
+        const getParams = function (node: GraphNode) {
+            return paramsList[node.dataIndex]
+                || (paramsList[node.dataIndex] = seriesModel.getDataParams(node.dataIndex, 'node'));
+        };
+        compare = function (a, b) {
+            return nodeSort(getParams(a), getParams(b));
+        };
+    }
+
+    // Fall back to the order in data to make the sorting stable.
+    return compare && function (a, b) {
+        return compare(a, b) || a.dataIndex - b.dataIndex;
+    };
+}
+
 /**
  * Get the layout position of the whole view
  */
@@ -82,13 +130,73 @@ function layoutSankey(
     height: number,
     iterations: number,
     orient: LayoutOrient,
-    nodeAlign: SankeySeriesOption['nodeAlign']
+    nodeAlign: SankeySeriesOption['nodeAlign'],
+    nodeComparator: NodeComparator
 ) {
+    const cyclicEdges = markCyclicEdges(nodes, edges);
     computeNodeBreadths(nodes, edges, nodeWidth, width, height, orient, nodeAlign);
-    computeNodeDepths(nodes, edges, height, width, nodeGap, iterations, orient);
+    const cyclicExtent = computeNodeDepths(
+        nodes, edges, cyclicEdges, height, width, nodeGap, iterations, orient, nodeComparator
+    );
+    computeCyclicEdgeChannels(
+        cyclicEdges, nodeGap, (orient === 'vertical' ? width : height) - cyclicExtent
+    );
     computeEdgeDepths(nodes, orient);
 }
 
+/**
+ * Find the edges that make cycles (including self loops) by depth first
+ * search, and mark them as `cyclic` in the edge layout. These edges are
+ * ignored when computing node depths and are routed around the diagram.
+ */
+function markCyclicEdges(nodes: GraphNode[], edges: GraphEdge[]) {
+    // 1 means the node is on the current search path, 2 means finished.
+    const visitState: number[] = [];
+    const cyclicEdges: GraphEdge[] = [];
+
+    function visit(node: GraphNode) {
+        visitState[node.dataIndex] = 1;
+        zrUtil.each(node.outEdges, function (edge) {
+            const state = visitState[edge.node2.dataIndex];
+            if (state === 1) {
+                edge.setLayout({cyclic: true}, true);
+                cyclicEdges.push(edge);
+            }
+            else if (!state) {
+                visit(edge.node2);
+            }
+        });
+        visitState[node.dataIndex] = 2;
+    }
+
+    zrUtil.each(edges, function (edge) {
+        edge.setLayout({cyclic: false}, true);
+    });
+    // Start from the sources so that the edges back to them are taken as cyclic.
+    zrUtil.each(nodes, function (node) {
+        if (!node.inEdges.length && !visitState[node.dataIndex]) {
+            visit(node);
+        }
+    });
+    zrUtil.each(nodes, function (node) {
+        if (!visitState[node.dataIndex]) {
+            visit(node);
+        }
+    });
+
+    return cyclicEdges;
+}
+
+function isCyclicEdge(edge: GraphEdge) {
+    return edge.getLayout().cyclic;
+}
+
+function getAcyclicEdges(edges: GraphEdge[]) {
+    return zrUtil.filter(edges, function (edge) {
+        return !isCyclicEdge(edge);
+    });
+}
+
 /**
  * Compute the value of each node by summing the associated edge's value
  */
@@ -105,8 +213,8 @@ function computeNodeValues(nodes: GraphNode[]) {
 /**
  * Compute the x-position for each node.
  *
- * Here we use Kahn algorithm to detect cycle when we traverse
- * the node to computer the initial x position.
+ * Here we use Kahn algorithm to traverse the node to computer the
+ * initial x position. The cyclic edges are ignored.
  */
 function computeNodeBreadths(
     nodes: GraphNode[],
@@ -117,9 +225,6 @@ function computeNodeBreadths(
     orient: LayoutOrient,
     nodeAlign: SankeySeriesOption['nodeAlign']
 ) {
-    // Used to mark whether the edge is deleted. if it is deleted,
-    // the value is 0, otherwise it is 1.
-    const remainEdges = [];
     // Storage each node's indegree.
     const indegreeArr = [];
     //Used to storage the node with indegree is equal to 0.
@@ -128,11 +233,8 @@ function computeNodeBreadths(
     let x = 0;
     // let kx = 0;
 
-    for (let i = 0; i < edges.length; i++) {
-        remainEdges[i] = 1;
-    }
     for (let i = 0; i < nodes.length; i++) {
-        indegreeArr[i] = nodes[i].inEdges.length;
+        indegreeArr[i] = getAcyclicEdges(nodes[i].inEdges).length;
         if (indegreeArr[i] === 0) {
             zeroIndegrees.push(nodes[i]);
         }
@@ -156,8 +258,9 @@ function computeNodeBreadths(
 
             for (let edgeIdx = 0; edgeIdx < node.outEdges.length; edgeIdx++) {
                 const edge = node.outEdges[edgeIdx];
-                const indexEdge = edges.indexOf(edge);
-                remainEdges[indexEdge] = 0;
+                if (isCyclicEdge(edge)) {
+                    continue;
+                }
                 const targetNode = edge.node2;
                 const nodeIndex = nodes.indexOf(targetNode);
                 if (--indegreeArr[nodeIndex] === 0 && nextTargetNode.indexOf(targetNode) < 0) {
@@ -170,12 +273,6 @@ function computeNodeBreadths(
         nextTargetNode = [];
     }
 
-    for (let i = 0; i < remainEdges.length; i++) {
-        if (remainEdges[i] === 1) {
-            throw new Error('Sankey is a DAG, the original data has cycle!');
-        }
-    }
-
     const maxDepth = maxNodeDepth > x - 1 ? maxNodeDepth : x - 1;
     if (nodeAlign && nodeAlign !== 'left') {
         adjustNodeWithNodeAlign(nodes, nodeAlign, orient, maxDepth);
@@ -208,7 +305,7 @@ function adjustNodeWithNodeAlign(
                 node.setLayout({skNodeHeight: nodeHeight}, true);
                 for (let j = 0; j < node.inEdges.length; j++) {
                     const edge = node.inEdges[j];
-                    if (nextSourceNode.indexOf(edge.node1) < 0) {
+                    if (!isCyclicEdge(edge) && nextSourceNode.indexOf(edge.node1) < 0) {
                         nextSourceNode.push(edge.node1);
                     }
                 }
@@ -238,7 +335,7 @@ function adjustNodeWithNodeAlign(
  */
 function moveSinksRight(nodes: GraphNode[], maxDepth: number) {
     zrUtil.each(nodes, function (node) {
-        if (!isNodeDepth(node) && !node.outEdges.length) {
+        if (!isNodeDepth(node) && !getAcyclicEdges(node.outEdges).length) {
             node.setLayout({depth: maxDepth}, true);
         }
     });
@@ -268,30 +365,51 @@ function scaleNodeBreadths(nodes: GraphNode[], kx: number, orient: LayoutOrient)
  * @param nodeGap  the vertical distance between two nodes
  *     in the same column.
  * @param iterations  the number of iterations for the algorithm
+ * @param nodeComparator  if specified, the order of nodes in the same column
+ *     is decided by it rather than the iterations.
+ * @return the extent reserved for the cyclic edges.
  */
 function computeNodeDepths(
     nodes: GraphNode[],
     edges: GraphEdge[],
+    cyclicEdges: GraphEdge[],
     height: number,
     width: number,
     nodeGap: number,
     iterations: number,
-    orient: LayoutOrient
+    orient: LayoutOrient,
+    nodeComparator: NodeComparator
 ) {
     const nodesByBreadth = prepareNodesByBreadth(nodes, orient);
+    if (nodeComparator) {
+        zrUtil.each(nodesByBreadth, function (nodes) {
+            nodes.sort(nodeComparator);
+        });
+    }
+    const keepOrder = !!nodeComparator;
 
-    initializeNodeDepth(nodesByBreadth, edges, height, width, nodeGap, orient);
-    resolveCollisions(nodesByBreadth, nodeGap, height, width, orient);
+    const cyclicExtent = initializeNodeDepth(nodesByBreadth, edges, cyclicEdges, height, width, nodeGap, orient);
+    // Nodes are laid out in the rest of the view, and the cyclic edges
+    // are routed in the reserved space beyond them.
+    if (orient === 'vertical') {
+        width -= cyclicExtent;
+    }
+    else {
+        height -= cyclicExtent;
+    }
+    resolveCollisions(nodesByBreadth, nodeGap, height, width, orient, keepOrder);
 
     for (let alpha = 1; iterations > 0; iterations--) {
         // 0.99 is a experience parameter, ensure that each iterations of
         // changes as small as possible.
         alpha *= 0.99;
         relaxRightToLeft(nodesByBreadth, alpha, orient);
-        resolveCollisions(nodesByBreadth, nodeGap, height, width, orient);
+        resolveCollisions(nodesByBreadth, nodeGap, height, width, orient, keepOrder);
         relaxLeftToRight(nodesByBreadth, alpha, orient);
-        resolveCollisions(nodesByBreadth, nodeGap, height, width, orient);
+        resolveCollisions(nodesByBreadth, nodeGap, height, width, orient, keepOrder);
     }
+
+    return cyclicExtent;
 }
 
 function prepareNodesByBreadth(nodes: GraphNode[], orient: LayoutOrient) {
@@ -313,15 +431,21 @@ function prepareNodesByBreadth(nodes: GraphNode[], orient: LayoutOrient) {
 
 /**
  * Compute the original y-position for each node
+ *
+ * @return the extent reserved for the cyclic edges.
  */
 function initializeNodeDepth(
     nodesByBreadth: GraphNode[][],
     edges: GraphEdge[],
+    cyclicEdges: GraphEdge[],
     height: number,
     width: number,
     nodeGap: number,
     orient: LayoutOrient
 ) {
+    // Each cyclic edge takes a channel with a gap beyond the nodes.
+    const cyclicValue = sum(cyclicEdges, getEdgeValue);
+    const cyclicGap = cyclicEdges.length * nodeGap;
     let minKy = Infinity;
     zrUtil.each(nodesByBreadth, function (nodes) {
         const n = nodes.length;
@@ -330,8 +454,8 @@ function initializeNodeDepth(
             sum += node.getLayout().value;
         });
         const ky = orient === 'vertical'
-                    ? (width - (n - 1) * nodeGap) / sum
-                    : (height - (n - 1) * nodeGap) / sum;
+                    ? (width - (n - 1) * nodeGap - cyclicGap) / (sum + cyclicValue)
+                    : (height - (n - 1) * nodeGap - cyclicGap) / (sum + cyclicValue);
 
         if (ky < minKy) {
             minKy = ky;
@@ -356,6 +480,8 @@ function initializeNodeDepth(
         const edgeDy = +edge.getValue() * minKy;
         edge.setLayout({dy: edgeDy}, true);
     });
+
+    return cyclicEdges.length ? cyclicValue * minKy + cyclicGap : 0;
 }
 
 /**
@@ -366,13 +492,16 @@ function resolveCollisions(
     nodeGap: number,
     height: number,
     width: number,
-    orient: LayoutOrient
+    orient: LayoutOrient,
+    keepOrder: boolean
 ) {
     const keyAttr = orient === 'vertical' ? 'x' : 'y';
     zrUtil.each(nodesByBreadth, function (nodes) {
-        nodes.sort(function (a, b) {
-            return a.getLayout()[keyAttr] - b.getLayout()[keyAttr];
-        });
+        if (!keepOrder) {
+            nodes.sort(function (a, b) {
+                return a.getLayout()[keyAttr] - b.getLayout()[keyAttr];
+            });
+        }
         let nodeX;
         let node;
         let dy;
@@ -427,13 +556,14 @@ function relaxRightToLeft(
 ) {
     zrUtil.each(nodesByBreadth.slice().reverse(), function (nodes) {
         zrUtil.each(nodes, function (node) {
-            if (node.outEdges.length) {
-                let y = sum(node.outEdges, weightedTarget, orient)
-                    / sum(node.outEdges, getEdgeValue);
+            const outEdges = getAcyclicEdges(node.outEdges);
+            if (outEdges.length) {
+                let y = sum(outEdges, weightedTarget, orient)
+                    / sum(outEdges, getEdgeValue);
 
                 if (isNaN(y)) {
-                    const len = node.outEdges.length;
-                    y = len ? sum(node.outEdges, centerTarget, orient) / len : 0;
+                    const len = outEdges.length;
+                    y = len ? sum(outEdges, centerTarget, orient) / len : 0;
                 }
 
                 if (orient === 'vertical') {
@@ -492,13 +622,14 @@ function sum<T>(array: T[], cb: (item: T, orient?: LayoutOrient) => number, orie
 function relaxLeftToRight(nodesByBreadth: GraphNode[][], alpha: number, orient: LayoutOrient) {
     zrUtil.each(nodesByBreadth, function (nodes) {
         zrUtil.each(nodes, function (node) {
-            if (node.inEdges.length) {
-                let y = sum(node.inEdges, weightedSource, orient)
-                        / sum(node.inEdges, getEdgeValue);
+            const inEdges = getAcyclicEdges(node.inEdges);
+            if (inEdges.length) {
+                let y = sum(inEdges, weightedSource, orient)
+                        / sum(inEdges, getEdgeValue);
 
                 if (isNaN(y)) {
-                    const len = node.inEdges.length;
-                    y = len ? sum(node.inEdges, centerSource, orient) / len : 0;
+                    const len = inEdges.length;
+                    y = len ? sum(inEdges, centerSource, orient) / len : 0;
                 }
 
                 if (orient === 'vertical') {
@@ -514,17 +645,42 @@ function relaxLeftToRight(nodesByBreadth: GraphNode[][], alpha: number, orient:
     });
 }
 
+/**
+ * Compute the channel (y-position beyond the nodes) of each cyclic edge.
+ * Edges spanning fewer columns are closer to the nodes to avoid crossing.
+ *
+ * @param nodesExtent  the extent of the area where the nodes are laid out.
+ */
+function computeCyclicEdgeChannels(cyclicEdges: GraphEdge[], nodeGap: number, nodesExtent: number) {
+    const sortedEdges = cyclicEdges.slice().sort(function (a, b) {
+        return getEdgeSpan(a) - getEdgeSpan(b) || a.dataIndex - b.dataIndex;
+    });
+    let channel = nodesExtent + nodeGap;
+    zrUtil.each(sortedEdges, function (edge) {
+        edge.setLayout({channel: channel}, true);
+        channel += edge.getLayout().dy + nodeGap;
+    });
+}
+
+function getEdgeSpan(edge: GraphEdge) {
+    return edge.node1.getLayout().depth - edge.node2.getLayout().depth;
+}
+
 /**
  * Compute the depth(y-position) of each edge
  */
 function computeEdgeDepths(nodes: GraphNode[], orient: LayoutOrient) {
     const keyAttr = orient === 'vertical' ? 'x' : 'y';
+    // Cyclic edges leave and enter the nodes at the end, where the outer
+    // channels come first so that the edges are nested.
     zrUtil.each(nodes, function (node) {
         node.outEdges.sort(function (a, b) {
-            return a.node2.getLayout()[keyAttr] - b.node2.getLayout()[keyAttr];
+            return compareCyclicEdge(a, b)
+                || a.node2.getLayout()[keyAttr] - b.node2.getLayout()[keyAttr];
         });
         node.inEdges.sort(function (a, b) {
-            return a.node1.getLayout()[keyAttr] - b.node1.getLayout()[keyAttr];
+            return compareCyclicEdge(a, b)
+                || a.node1.getLayout()[keyAttr] - b.node1.getLayout()[keyAttr];
         });
     });
     zrUtil.each(nodes, function (node) {
@@ -539,4 +695,12 @@ function computeEdgeDepths(nodes: GraphNode[], orient: LayoutOrient) {
             ty += edge.getLayout().dy;
         });
     });
-}
\ No newline at end of file
+}
+function compareCyclicEdge(a: GraphEdge, b: GraphEdge) {
+    const cyclicA = isCyclicEdge(a);
+    const cyclicB = isCyclicEdge(b);
+    if (cyclicA && cyclicB) {
+        return b.getLayout().channel - a.getLayout().channel;
+    }
+    return +cyclicA - +cyclicB;
+}
@@ -24,6 +24,7 @@ import {
     SeriesOnCartesianOptionMixin,
     SeriesOnPolarOptionMixin,
     SeriesOnCalendarOptionMixin,
+    SeriesOnMatrixOptionMixin,
     SeriesOnGeoOptionMixin,
     SeriesOnSingleOptionMixin,
     OptionDataValue,
@@ -61,7 +62,7 @@ export interface ScatterDataItemOption extends SymbolOptionMixin,
 
 export interface ScatterSeriesOption extends SeriesOption<ScatterStateOption, ExtraStateOption>, ScatterStateOption,
     SeriesOnCartesianOptionMixin, SeriesOnPolarOptionMixin, SeriesOnCalendarOptionMixin,
-    SeriesOnGeoOptionMixin, SeriesOnSingleOptionMixin,
+    SeriesOnGeoOptionMixin, SeriesOnSingleOptionMixin, SeriesOnMatrixOptionMixin,
     SeriesLargeOptionMixin, SeriesStackOptionMixin,
     SymbolOptionMixin<CallbackDataParams>, SeriesEncodeOptionMixin {
     type?: 'scatter'
@@ -80,7 +81,7 @@ class ScatterSeriesModel extends SeriesModel<ScatterSeriesOption> {
     static readonly type = 'series.scatter';
     type = ScatterSeriesModel.type;
 
-    static readonly dependencies = ['grid', 'polar', 'geo', 'singleAxis', 'calendar'];
+    static readonly dependencies = ['grid', 'polar', 'geo', 'singleAxis', 'calendar', 'matrix'];
 
     hasSymbolVisual = true;
 
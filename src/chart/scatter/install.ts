@@ -22,6 +22,7 @@ import ScatterSeriesModel from './ScatterSeries';
 import ScatterView from './ScatterView';
 import {install as installGridSimple} from '../../component/grid/installSimple';
 import layoutPoints from '../../layout/points';
+import jitterLayout from '../../layout/jitter';
 
 export function install(registers: EChartsExtensionInstallRegisters) {
     // In case developer forget to include grid component
@@ -30,5 +31,7 @@ export function install(registers: EChartsExtensionInstallRegisters) {
     registers.registerSeriesModel(ScatterSeriesModel);
     registers.registerChartView(ScatterView);
     registers.registerLayout(layoutPoints('scatter'));
+    // Symbol size is needed to avoid overlapping.
+    registers.registerLayout(registers.PRIORITY.VISUAL.POST_CHART_LAYOUT, jitterLayout('scatter'));
 
 }
\ No newline at end of file
@@ -20,7 +20,7 @@
 import * as zrUtil from 'zrender/src/core/util';
 import SeriesModel from '../../model/Series';
 import Tree, { TreeNode } from '../../data/Tree';
-import {wrapTreePathInfo} from '../helper/treeHelper';
+import {wrapTreePathInfo, TreeSortOption, completeTreeValue} from '../helper/treeHelper';
 import {
     SeriesOption,
     CircleLayoutOptionMixin,
@@ -97,12 +97,6 @@ export interface SunburstSeriesLevelOption extends SunburstStateOption, StatesOp
     }
 }
 
-interface SortParam {
-    dataIndex: number
-    depth: number
-    height: number
-    getValue(): number
-}
 export interface SunburstSeriesOption extends
     SeriesOption<SunburstStateOption, ExtraStateOption>, SunburstStateOption,
     CircleLayoutOptionMixin {
@@ -131,7 +125,7 @@ export interface SunburstSeriesOption extends
 
     animationType?: 'expansion' | 'scale'
 
-    sort?: 'desc' | 'asc' | ((a: SortParam, b: SortParam) => number)
+    sort?: TreeSortOption
 }
 
 interface SunburstSeriesModel {
@@ -295,40 +289,4 @@ class SunburstSeriesModel extends SeriesModel<SunburstSeriesOption> {
 }
 
 
-
-function completeTreeValue(dataNode: SunburstSeriesNodeItemOption) {
-    // Postorder travel tree.
-    // If value of none-leaf node is not set,
-    // calculate it by suming up the value of all children.
-    let sum = 0;
-
-    zrUtil.each(dataNode.children, function (child) {
-
-        completeTreeValue(child);
-
-        let childValue = child.value;
-        // TODO First value of array must be a number
-        zrUtil.isArray(childValue) && (childValue = childValue[0]);
-        sum += childValue as number;
-    });
-
-    let thisValue = dataNode.value as number;
-    if (zrUtil.isArray(thisValue)) {
-        thisValue = thisValue[0];
-    }
-
-    if (thisValue == null || isNaN(thisValue)) {
-        thisValue = sum;
-    }
-    // Value should not less than 0.
-    if (thisValue < 0) {
-        thisValue = 0;
-    }
-
-    zrUtil.isArray(dataNode.value)
-        ? (dataNode.value[0] = thisValue)
-        : (dataNode.value = thisValue);
-}
-
-
 export default SunburstSeriesModel;
@@ -21,8 +21,9 @@ import { parsePercent } from '../../util/number';
 import * as zrUtil from 'zrender/src/core/util';
 import GlobalModel from '../../model/Global';
 import ExtensionAPI from '../../core/ExtensionAPI';
-import SunburstSeriesModel, { SunburstSeriesNodeItemOption, SunburstSeriesOption } from './SunburstSeries';
+import SunburstSeriesModel, { SunburstSeriesNodeItemOption } from './SunburstSeries';
 import { TreeNode } from '../../data/Tree';
+import { sortTreeChildren } from '../helper/treeHelper';
 
 // let PI2 = Math.PI * 2;
 const RADIAN = Math.PI / 180;
@@ -60,7 +61,7 @@ export default function sunburstLayout(
 
         const sort = seriesModel.get('sort');
         if (sort != null) {
-            initChildren(treeRoot, sort);
+            sortTreeChildren(treeRoot, sort);
         }
 
         let validDataCount = 0;
@@ -176,59 +177,3 @@ export default function sunburstLayout(
         renderNode(treeRoot, startAngle);
     });
 }
-
-/**
- * Init node children by order and update visual
- */
-function initChildren(node: TreeNode, sortOrder?: SunburstSeriesOption['sort']) {
-    const children = node.children || [];
-
-    node.children = sort(children, sortOrder);
-
-    // Init children recursively
-    if (children.length) {
-        zrUtil.each(node.children, function (child) {
-            initChildren(child, sortOrder);
-        });
-    }
-}
-
-/**
- * Sort children nodes
- *
- * @param {TreeNode[]}               children children of node to be sorted
- * @param {string | function | null} sort sort method
- *                                   See SunburstSeries.js for details.
- */
-function sort(children: TreeNode[], sortOrder: SunburstSeriesOption['sort']) {
-    if (typeof sortOrder === 'function') {
-        const sortTargets = zrUtil.map(children, (child, idx) => {
-            const value = child.getValue() as number;
-            return {
-                params: {
-                    depth: child.depth,
-                    height: child.height,
-                    dataIndex: child.dataIndex,
-                    getValue: () => value
-                },
-                index: idx
-            };
-        });
-        sortTargets.sort((a, b) => {
-            return sortOrder(a.params, b.params);
-        });
-
-        return zrUtil.map(sortTargets, (target) => {
-            return children[target.index];
-        });
-    }
-    else {
-        const isAsc = sortOrder === 'asc';
-        return children.sort(function (a, b) {
-            const diff = ((a.getValue() as number) - (b.getValue() as number)) * (isAsc ? 1 : -1);
-            return diff === 0
-                ? (a.dataIndex - b.dataIndex) * (isAsc ? -1 : 1)
-                : diff;
-        });
-    }
-}
@@ -21,28 +21,12 @@ import GlobalModel from '../../model/Global';
 import SunburstSeriesModel, { SunburstSeriesNodeItemOption } from './SunburstSeries';
 import { extend } from 'zrender/src/core/util';
 import { Dictionary, ColorString } from '../../util/types';
-import { TreeNode } from '../../data/Tree';
-import { lift } from 'zrender/src/tool/color';
+import { pickColor } from '../helper/treeHelper';
 
 export default function sunburstVisual(ecModel: GlobalModel) {
 
     const paletteScope: Dictionary<ColorString> = {};
 
-    // Default color strategy
-    function pickColor(node: TreeNode, seriesModel: SunburstSeriesModel, treeHeight: number) {
-        // Choose color from palette based on the first level.
-        let current = node;
-        while (current && current.depth > 1) {
-            current = current.parentNode;
-        }
-        let color = seriesModel.getColorFromPalette((current.name || current.dataIndex + ''), paletteScope);
-        if (node.depth > 1 && typeof color === 'string') {
-            // Lighter on the deeper level.
-            color = lift(color, (node.depth - 1) / (treeHeight - 1) * 0.5);
-        }
-        return color;
-    }
-
     ecModel.eachSeriesByType('sunburst', function (seriesModel: SunburstSeriesModel) {
         const data = seriesModel.getData();
         const tree = data.tree;
@@ -52,7 +36,7 @@ export default function sunburstVisual(ecModel: GlobalModel) {
             const style = model.getModel('itemStyle').getItemStyle();
 
             if (!style.fill) {
-                style.fill = pickColor(node, seriesModel, tree.root.height);
+                style.fill = pickColor(node, seriesModel, tree.root.height, paletteScope);
             }
 
             const existsStyle = data.ensureUniqueItemVisual(node.dataIndex, 'style');
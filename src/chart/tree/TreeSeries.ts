@@ -18,7 +18,7 @@
 */
 
 import SeriesModel from '../../model/Series';
-import Tree from '../../data/Tree';
+import Tree, { TreeNode } from '../../data/Tree';
 import {
     SeriesOption,
     SymbolOptionMixin,
@@ -83,7 +83,20 @@ export interface TreeSeriesOption extends
     SymbolOptionMixin, BoxLayoutOptionMixin, RoamOptionMixin {
     type?: 'tree'
 
-    layout?: 'orthogonal' | 'radial'
+    layout?: 'orthogonal' | 'radial' | 'compact' | 'indented'
+
+    /**
+     * Size ([width, height]) of the space taken by each node in 'compact' and
+     * 'indented' layouts. In 'indented' layout, the children are indented by
+     * the width (or height if orient is 'TB' or 'BT') of their parent.
+     * Computed from the symbol and the label by default so that labels don't overlap.
+     */
+    nodeSize?: number | number[] | ((params: CallbackDataParams) => number | number[])
+
+    /**
+     * Separation ratio between two adjacent nodes. By default it's 1 for siblings and 2 for others.
+     */
+    separation?: (node1: TreeNode, node2: TreeNode) => number
 
     edgeShape?: 'polyline' | 'curve'
 
@@ -235,9 +248,11 @@ class TreeSeriesModel extends SeriesModel<TreeSeriesOption> {
         right: '12%',
         bottom: '12%',
 
-        // the layout of the tree, two value can be selected, 'orthogonal' or 'radial'
+        // the layout of the tree, can be 'orthogonal', 'radial', 'compact' or 'indented'
         layout: 'orthogonal',
 
+        nodeSize: null,
+
         // value can be 'polyline'
         edgeShape: 'curve',
 
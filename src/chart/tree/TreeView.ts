@@ -36,7 +36,8 @@ import ExtensionAPI from '../../core/ExtensionAPI';
 import { TreeNode } from '../../data/Tree';
 import List from '../../data/List';
 import { setStatesStylesFromModel, setStatesFlag, setDefaultStateProxy, HOVER_STATE_BLUR } from '../../util/states';
-import { ECElement } from '../../util/types';
+import { ECElement, Payload } from '../../util/types';
+import { TreeExpandAndCollapsePayload } from './treeAction';
 
 type TreeSymbol = SymbolClz & {
     __edge: graphic.BezierCurve | TreePath
@@ -55,6 +56,7 @@ class TreeEdgeShape {
     childPoints: number[][] = [];
     orient: TreeSeriesOption['orient'];
     forkPosition: TreeSeriesOption['edgeForkPosition'];
+    indented: boolean;
 }
 
 interface TreeEdgePathProps extends PathProps {
@@ -92,17 +94,33 @@ class TreePath extends Path<TreeEdgePathProps> {
         const firstChildPos = childPoints[0];
         const lastChildPos = childPoints[childLen - 1];
 
+        const orient = shape.orient;
+        const forkDim = (orient === 'TB' || orient === 'BT') ? 0 : 1;
+        const otherDim = 1 - forkDim;
+        const tmpPoint = [];
+
+        if (shape.indented) {
+            // The trunk goes along the rows from the parent, and branches to each child.
+            tmpPoint[otherDim] = parentPoint[otherDim];
+            tmpPoint[forkDim] = lastChildPos[forkDim];
+            ctx.moveTo(parentPoint[0], parentPoint[1]);
+            ctx.lineTo(tmpPoint[0], tmpPoint[1]);
+            for (let i = 0; i < childLen; i++) {
+                const point = childPoints[i];
+                tmpPoint[forkDim] = point[forkDim];
+                ctx.moveTo(tmpPoint[0], tmpPoint[1]);
+                ctx.lineTo(point[0], point[1]);
+            }
+            return;
+        }
+
         if (childLen === 1) {
             ctx.moveTo(parentPoint[0], parentPoint[1]);
             ctx.lineTo(firstChildPos[0], firstChildPos[1]);
             return;
         }
 
-        const orient = shape.orient;
-        const forkDim = (orient === 'TB' || orient === 'BT') ? 0 : 1;
-        const otherDim = 1 - forkDim;
         const forkPosition = parsePercent(shape.forkPosition, 1);
-        const tmpPoint = [];
         tmpPoint[forkDim] = parentPoint[forkDim];
         tmpPoint[otherDim] = parentPoint[otherDim] + (lastChildPos[otherDim] - parentPoint[otherDim]) * forkPosition;
 
@@ -155,7 +173,8 @@ class TreeView extends ChartView {
     render(
         seriesModel: TreeSeriesModel,
         ecModel: GlobalModel,
-        api: ExtensionAPI
+        api: ExtensionAPI,
+        payload: Payload
     ) {
         const data = seriesModel.getData();
 
@@ -174,7 +193,16 @@ class TreeView extends ChartView {
             group.y = layoutInfo.y;
         }
 
-        this._updateViewCoordSys(seriesModel);
+        // Keep the expanded or collapsed node stationary.
+        const isExpandAndCollapse = payload && payload.type === 'treeExpandAndCollapse'
+            && zrUtil.indexOf(ecModel.findComponents({
+                mainType: 'series', subType: 'tree', query: payload
+            }), seriesModel) >= 0;
+
+        this._updateViewCoordSys(
+            seriesModel,
+            isExpandAndCollapse ? (payload as TreeExpandAndCollapsePayload).dataIndex : null
+        );
         this._updateController(seriesModel, ecModel, api);
 
         const oldData = this._data;
@@ -226,8 +254,13 @@ class TreeView extends ChartView {
         this._data = data;
     }
 
-    _updateViewCoordSys(seriesModel: TreeSeriesModel) {
+    /**
+     * @param anchorDataIndex  the node to keep at the same place on screen.
+     */
+    _updateViewCoordSys(seriesModel: TreeSeriesModel, anchorDataIndex?: number) {
         const data = seriesModel.getData();
+        const oldData = this._data;
+        const oldCoordSys = seriesModel.coordinateSystem;
         const points: number[][] = [];
         data.each(function (idx) {
             const layout = data.getItemLayout(idx);
@@ -262,13 +295,36 @@ class TreeView extends ChartView {
         viewCoordSys.setCenter(seriesModel.get('center'));
         viewCoordSys.setZoom(seriesModel.get('zoom'));
 
+        const anchorLayout = anchorDataIndex != null ? data.getItemLayout(anchorDataIndex) : null;
+        const anchorOldLayout = anchorDataIndex != null && oldData ? oldData.getItemLayout(anchorDataIndex) : null;
+        const isAnchored = !!(oldCoordSys && anchorLayout && anchorOldLayout);
+        if (isAnchored) {
+            const mainGroup = this._mainGroup;
+            const oldPoint = oldCoordSys.dataToPoint([
+                anchorOldLayout.x + mainGroup.x, anchorOldLayout.y + mainGroup.y
+            ]);
+            const newPoint = viewCoordSys.dataToPoint([
+                anchorLayout.x + mainGroup.x, anchorLayout.y + mainGroup.y
+            ]);
+            const center = viewCoordSys.getCenter();
+            viewCoordSys.setCenter([
+                center[0] + (newPoint[0] - oldPoint[0]) / viewCoordSys.scaleX,
+                center[1] + (newPoint[1] - oldPoint[1]) / viewCoordSys.scaleY
+            ]);
+            seriesModel.setCenter(viewCoordSys.getCenter());
+        }
+
         // Here we use viewCoordSys just for computing the 'position' and 'scale' of the group
-        this.group.attr({
+        const groupProps = {
             x: viewCoordSys.x,
             y: viewCoordSys.y,
             scaleX: viewCoordSys.scaleX,
             scaleY: viewCoordSys.scaleY
-        });
+        };
+        // Animate the group along with the nodes so that the anchor doesn't move during the animation.
+        isAnchored
+            ? graphic.updateProps(this.group, groupProps, seriesModel)
+            : this.group.attr(groupProps);
 
         this._min = min;
         this._max = max;
@@ -549,7 +605,7 @@ function drawEdge(
         }
     }
     else if (edgeShape === 'polyline') {
-        if (layout === 'orthogonal') {
+        if (layout !== 'radial') {
             if (node !== virtualRoot && node.children && (node.children.length !== 0) && (node.isExpand === true)) {
                 const children = node.children;
                 const childPoints = [];
@@ -564,7 +620,8 @@ function drawEdge(
                             parentPoint: [targetLayout.x, targetLayout.y],
                             childPoints: [[targetLayout.x, targetLayout.y]],
                             orient: orient,
-                            forkPosition: edgeForkPosition
+                            forkPosition: edgeForkPosition,
+                            indented: layout === 'indented'
                         }
                     });
                 }
@@ -578,7 +635,7 @@ function drawEdge(
         }
         else {
             if (__DEV__) {
-                throw new Error('The polyline edgeShape can only be used in orthogonal layout');
+                throw new Error('The polyline edgeShape can not be used in radial layout');
             }
         }
     }
@@ -669,7 +726,7 @@ function removeNode(
                 removeOpt: removeAnimationOpt
             });
         }
-        else if (edgeShape === 'polyline' && seriesModel.get('layout') === 'orthogonal') {
+        else if (edgeShape === 'polyline' && seriesModel.get('layout') !== 'radial') {
             graphic.removeElement(edge as Path, {
                 shape: {
                     parentPoint: [sourceLayout.x, sourceLayout.y],
@@ -33,11 +33,16 @@
  *       the tree.
  */
 
+import * as zrUtil from 'zrender/src/core/util';
 import * as layout from '../../util/layout';
+import { getBoundingRect } from 'zrender/src/contain/text';
 import { TreeNode } from '../../data/Tree';
-import TreeSeriesModel from './TreeSeries';
+import TreeSeriesModel, { TreeSeriesNodeItemOption } from './TreeSeries';
 import ExtensionAPI from '../../core/ExtensionAPI';
 
+// Padding around the symbol and label when computing node size.
+const NODE_PADDING = 8;
+
 interface HierNode {
     defaultAncestor: TreeLayoutNode,
     ancestor: TreeLayoutNode,
@@ -176,6 +181,64 @@ export function getViewRect(seriesModel: TreeSeriesModel, api: ExtensionAPI) {
     );
 }
 
+/**
+ * Get the size ([width, height]) of the space taken by the node in
+ * 'compact' and 'indented' layouts.
+ */
+export function getNodeSize(seriesModel: TreeSeriesModel, node: TreeNode): number[] {
+    const dataIndex = node.dataIndex;
+    let nodeSize = seriesModel.get('nodeSize');
+    if (zrUtil.isFunction(nodeSize)) {
+        nodeSize = nodeSize(seriesModel.getDataParams(dataIndex));
+    }
+    if (nodeSize != null) {
+        return normalizeSize(nodeSize);
+    }
+
+    const isHorizontal = isHorizontalOrient(seriesModel.getOrient());
+    const itemModel = node.getModel<TreeSeriesNodeItemOption>();
+    let symbolSize = itemModel.get('symbolSize');
+    if (zrUtil.isFunction(symbolSize)) {
+        symbolSize = symbolSize(seriesModel.getRawValue(dataIndex), seriesModel.getDataParams(dataIndex));
+    }
+    const size = normalizeSize(symbolSize || 0);
+
+    const labelModel = itemModel.getModel('label');
+    if (labelModel.get('show')) {
+        const text = seriesModel.getFormattedLabel(dataIndex, 'normal');
+        const rect = getBoundingRect(text == null ? node.name : text, labelModel.getFont());
+        // Label is beside the symbol in the depth direction.
+        if (isHorizontal) {
+            size[0] += rect.width;
+            size[1] = Math.max(size[1], rect.height);
+        }
+        else {
+            size[0] = Math.max(size[0], rect.width);
+            size[1] += rect.height;
+        }
+    }
+
+    size[0] += NODE_PADDING;
+    size[1] += NODE_PADDING;
+
+    if (seriesModel.get('layout') === 'indented') {
+        // Indent the children by the size across the depth direction.
+        isHorizontal ? (size[0] = size[1]) : (size[1] = size[0]);
+    }
+
+    return size;
+}
+
+export function isHorizontalOrient(orient: string) {
+    return orient === 'LR' || orient === 'RL';
+}
+
+function normalizeSize(size: number | number[]) {
+    return zrUtil.isArray(size)
+        ? [+size[0] || 0, size[1] == null ? +size[0] || 0 : +size[1] || 0]
+        : [+size || 0, +size || 0];
+}
+
 /**
  * All other shifts, applied to the smaller subtrees between w- and w+, are
  * performed by this function.
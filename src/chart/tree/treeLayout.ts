@@ -28,11 +28,15 @@ import {
     separation as sep,
     radialCoordinate,
     getViewRect,
+    getNodeSize,
+    isHorizontalOrient,
     TreeLayoutNode
 } from './layoutHelper';
 import GlobalModel from '../../model/Global';
 import ExtensionAPI from '../../core/ExtensionAPI';
 import TreeSeriesModel from './TreeSeries';
+import { TreeNode } from '../../data/Tree';
+import { LayoutRect } from '../../util/layout';
 
 export default function treeLayout(ecModel: GlobalModel, api: ExtensionAPI) {
     ecModel.eachSeriesByType('tree', function (seriesModel: TreeSeriesModel) {
@@ -44,6 +48,7 @@ function commonLayout(seriesModel: TreeSeriesModel, api: ExtensionAPI) {
     const layoutInfo = getViewRect(seriesModel, api);
     seriesModel.layoutInfo = layoutInfo;
     const layout = seriesModel.get('layout');
+    const customSeparation = seriesModel.get('separation');
     let width = 0;
     let height = 0;
     let separation = null;
@@ -51,20 +56,26 @@ function commonLayout(seriesModel: TreeSeriesModel, api: ExtensionAPI) {
     if (layout === 'radial') {
         width = 2 * Math.PI;
         height = Math.min(layoutInfo.height, layoutInfo.width) / 2;
-        separation = sep(function (node1, node2) {
+        separation = sep(customSeparation || function (node1, node2) {
             return (node1.parentNode === node2.parentNode ? 1 : 2) / node1.depth;
         });
     }
     else {
         width = layoutInfo.width;
         height = layoutInfo.height;
-        separation = sep();
+        separation = customSeparation ? sep(customSeparation) : sep();
     }
 
     const virtualRoot = seriesModel.getData().tree.root as TreeLayoutNode;
     const realRoot = virtualRoot.children[0];
 
-    if (realRoot) {
+    if (realRoot && layout === 'compact') {
+        compactLayout(seriesModel, virtualRoot, layoutInfo);
+    }
+    else if (realRoot && layout === 'indented') {
+        indentedLayout(seriesModel, realRoot, layoutInfo);
+    }
+    else if (realRoot) {
         init(virtualRoot);
         eachAfter(realRoot, firstWalk, separation);
         virtualRoot.hierNode.modifier = -realRoot.hierNode.prelim;
@@ -129,4 +140,95 @@ function commonLayout(seriesModel: TreeSeriesModel, api: ExtensionAPI) {
             }
         }
     }
-}
\ No newline at end of file
+}
+/**
+ * Reingold-Tilford layout with the separation in pixels scaled by node sizes.
+ * Unlike 'orthogonal' layout, the tree is not stretched to fit the view.
+ */
+function compactLayout(seriesModel: TreeSeriesModel, virtualRoot: TreeLayoutNode, layoutInfo: LayoutRect) {
+    const realRoot = virtualRoot.children[0];
+    const orient = seriesModel.getOrient();
+    const breadthDim = isHorizontalOrient(orient) ? 1 : 0;
+    const sizes: number[][] = [];
+    eachBefore(realRoot, function (node) {
+        sizes[node.dataIndex] = getNodeSize(seriesModel, node);
+    });
+
+    const baseSeparation = seriesModel.get('separation') || sep();
+    const separation = sep(function (node1, node2) {
+        const size1 = sizes[node1.dataIndex][breadthDim];
+        const size2 = sizes[node2.dataIndex][breadthDim];
+        return (size1 + size2) / 2 * baseSeparation(node1, node2);
+    });
+
+    init(virtualRoot);
+    eachAfter(realRoot, firstWalk, separation);
+    virtualRoot.hierNode.modifier = -realRoot.hierNode.prelim;
+    eachBefore(realRoot, secondWalk);
+
+    // Distance between levels is decided by the largest nodes in them.
+    const levelSizes: number[] = [];
+    let minBreadth = Infinity;
+    let maxBreadth = -Infinity;
+    eachBefore(realRoot, function (node) {
+        const size = sizes[node.dataIndex];
+        const x = node.getLayout().x;
+        levelSizes[node.depth] = Math.max(levelSizes[node.depth] || 0, size[1 - breadthDim]);
+        minBreadth = Math.min(minBreadth, x - size[breadthDim] / 2);
+        maxBreadth = Math.max(maxBreadth, x + size[breadthDim] / 2);
+    });
+    // The real root's depth is 1.
+    const levelPositions = [0, 0];
+    for (let depth = 2; depth < levelSizes.length; depth++) {
+        levelPositions[depth] = levelPositions[depth - 1] + (levelSizes[depth - 1] + levelSizes[depth]) / 2;
+    }
+
+    // Center the tree in the view if there is enough space.
+    const viewBreadth = breadthDim ? layoutInfo.height : layoutInfo.width;
+    const tx = Math.max(0, (viewBreadth - maxBreadth + minBreadth) / 2) - minBreadth;
+    eachBefore(realRoot, function (node) {
+        setOrthogonalLayout(node, node.getLayout().x + tx, levelPositions[node.depth], orient, layoutInfo);
+    });
+}
+
+/**
+ * File explorer like layout, where each node takes a row in pre-order,
+ * and is indented from its parent.
+ */
+function indentedLayout(seriesModel: TreeSeriesModel, realRoot: TreeLayoutNode, layoutInfo: LayoutRect) {
+    const orient = seriesModel.getOrient();
+    const breadthDim = isHorizontalOrient(orient) ? 1 : 0;
+    const sizes: number[][] = [];
+    const depthPositions: number[] = [];
+    let breadth = 0;
+
+    eachBefore(realRoot, function (node) {
+        const size = sizes[node.dataIndex] = getNodeSize(seriesModel, node);
+        const parent = node.parentNode;
+        const depthPosition = depthPositions[node.dataIndex] = node === realRoot
+            ? 0
+            : depthPositions[parent.dataIndex] + sizes[parent.dataIndex][1 - breadthDim];
+
+        setOrthogonalLayout(node, breadth + size[breadthDim] / 2, depthPosition, orient, layoutInfo);
+        breadth += size[breadthDim];
+    });
+}
+
+/**
+ * Set the layout of node by the position along (breadth) and
+ * across (depth) the levels.
+ */
+function setOrthogonalLayout(
+    node: TreeNode,
+    breadth: number,
+    depth: number,
+    orient: string,
+    layoutInfo: LayoutRect
+) {
+    if (orient === 'LR' || orient === 'RL') {
+        node.setLayout({x: orient === 'LR' ? depth : layoutInfo.width - depth, y: breadth}, true);
+    }
+    else {
+        node.setLayout({x: breadth, y: orient === 'TB' ? depth : layoutInfo.height - depth}, true);
+    }
+}
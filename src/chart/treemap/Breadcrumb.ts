@@ -21,11 +21,12 @@ import * as graphic from '../../util/graphic';
 import {getECData} from '../../util/innerStore';
 import * as layout from '../../util/layout';
 import {wrapTreePathInfo} from '../helper/treeHelper';
-import TreemapSeriesModel, { TreemapSeriesNodeItemOption, TreemapSeriesOption } from './TreemapSeries';
+import { TreemapSeriesNodeItemOption, TreemapSeriesOption } from './TreemapSeries';
+import SeriesModel from '../../model/Series';
 import ExtensionAPI from '../../core/ExtensionAPI';
 import { TreeNode } from '../../data/Tree';
 import { curry, defaults } from 'zrender/src/core/util';
-import { ZRElementEvent, BoxLayoutOptionMixin, ECElement } from '../../util/types';
+import { ZRElementEvent, BoxLayoutOptionMixin, ECElement, SeriesOption } from '../../util/types';
 import Element from 'zrender/src/Element';
 import Model from '../../model/Model';
 import { convertOptionIdName } from '../../util/model';
@@ -54,8 +55,15 @@ interface LayoutParam {
     }[]
 }
 
-type BreadcrumbItemStyleModel = Model<TreemapSeriesOption['breadcrumb']['itemStyle']>;
-type BreadcrumbTextStyleModel = Model<TreemapSeriesOption['breadcrumb']['itemStyle']['textStyle']>;
+export type BreadcrumbOption = TreemapSeriesOption['breadcrumb'];
+
+type BreadcrumbItemStyleModel = Model<BreadcrumbOption['itemStyle']>;
+type BreadcrumbTextStyleModel = Model<BreadcrumbOption['itemStyle']['textStyle']>;
+
+// Series with tree data and breadcrumb option, like treemap and icicle.
+type BreadcrumbSeriesModel = SeriesModel<SeriesOption & {
+    breadcrumb?: BreadcrumbOption
+}>;
 
 class Breadcrumb {
 
@@ -66,7 +74,7 @@ class Breadcrumb {
     }
 
     render(
-        seriesModel: TreemapSeriesModel,
+        seriesModel: BreadcrumbSeriesModel,
         api: ExtensionAPI,
         targetNode: TreeNode,
         onSelect: OnSelectCallback
@@ -131,7 +139,7 @@ class Breadcrumb {
      * @private
      */
     _renderContent(
-        seriesModel: TreemapSeriesModel,
+        seriesModel: BreadcrumbSeriesModel,
         layoutParam: LayoutParam,
         normalStyleModel: BreadcrumbItemStyleModel,
         textStyleModel: BreadcrumbTextStyleModel,
@@ -212,14 +220,14 @@ function makeItemPoints(x: number, y: number, itemWidth: number, itemHeight: num
 }
 
 // Package custom mouse event.
-function packEventData(el: Element, seriesModel: TreemapSeriesModel, itemNode: TreeNode) {
+function packEventData(el: Element, seriesModel: BreadcrumbSeriesModel, itemNode: TreeNode) {
     getECData(el).eventData = {
         componentType: 'series',
-        componentSubType: 'treemap',
+        componentSubType: seriesModel.subType,
         componentIndex: seriesModel.componentIndex,
         seriesIndex: seriesModel.componentIndex,
         seriesName: seriesModel.name,
-        seriesType: 'treemap',
+        seriesType: seriesModel.subType,
         selfType: 'breadcrumb', // Distinguish with click event on treemap node.
         nodeData: {
             dataIndex: itemNode && itemNode.dataIndex,
@@ -33,6 +33,8 @@ import { AxisBaseOption } from '../../coord/axisCommonTypes';
 import Element from 'zrender/src/Element';
 import { PathStyleProps } from 'zrender/src/graphic/Path';
 import OrdinalScale from '../../scale/Ordinal';
+import ExtensionAPI from '../../core/ExtensionAPI';
+import { AxisBreakExpandPayload } from './axisBreakAction';
 
 
 const PI = Math.PI;
@@ -90,6 +92,11 @@ export interface AxisBuilderCfg {
 
     silent?: boolean
 
+    /**
+     * Used to dispatch actions, like expanding axis breaks on click.
+     */
+    api?: ExtensionAPI
+
     handleAutoShown?(elementType: 'axisLine' | 'axisTick'): boolean
 }
 
@@ -236,7 +243,7 @@ interface AxisElementsBuilder {
     ):void
 }
 
-const builders: Record<'axisLine' | 'axisTickLabel' | 'axisName', AxisElementsBuilder> = {
+const builders: Record<'axisLine' | 'axisTickLabel' | 'axisName' | 'axisBreak', AxisElementsBuilder> = {
 
     axisLine(opt, axisModel, group, transformGroup) {
 
@@ -459,10 +466,100 @@ const builders: Record<'axisLine' | 'axisTickLabel' | 'axisName', AxisElementsBu
         group.add(textEl);
 
         textEl.decomposeTransform();
+    },
+
+    axisBreak(opt, axisModel, group, transformGroup) {
+        const axis = axisModel.axis;
+        const breakAreaModel = axisModel.getModel('breakArea');
+
+        if (!breakAreaModel.get('show') || axis.scale.isBlank()) {
+            return;
+        }
+
+        const breakCoords = axis.getBreakCoords();
+        const size = breakAreaModel.get('size');
+        const amplitude = breakAreaModel.get('zigzagAmplitude');
+        const itemStyle = breakAreaModel.getModel('itemStyle').getItemStyle();
+        const matrix = transformGroup.transform;
+        const api = opt.api;
+        const expandOnClick = api && breakAreaModel.get('expandOnClick');
+
+        each(breakCoords, function (breakCoord) {
+            const brk = breakCoord.brk;
+            const startEdge = createZigzagPoints(breakCoord.coords[0], -size, size, amplitude, matrix);
+            const endEdge = createZigzagPoints(breakCoord.coords[1], size, -size, amplitude, matrix);
+
+            const breakGroup = new graphic.Group();
+            const areaEl = new graphic.Polygon({
+                shape: {
+                    points: startEdge.concat(endEdge)
+                },
+                style: {
+                    fill: itemStyle.fill
+                },
+                silent: !expandOnClick,
+                z2: 20
+            });
+            breakGroup.add(areaEl);
+            each([startEdge, endEdge], function (points) {
+                breakGroup.add(new graphic.Polyline({
+                    shape: {
+                        points: points
+                    },
+                    style: {
+                        stroke: itemStyle.stroke,
+                        lineWidth: itemStyle.lineWidth,
+                        lineDash: itemStyle.lineDash
+                    },
+                    silent: true,
+                    z2: 21
+                }));
+            });
+
+            if (expandOnClick) {
+                areaEl.cursor = 'pointer';
+                areaEl.on('click', function () {
+                    const payload = {
+                        type: 'expandAxisBreak',
+                        breaks: [{
+                            start: brk.option.start,
+                            end: brk.option.end
+                        }]
+                    } as AxisBreakExpandPayload;
+                    payload[axisModel.mainType + 'Id'] = axisModel.id;
+                    api.dispatchAction(payload);
+                });
+            }
+
+            group.add(breakGroup);
+        });
     }
 
 };
 
+/**
+ * Zig-zag line across the axis at the given coord.
+ */
+function createZigzagPoints(
+    coord: number,
+    from: number,
+    to: number,
+    amplitude: number,
+    matrix: matrixUtil.MatrixArray
+): number[][] {
+    const points = [];
+    const count = Math.max(Math.round(Math.abs(to - from) / (amplitude * 2 || 1)), 1);
+    for (let i = 0; i <= count; i++) {
+        const pt = [
+            coord + (i % 2 ? amplitude : -amplitude) / 2,
+            from + (to - from) * i / count
+        ];
+        matrix && v2ApplyTransform(pt, pt, matrix);
+        points.push(pt);
+    }
+    return points;
+}
+
 function endTextLayout(
     rotation: number, textPosition: 'start' | 'middle' | 'end', textRotate: number, extent: number[]
 ) {
@@ -31,7 +31,7 @@ import ComponentView from '../../view/Component';
 import { Payload } from '../../util/types';
 
 const axisBuilderAttrs = [
-    'axisLine', 'axisTickLabel', 'axisName'
+    'axisLine', 'axisTickLabel', 'axisName', 'axisBreak'
 ] as const;
 const selfBuilderAttrs = [
     'splitArea', 'splitLine', 'minorSplitLine'
@@ -67,12 +67,13 @@ class CartesianAxisView extends AxisView {
         const layout = cartesianAxisHelper.layout(gridModel, axisModel);
 
         const axisBuilder = new AxisBuilder(axisModel, zrUtil.extend({
+            api: api,
             handleAutoShown(elementType) {
                 const cartesians = gridModel.coordinateSystem.getCartesians();
                 for (let i = 0; i < cartesians.length; i++) {
                     const otherAxisType = cartesians[i].getOtherAxis(axisModel.axis).type;
-                    if (otherAxisType === 'value' || otherAxisType === 'log') {
-                        // Still show axis tick or axisLine if other axis is value / log
+                    if (otherAxisType === 'value' || otherAxisType === 'log' || otherAxisType === 'symlog') {
+                        // Still show axis tick or axisLine if other axis is value / log / symlog
                         return true;
                     }
                 }
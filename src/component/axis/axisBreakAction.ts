@@ -0,0 +1,81 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { each } from 'zrender/src/core/util';
+import { Payload, ScaleDataValue } from '../../util/types';
+import GlobalModel from '../../model/Global';
+import { EChartsExtensionInstallRegisters } from '../../extension';
+import { parseFinder } from '../../util/model';
+import { AxisBaseModel } from '../../coord/AxisBaseModel';
+
+export interface AxisBreakExpandPayload extends Payload {
+    xAxisIndex?: number;
+    xAxisId?: string;
+    yAxisIndex?: number;
+    yAxisId?: string;
+    singleAxisIndex?: number;
+    singleAxisId?: string;
+    // Breaks to expand, identified by `start` and `end`.
+    // All breaks of the axis are expanded if not specified.
+    breaks?: {
+        start: ScaleDataValue;
+        end: ScaleDataValue;
+    }[];
+}
+
+const actionInfo = {
+    type: 'expandAxisBreak',
+    event: 'axisBreakExpanded',
+    update: 'update'
+};
+
+export function installAxisBreakAction(registers: EChartsExtensionInstallRegisters) {
+
+    registers.registerAction(actionInfo, function (payload: AxisBreakExpandPayload, ecModel: GlobalModel) {
+        const finder = parseFinder(ecModel, payload, {
+            includeMainTypes: ['xAxis', 'yAxis', 'singleAxis']
+        });
+        each(['xAxis', 'yAxis', 'singleAxis'], function (mainType) {
+            each(finder[mainType + 'Models'] as AxisBaseModel[], function (axisModel) {
+                expandBreaks(axisModel, payload.breaks);
+            });
+        });
+    });
+}
+
+function expandBreaks(axisModel: AxisBaseModel, targets: AxisBreakExpandPayload['breaks']) {
+    const breakOptionList = axisModel.option.breaks;
+    const scale = axisModel.axis && axisModel.axis.scale;
+    if (!breakOptionList || !scale) {
+        return;
+    }
+    each(breakOptionList, function (breakOption) {
+        if (!targets) {
+            breakOption.isExpanded = true;
+            return;
+        }
+        each(targets, function (target) {
+            if (scale.parse(target.start) === scale.parse(breakOption.start)
+                && scale.parse(target.end) === scale.parse(breakOption.end)
+            ) {
+                breakOption.isExpanded = true;
+            }
+        });
+    });
+}
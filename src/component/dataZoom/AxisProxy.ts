@@ -31,6 +31,8 @@ import { unionAxisExtentFromData } from '../../coord/axisHelper';
 import { ensureScaleRawExtentInfo } from '../../coord/scaleRawExtentInfo';
 import { getAxisMainType, isCoordSupported, DataZoomAxisDimension } from './helper';
 import { SINGLE_REFERRING } from '../../util/model';
+import Scale from '../../scale/Scale';
+import SymLogScale from '../../scale/SymLog';
 
 const each = zrUtil.each;
 const asc = numberUtil.asc;
@@ -149,6 +151,9 @@ class AxisProxy {
         const percentExtent = [0, 100];
         const percentWindow = [] as unknown as [number, number];
         const valueWindow = [] as unknown as [number, number];
+        const toLinear = getLinearTransform(scale);
+        const fromLinear = getLinearTransform(scale, true);
+        const linearDataExtent = [toLinear(dataExtent[0]), toLinear(dataExtent[1])];
         let hasPropModeValue;
 
         each(['start', 'end'] as const, function (prop, idx) {
@@ -172,9 +177,9 @@ class AxisProxy {
             if (rangePropMode[idx] === 'percent') {
                 boundPercent == null && (boundPercent = percentExtent[idx]);
                 // Use scale.parse to math round for category or time axis.
-                boundValue = scale.parse(numberUtil.linearMap(
-                    boundPercent, percentExtent, dataExtent
-                ));
+                boundValue = scale.parse(fromLinear(numberUtil.linearMap(
+                    boundPercent, percentExtent, linearDataExtent
+                )));
             }
             else {
                 hasPropModeValue = true;
@@ -183,7 +188,7 @@ class AxisProxy {
                 // This calculation can not be inversed, because all of values that
                 // are overflow the `dataExtent` will be calculated to percent '100%'
                 boundPercent = numberUtil.linearMap(
-                    boundValue, dataExtent, percentExtent
+                    toLinear(boundValue), linearDataExtent, percentExtent
                 );
             }
 
@@ -220,8 +225,11 @@ class AxisProxy {
                 spans['max' + suffix as 'maxSpan' | 'maxValueSpan']
             );
             for (let i = 0; i < 2; i++) {
-                toWindow[i] = numberUtil.linearMap(fromWindow[i], fromExtent, toExtent, true);
-                toValue && (toWindow[i] = scale.parse(toWindow[i]));
+                toWindow[i] = toValue
+                    ? scale.parse(fromLinear(
+                        numberUtil.linearMap(fromWindow[i], fromExtent, linearDataExtent, true)
+                    ))
+                    : numberUtil.linearMap(toLinear(fromWindow[i]), linearDataExtent, toExtent, true);
             }
         }
 
@@ -418,6 +426,19 @@ class AxisProxy {
     }
 }
 
+/**
+ * Percent window is linear on the scale but not on the data value
+ * for non-linear scales like 'symlog'.
+ */
+function getLinearTransform(scale: Scale, inverse?: boolean): (val: number) => number {
+    if (scale instanceof SymLogScale) {
+        return inverse
+            ? (val: number) => scale.untransform(val)
+            : (val: number) => scale.transform(val);
+    }
+    return (val: number) => val;
+}
+
 function calculateDataExtent(axisProxy: AxisProxy, axisDim: string, seriesModels: SeriesModel[]) {
     const dataExtent = [Infinity, -Infinity];
 
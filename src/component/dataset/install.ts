@@ -46,10 +46,18 @@ export interface DatasetOption extends
 
     seriesLayoutBy?: SeriesLayoutBy;
     sourceHeader?: OptionSourceHeader;
-    source?: OptionSourceData;
-
-    fromDatasetIndex?: number;
-    fromDatasetId?: string;
+    source?: OptionSourceData | string;
+
+    // Parse `source` from a CSV string. See "src/data/helper/csv.ts".
+    sourceFormat?: 'csv';
+    // Only for 'csv'. By default ','.
+    delimiter?: string;
+    // Only for 'csv'. Whether the first line is dimension names. By default true.
+    header?: boolean;
+
+    // Can be an array to specify multiple upstreams, which is used in transforms like 'join'.
+    fromDatasetIndex?: number | number[];
+    fromDatasetId?: string | string[];
     transform?: DataTransformOption | PipedDataTransformOption;
     // When a transform result more than on results, the results can be referenced only by:
     // Using `fromDatasetIndex`/`fromDatasetId` and `transfromResultIndex` to retrieve
@@ -230,6 +230,7 @@ class MapDraw {
         const transformInfoRaw = viewBuildCtx.transformInfoRaw;
         const mapOrGeoModel = viewBuildCtx.mapOrGeoModel;
         const data = viewBuildCtx.data;
+        const projection = viewBuildCtx.geo.projection;
 
         const transformPoint = function (point: number[]): number[] {
             return [
@@ -280,7 +281,9 @@ class MapDraw {
                 );
             }
 
-            zrUtil.each(region.geometries, function (geometry) {
+            // Projected geometries are already in the plane.
+            const geometries = projection ? region.getProjectedGeometries(projection) : region.geometries;
+            zrUtil.each(geometries, function (geometry) {
                 if (geometry.type !== 'polygon') {
                     return;
                 }
@@ -318,7 +321,9 @@ class MapDraw {
                 compoundPath.culling = true;
             }
 
-            const centerPt = transformPoint(region.getCenter());
+            const centerPt = transformPoint(
+                projection ? projection.project(region.getCenter()) : region.getCenter()
+            );
             resetLabelForRegion(
                 viewBuildCtx, compoundPath, regionName, regionModel, mapOrGeoModel, dataIdx, centerPt
             );
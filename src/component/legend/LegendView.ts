@@ -50,6 +50,7 @@ import {LineStyleProps, LINE_STYLE_KEY_MAP} from '../../model/mixin/lineStyle';
 import {ITEM_STYLE_KEY_MAP} from '../../model/mixin/itemStyle';
 import {createSymbol, ECSymbol} from '../../util/symbol';
 import SeriesModel from '../../model/Series';
+import { getECData } from '../../util/innerStore';
 
 const curry = zrUtil.curry;
 const each = zrUtil.each;
@@ -447,6 +448,10 @@ class LegendView extends ComponentView {
         // @ts-ignore
         itemGroup.__legendDataIndex = dataIndex;
 
+        const ecData = getECData(itemGroup);
+        ecData.ssrType = 'legend';
+        ecData.ssrName = name;
+
         return itemGroup;
     }
 
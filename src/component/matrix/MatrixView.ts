@@ -0,0 +1,160 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { each } from 'zrender/src/core/util';
+import { RectLike } from 'zrender/src/core/BoundingRect';
+import * as graphic from '../../util/graphic';
+import { createTextStyle } from '../../label/labelStyle';
+import ComponentView from '../../view/Component';
+import Model from '../../model/Model';
+import MatrixModel, { MatrixBodyCellOption } from '../../coord/matrix/MatrixModel';
+import Matrix from '../../coord/matrix/Matrix';
+import { MatrixDimName } from '../../coord/matrix/MatrixDim';
+import GlobalModel from '../../model/Global';
+import ExtensionAPI from '../../core/ExtensionAPI';
+import { ItemStyleOption, LabelOption, OptionDataValue } from '../../util/types';
+
+interface MatrixCellStyleOption {
+    itemStyle?: ItemStyleOption
+    label?: LabelOption
+}
+
+class MatrixView extends ComponentView {
+
+    static type = 'matrix';
+    type = MatrixView.type;
+
+    render(matrixModel: MatrixModel, ecModel: GlobalModel, api: ExtensionAPI) {
+        const group = this.group;
+
+        group.removeAll();
+
+        const coordSys = matrixModel.coordinateSystem;
+
+        this._renderBody(matrixModel, coordSys, group);
+
+        this._renderHeader(matrixModel, coordSys, 'x', group);
+        this._renderHeader(matrixModel, coordSys, 'y', group);
+
+        if (coordSys.getHeaderLevelCount('x') && coordSys.getHeaderLevelCount('y')) {
+            group.add(new graphic.Rect({
+                shape: coordSys.getCornerRect(),
+                cursor: 'default',
+                style: matrixModel.getModel('cornerStyle').getItemStyle()
+            }));
+        }
+    }
+
+    _renderHeader(matrixModel: MatrixModel, coordSys: Matrix, dim: MatrixDimName, group: graphic.Group) {
+        if (!coordSys.getHeaderLevelCount(dim)) {
+            return;
+        }
+        const dimModel = matrixModel.getModel(dim);
+
+        each(matrixModel.getDim(dim).getCells(), function (cell) {
+            createCell(
+                coordSys.getHeaderCellRect(dim, cell),
+                new Model(cell.option, dimModel),
+                cell.value,
+                group
+            );
+        });
+    }
+
+    _renderBody(matrixModel: MatrixModel, coordSys: Matrix, group: graphic.Group) {
+        const xCount = matrixModel.getDim('x').getLeaves().length;
+        const yCount = matrixModel.getDim('y').getLeaves().length;
+        const bodyModel = matrixModel.getModel('body');
+        const cellOptionList = bodyModel.get('data') || [];
+
+        // Index in cellOptionList of each cell.
+        const cellOptionIndices: number[] = [];
+        const merged: boolean[] = [];
+
+        each(cellOptionList, function (cellOption, idx) {
+            const coord = cellOption.coord || [];
+            const xRange = coordSys.getLeafRange('x', coord[0]);
+            const yRange = coordSys.getLeafRange('y', coord[1]);
+            if (!xRange || !yRange) {
+                return;
+            }
+            for (let yIdx = yRange[0]; yIdx <= yRange[1]; yIdx++) {
+                for (let xIdx = xRange[0]; xIdx <= xRange[1]; xIdx++) {
+                    cellOption.mergeCells
+                        ? (merged[yIdx * xCount + xIdx] = true)
+                        : (cellOptionIndices[yIdx * xCount + xIdx] = idx);
+                }
+            }
+            if (cellOption.mergeCells) {
+                createCell(
+                    coordSys.getLeafRangeRect(xRange, yRange),
+                    new Model(cellOption, bodyModel),
+                    cellOption.value,
+                    group
+                );
+            }
+        });
+
+        for (let yIdx = 0; yIdx < yCount; yIdx++) {
+            for (let xIdx = 0; xIdx < xCount; xIdx++) {
+                const cellIdx = yIdx * xCount + xIdx;
+                if (merged[cellIdx]) {
+                    continue;
+                }
+                const optionIdx = cellOptionIndices[cellIdx];
+                const cellOption: MatrixBodyCellOption = optionIdx != null ? cellOptionList[optionIdx] : null;
+                createCell(
+                    coordSys.getLeafRangeRect([xIdx, xIdx], [yIdx, yIdx]),
+                    cellOption ? new Model(cellOption, bodyModel) : bodyModel,
+                    cellOption && cellOption.value,
+                    group
+                );
+            }
+        }
+    }
+}
+
+function createCell(
+    rect: RectLike,
+    cellModel: Model<MatrixCellStyleOption>,
+    text: OptionDataValue,
+    group: graphic.Group
+) {
+    const rectEl = new graphic.Rect({
+        shape: rect,
+        cursor: 'default',
+        style: cellModel.getModel('itemStyle').getItemStyle()
+    });
+
+    const labelModel = cellModel.getModel('label');
+    if (text != null && text !== '' && labelModel.get('show')) {
+        rectEl.setTextContent(new graphic.Text({
+            style: createTextStyle(labelModel, {
+                text: text + ''
+            })
+        }));
+        rectEl.setTextConfig({
+            position: 'inside'
+        });
+    }
+
+    group.add(rectEl);
+}
+
+export default MatrixView;
@@ -19,6 +19,7 @@
 
 import * as echarts from '../../../core/echarts';
 import * as zrUtil from 'zrender/src/core/util';
+import env from 'zrender/src/core/env';
 import GlobalModel from '../../../model/Global';
 import SeriesModel from '../../../model/Series';
 import { ToolboxFeature, ToolboxFeatureOption } from '../featureManager';
@@ -27,6 +28,10 @@ import ExtensionAPI from '../../../core/ExtensionAPI';
 import { addEventListener } from 'zrender/src/core/event';
 import Axis from '../../../coord/Axis';
 import Cartesian2D from '../../../coord/cartesian/Cartesian2D';
+import { DatasetModel, DatasetOption } from '../../dataset/install';
+import {
+    querySeriesUpstreamDatasetModel, queryDatasetUpstreamDatasetModels
+} from '../../../data/helper/sourceHelper';
 
 const BLOCK_SPLITER = new Array(60).join('-');
 const ITEM_SPLITER = '\t';
@@ -49,6 +54,11 @@ interface SeriesGroupMeta {
     axisIndex: number
 }
 
+// Block of the CSV source of a root dataset, which is edited as it is.
+interface DatasetBlockMeta {
+    datasetIndex: number
+}
+
 interface SeriesGroup {
     series: SeriesModel[]
     categoryAxis: Axis
@@ -65,6 +75,10 @@ function groupSeries(ecModel: GlobalModel) {
     const otherSeries: SeriesModel[] = [];
     const meta: SeriesGroupMeta[] = [];
     ecModel.eachRawSeries(function (seriesModel) {
+        // Edited in the block of dataset.
+        if (isFromCSVDataset(seriesModel)) {
+            return;
+        }
         const coordSys = seriesModel.coordinateSystem;
 
         if (coordSys && (coordSys.type === 'cartesian2d' || coordSys.type === 'polar')) {
@@ -158,19 +172,60 @@ function assembleOtherSeries(series: SeriesModel[]) {
     }).join('\n\n' + BLOCK_SPLITER + '\n\n');
 }
 
+function isCSVDataset(datasetModel: DatasetModel): boolean {
+    return datasetModel.get('sourceFormat', true) === 'csv'
+        && !queryDatasetUpstreamDatasetModels(datasetModel).length;
+}
+
+/**
+ * If the data of the series is from a CSV source (probably through transforms).
+ */
+function isFromCSVDataset(seriesModel: SeriesModel): boolean {
+    let datasetModel = querySeriesUpstreamDatasetModel(seriesModel);
+    while (datasetModel) {
+        if (isCSVDataset(datasetModel)) {
+            return true;
+        }
+        datasetModel = queryDatasetUpstreamDatasetModels(datasetModel)[0];
+    }
+    return false;
+}
+
+/**
+ * The CSV source of datasets is edited as it is.
+ */
+function assembleCSVDatasets(ecModel: GlobalModel) {
+    const blocks: string[] = [];
+    const meta: DatasetBlockMeta[] = [];
+    ecModel.eachComponent('dataset', function (datasetModel: DatasetModel) {
+        const source = trim((datasetModel.get('source', true) as string) || '');
+        if (isCSVDataset(datasetModel) && source) {
+            blocks.push(source);
+            meta.push({
+                datasetIndex: datasetModel.componentIndex
+            });
+        }
+    });
+    return {
+        blocks: blocks,
+        meta: meta
+    };
+}
+
 function getContentFromModel(ecModel: GlobalModel) {
 
+    const datasets = assembleCSVDatasets(ecModel);
     const result = groupSeries(ecModel);
 
     return {
-        value: zrUtil.filter([
+        value: zrUtil.filter(datasets.blocks.concat([
                 assembleSeriesWithCategoryAxis(result.seriesGroupByCategoryAxis),
                 assembleOtherSeries(result.other)
-            ], function (str) {
+            ]), function (str) {
                 return !!str.replace(/[\n\t\s]/g, '');
             }).join('\n\n' + BLOCK_SPLITER + '\n\n'),
 
-        meta: result.meta
+        meta: (datasets.meta as (DatasetBlockMeta | SeriesGroupMeta)[]).concat(result.meta)
     };
 }
 
@@ -262,15 +317,26 @@ function parseListContents(str: string) {
     };
 }
 
-function parseContents(str: string, blockMetaList: SeriesGroupMeta[]) {
+function parseContents(str: string, blockMetaList: (DatasetBlockMeta | SeriesGroupMeta)[]) {
     const blocks = str.split(new RegExp('\n*' + BLOCK_SPLITER + '\n*', 'g'));
     const newOption: ECUnitOption = {
         series: []
     };
     zrUtil.each(blocks, function (block, idx) {
-        if (isTSVFormat(block)) {
+        const datasetIndex = blockMetaList[idx] && (blockMetaList[idx] as DatasetBlockMeta).datasetIndex;
+        if (datasetIndex != null) {
+            const datasetOptList = (newOption.dataset || (newOption.dataset = [])) as DatasetOption[];
+            // Holes are not allowed, otherwise the option will be merged to the previous dataset.
+            for (let i = datasetOptList.length; i < datasetIndex; i++) {
+                datasetOptList[i] = {};
+            }
+            datasetOptList[datasetIndex] = {
+                source: block
+            };
+        }
+        else if (isTSVFormat(block)) {
             const result = parseTSVContents(block);
-            const blockMeta = blockMetaList[idx];
+            const blockMeta = blockMetaList[idx] as SeriesGroupMeta;
             const axisKey = blockMeta.axisDim + 'Axis';
 
             if (blockMeta) {
@@ -519,4 +585,7 @@ echarts.registerAction({
     }, payload.newOption));
 });
 
+// The data view is an HTML popup.
+DataView.prototype.unusable = !env.domSupported;
+
 export default DataView;
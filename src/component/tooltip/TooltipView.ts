@@ -173,7 +173,8 @@ class TooltipView extends ComponentView {
 
         const tooltipModel = ecModel.getComponent('tooltip') as TooltipModel;
         const renderMode = tooltipModel.get('renderMode');
-        this._renderMode = getTooltipRenderMode(renderMode);
+        // HTML tooltip can't be used without the container DOM, e.g. in server side rendering.
+        this._renderMode = api.getDom() ? getTooltipRenderMode(renderMode) : 'richText';
 
         this._tooltipContent = this._renderMode === 'richText'
             ? new TooltipRichContent(api)
@@ -0,0 +1,249 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { DataTransformOption, ExternalDataTransform } from '../../data/helper/transform';
+import {
+    DimensionLoose, DimensionName, DimensionDefinition, DimensionType, OptionDataValue
+} from '../../util/types';
+import { makePrintable, throwError } from '../../util/log';
+import { each, map, keys, createHashMap, HashMap, hasOwn } from 'zrender/src/core/util';
+import { normalizeToArray } from '../../util/model';
+import { quantile, asc } from '../../util/number';
+import { getUpstreamDimensionInfo, isNumericValue, makeGroupKey } from './helper';
+
+/**
+ * @usage
+ *
+ * ```js
+ * transform: {
+ *     type: 'aggregate',
+ *     config: {
+ *         groupBy: 'country',
+ *         resultDimensions: [
+ *             { from: 'country' },
+ *             { from: 'income', method: 'sum' },
+ *             { from: 'income', method: 'Q1', name: 'incomeQ1' },
+ *             { from: 'name', method: 'distinctCount', name: 'people' }
+ *         ]
+ *     }
+ * }
+ * ```
+ */
+
+export interface AggregateTransformOption extends DataTransformOption {
+    type: 'aggregate';
+    config: {
+        // All rows are in one group if not specified.
+        groupBy?: DimensionLoose | DimensionLoose[];
+        resultDimensions: AggregateResultDimension[];
+    };
+}
+
+export type AggregateMethod = 'sum' | 'count' | 'mean' | 'min' | 'max' | 'median'
+    | 'first' | 'last' | 'Q1' | 'Q3' | 'distinctCount';
+
+interface AggregateResultDimension {
+    // Upstream dimension.
+    from: DimensionLoose;
+    // Can be omitted only if `from` is one of the `groupBy` dimensions.
+    method?: AggregateMethod;
+    // Use the name of `from` if not specified.
+    name?: DimensionName;
+}
+
+export type AggregateCalculator = (values: OptionDataValue[]) => OptionDataValue;
+
+function getNumbers(values: OptionDataValue[]): number[] {
+    const result = [];
+    for (let i = 0; i < values.length; i++) {
+        const val = values[i];
+        // Null, empty string and other non-numeric values are ignored.
+        if (isNumericValue(val)) {
+            result.push(+val);
+        }
+    }
+    return result;
+}
+
+function makeQuantile(p: number): AggregateCalculator {
+    return function (values) {
+        const numbers = asc(getNumbers(values));
+        return numbers.length ? quantile(numbers, p) : null;
+    };
+}
+
+export const aggregateCalculators: Record<AggregateMethod, AggregateCalculator> = {
+    sum(values) {
+        const numbers = getNumbers(values);
+        let sum = 0;
+        for (let i = 0; i < numbers.length; i++) {
+            sum += numbers[i];
+        }
+        return sum;
+    },
+    count(values) {
+        return values.length;
+    },
+    mean(values) {
+        const numbers = getNumbers(values);
+        return numbers.length ? aggregateCalculators.sum(numbers) as number / numbers.length : null;
+    },
+    min(values) {
+        const numbers = getNumbers(values);
+        let min = numbers.length ? numbers[0] : null;
+        // Not `Math.min.apply`, which exceeds the call stack on large group.
+        for (let i = 1; i < numbers.length; i++) {
+            numbers[i] < min && (min = numbers[i]);
+        }
+        return min;
+    },
+    max(values) {
+        const numbers = getNumbers(values);
+        let max = numbers.length ? numbers[0] : null;
+        for (let i = 1; i < numbers.length; i++) {
+            numbers[i] > max && (max = numbers[i]);
+        }
+        return max;
+    },
+    median: makeQuantile(0.5),
+    Q1: makeQuantile(0.25),
+    Q3: makeQuantile(0.75),
+    first(values) {
+        return values.length ? values[0] : null;
+    },
+    last(values) {
+        return values.length ? values[values.length - 1] : null;
+    },
+    distinctCount(values) {
+        const met = createHashMap<boolean, string>();
+        let count = 0;
+        for (let i = 0; i < values.length; i++) {
+            const val = values[i];
+            if (val != null && val !== '' && !met.get(val + '')) {
+                met.set(val + '', true);
+                count++;
+            }
+        }
+        return count;
+    }
+};
+
+// Methods that the type of result is not the same as upstream.
+const NUMBER_RESULT_METHODS = createHashMap<boolean, AggregateMethod>([
+    'sum', 'count', 'mean', 'median', 'Q1', 'Q3', 'distinctCount'
+]);
+
+export function getAggregateResultType(method: AggregateMethod, upstreamType: DimensionType): DimensionType {
+    return method && NUMBER_RESULT_METHODS.get(method) ? 'float' : upstreamType;
+}
+
+
+export const aggregateTransform: ExternalDataTransform<AggregateTransformOption> = {
+
+    type: 'echarts:aggregate',
+
+    transform: function (params) {
+        const upstream = params.upstream;
+        const config = params.config;
+        let errMsg = '';
+
+        const resultDimsOption = config && config.resultDimensions;
+        if (!resultDimsOption || !resultDimsOption.length) {
+            if (__DEV__) {
+                errMsg = 'aggregate transform must has "resultDimensions" specified.';
+            }
+            throwError(errMsg);
+        }
+
+        const groupByDimInfoList = map(
+            normalizeToArray(config.groupBy),
+            dimLoose => getUpstreamDimensionInfo(upstream, dimLoose, config)
+        );
+        const isGroupByDim = createHashMap<boolean, number>();
+        each(groupByDimInfoList, dimInfo => isGroupByDim.set(dimInfo.index, true));
+
+        const resultDimDefList = map(resultDimsOption, function (resultDimOption) {
+            const upDimInfo = getUpstreamDimensionInfo(upstream, resultDimOption.from, resultDimOption);
+            const method = resultDimOption.method;
+
+            if (method == null) {
+                if (!isGroupByDim.get(upDimInfo.index)) {
+                    if (__DEV__) {
+                        errMsg = makePrintable(
+                            '"method" can only be omitted on the "groupBy" dimensions.\n',
+                            'Illegal config:', resultDimOption, '.\n'
+                        );
+                    }
+                    throwError(errMsg);
+                }
+            }
+            else if (!hasOwn(aggregateCalculators, method)) {
+                if (__DEV__) {
+                    errMsg = makePrintable(
+                        'Unknown aggregate method "' + method + '".\n',
+                        'Valid methods: ', keys(aggregateCalculators), '.\n'
+                    );
+                }
+                throwError(errMsg);
+            }
+
+            const dimDef: DimensionDefinition = {
+                name: resultDimOption.name != null ? resultDimOption.name : upDimInfo.name
+            };
+            const type = getAggregateResultType(method, upDimInfo.type);
+            type && (dimDef.type = type);
+            upDimInfo.displayName != null && method == null && (dimDef.displayName = upDimInfo.displayName);
+
+            return {
+                upDimInfo: upDimInfo,
+                calculator: method != null ? aggregateCalculators[method] : aggregateCalculators.first,
+                dimDef: dimDef
+            };
+        });
+
+        // Collect values of each group, keeping the order of first occurrence.
+        const groupKeyList: string[] = [];
+        const groupMap: HashMap<OptionDataValue[][], string> = createHashMap();
+        for (let dataIndex = 0, len = upstream.count(); dataIndex < len; dataIndex++) {
+            const key = makeGroupKey(
+                map(groupByDimInfoList, dimInfo => upstream.retrieveValue(dataIndex, dimInfo.index))
+            );
+            let groupValues = groupMap.get(key);
+            if (!groupValues) {
+                groupKeyList.push(key);
+                groupValues = groupMap.set(key, map(resultDimDefList, () => []));
+            }
+            for (let i = 0; i < resultDimDefList.length; i++) {
+                groupValues[i].push(upstream.retrieveValue(dataIndex, resultDimDefList[i].upDimInfo.index));
+            }
+        }
+
+        const resultData = map(groupKeyList, function (key) {
+            const groupValues = groupMap.get(key);
+            return map(resultDimDefList, function (resultDimDef, idx) {
+                return resultDimDef.calculator(groupValues[idx]);
+            });
+        });
+
+        return {
+            dimensions: map(resultDimDefList, resultDimDef => resultDimDef.dimDef),
+            data: resultData
+        };
+    }
+};
@@ -0,0 +1,157 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { DataTransformOption, ExternalDataTransform } from '../../data/helper/transform';
+import {
+    DimensionName, DimensionType, DimensionDefinition, DimensionLoose, OptionDataValue
+} from '../../util/types';
+import { makePrintable, throwError } from '../../util/log';
+import { map, createHashMap, isString } from 'zrender/src/core/util';
+import { normalizeToArray } from '../../util/model';
+import { parseComputeExpression } from '../../util/computeExpression';
+import { getUpstreamDimensionInfo, inheritDimensionDefinition, MISSING_VALUE } from './helper';
+
+/**
+ * @usage
+ *
+ * ```js
+ * transform: {
+ *     type: 'compute',
+ *     config: {
+ *         dimensions: [
+ *             { name: 'margin', expression: '(revenue - cost) / revenue', type: 'float' },
+ *             // Can reference the dimensions computed before.
+ *             { name: 'level', expression: 'margin > 0.3 ? "high" : "low"' }
+ *         ]
+ *     }
+ * }
+ * ```
+ *
+ * All of the upstream dimensions and rows are kept, and the computed dimensions
+ * are appended. See `util/computeExpression.ts` for the expression syntax.
+ * Values are not parsed by dimension types, which are not reliable in transforms.
+ * Use function `time()` or `number()` to coerce them by the raw value parsers,
+ * the same as `parser` in filter transform. For example,
+ * `'(time(end) - time(start)) / 86400000'`.
+ * Results that are not available (like `NaN`, `null`) are filled with '-',
+ * and boolean results are converted to 1 or 0.
+ */
+
+export interface ComputeTransformOption extends DataTransformOption {
+    type: 'compute';
+    config: {
+        dimensions: ComputedDimensionOption | ComputedDimensionOption[];
+    };
+}
+
+interface ComputedDimensionOption {
+    name: DimensionName;
+    expression: string;
+    type?: DimensionType;
+}
+
+type ComputeValueGetterParam = {
+    // Index in the row, where the computed values are after the upstream values.
+    idx: number;
+};
+
+
+function normalizeResult(val: unknown): OptionDataValue {
+    if (typeof val === 'boolean') {
+        return +val;
+    }
+    if (val == null || (typeof val === 'number' && !isFinite(val))) {
+        return MISSING_VALUE;
+    }
+    return val as OptionDataValue;
+}
+
+export const computeTransform: ExternalDataTransform<ComputeTransformOption> = {
+
+    type: 'echarts:compute',
+
+    transform: function (params) {
+        const upstream = params.upstream;
+        const config = params.config;
+        let errMsg = '';
+
+        const computedDimsOption = normalizeToArray(config && config.dimensions);
+        if (!computedDimsOption.length) {
+            if (__DEV__) {
+                errMsg = 'compute transform must has "dimensions" specified.';
+            }
+            throwError(errMsg);
+        }
+
+        const upDimInfoList = upstream.cloneAllDimensionInfo();
+        const upDimCount = upDimInfoList.length;
+        const dimensions = map(upDimInfoList, inheritDimensionDefinition);
+        // Dimensions computed before can be referenced by name.
+        const computedIdxMap = createHashMap<number, DimensionName>();
+
+        let row: OptionDataValue[];
+
+        const expressionList = map(computedDimsOption, function (computedDimOption, computedIdx) {
+            if (!computedDimOption || computedDimOption.name == null || !isString(computedDimOption.expression)) {
+                if (__DEV__) {
+                    errMsg = makePrintable(
+                        'Computed dimension must has "name" and "expression" specified.\n',
+                        'Illegal config:', computedDimOption, '.\n'
+                    );
+                }
+                throwError(errMsg);
+            }
+
+            const expression = parseComputeExpression<ComputeValueGetterParam>(computedDimOption.expression, {
+                prepareGetValue: function (dimLoose: DimensionLoose) {
+                    const idx = isString(dimLoose) ? computedIdxMap.get(dimLoose) : null;
+                    return {
+                        idx: idx != null
+                            ? idx
+                            : getUpstreamDimensionInfo(upstream, dimLoose, computedDimOption).index
+                    };
+                },
+                getValue: function (param) {
+                    return row[param.idx];
+                }
+            });
+
+            const dimDef: DimensionDefinition = {name: computedDimOption.name};
+            computedDimOption.type && (dimDef.type = computedDimOption.type);
+            dimensions.push(dimDef);
+            computedIdxMap.set(computedDimOption.name, upDimCount + computedIdx);
+
+            return expression;
+        });
+
+        const data: OptionDataValue[][] = [];
+        for (let dataIndex = 0, len = upstream.count(); dataIndex < len; dataIndex++) {
+            row = map(upDimInfoList, dimInfo => upstream.retrieveValue(dataIndex, dimInfo.index));
+            for (let i = 0; i < expressionList.length; i++) {
+                row.push(normalizeResult(expressionList[i].evaluate()));
+            }
+            data.push(row);
+        }
+
+        return {
+            dimensions: dimensions,
+            data: data
+        };
+    }
+};
@@ -0,0 +1,96 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { ExternalSource, ExternalDimensionDefinition } from '../../data/helper/transform';
+import { DimensionLoose, DimensionDefinition, DimensionIndex, OptionDataValue } from '../../util/types';
+import { makePrintable, throwError } from '../../util/log';
+
+/**
+ * Value of the result cells that have no value in upstream.
+ */
+export const MISSING_VALUE = '-';
+
+/**
+ * Make a key from a list of values, like the values of group by dimensions.
+ */
+export function makeGroupKey(values: OptionDataValue[]): string {
+    let key = '';
+    for (let i = 0; i < values.length; i++) {
+        // Use a separator that is unlikely to be in values.
+        key += (i ? '\0' : '') + values[i];
+    }
+    return key;
+}
+
+/**
+ * Get the upstream dimension info, or throw error if not found.
+ * @param config Only for printing the illegal config.
+ */
+export function getUpstreamDimensionInfo(
+    upstream: ExternalSource,
+    dimLoose: DimensionLoose,
+    config: unknown
+): ExternalDimensionDefinition {
+    const dimInfo = dimLoose != null ? upstream.getDimensionInfo(dimLoose) : null;
+    if (!dimInfo) {
+        let errMsg = '';
+        if (__DEV__) {
+            errMsg = makePrintable(
+                'Can not find dimension info via: ' + dimLoose + '.\n',
+                'Existing dimensions: ', upstream.cloneAllDimensionInfo(), '.\n',
+                'Illegal config:', config, '.\n'
+            );
+        }
+        throwError(errMsg);
+    }
+    return dimInfo;
+}
+
+/**
+ * Make a result dimension definition that is the same as the upstream one.
+ */
+export function inheritDimensionDefinition(upDimInfo: ExternalDimensionDefinition): DimensionDefinition {
+    const dimDef: DimensionDefinition = {name: upDimInfo.name};
+    upDimInfo.type && (dimDef.type = upDimInfo.type);
+    upDimInfo.displayName != null && (dimDef.displayName = upDimInfo.displayName);
+    return dimDef;
+}
+
+export function isNumericValue(val: unknown): boolean {
+    return val != null && val !== '' && isFinite(val as number);
+}
+
+/**
+ * Collect `[x, y]` of the rows that both x and y are numeric, sorted by x.
+ */
+export function collectNumericPoints(
+    upstream: ExternalSource,
+    xDimIdx: DimensionIndex,
+    yDimIdx: DimensionIndex
+): number[][] {
+    const points = [];
+    for (let dataIndex = 0, len = upstream.count(); dataIndex < len; dataIndex++) {
+        const x = upstream.retrieveValue(dataIndex, xDimIdx);
+        const y = upstream.retrieveValue(dataIndex, yDimIdx);
+        if (isNumericValue(x) && isNumericValue(y)) {
+            points.push([+x, +y]);
+        }
+    }
+    return points.sort((a, b) => a[0] - b[0]);
+}
@@ -0,0 +1,218 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { DataTransformOption, ExternalDataTransform } from '../../data/helper/transform';
+import { DimensionLoose, DimensionDefinition } from '../../util/types';
+import { makePrintable, throwError } from '../../util/log';
+import { keys, hasOwn } from 'zrender/src/core/util';
+import { asc, quantile, round } from '../../util/number';
+import { intervalScaleNiceTicks, getIntervalPrecision } from '../../scale/helper';
+import { getUpstreamDimensionInfo, isNumericValue } from './helper';
+
+/**
+ * @usage
+ *
+ * ```js
+ * transform: {
+ *     type: 'histogram',
+ *     config: {
+ *         dimension: 'income',
+ *         // Use one of `binWidth`, `binCount` and `method`.
+ *         // `binWidth` has the highest priority, and `method` is used
+ *         // if none of them is specified.
+ *         binWidth: 10,
+ *         binCount: 20,
+ *         method: 'freedmanDiaconis'
+ *     }
+ * }
+ * ```
+ *
+ * Result dimensions are 'binStart', 'binEnd', 'count' and 'frequency'.
+ * Bins are left-closed except the last one, which is closed on both sides.
+ * If `binWidth` is not specified, the width is niced in the same way as
+ * the interval of value axis, so that the bin edges can be on the ticks.
+ */
+
+export interface HistogramTransformOption extends DataTransformOption {
+    type: 'histogram';
+    config: {
+        // 0 by default.
+        dimension?: DimensionLoose;
+        binWidth?: number;
+        // The expected bin count. The actual count may differ after the width is niced.
+        binCount?: number;
+        // The rule to decide bin count. 'sturges' by default.
+        method?: HistogramMethod;
+    };
+}
+
+export type HistogramMethod = 'sturges' | 'scott' | 'freedmanDiaconis';
+
+// Calculate expected bin count by ascending values, whose span is not zero.
+type BinCountCalculator = (ascValues: number[]) => number;
+
+function countByWidth(ascValues: number[], width: number): number {
+    const span = ascValues[ascValues.length - 1] - ascValues[0];
+    // Fallback to sturges if the width can not be decided.
+    return width > 0 ? Math.ceil(span / width) : binCountCalculators.sturges(ascValues);
+}
+
+const binCountCalculators: Record<HistogramMethod, BinCountCalculator> = {
+    sturges(ascValues) {
+        return Math.ceil(Math.log(ascValues.length) / Math.LN2) + 1;
+    },
+    scott(ascValues) {
+        const n = ascValues.length;
+        let mean = 0;
+        for (let i = 0; i < n; i++) {
+            mean += ascValues[i];
+        }
+        mean /= n;
+        let variance = 0;
+        for (let i = 0; i < n; i++) {
+            variance += (ascValues[i] - mean) * (ascValues[i] - mean);
+        }
+        variance /= n;
+        return countByWidth(ascValues, 3.49 * Math.sqrt(variance) * Math.pow(n, -1 / 3));
+    },
+    freedmanDiaconis(ascValues) {
+        const iqr = quantile(ascValues, 0.75) - quantile(ascValues, 0.25);
+        return countByWidth(ascValues, 2 * iqr * Math.pow(ascValues.length, -1 / 3));
+    }
+};
+
+
+export const histogramTransform: ExternalDataTransform<HistogramTransformOption> = {
+
+    type: 'echarts:histogram',
+
+    transform: function (params) {
+        const upstream = params.upstream;
+        const config = params.config || {};
+        let errMsg = '';
+
+        const method = config.method || 'sturges';
+        if (!hasOwn(binCountCalculators, method)) {
+            if (__DEV__) {
+                errMsg = makePrintable(
+                    'Unknown histogram method "' + method + '".\n',
+                    'Valid methods: ', keys(binCountCalculators), '.\n'
+                );
+            }
+            throwError(errMsg);
+        }
+        if (config.binWidth != null && !(config.binWidth > 0)) {
+            if (__DEV__) {
+                errMsg = 'histogram "binWidth" should be a positive number, but got ' + config.binWidth + '.';
+            }
+            throwError(errMsg);
+        }
+
+        const dimIdx = getUpstreamDimensionInfo(
+            upstream, config.dimension != null ? config.dimension : 0, config
+        ).index;
+
+        const values: number[] = [];
+        for (let dataIndex = 0, len = upstream.count(); dataIndex < len; dataIndex++) {
+            const val = upstream.retrieveValue(dataIndex, dimIdx);
+            isNumericValue(val) && values.push(+val);
+        }
+        asc(values);
+
+        const dimensions: DimensionDefinition[] = [
+            {name: 'binStart', type: 'float'},
+            {name: 'binEnd', type: 'float'},
+            {name: 'count', type: 'int'},
+            {name: 'frequency', type: 'float'}
+        ];
+        const total = values.length;
+        if (!total) {
+            return {dimensions: dimensions, data: []};
+        }
+
+        const min = values[0];
+        const max = values[total - 1];
+        // All of the values fall in one bin.
+        if (min === max) {
+            return {dimensions: dimensions, data: [[min, max, total, 1]]};
+        }
+
+        let interval: number;
+        let precision: number;
+        if (config.binWidth != null) {
+            interval = config.binWidth;
+            precision = getIntervalPrecision(interval);
+        }
+        else {
+            const binCount = config.binCount != null
+                ? config.binCount
+                : binCountCalculators[method](values);
+            const niceTicks = intervalScaleNiceTicks([min, max], Math.max(Math.round(binCount), 1));
+            interval = niceTicks.interval;
+            precision = niceTicks.intervalPrecision;
+        }
+
+        // Align bin edges to the multiples of the interval, like axis ticks.
+        const start = round(Math.floor(min / interval) * interval, precision);
+        // Values are compared with the rounded edges rather than rounding the quotient,
+        // which may put the values just below an edge to the next bin.
+        const getEdge = (binIndex: number) => round(start + binIndex * interval, precision);
+
+        let binTotal = Math.max(Math.ceil((max - start) / interval), 1);
+        while (getEdge(binTotal) < max) {
+            binTotal++;
+        }
+        // The last bin is closed on both sides.
+        while (binTotal > 1 && getEdge(binTotal - 1) >= max) {
+            binTotal--;
+        }
+
+        const counts: number[] = [];
+        for (let i = 0; i < binTotal; i++) {
+            counts.push(0);
+        }
+        for (let i = 0; i < total; i++) {
+            const val = values[i];
+            let binIndex = Math.floor((val - start) / interval);
+            // Fix the floating point error of the quotient.
+            if (getEdge(binIndex + 1) <= val) {
+                binIndex++;
+            }
+            else if (getEdge(binIndex) > val) {
+                binIndex--;
+            }
+            counts[Math.max(Math.min(binIndex, binTotal - 1), 0)]++;
+        }
+
+        const data = [];
+        for (let i = 0; i < binTotal; i++) {
+            data.push([
+                getEdge(i),
+                getEdge(i + 1),
+                counts[i],
+                counts[i] / total
+            ]);
+        }
+
+        return {
+            dimensions: dimensions,
+            data: data
+        };
+    }
+};
@@ -20,8 +20,26 @@
 import { EChartsExtensionInstallRegisters } from '../../extension';
 import {filterTransform} from './filterTransform';
 import {sortTransform} from './sortTransform';
+import {aggregateTransform} from './aggregateTransform';
+import {pivotTransform} from './pivotTransform';
+import {unpivotTransform} from './unpivotTransform';
+import {regressionTransform} from './regressionTransform';
+import {movingAverageTransform} from './movingAverageTransform';
+import {loessTransform} from './loessTransform';
+import {histogramTransform} from './histogramTransform';
+import {joinTransform} from './joinTransform';
+import {computeTransform} from './computeTransform';
 
 export function install(registers: EChartsExtensionInstallRegisters) {
     registers.registerTransform(filterTransform);
     registers.registerTransform(sortTransform);
+    registers.registerTransform(aggregateTransform);
+    registers.registerTransform(pivotTransform);
+    registers.registerTransform(unpivotTransform);
+    registers.registerTransform(regressionTransform);
+    registers.registerTransform(movingAverageTransform);
+    registers.registerTransform(loessTransform);
+    registers.registerTransform(histogramTransform);
+    registers.registerTransform(joinTransform);
+    registers.registerTransform(computeTransform);
 }
\ No newline at end of file
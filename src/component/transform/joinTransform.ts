@@ -0,0 +1,224 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { DataTransformOption, ExternalDataTransform, ExternalSource } from '../../data/helper/transform';
+import {
+    DimensionLoose, DimensionDefinition, DimensionIndex, OptionDataValue
+} from '../../util/types';
+import { throwError } from '../../util/log';
+import { each, map, createHashMap, HashMap } from 'zrender/src/core/util';
+import { normalizeToArray } from '../../util/model';
+import { getUpstreamDimensionInfo, inheritDimensionDefinition, MISSING_VALUE, makeGroupKey } from './helper';
+
+/**
+ * @usage
+ *
+ * ```js
+ * dataset: [{
+ *     id: 'sales',
+ *     source: [['month', 'region', 'sales'], ...]
+ * }, {
+ *     id: 'target',
+ *     source: [['month', 'region', 'target'], ...]
+ * }, {
+ *     fromDatasetId: ['sales', 'target'],
+ *     transform: {
+ *         type: 'join',
+ *         config: { on: ['month', 'region'], how: 'left' }
+ *     }
+ * }]
+ * // Result dimensions: ['month', 'region', 'sales', 'target']
+ * ```
+ *
+ * The upstreams are joined one by one from left to right. Dimensions of `on`
+ * should exist in all of the upstreams, and come first in the result,
+ * followed by the other dimensions of each upstream. If the other dimensions of
+ * different upstreams have the same name, they are suffixed with the index of
+ * the upstream, like 'income_0' and 'income_1'.
+ * Cells that have no matched row are filled with '-'.
+ */
+
+export interface JoinTransformOption extends DataTransformOption {
+    type: 'join';
+    config: {
+        // The key dimensions, which should have the same name in all of the upstreams.
+        on: DimensionLoose | DimensionLoose[];
+        // 'inner' by default.
+        how?: 'inner' | 'left' | 'outer';
+    };
+}
+
+interface JoinRow {
+    keyValues: OptionDataValue[];
+    otherValues: OptionDataValue[];
+}
+
+interface UpstreamRows {
+    rows: JoinRow[];
+    // Count of `otherValues`.
+    otherCount: number;
+}
+
+function collectRows(
+    upstream: ExternalSource,
+    keyDimIdxList: DimensionIndex[],
+    otherDimIdxList: DimensionIndex[]
+): UpstreamRows {
+    const rows: JoinRow[] = [];
+    for (let dataIndex = 0, len = upstream.count(); dataIndex < len; dataIndex++) {
+        rows.push({
+            keyValues: map(keyDimIdxList, dimIdx => upstream.retrieveValue(dataIndex, dimIdx)),
+            otherValues: map(otherDimIdxList, dimIdx => upstream.retrieveValue(dataIndex, dimIdx))
+        });
+    }
+    return {rows: rows, otherCount: otherDimIdxList.length};
+}
+
+function makeMissingValues(count: number): OptionDataValue[] {
+    const values = [];
+    for (let i = 0; i < count; i++) {
+        values.push(MISSING_VALUE);
+    }
+    return values;
+}
+
+function joinTwo(left: UpstreamRows, right: UpstreamRows, how: JoinTransformOption['config']['how']): UpstreamRows {
+    const rightRowsByKey: HashMap<JoinRow[], string> = createHashMap();
+    each(right.rows, function (row) {
+        const key = makeGroupKey(row.keyValues);
+        (rightRowsByKey.get(key) || rightRowsByKey.set(key, [])).push(row);
+    });
+
+    const rows: JoinRow[] = [];
+    const matchedKeys = createHashMap<boolean, string>();
+    each(left.rows, function (leftRow) {
+        const key = makeGroupKey(leftRow.keyValues);
+        const rightRows = rightRowsByKey.get(key);
+        if (rightRows) {
+            matchedKeys.set(key, true);
+            each(rightRows, function (rightRow) {
+                rows.push({
+                    keyValues: leftRow.keyValues,
+                    otherValues: leftRow.otherValues.concat(rightRow.otherValues)
+                });
+            });
+        }
+        else if (how !== 'inner') {
+            rows.push({
+                keyValues: leftRow.keyValues,
+                otherValues: leftRow.otherValues.concat(makeMissingValues(right.otherCount))
+            });
+        }
+    });
+
+    if (how === 'outer') {
+        each(right.rows, function (rightRow) {
+            if (!matchedKeys.get(makeGroupKey(rightRow.keyValues))) {
+                rows.push({
+                    keyValues: rightRow.keyValues,
+                    otherValues: makeMissingValues(left.otherCount).concat(rightRow.otherValues)
+                });
+            }
+        });
+    }
+
+    return {rows: rows, otherCount: left.otherCount + right.otherCount};
+}
+
+
+export const joinTransform: ExternalDataTransform<JoinTransformOption> = {
+
+    type: 'echarts:join',
+
+    transform: function (params) {
+        const upstreamList = params.upstreamList;
+        const config = params.config;
+        let errMsg = '';
+
+        if (!config || config.on == null) {
+            if (__DEV__) {
+                errMsg = 'join transform must has "on" specified.';
+            }
+            throwError(errMsg);
+        }
+        const how = config.how || 'inner';
+        if (how !== 'inner' && how !== 'left' && how !== 'outer') {
+            if (__DEV__) {
+                errMsg = 'join "how" should be "inner", "left" or "outer", but got "' + how + '".';
+            }
+            throwError(errMsg);
+        }
+
+        const onList = normalizeToArray(config.on);
+        let dimensions: DimensionDefinition[];
+        const otherDimList: {dimDef: DimensionDefinition, upstreamIdx: number}[] = [];
+        let result: UpstreamRows;
+
+        each(upstreamList, function (upstream, upstreamIdx) {
+            const keyDimInfoList = map(onList, dimLoose => getUpstreamDimensionInfo(upstream, dimLoose, config));
+            const isKeyDim = createHashMap<boolean, number>();
+            each(keyDimInfoList, dimInfo => isKeyDim.set(dimInfo.index, true));
+            const otherDimInfoList = upstream.cloneAllDimensionInfo().filter(
+                dimInfo => !isKeyDim.get(dimInfo.index)
+            );
+
+            const upstreamRows = collectRows(
+                upstream,
+                map(keyDimInfoList, dimInfo => dimInfo.index),
+                map(otherDimInfoList, dimInfo => dimInfo.index)
+            );
+
+            if (!upstreamIdx) {
+                dimensions = map(keyDimInfoList, inheritDimensionDefinition);
+                result = upstreamRows;
+            }
+            else {
+                result = joinTwo(result, upstreamRows, how);
+            }
+            each(otherDimInfoList, dimInfo => otherDimList.push({
+                dimDef: inheritDimensionDefinition(dimInfo),
+                upstreamIdx: upstreamIdx
+            }));
+        });
+
+        const nameCount = createHashMap<number, string>();
+        const countName = (dimDef: DimensionDefinition) => {
+            dimDef.name != null && nameCount.set(dimDef.name, (nameCount.get(dimDef.name) || 0) + 1);
+        };
+        each(dimensions, countName);
+        each(otherDimList, item => countName(item.dimDef));
+        each(otherDimList, function (item) {
+            const dimDef = item.dimDef;
+            if (dimDef.name != null && nameCount.get(dimDef.name) > 1) {
+                let name = dimDef.name + '_' + item.upstreamIdx;
+                while (nameCount.get(name)) {
+                    name += '_' + item.upstreamIdx;
+                }
+                nameCount.set(name, 1);
+                dimDef.name = name;
+            }
+            dimensions.push(dimDef);
+        });
+
+        return {
+            dimensions: dimensions,
+            data: map(result.rows, row => row.keyValues.concat(row.otherValues))
+        };
+    }
+};
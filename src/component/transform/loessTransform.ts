@@ -0,0 +1,149 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { DataTransformOption, ExternalDataTransform } from '../../data/helper/transform';
+import { DimensionLoose } from '../../util/types';
+import { throwError } from '../../util/log';
+import { map } from 'zrender/src/core/util';
+import {
+    getUpstreamDimensionInfo, inheritDimensionDefinition, collectNumericPoints
+} from './helper';
+
+/**
+ * Locally weighted linear regression (LOESS) with tricube weights.
+ *
+ * @usage
+ *
+ * ```js
+ * transform: {
+ *     type: 'loess',
+ *     config: {
+ *         // [x, y], [0, 1] by default.
+ *         dimensions: ['date', 'price'],
+ *         bandwidth: 0.3
+ *     }
+ * }
+ * ```
+ *
+ * The result rows are the smoothed `[x, y]` on each upstream x, sorted by x.
+ */
+
+export interface LoessTransformOption extends DataTransformOption {
+    type: 'loess';
+    config: {
+        dimensions?: [DimensionLoose, DimensionLoose];
+        // The fraction of points used in each local regression, in (0, 1]. 0.3 by default.
+        bandwidth?: number;
+    };
+}
+
+function tricube(d: number): number {
+    const tmp = 1 - d * d * d;
+    return tmp * tmp * tmp;
+}
+
+/**
+ * Fit y on `x` by the weighted linear regression of the `bandwidthCount`
+ * points nearest to `x`.
+ * @param points Sorted by x.
+ */
+function fitLocal(points: number[][], idx: number, bandwidthCount: number): number {
+    const x = points[idx][0];
+    const len = points.length;
+
+    // Expand the window [left, right] around `idx` to the nearest points.
+    let left = idx;
+    let right = idx;
+    while (right - left + 1 < bandwidthCount) {
+        if (left === 0) {
+            right++;
+        }
+        else if (right === len - 1) {
+            left--;
+        }
+        else if (x - points[left - 1][0] <= points[right + 1][0] - x) {
+            left--;
+        }
+        else {
+            right++;
+        }
+    }
+    // Slightly larger so that the farthest point still has weight.
+    const maxDist = Math.max(x - points[left][0], points[right][0] - x) * 1.001;
+
+    let sumW = 0;
+    let sumWX = 0;
+    let sumWY = 0;
+    let sumWXX = 0;
+    let sumWXY = 0;
+    for (let i = left; i <= right; i++) {
+        const px = points[i][0];
+        const py = points[i][1];
+        const w = maxDist > 0 ? tricube(Math.abs(px - x) / maxDist) : 1;
+        sumW += w;
+        sumWX += w * px;
+        sumWY += w * py;
+        sumWXX += w * px * px;
+        sumWXY += w * px * py;
+    }
+    const meanX = sumWX / sumW;
+    const meanY = sumWY / sumW;
+    const varX = sumWXX / sumW - meanX * meanX;
+    // All of the points are at the same x.
+    if (Math.abs(varX) < 1e-12) {
+        return meanY;
+    }
+    const slope = (sumWXY / sumW - meanX * meanY) / varX;
+    return meanY + slope * (x - meanX);
+}
+
+
+export const loessTransform: ExternalDataTransform<LoessTransformOption> = {
+
+    type: 'echarts:loess',
+
+    transform: function (params) {
+        const upstream = params.upstream;
+        const config = params.config || {};
+        let errMsg = '';
+
+        const bandwidth = config.bandwidth != null ? config.bandwidth : 0.3;
+        if (!(bandwidth > 0 && bandwidth <= 1)) {
+            if (__DEV__) {
+                errMsg = 'loess "bandwidth" should be in (0, 1], but got ' + bandwidth + '.';
+            }
+            throwError(errMsg);
+        }
+
+        const dims = config.dimensions || [0, 1];
+        const xDimInfo = getUpstreamDimensionInfo(upstream, dims[0], config);
+        const yDimInfo = getUpstreamDimensionInfo(upstream, dims[1], config);
+        const points = collectNumericPoints(upstream, xDimInfo.index, yDimInfo.index);
+        // At least two points are needed to fit a line.
+        const bandwidthCount = Math.min(Math.max(Math.floor(bandwidth * points.length), 2), points.length);
+
+        return {
+            dimensions: [
+                inheritDimensionDefinition(xDimInfo),
+                {name: yDimInfo.name, type: 'float'}
+            ],
+            data: map(points, (point, idx) => [point[0], fitLocal(points, idx, bandwidthCount)])
+        };
+    }
+};
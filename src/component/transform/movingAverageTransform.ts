@@ -0,0 +1,132 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { DataTransformOption, ExternalDataTransform } from '../../data/helper/transform';
+import { DimensionLoose, DimensionName, OptionDataValue } from '../../util/types';
+import { throwError } from '../../util/log';
+import { map } from 'zrender/src/core/util';
+import { getUpstreamDimensionInfo, inheritDimensionDefinition, isNumericValue, MISSING_VALUE } from './helper';
+
+/**
+ * @usage
+ *
+ * ```js
+ * transform: {
+ *     type: 'movingAverage',
+ *     config: {
+ *         dimension: 'price',
+ *         method: 'simple',
+ *         period: 7,
+ *         // 'priceMA' by default.
+ *         name: 'price7'
+ *     }
+ * }
+ * ```
+ *
+ * All of the upstream dimensions and rows are kept, and the average is
+ * appended as a new dimension. Rows that the average is not available
+ * (like the first `period - 1` rows of 'simple') are filled with '-'.
+ */
+
+export interface MovingAverageTransformOption extends DataTransformOption {
+    type: 'movingAverage';
+    config: {
+        dimension: DimensionLoose;
+        // 'simple' by default.
+        method?: 'simple' | 'exponential';
+        // The window size. 5 by default.
+        period?: number;
+        // The smoothing factor of 'exponential', in (0, 1]. `2 / (period + 1)` by default.
+        alpha?: number;
+        // Name of the result dimension.
+        name?: DimensionName;
+    };
+}
+
+
+export const movingAverageTransform: ExternalDataTransform<MovingAverageTransformOption> = {
+
+    type: 'echarts:movingAverage',
+
+    transform: function (params) {
+        const upstream = params.upstream;
+        const config = params.config;
+        let errMsg = '';
+
+        if (!config || config.dimension == null) {
+            if (__DEV__) {
+                errMsg = 'movingAverage transform must has "dimension" specified.';
+            }
+            throwError(errMsg);
+        }
+        const method = config.method || 'simple';
+        if (method !== 'simple' && method !== 'exponential') {
+            if (__DEV__) {
+                errMsg = 'Unknown movingAverage method "' + method + '". Valid methods: simple, exponential.';
+            }
+            throwError(errMsg);
+        }
+
+        const period = config.period != null ? Math.max(Math.round(config.period), 1) : 5;
+        const alpha = config.alpha != null ? config.alpha : 2 / (period + 1);
+        const upDimInfo = getUpstreamDimensionInfo(upstream, config.dimension, config);
+        const upDimInfoList = upstream.cloneAllDimensionInfo();
+
+        const dimensions = map(upDimInfoList, inheritDimensionDefinition);
+        dimensions.push({
+            name: config.name != null ? config.name : upDimInfo.name + 'MA',
+            type: 'float'
+        });
+
+        // Non-numeric values are skipped and not counted in the window.
+        const window: number[] = [];
+        let windowSum = 0;
+        let ema: number = null;
+
+        const data: OptionDataValue[][] = [];
+        for (let dataIndex = 0, len = upstream.count(); dataIndex < len; dataIndex++) {
+            const row = map(upDimInfoList, dimInfo => upstream.retrieveValue(dataIndex, dimInfo.index));
+            const val = row[upDimInfo.index];
+            let avg: number = null;
+
+            if (isNumericValue(val)) {
+                if (method === 'simple') {
+                    window.push(+val);
+                    windowSum += +val;
+                    if (window.length > period) {
+                        windowSum -= window.shift();
+                    }
+                    window.length === period && (avg = windowSum / period);
+                }
+                else {
+                    ema = ema == null ? +val : alpha * +val + (1 - alpha) * ema;
+                    avg = ema;
+                }
+            }
+
+            row.push(avg == null ? MISSING_VALUE : avg);
+            data.push(row);
+        }
+
+        return {
+            dimensions: dimensions,
+            data: data
+        };
+    }
+};
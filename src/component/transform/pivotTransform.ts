@@ -0,0 +1,174 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { DataTransformOption, ExternalDataTransform } from '../../data/helper/transform';
+import {
+    DimensionLoose, DimensionDefinition, OptionDataValue
+} from '../../util/types';
+import { makePrintable, throwError } from '../../util/log';
+import { map, keys, createHashMap, HashMap, hasOwn } from 'zrender/src/core/util';
+import { normalizeToArray } from '../../util/model';
+import { getUpstreamDimensionInfo, inheritDimensionDefinition, MISSING_VALUE, makeGroupKey } from './helper';
+import { AggregateMethod, aggregateCalculators, getAggregateResultType } from './aggregateTransform';
+
+/**
+ * Convert long-format rows to wide-format rows.
+ *
+ * @usage
+ *
+ * ```js
+ * // Upstream:
+ * // ['date', 'metric', 'value'],
+ * // ['2021-01', 'cpu', 0.5],
+ * // ['2021-01', 'mem', 0.7],
+ * // ['2021-02', 'cpu', 0.6],
+ * transform: {
+ *     type: 'pivot',
+ *     config: {
+ *         index: 'date',
+ *         columns: 'metric',
+ *         values: 'value'
+ *     }
+ * }
+ * // Result:
+ * // ['date', 'cpu', 'mem'],
+ * // ['2021-01', 0.5, 0.7],
+ * // ['2021-02', 0.6, '-'],
+ * ```
+ */
+
+export interface PivotTransformOption extends DataTransformOption {
+    type: 'pivot';
+    config: {
+        // Dimensions that identify a row. All rows are in one row if not specified.
+        index?: DimensionLoose | DimensionLoose[];
+        // Each distinct value of this dimension becomes a result dimension.
+        columns: DimensionLoose;
+        // The dimension that fills the cells.
+        values: DimensionLoose;
+        // How to combine values when several upstream rows fall in the same cell.
+        // 'first' by default.
+        method?: AggregateMethod;
+    };
+}
+
+export const pivotTransform: ExternalDataTransform<PivotTransformOption> = {
+
+    type: 'echarts:pivot',
+
+    transform: function (params) {
+        const upstream = params.upstream;
+        const config = params.config;
+        let errMsg = '';
+
+        if (!config || config.columns == null || config.values == null) {
+            if (__DEV__) {
+                errMsg = 'pivot transform must has "columns" and "values" specified.';
+            }
+            throwError(errMsg);
+        }
+
+        const method = config.method != null ? config.method : 'first';
+        if (!hasOwn(aggregateCalculators, method)) {
+            if (__DEV__) {
+                errMsg = makePrintable(
+                    'Unknown aggregate method "' + method + '".\n',
+                    'Valid methods: ', keys(aggregateCalculators), '.\n'
+                );
+            }
+            throwError(errMsg);
+        }
+        const calculator = aggregateCalculators[method];
+
+        const indexDimInfoList = map(
+            normalizeToArray(config.index),
+            dimLoose => getUpstreamDimensionInfo(upstream, dimLoose, config)
+        );
+        const columnsDimIdx = getUpstreamDimensionInfo(upstream, config.columns, config).index;
+        const valuesDimInfo = getUpstreamDimensionInfo(upstream, config.values, config);
+
+        // Both rows and columns keep the order of first occurrence,
+        // so that the ordinal order of upstream is preserved.
+        const rowKeyList: string[] = [];
+        const rowMap: HashMap<{indexValues: OptionDataValue[], cells: OptionDataValue[][]}, string> = createHashMap();
+        const columnValueList: OptionDataValue[] = [];
+        const columnIndexMap = createHashMap<number, string>();
+
+        for (let dataIndex = 0, len = upstream.count(); dataIndex < len; dataIndex++) {
+            const columnValue = upstream.retrieveValue(dataIndex, columnsDimIdx);
+            // Rows without a column name can not be put anywhere.
+            if (columnValue == null || columnValue === '') {
+                continue;
+            }
+            let columnIndex = columnIndexMap.get(columnValue + '');
+            if (columnIndex == null) {
+                columnIndex = columnValueList.length;
+                columnIndexMap.set(columnValue + '', columnIndex);
+                columnValueList.push(columnValue);
+            }
+
+            const indexValues = map(indexDimInfoList, dimInfo => upstream.retrieveValue(dataIndex, dimInfo.index));
+            const key = makeGroupKey(indexValues);
+            let row = rowMap.get(key);
+            if (!row) {
+                rowKeyList.push(key);
+                row = rowMap.set(key, {indexValues: indexValues, cells: []});
+            }
+            (row.cells[columnIndex] || (row.cells[columnIndex] = []))
+                .push(upstream.retrieveValue(dataIndex, valuesDimInfo.index));
+        }
+
+        const dimensions: DimensionDefinition[] = map(indexDimInfoList, inheritDimensionDefinition);
+        const indexDimNameMap = createHashMap<boolean, string>();
+        for (let i = 0; i < dimensions.length; i++) {
+            dimensions[i].name != null && indexDimNameMap.set(dimensions[i].name, true);
+        }
+        const valueType = getAggregateResultType(method, valuesDimInfo.type);
+        for (let i = 0; i < columnValueList.length; i++) {
+            const dimName = columnValueList[i] + '';
+            // Otherwise the duplicated name can not be used to refer to a dimension.
+            if (indexDimNameMap.get(dimName)) {
+                if (__DEV__) {
+                    errMsg = 'pivot transform: value "' + dimName + '" of the "columns" dimension'
+                        + ' is the same as the name of an "index" dimension.';
+                }
+                throwError(errMsg);
+            }
+            const dimDef: DimensionDefinition = {name: dimName};
+            valueType && (dimDef.type = valueType);
+            dimensions.push(dimDef);
+        }
+
+        const resultData = map(rowKeyList, function (key) {
+            const row = rowMap.get(key);
+            const resultRow = row.indexValues.slice();
+            for (let i = 0; i < columnValueList.length; i++) {
+                const cell = row.cells[i];
+                const val = cell ? calculator(cell) : null;
+                resultRow.push(val == null || val === '' ? MISSING_VALUE : val);
+            }
+            return resultRow;
+        });
+
+        return {
+            dimensions: dimensions,
+            data: resultData
+        };
+    }
+};
@@ -0,0 +1,311 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { DataTransformOption, ExternalDataTransform } from '../../data/helper/transform';
+import {
+    DimensionLoose, DimensionDefinition, OptionDataValue
+} from '../../util/types';
+import { makePrintable, throwError } from '../../util/log';
+import { map, keys, hasOwn } from 'zrender/src/core/util';
+import { round } from '../../util/number';
+import {
+    getUpstreamDimensionInfo, inheritDimensionDefinition, collectNumericPoints
+} from './helper';
+
+/**
+ * @usage
+ *
+ * ```js
+ * transform: {
+ *     type: 'regression',
+ *     config: {
+ *         method: 'polynomial',
+ *         order: 3,
+ *         // [x, y], [0, 1] by default.
+ *         dimensions: ['year', 'income']
+ *     }
+ * }
+ * ```
+ *
+ * The result rows are the fitted `[x, y]` on each upstream x, sorted by x.
+ * The rows that y <= 0 in 'exponential' or x <= 0 in 'logarithmic' are ignored,
+ * and the result data is empty if there is no valid row.
+ * If `formulaOn` is not 'none', two extra dimensions 'expression' and 'rSquared'
+ * are filled on the rows it specifies, which can be referenced by
+ * label formatter like `'{@expression}, R² = {@rSquared}'`.
+ */
+
+export interface RegressionTransformOption extends DataTransformOption {
+    type: 'regression';
+    config: {
+        // 'linear' by default.
+        method?: RegressionMethod;
+        // The order of 'polynomial'. 2 by default.
+        order?: number;
+        dimensions?: [DimensionLoose, DimensionLoose];
+        // On which rows the 'expression' and 'rSquared' are filled. 'end' by default.
+        formulaOn?: 'start' | 'end' | 'all' | 'none';
+        // Precision of the coefficients in the expression. 2 by default.
+        precision?: number;
+    };
+}
+
+export type RegressionMethod = 'linear' | 'exponential' | 'logarithmic' | 'polynomial';
+
+interface RegressionResult {
+    // Calculate fitted y by x.
+    predict: (x: number) => number;
+    expression: string;
+}
+
+type RegressionFitter = (points: number[][], order: number, precision: number) => RegressionResult;
+
+/**
+ * Least squares fit of `y = a + b * x`.
+ * @return [a, b]
+ */
+function fitLinear(points: number[][]): number[] {
+    const n = points.length;
+    let sumX = 0;
+    let sumY = 0;
+    let sumXY = 0;
+    let sumXX = 0;
+    for (let i = 0; i < n; i++) {
+        const x = points[i][0];
+        const y = points[i][1];
+        sumX += x;
+        sumY += y;
+        sumXY += x * y;
+        sumXX += x * x;
+    }
+    const divisor = n * sumXX - sumX * sumX;
+    const b = divisor ? (n * sumXY - sumX * sumY) / divisor : 0;
+    return [(sumY - b * sumX) / n, b];
+}
+
+/**
+ * Solve linear equations by gaussian elimination with partial pivoting.
+ * @param matrix Augmented matrix, which will be modified.
+ */
+function solveLinearEquations(matrix: number[][]): number[] {
+    const n = matrix.length;
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(matrix[row][col]) > Math.abs(matrix[pivot][col])) {
+                pivot = row;
+            }
+        }
+        const tmp = matrix[col];
+        matrix[col] = matrix[pivot];
+        matrix[pivot] = tmp;
+
+        for (let row = col + 1; row < n; row++) {
+            const factor = matrix[col][col] ? matrix[row][col] / matrix[col][col] : 0;
+            for (let k = col; k <= n; k++) {
+                matrix[row][k] -= factor * matrix[col][k];
+            }
+        }
+    }
+    const result: number[] = [];
+    for (let row = n - 1; row >= 0; row--) {
+        let sum = matrix[row][n];
+        for (let k = row + 1; k < n; k++) {
+            sum -= matrix[row][k] * result[k];
+        }
+        result[row] = matrix[row][row] ? sum / matrix[row][row] : 0;
+    }
+    return result;
+}
+
+function formatCoef(coef: number, precision: number, isFirst: boolean): string {
+    // Use the rounded value to avoid '-0'.
+    const rounded = round(coef, precision);
+    const str = Math.abs(rounded) + '';
+    return isFirst
+        ? (rounded < 0 ? '-' : '') + str
+        : (rounded < 0 ? ' - ' : ' + ') + str;
+}
+
+const fitters: Record<RegressionMethod, RegressionFitter> = {
+
+    linear(points, order, precision) {
+        const coefs = fitLinear(points);
+        const a = coefs[0];
+        const b = coefs[1];
+        return {
+            predict: x => a + b * x,
+            expression: 'y = ' + formatCoef(b, precision, true) + 'x' + formatCoef(a, precision, false)
+        };
+    },
+
+    // y = a * e^(b * x)
+    exponential(points, order, precision) {
+        const coefs = fitLinear(map(points, point => [point[0], Math.log(point[1])]));
+        const a = Math.exp(coefs[0]);
+        const b = coefs[1];
+        return {
+            predict: x => a * Math.exp(b * x),
+            expression: 'y = ' + formatCoef(a, precision, true) + 'e^(' + formatCoef(b, precision, true) + 'x)'
+        };
+    },
+
+    // y = a + b * ln(x)
+    logarithmic(points, order, precision) {
+        const coefs = fitLinear(map(points, point => [Math.log(point[0]), point[1]]));
+        const a = coefs[0];
+        const b = coefs[1];
+        return {
+            predict: x => a + b * Math.log(x),
+            expression: 'y = ' + formatCoef(a, precision, true) + formatCoef(b, precision, false) + 'ln(x)'
+        };
+    },
+
+    // y = c0 + c1 * x + c2 * x^2 + ...
+    polynomial(points, order, precision) {
+        const size = order + 1;
+        const matrix: number[][] = [];
+        for (let i = 0; i < size; i++) {
+            const row = [];
+            for (let j = 0; j <= size; j++) {
+                row.push(0);
+            }
+            matrix.push(row);
+        }
+        for (let p = 0; p < points.length; p++) {
+            const x = points[p][0];
+            const y = points[p][1];
+            for (let i = 0; i < size; i++) {
+                for (let j = 0; j < size; j++) {
+                    matrix[i][j] += Math.pow(x, i + j);
+                }
+                matrix[i][size] += Math.pow(x, i) * y;
+            }
+        }
+        const coefs = solveLinearEquations(matrix);
+
+        let expression = 'y = ';
+        for (let i = order; i >= 0; i--) {
+            expression += formatCoef(coefs[i], precision, i === order)
+                + (i > 1 ? 'x^' + i : i === 1 ? 'x' : '');
+        }
+        return {
+            predict(x) {
+                let y = 0;
+                for (let i = order; i >= 0; i--) {
+                    y = y * x + coefs[i];
+                }
+                return y;
+            },
+            expression: expression
+        };
+    }
+};
+
+// The points out of the domain of the method are neither fitted nor output.
+const pointFilters: Partial<Record<RegressionMethod, (point: number[]) => boolean>> = {
+    exponential: point => point[1] > 0,
+    logarithmic: point => point[0] > 0
+};
+
+function calcRSquared(points: number[][], predict: (x: number) => number): number {
+    let mean = 0;
+    for (let i = 0; i < points.length; i++) {
+        mean += points[i][1];
+    }
+    mean /= points.length;
+
+    let ssRes = 0;
+    let ssTot = 0;
+    for (let i = 0; i < points.length; i++) {
+        const y = points[i][1];
+        const diff = y - predict(points[i][0]);
+        ssRes += diff * diff;
+        ssTot += (y - mean) * (y - mean);
+    }
+    return ssTot ? 1 - ssRes / ssTot : 1;
+}
+
+
+export const regressionTransform: ExternalDataTransform<RegressionTransformOption> = {
+
+    type: 'echarts:regression',
+
+    transform: function (params) {
+        const upstream = params.upstream;
+        const config = params.config || {};
+        let errMsg = '';
+
+        const method = config.method || 'linear';
+        if (!hasOwn(fitters, method)) {
+            if (__DEV__) {
+                errMsg = makePrintable(
+                    'Unknown regression method "' + method + '".\n',
+                    'Valid methods: ', keys(fitters), '.\n'
+                );
+            }
+            throwError(errMsg);
+        }
+        const order = config.order != null ? Math.max(Math.round(config.order), 1) : 2;
+        const precision = config.precision != null ? config.precision : 2;
+        const formulaOn = config.formulaOn || 'end';
+
+        const dims = config.dimensions || [0, 1];
+        const xDimInfo = getUpstreamDimensionInfo(upstream, dims[0], config);
+        const yDimInfo = getUpstreamDimensionInfo(upstream, dims[1], config);
+        let points = collectNumericPoints(upstream, xDimInfo.index, yDimInfo.index);
+        const pointFilter = pointFilters[method];
+        pointFilter && (points = points.filter(pointFilter));
+
+        const dimensions: DimensionDefinition[] = [
+            inheritDimensionDefinition(xDimInfo),
+            {name: yDimInfo.name, type: 'float'}
+        ];
+        if (formulaOn !== 'none') {
+            dimensions.push({name: 'expression', type: 'ordinal'}, {name: 'rSquared', type: 'float'});
+        }
+
+        if (!points.length) {
+            return {dimensions: dimensions, data: []};
+        }
+
+        const result = fitters[method](points, order, precision);
+        const rSquared = calcRSquared(points, result.predict);
+        const lastIndex = points.length - 1;
+
+        const data = map(points, function (point, idx) {
+            const row: OptionDataValue[] = [point[0], result.predict(point[0])];
+            if (formulaOn !== 'none') {
+                const hasFormula = formulaOn === 'all'
+                    || (formulaOn === 'start' && idx === 0)
+                    || (formulaOn === 'end' && idx === lastIndex);
+                row.push(
+                    hasFormula ? result.expression : null,
+                    hasFormula ? rSquared : null
+                );
+            }
+            return row;
+        });
+
+        return {
+            dimensions: dimensions,
+            data: data
+        };
+    }
+};
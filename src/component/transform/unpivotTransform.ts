@@ -0,0 +1,138 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { DataTransformOption, ExternalDataTransform } from '../../data/helper/transform';
+import {
+    DimensionLoose, DimensionName, DimensionDefinition, DimensionType, OptionDataValue
+} from '../../util/types';
+import { throwError } from '../../util/log';
+import { each, map, createHashMap } from 'zrender/src/core/util';
+import { normalizeToArray } from '../../util/model';
+import { getUpstreamDimensionInfo, inheritDimensionDefinition, MISSING_VALUE } from './helper';
+
+/**
+ * Convert wide-format rows to long-format rows.
+ *
+ * @usage
+ *
+ * ```js
+ * // Upstream:
+ * // ['date', 'cpu', 'mem'],
+ * // ['2021-01', 0.5, 0.7],
+ * transform: {
+ *     type: 'unpivot',
+ *     config: {
+ *         index: 'date',
+ *         // All of the dimensions except `index` by default.
+ *         columns: ['cpu', 'mem'],
+ *         nameDimension: 'metric',
+ *         valueDimension: 'value'
+ *     }
+ * }
+ * // Result:
+ * // ['date', 'metric', 'value'],
+ * // ['2021-01', 'cpu', 0.5],
+ * // ['2021-01', 'mem', 0.7],
+ * ```
+ */
+
+export interface UnpivotTransformOption extends DataTransformOption {
+    type: 'unpivot';
+    config: {
+        // Dimensions that are kept on each result row.
+        index?: DimensionLoose | DimensionLoose[];
+        // Dimensions that are converted to rows.
+        columns?: DimensionLoose | DimensionLoose[];
+        // Name of the result dimension that holds the names of `columns`. 'name' by default.
+        nameDimension?: DimensionName;
+        // Name of the result dimension that holds the values of `columns`. 'value' by default.
+        valueDimension?: DimensionName;
+    };
+}
+
+export const unpivotTransform: ExternalDataTransform<UnpivotTransformOption> = {
+
+    type: 'echarts:unpivot',
+
+    transform: function (params) {
+        const upstream = params.upstream;
+        const config = params.config || {};
+        let errMsg = '';
+
+        const indexDimInfoList = map(
+            normalizeToArray(config.index),
+            dimLoose => getUpstreamDimensionInfo(upstream, dimLoose, config)
+        );
+        const isIndexDim = createHashMap<boolean, number>();
+        each(indexDimInfoList, dimInfo => isIndexDim.set(dimInfo.index, true));
+
+        const columnDimInfoList = config.columns != null
+            ? map(
+                normalizeToArray(config.columns),
+                dimLoose => getUpstreamDimensionInfo(upstream, dimLoose, config)
+            )
+            : upstream.cloneAllDimensionInfo().filter(dimInfo => !isIndexDim.get(dimInfo.index));
+
+        if (!columnDimInfoList.length) {
+            if (__DEV__) {
+                errMsg = 'unpivot transform has no dimension to convert to rows.';
+            }
+            throwError(errMsg);
+        }
+
+        // The value dimension is typed only if all of the columns are of the same type.
+        let valueType: DimensionType = columnDimInfoList[0].type;
+        each(columnDimInfoList, function (dimInfo) {
+            dimInfo.type !== valueType && (valueType = null);
+        });
+
+        const dimensions: DimensionDefinition[] = map(indexDimInfoList, inheritDimensionDefinition);
+        dimensions.push({
+            name: config.nameDimension != null ? config.nameDimension : 'name',
+            type: 'ordinal'
+        });
+        const valueDimDef: DimensionDefinition = {
+            name: config.valueDimension != null ? config.valueDimension : 'value'
+        };
+        valueType && (valueDimDef.type = valueType);
+        dimensions.push(valueDimDef);
+
+        // Row major, so that the order of both upstream rows and columns is preserved.
+        const resultData: OptionDataValue[][] = [];
+        for (let dataIndex = 0, len = upstream.count(); dataIndex < len; dataIndex++) {
+            const indexValues = map(
+                indexDimInfoList,
+                dimInfo => upstream.retrieveValue(dataIndex, dimInfo.index)
+            );
+            for (let i = 0; i < columnDimInfoList.length; i++) {
+                const columnDimInfo = columnDimInfoList[i];
+                const val = upstream.retrieveValue(dataIndex, columnDimInfo.index);
+                resultData.push(indexValues.concat(
+                    columnDimInfo.name,
+                    val == null || val === '' ? MISSING_VALUE : val
+                ));
+            }
+        }
+
+        return {
+            dimensions: dimensions,
+            data: resultData
+        };
+    }
+};
@@ -30,9 +30,16 @@ import OrdinalScale from '../scale/Ordinal';
 import Model from '../model/Model';
 import { AxisBaseOption, OptionAxisType } from './axisCommonTypes';
 import { AxisBaseModel } from './AxisBaseModel';
+import { ScaleBreak } from '../scale/breakHelper';
 
 const NORMALIZED_EXTENT = [0, 1] as [number, number];
 
+interface BreakCoord {
+    // Coords of the start and the end of the collapsed range.
+    coords: [number, number];
+    brk: ScaleBreak;
+}
+
 interface TickCoord {
     coord: number;
     // That is `scaleTick.value`.
@@ -50,6 +57,7 @@ class Axis {
      *  - 'value'
      *  - 'time'
      *  - 'log'
+     *  - 'symlog'
      */
     type: OptionAxisType;
 
@@ -220,6 +228,18 @@ class Axis {
         return minorTicksCoords;
     }
 
+    /**
+     * Get coords of the collapsed breaks (if any) on this axis.
+     */
+    getBreakCoords(): BreakCoord[] {
+        return map(this.scale.getBreaks(), function (brk) {
+            return {
+                coords: [this.dataToCoord(brk.start), this.dataToCoord(brk.end)] as [number, number],
+                brk: brk
+            };
+        }, this);
+    }
+
     getViewLabels(): ReturnType<typeof createAxisLabels>['labels'] {
         return createAxisLabels(this).labels;
     }
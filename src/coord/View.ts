@@ -185,7 +185,8 @@ class View extends Transformable implements CoordinateSystemMaster, CoordinateSy
         const rawTransformMatrix = this._rawTransformable.getLocalTransform();
         const roamTransform = this._roamTransformable;
         let defaultCenter = this.getDefaultCenter();
-        let center = this.getCenter();
+        // Not use `getCenter`, which may be overridden to return center in other unit.
+        let center = this._center || defaultCenter;
         const zoom = this.getZoom();
 
         center = vector.applyTransform([], center, rawTransformMatrix);
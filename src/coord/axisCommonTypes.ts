@@ -20,11 +20,11 @@
 import {
     TextCommonOption, LineStyleOption, OrdinalRawValue, ZRColor,
     AreaStyleOption, ComponentOption, ColorString,
-    AnimationOptionMixin, Dictionary, ScaleDataValue
+    AnimationOptionMixin, Dictionary, ScaleDataValue, ItemStyleOption
 } from '../util/types';
 
 
-export const AXIS_TYPES = {value: 1, category: 1, time: 1, log: 1} as const;
+export const AXIS_TYPES = {value: 1, category: 1, time: 1, log: 1, symlog: 1} as const;
 export type OptionAxisType = keyof typeof AXIS_TYPES;
 
 
@@ -101,10 +101,17 @@ export interface AxisBaseOption extends ComponentOption,
         value: OrdinalRawValue;
         textStyle?: TextCommonOption;
     })[];
+    // Max width in pixel that the scatter points in the same category are
+    // spread within, limited by the band width. 0 means no jitter.
+    jitter?: number;
+    // If false, points are placed like a beeswarm to avoid overlapping.
+    jitterOverlap?: boolean;
+    // Min gap in pixel between points when `jitterOverlap` is false.
+    jitterMargin?: number;
 
 
     // ------------------------------------------------------
-    // [Properties below only for 'value'/'log'/'time' axes]:
+    // [Properties below only for 'value'/'log'/'symlog'/'time' axes]:
 
     // AxisTick and axisLabel and splitLine are caculated based on splitNumber.
     splitNumber?: number;
@@ -115,11 +122,46 @@ export interface AxisBaseOption extends ComponentOption,
     // Specify max interval when auto calculate tick interval.
     maxInterval?: number;
 
+    // Collapse some ranges of the scale, where the data is not interested
+    // in (e.g., to show both normal values and an outlier).
+    breaks?: AxisBreakOption[];
+    // Style of the zig-zag markers drawn on the axis line at each break.
+    breakArea?: AxisBreakAreaOption;
 
-    // ---------------------------------------
-    // [Properties below only for 'log' axis]:
+
+    // -------------------------------------------------
+    // [Properties below only for 'log'/'symlog' axis]:
 
     logBase?: number;
+
+
+    // ------------------------------------------
+    // [Properties below only for 'symlog' axis]:
+
+    // Values in `[-linthresh, linthresh]` are displayed approximately linearly.
+    linthresh?: number;
+}
+
+export interface AxisBreakOption {
+    start: ScaleDataValue;
+    end: ScaleDataValue;
+    // The size that the collapsed range still takes on the axis. Can be:
+    // + number: in the unit of data value.
+    // + percent (like `'2%'`): relative to the whole axis.
+    // By default `'2%'`.
+    gap?: number | string;
+    // Expanded break behaves like a normal range and is not collapsed.
+    isExpanded?: boolean;
+}
+
+export interface AxisBreakAreaOption {
+    show?: boolean;
+    // Whether to expand the break when the marker is clicked.
+    expandOnClick?: boolean;
+    // Half length of the marker across the axis line.
+    size?: number;
+    zigzagAmplitude?: number;
+    itemStyle?: ItemStyleOption;
 }
 
 interface AxisNameTextStyleOption extends TextCommonOption {
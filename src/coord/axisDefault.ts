@@ -113,6 +113,9 @@ const categoryAxis: AxisBaseOption = zrUtil.merge({
     boundaryGap: true,
     // Set false to faster category collection.
     deduplication: null,
+    jitter: 0,
+    jitterOverlap: true,
+    jitterMargin: 2,
     // splitArea: {
         // show: false
     // },
@@ -167,6 +170,19 @@ const valueAxis: AxisBaseOption = zrUtil.merge({
             color: '#F4F7FD',
             width: 1
         }
+    },
+
+    breakArea: {
+        show: true,
+        // Click the marker to expand the collapsed range.
+        expandOnClick: true,
+        size: 8,
+        zigzagAmplitude: 4,
+        itemStyle: {
+            color: '#fff',
+            borderColor: '#B7B9BE',
+            borderWidth: 1
+        }
     }
 }, defaultOption);
 
@@ -193,10 +209,16 @@ const logAxis: AxisBaseOption = zrUtil.defaults({
     logBase: 10
 }, valueAxis);
 
+const symlogAxis: AxisBaseOption = zrUtil.defaults({
+    logBase: 10,
+    linthresh: 1
+}, valueAxis);
+
 
 export default {
     category: categoryAxis,
     value: valueAxis,
     time: timeAxis,
-    log: logAxis
+    log: logAxis,
+    symlog: symlogAxis
 };
@@ -32,6 +32,7 @@ import TimeScale from '../scale/Time';
 import Model from '../model/Model';
 import { AxisBaseModel } from './AxisBaseModel';
 import LogScale from '../scale/Log';
+import SymLogScale from '../scale/SymLog';
 import Axis from './Axis';
 import { AxisBaseOption, TimeAxisLabelFormatterOption } from './axisCommonTypes';
 import type CartesianAxisModel from './cartesian/AxisModel';
@@ -153,6 +154,9 @@ export function niceScaleExtent(scale: Scale, model: AxisBaseModel) {
     }
 
     const scaleType = scale.type;
+    if (scale instanceof IntervalScale) {
+        scale.setBreakOption(model.get('breaks'));
+    }
     scale.setExtent(extent[0], extent[1]);
     scale.niceExtent({
         splitNumber: splitNumber,
@@ -195,8 +199,15 @@ export function createScaleByModel(model: AxisBaseModel, axisType?: string): Sca
                     locale: model.ecModel.getLocaleModel(),
                     useUTC: model.ecModel.get('useUTC')
                 });
+            case 'symlog':
+                // Settings are used by dataZoom before the extent is niced.
+                const symLogScale = new SymLogScale();
+                const linthresh = model.get('linthresh');
+                symLogScale.base = model.get('logBase') || 10;
+                symLogScale.linthresh = linthresh > 0 ? linthresh : 1;
+                return symLogScale;
             default:
-                // case 'value'/'interval', 'log', or others.
+                // case 'value'/'interval', 'log', 'symlog', or others.
                 return new (Scale.getClass(axisType) || IntervalScale)();
         }
     }
@@ -32,7 +32,9 @@ import { applyTransform } from 'zrender/src/core/vector';
 export const cartesian2DDimensions = ['x', 'y'];
 
 function canCalculateAffineTransform(scale: Scale) {
-    return scale.type === 'interval' || scale.type === 'time';
+    // Mapping is not linear if there are collapsed breaks.
+    return (scale.type === 'interval' || scale.type === 'time')
+        && !scale.getBreaks().length;
 }
 
 class Cartesian2D extends Cartesian<Axis2D> implements CoordinateSystem {
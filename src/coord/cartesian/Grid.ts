@@ -46,6 +46,7 @@ import {CoordinateSystemMaster} from '../CoordinateSystem';
 import { ScaleDataValue } from '../../util/types';
 import List from '../../data/List';
 import OrdinalScale from '../../scale/Ordinal';
+import { applyJitter } from '../../layout/jitter';
 import { isCartesian2DSeries, findAxisModels } from './cartesianAxisHelper';
 
 
@@ -232,6 +233,21 @@ class Grid implements CoordinateSystemMaster {
         ecModel: GlobalModel, finder: ParsedModelFinder, value: ScaleDataValue | ScaleDataValue[]
     ): number | number[] {
         const target = this._findConvertTarget(finder);
+        const seriesModel = (finder as ParsedModelFinderKnown).seriesModel;
+
+        if (target.cartesian && seriesModel) {
+            const data = seriesModel.getData();
+            const dataIndex = (finder as ParsedModelFinderKnown).dataIndex;
+            const dataIndexInside = (finder as ParsedModelFinderKnown).dataIndexInside;
+            // Points may be spread in the category band by `jitter`.
+            return applyJitter(
+                data,
+                dataIndexInside != null
+                    ? dataIndexInside
+                    : dataIndex != null ? data.indexOfRawIndex(dataIndex) : -1,
+                target.cartesian.dataToPoint(value as ScaleDataValue[])
+            );
+        }
 
         return target.cartesian
             ? target.cartesian.dataToPoint(value as ScaleDataValue[])
@@ -22,7 +22,7 @@ import BoundingRect from 'zrender/src/core/BoundingRect';
 import View from '../View';
 import geoSourceManager from './geoSourceManager';
 import { GeoJSONRegion, Region } from './Region';
-import { GeoResource, NameMap } from './geoTypes';
+import { GeoResource, NameMap, GeoProjection } from './geoTypes';
 import GlobalModel from '../../model/Global';
 import { ParsedModelFinder, ParsedModelFinderKnown, SINGLE_REFERRING } from '../../util/model';
 import GeoModel from './GeoModel';
@@ -61,6 +61,8 @@ class Geo extends View {
     private _invertLongitute: boolean;
     readonly regions: Region[];
     readonly aspectScale: number;
+    // Only available for GeoJSON resource.
+    readonly projection: GeoProjection;
 
     // Injected outside
     model: GeoModel;
@@ -74,6 +76,7 @@ class Geo extends View {
             nameMap?: NameMap;
             nameProperty?: string;
             aspectScale?: number;
+            projection?: GeoProjection;
         }
     ) {
         super(name);
@@ -87,11 +90,29 @@ class Geo extends View {
         const defaultParmas = GEO_DEFAULT_PARAMS[resource.type];
 
         this._regionsMap = source.regionsMap;
-        this._invertLongitute = defaultParmas.invertLongitute;
         this.regions = source.regions;
-        this.aspectScale = zrUtil.retrieve2(opt.aspectScale, defaultParmas.aspectScale);
 
-        const boundingRect = source.boundingRect;
+        let projection = opt.projection;
+        if (projection && resource.type !== 'geoJSON') {
+            if (__DEV__) {
+                console.warn('projection is only supported by GeoJSON map.');
+            }
+            projection = null;
+        }
+        this.projection = projection;
+
+        let boundingRect = source.boundingRect;
+        if (projection) {
+            // The projected plane is not inverted and shouldn't be scaled.
+            this._invertLongitute = false;
+            this.aspectScale = 1;
+            boundingRect = calculateProjectedBoundingRect(this.regions as GeoJSONRegion[], projection)
+                || boundingRect;
+        }
+        else {
+            this._invertLongitute = defaultParmas.invertLongitute;
+            this.aspectScale = zrUtil.retrieve2(opt.aspectScale, defaultParmas.aspectScale);
+        }
         this.setBoundingRect(boundingRect.x, boundingRect.y, boundingRect.width, boundingRect.height);
     }
 
@@ -169,16 +190,40 @@ class Geo extends View {
         return this._nameCoordMap.get(name) || (region && region.getCenter());
     }
 
+    /**
+     * Set center in data coord, which is projected if `projection` is used.
+     */
+    setCenter(centerCoord?: number[]): void {
+        const projection = this.projection;
+        super.setCenter(projection && centerCoord ? projection.project(centerCoord) : centerCoord);
+    }
+
+    getCenter(): number[] {
+        const center = super.getCenter();
+        const projection = this.projection;
+        return projection ? projection.unproject(center) : center;
+    }
+
     dataToPoint(data: number[] | string, noRoam?: boolean, out?: number[]): number[] {
         if (typeof data === 'string') {
             // Map area name to geoCoord
             data = this.getGeoCoord(data);
         }
         if (data) {
-            return View.prototype.dataToPoint.call(this, data, noRoam, out);
+            const projection = this.projection;
+            if (projection) {
+                data = projection.project(data);
+            }
+            return data && View.prototype.dataToPoint.call(this, data, noRoam, out);
         }
     }
 
+    pointToData(point: number[]): number[] {
+        const data = super.pointToData(point);
+        const projection = this.projection;
+        return projection ? projection.unproject(data) : data;
+    }
+
     convertToPixel(ecModel: GlobalModel, finder: ParsedModelFinder, value: number[]): number[] {
         const coordSys = getCoordSys(finder);
         return coordSys === this ? coordSys.dataToPoint(value) : null;
@@ -193,6 +238,18 @@ class Geo extends View {
 
 zrUtil.mixin(Geo, View);
 
+function calculateProjectedBoundingRect(regions: GeoJSONRegion[], projection: GeoProjection): BoundingRect {
+    let rect: BoundingRect;
+    for (let i = 0; i < regions.length; i++) {
+        const regionRect = regions[i].getProjectedBoundingRect(projection);
+        if (regionRect) {
+            rect = rect || regionRect.clone();
+            rect.union(regionRect);
+        }
+    }
+    return rect;
+}
+
 function getCoordSys(finder: ParsedModelFinderKnown): Geo {
     const geoModel = finder.geoModel as GeoModel;
     const seriesModel = finder.seriesModel;
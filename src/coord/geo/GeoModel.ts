@@ -38,6 +38,7 @@ import {
     CommonTooltipOption
 } from '../../util/types';
 import { NameMap } from './geoTypes';
+import { GeoProjectionOption } from './projection';
 import GlobalModel from '../../model/Global';
 import geoSourceManager from './geoSourceManager';
 
@@ -79,6 +80,11 @@ export interface GeoCommonOptionMixin extends RoamOptionMixin {
     // This parameter is used for scale this aspect
     aspectScale?: number;
 
+    // Built-in projection like 'mercator', 'albers', 'orthographic', 'robinson',
+    // or custom projection with `project`, `unproject` and optional `stream`.
+    // `aspectScale` is not used if projection is specified.
+    projection?: GeoProjectionOption;
+
     ///// Layout with center and size
     // If you wan't to put map in a fixed size box with right aspect ratio
     // This two properties may more conveninet
@@ -22,11 +22,15 @@ import BoundingRect from 'zrender/src/core/BoundingRect';
 import * as bbox from 'zrender/src/core/bbox';
 import * as vec2 from 'zrender/src/core/vector';
 import * as polygonContain from 'zrender/src/contain/polygon';
-import { GeoJSON, GeoSVGGraphicRoot } from './geoTypes';
+import { GeoJSON, GeoSVGGraphicRoot, GeoProjection } from './geoTypes';
 import * as matrix from 'zrender/src/core/matrix';
 import Element from 'zrender/src/Element';
+import { resampleGeometries } from './parseGeoJson';
+import { projectPolygon } from './projection';
 
 const TMP_TRANSFORM = [] as number[];
+// Max edge length in degree before projected.
+const MAX_EDGE_DEGREE = 1;
 
 export class Region {
 
@@ -68,6 +72,13 @@ export class GeoJSONRegion extends Region {
 
     private _rect: BoundingRect;
 
+    // Geometries of the last projection.
+    private _projected: {
+        projection: GeoProjection;
+        geometries: GeoJSONRegion['geometries'];
+        rect: BoundingRect;
+    };
+
 
     constructor(
         name: string,
@@ -188,6 +199,62 @@ export class GeoJSONRegion extends Region {
         ];
     }
 
+    /**
+     * Get geometries in the projected plane. The result is cached
+     * for the same projection.
+     */
+    getProjectedGeometries(projection: GeoProjection): GeoJSONRegion['geometries'] {
+        return this._project(projection).geometries;
+    }
+
+    getProjectedBoundingRect(projection: GeoProjection): BoundingRect {
+        return this._project(projection).rect;
+    }
+
+    private _project(projection: GeoProjection): GeoJSONRegion['_projected'] {
+        const projected = this._projected;
+        if (projected && projected.projection === projection) {
+            return projected;
+        }
+
+        const geometries: GeoJSONRegion['geometries'] = [];
+        const resampled = resampleGeometries(this.geometries, MAX_EDGE_DEGREE);
+        const min = [Infinity, Infinity];
+        const max = [-Infinity, -Infinity];
+        const min2 = [] as number[];
+        const max2 = [] as number[];
+        for (let i = 0; i < resampled.length; i++) {
+            if (resampled[i].type !== 'polygon') {
+                continue;
+            }
+            const rings = projectPolygon(
+                [resampled[i].exterior].concat(resampled[i].interiors || []), projection
+            );
+            if (rings.length) {
+                // Holes are kept by the winding of rings.
+                geometries.push({
+                    type: 'polygon',
+                    exterior: rings[0],
+                    interiors: rings.slice(1)
+                });
+                for (let k = 0; k < rings.length; k++) {
+                    bbox.fromPoints(rings[k], min2, max2);
+                    vec2.min(min, min, min2);
+                    vec2.max(max, max, max2);
+                }
+            }
+        }
+        const rect = geometries.length
+            ? new BoundingRect(min[0], min[1], max[0] - min[0], max[1] - min[1])
+            : null;
+
+        return (this._projected = {
+            projection: projection,
+            geometries: geometries,
+            rect: rect
+        });
+    }
+
     cloneShallow(name: string): GeoJSONRegion {
         name == null && (name = this.name);
         const newRegion = new GeoJSONRegion(name, this.geometries, this._center);
@@ -26,12 +26,15 @@ import GeoModel, { GeoOption, RegoinOption } from './GeoModel';
 import MapSeries, { MapSeriesOption } from '../../chart/map/MapSeries';
 import ExtensionAPI from '../../core/ExtensionAPI';
 import { CoordinateSystemCreator } from '../CoordinateSystem';
-import { NameMap } from './geoTypes';
+import { NameMap, GeoProjection } from './geoTypes';
 import SeriesModel from '../../model/Series';
 import { SeriesOption, SeriesOnGeoOptionMixin } from '../../util/types';
 import { Dictionary } from 'zrender/src/core/types';
 import GlobalModel from '../../model/Global';
 import ComponentModel from '../../model/Component';
+import { createProjection, GeoProjectionOption } from './projection';
+import { makeInner } from '../../util/model';
+import Model from '../../model/Model';
 
 
 export type resizeGeoType = typeof resizeGeo;
@@ -50,6 +53,14 @@ function resizeGeo(this: Geo, geoModel: ComponentModel<GeoOption | MapSeriesOpti
                 console.error('Invalid boundingCoords');
             }
         }
+        else if (this.projection) {
+            const pt0 = this.projection.project(leftTop);
+            const pt1 = this.projection.project(rightBottom);
+            this.setBoundingRect(
+                Math.min(pt0[0], pt1[0]), Math.min(pt0[1], pt1[1]),
+                Math.abs(pt1[0] - pt0[0]), Math.abs(pt1[1] - pt0[1])
+            );
+        }
         else {
             this.setBoundingRect(leftTop[0], leftTop[1], rightBottom[0] - leftTop[0], rightBottom[1] - leftTop[1]);
         }
@@ -127,6 +138,32 @@ function setGeoCoords(geo: Geo, model: MapSeries) {
     });
 }
 
+type ProjectionHostOption = {
+    projection?: GeoProjectionOption
+};
+
+const inner = makeInner<{
+    projectionKey: unknown
+    projection: GeoProjection
+}, Model<ProjectionHostOption>>();
+
+/**
+ * The projection is created only when the option changes. Otherwise the geometries
+ * projected and cached in regions can not be reused on each update or roam.
+ */
+function getProjection(model: Model<ProjectionHostOption>): GeoProjection {
+    const opt = model.get('projection');
+    // Custom projection is used as is. Builtin projection option is a plain object,
+    // which may be modified in place by merging.
+    const key = (opt && !zrUtil.isFunction((opt as GeoProjection).project)) ? JSON.stringify(opt) : opt;
+    const store = inner(model);
+    if (store.projectionKey !== key) {
+        store.projectionKey = key;
+        store.projection = createProjection(opt);
+    }
+    return store.projection;
+}
+
 class GeoCreator implements CoordinateSystemCreator {
 
     // For deciding which dimensions to use when creating list data
@@ -142,7 +179,8 @@ class GeoCreator implements CoordinateSystemCreator {
             const geo = new Geo(name + idx, name, {
                 nameMap: geoModel.get('nameMap'),
                 nameProperty: geoModel.get('nameProperty'),
-                aspectScale: geoModel.get('aspectScale')
+                aspectScale: geoModel.get('aspectScale'),
+                projection: getProjection(geoModel)
             });
 
             geo.zoomLimit = geoModel.get('scaleLimit');
@@ -188,7 +226,8 @@ class GeoCreator implements CoordinateSystemCreator {
             const geo = new Geo(mapType, mapType, {
                 nameMap: zrUtil.mergeAll(nameMapList),
                 nameProperty: mapSeries[0].get('nameProperty'),
-                aspectScale: mapSeries[0].get('aspectScale')
+                aspectScale: mapSeries[0].get('aspectScale'),
+                projection: getProjection(mapSeries[0])
             });
 
             geo.zoomLimit = zrUtil.retrieve.apply(null, zrUtil.map(mapSeries, function (singleMapSeries) {
@@ -136,6 +136,40 @@ export interface GeoResource {
     };
 }
 
+/**
+ * Projection from [lng, lat] in degrees to the plane, where y is downward
+ * like the pixel coord.
+ */
+export interface GeoProjection {
+    project(point: number[]): number[];
+    unproject(point: number[]): number[];
+    /**
+     * Optional. If provided, polygons are projected by the stream like the
+     * one in d3-geo, so that they can be clipped and resampled.
+     */
+    stream?: (output: GeoProjectionStream) => GeoProjectionStream;
+}
+
+export interface GeoProjectionStream {
+    point(x: number, y: number): void;
+    lineStart(): void;
+    lineEnd(): void;
+    polygonStart(): void;
+    polygonEnd(): void;
+    sphere?(): void;
+}
+
+export type GeoBuiltinProjectionType = 'mercator' | 'albers' | 'orthographic' | 'robinson';
+
+export interface GeoBuiltinProjectionOption {
+    type: GeoBuiltinProjectionType;
+    // [lng, lat] of the projection center. 'orthographic' uses both,
+    // others only use the central meridian.
+    origin?: number[];
+    // Two standard parallels of 'albers'.
+    parallels?: number[];
+}
+
 export interface GeoSVGGraphicRoot extends Group {
     isGeoSVGGraphicRoot: boolean;
 }
@@ -100,6 +100,44 @@ function decodePolygon(
     return result;
 }
 
+function resampleRing(ring: number[][], maxSegmentLength: number): number[][] {
+    const result = [];
+    for (let i = 0; i < ring.length; i++) {
+        const pt = ring[i];
+        const prevPt = i > 0 && ring[i - 1];
+        if (prevPt) {
+            const dx = pt[0] - prevPt[0];
+            const dy = pt[1] - prevPt[1];
+            const count = Math.ceil(Math.sqrt(dx * dx + dy * dy) / maxSegmentLength);
+            for (let k = 1; k < count; k++) {
+                result.push([prevPt[0] + dx * k / count, prevPt[1] + dy * k / count]);
+            }
+        }
+        result.push(pt);
+    }
+    return result;
+}
+
+/**
+ * Insert points in the edges longer than `maxSegmentLength` (in degrees),
+ * so that they can be curved correctly by the non-linear projections.
+ * The shape is not changed if it's not projected.
+ */
+export function resampleGeometries(
+    geometries: GeoJSONRegion['geometries'],
+    maxSegmentLength: number
+): GeoJSONRegion['geometries'] {
+    return zrUtil.map(geometries, function (geometry) {
+        return {
+            type: geometry.type,
+            exterior: resampleRing(geometry.exterior, maxSegmentLength),
+            interiors: zrUtil.map(geometry.interiors || [], function (interior) {
+                return resampleRing(interior, maxSegmentLength);
+            })
+        };
+    });
+}
+
 export default function parseGeoJSON(geoJson: GeoJSON | GeoJSONCompressed, nameProperty: string): GeoJSONRegion[] {
 
     geoJson = decode(geoJson);
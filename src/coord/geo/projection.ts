@@ -0,0 +1,340 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+/**
+ * Built-in map projections for geo coordinate system.
+ */
+
+import { isString, isFunction, retrieve2 } from 'zrender/src/core/util';
+import {
+    GeoProjection, GeoProjectionStream, GeoBuiltinProjectionType, GeoBuiltinProjectionOption
+} from './geoTypes';
+
+const PI = Math.PI;
+const RADIAN = PI / 180;
+const DEGREE = 180 / PI;
+const mathSin = Math.sin;
+const mathCos = Math.cos;
+const mathSqrt = Math.sqrt;
+const mathAtan2 = Math.atan2;
+const mathAsin = Math.asin;
+
+// Lat out of it goes to infinity in mercator.
+const MERCATOR_MAX_LAT = 85.0511287798;
+
+export type GeoProjectionOption = GeoBuiltinProjectionType | GeoBuiltinProjectionOption | GeoProjection;
+
+type ProjectionCreator = (opt: GeoBuiltinProjectionOption) => GeoProjection;
+
+/**
+ * Normalize longitude difference to [-180, 180)
+ */
+function normalizeLng(lng: number): number {
+    lng = (lng + 180) % 360;
+    return (lng < 0 ? lng + 360 : lng) - 180;
+}
+
+function clamp(val: number, min: number, max: number): number {
+    return Math.max(min, Math.min(max, val));
+}
+
+function getOrigin(opt: GeoBuiltinProjectionOption): number[] {
+    const origin = opt.origin || [];
+    return [origin[0] || 0, origin[1] || 0];
+}
+
+const mercator: ProjectionCreator = function (opt) {
+    const lng0 = getOrigin(opt)[0];
+    return {
+        project(point) {
+            const lat = clamp(point[1], -MERCATOR_MAX_LAT, MERCATOR_MAX_LAT) * RADIAN;
+            return [
+                normalizeLng(point[0] - lng0) * RADIAN,
+                -Math.log(Math.tan(PI / 4 + lat / 2))
+            ];
+        },
+        unproject(point) {
+            return [
+                point[0] * DEGREE + lng0,
+                (2 * Math.atan(Math.exp(-point[1])) - PI / 2) * DEGREE
+            ];
+        }
+    };
+};
+
+/**
+ * Albers equal-area conic projection.
+ */
+const albers: ProjectionCreator = function (opt) {
+    const lng0 = getOrigin(opt)[0];
+    const parallels = opt.parallels || [29.5, 45.5];
+    const sin1 = mathSin(parallels[0] * RADIAN);
+    const cos1 = mathCos(parallels[0] * RADIAN);
+    const n = (sin1 + mathSin(parallels[1] * RADIAN)) / 2;
+    const c = cos1 * cos1 + 2 * n * sin1;
+    // Origin latitude is on the equator.
+    const rho0 = mathSqrt(c) / n;
+
+    return {
+        project(point) {
+            const rho = mathSqrt(Math.max(c - 2 * n * mathSin(point[1] * RADIAN), 0)) / n;
+            const theta = n * normalizeLng(point[0] - lng0) * RADIAN;
+            return [rho * mathSin(theta), rho * mathCos(theta) - rho0];
+        },
+        unproject(point) {
+            const x = point[0];
+            const y = rho0 + point[1];
+            const rho = (n < 0 ? -1 : 1) * mathSqrt(x * x + y * y);
+            const theta = n < 0 ? mathAtan2(-x, -y) : mathAtan2(x, y);
+            return [
+                theta / n * DEGREE + lng0,
+                mathAsin(clamp((c - rho * rho * n * n) / (2 * n), -1, 1)) * DEGREE
+            ];
+        }
+    };
+};
+
+/**
+ * Orthographic projection. Points on the back of the globe are
+ * projected to NaN, and are clamped to the horizon in polygons.
+ */
+const orthographic: ProjectionCreator = function (opt) {
+    const origin = getOrigin(opt);
+    const lng0 = origin[0];
+    const sinLat0 = mathSin(origin[1] * RADIAN);
+    const cosLat0 = mathCos(origin[1] * RADIAN);
+
+    function projectRaw(point: number[]): number[] {
+        const lng = (point[0] - lng0) * RADIAN;
+        const lat = point[1] * RADIAN;
+        const cosLat = mathCos(lat);
+        const sinLat = mathSin(lat);
+        const cosLng = mathCos(lng);
+        // The third item is cos of the angle to the center.
+        return [
+            cosLat * mathSin(lng),
+            -(cosLat0 * sinLat - sinLat0 * cosLat * cosLng),
+            sinLat0 * sinLat + cosLat0 * cosLat * cosLng
+        ];
+    }
+
+    return {
+        project(point) {
+            const pt = projectRaw(point);
+            return pt[2] < 0 ? [NaN, NaN] : [pt[0], pt[1]];
+        },
+        unproject(point) {
+            const x = point[0];
+            const y = -point[1];
+            const rho = mathSqrt(x * x + y * y);
+            if (rho > 1) {
+                return [NaN, NaN];
+            }
+            if (rho === 0) {
+                return [lng0, origin[1]];
+            }
+            const c = mathAsin(rho);
+            const sinC = mathSin(c);
+            const cosC = mathCos(c);
+            return [
+                mathAtan2(x * sinC, rho * cosC * cosLat0 - y * sinC * sinLat0) * DEGREE + lng0,
+                mathAsin(clamp(cosC * sinLat0 + y * sinC * cosLat0 / rho, -1, 1)) * DEGREE
+            ];
+        },
+        stream(output) {
+            return {
+                point(lng, lat) {
+                    const pt = projectRaw([lng, lat]);
+                    if (pt[2] < 0) {
+                        // Move to the horizon in the same direction.
+                        const len = mathSqrt(pt[0] * pt[0] + pt[1] * pt[1]) || 1;
+                        pt[0] /= len;
+                        pt[1] /= len;
+                    }
+                    output.point(pt[0], pt[1]);
+                },
+                lineStart() {
+                    output.lineStart();
+                },
+                lineEnd() {
+                    output.lineEnd();
+                },
+                polygonStart() {
+                    output.polygonStart();
+                },
+                polygonEnd() {
+                    output.polygonEnd();
+                }
+            };
+        }
+    };
+};
+
+// Robinson table of every 5 degrees of latitude.
+const ROBINSON_X = [
+    1, 0.9986, 0.9954, 0.99, 0.9822, 0.973, 0.96, 0.9427, 0.9216, 0.8962,
+    0.8679, 0.835, 0.7986, 0.7597, 0.7186, 0.6732, 0.6213, 0.5722, 0.5322
+];
+const ROBINSON_Y = [
+    0, 0.062, 0.124, 0.186, 0.248, 0.31, 0.372, 0.434, 0.4958, 0.5571,
+    0.6176, 0.6769, 0.7346, 0.7903, 0.8435, 0.8936, 0.9394, 0.9761, 1
+];
+
+function interpolateTable(table: number[], pos: number): number {
+    const i = Math.min(Math.floor(pos), table.length - 2);
+    return table[i] + (table[i + 1] - table[i]) * (pos - i);
+}
+
+const robinson: ProjectionCreator = function (opt) {
+    const lng0 = getOrigin(opt)[0];
+    return {
+        project(point) {
+            const lat = clamp(point[1], -90, 90);
+            const pos = Math.abs(lat) / 5;
+            return [
+                0.8487 * interpolateTable(ROBINSON_X, pos) * normalizeLng(point[0] - lng0) * RADIAN,
+                -1.3523 * interpolateTable(ROBINSON_Y, pos) * (lat < 0 ? -1 : 1)
+            ];
+        },
+        unproject(point) {
+            const y = clamp(Math.abs(point[1]) / 1.3523, 0, 1);
+            let i = 0;
+            while (i < ROBINSON_Y.length - 2 && ROBINSON_Y[i + 1] < y) {
+                i++;
+            }
+            const pos = i + (y - ROBINSON_Y[i]) / (ROBINSON_Y[i + 1] - ROBINSON_Y[i]);
+            return [
+                point[0] / (0.8487 * interpolateTable(ROBINSON_X, pos)) * DEGREE + lng0,
+                pos * 5 * (point[1] > 0 ? -1 : 1)
+            ];
+        }
+    };
+};
+
+const builtinProjections: {[type in GeoBuiltinProjectionType]: ProjectionCreator} = {
+    mercator: mercator,
+    albers: albers,
+    orthographic: orthographic,
+    robinson: robinson
+};
+
+/**
+ * Create projection from the `projection` option. Custom projection is used directly.
+ */
+export function createProjection(opt: GeoProjectionOption): GeoProjection {
+    if (!opt) {
+        return;
+    }
+    if (isFunction((opt as GeoProjection).project)) {
+        return opt as GeoProjection;
+    }
+    const builtinOpt = (isString(opt) ? { type: opt } : opt) as GeoBuiltinProjectionOption;
+    const creator = builtinProjections[builtinOpt.type];
+    if (!creator) {
+        if (__DEV__) {
+            console.error('Unknown projection ' + builtinOpt.type);
+        }
+        return;
+    }
+    return creator(builtinOpt);
+}
+
+/**
+ * Project a polygon with holes. The result may contain more rings if
+ * the projection stream clips it.
+ */
+export function projectPolygon(rings: number[][][], projection: GeoProjection): number[][][] {
+    const result: number[][][] = [];
+    if (!projection.stream) {
+        for (let i = 0; i < rings.length; i++) {
+            const ring = [];
+            for (let k = 0; k < rings[i].length; k++) {
+                const pt = projection.project(rings[i][k]);
+                pt && !isNaN(pt[0]) && !isNaN(pt[1]) && ring.push(pt);
+            }
+            ring.length && result.push(ring);
+        }
+        return result;
+    }
+
+    let ring: number[][];
+    const stream = projection.stream({
+        point(x, y) {
+            ring && ring.push([x, y]);
+        },
+        lineStart() {
+            ring = [];
+        },
+        lineEnd() {
+            ring && ring.length && result.push(ring);
+            ring = null;
+        },
+        polygonStart() {},
+        polygonEnd() {}
+    } as GeoProjectionStream);
+
+    stream.polygonStart();
+    for (let i = 0; i < rings.length; i++) {
+        stream.lineStart();
+        for (let k = 0; k < rings[i].length; k++) {
+            stream.point(rings[i][k][0], rings[i][k][1]);
+        }
+        stream.lineEnd();
+    }
+    stream.polygonEnd();
+
+    return result;
+}
+
+/**
+ * Interpolate along the great circle from `from` to `to`. Return the
+ * points after `from`, where the last one is `to`.
+ */
+export function interpolateGreatCircle(from: number[], to: number[], maxDegree: number): number[][] {
+    const lng1 = from[0] * RADIAN;
+    const lat1 = from[1] * RADIAN;
+    const lng2 = to[0] * RADIAN;
+    const lat2 = to[1] * RADIAN;
+    const sinHalfLat = mathSin((lat2 - lat1) / 2);
+    const sinHalfLng = mathSin((lng2 - lng1) / 2);
+    const dist = 2 * mathAsin(mathSqrt(
+        sinHalfLat * sinHalfLat + mathCos(lat1) * mathCos(lat2) * sinHalfLng * sinHalfLng
+    ));
+    const count = Math.ceil(dist * DEGREE / retrieve2(maxDegree, 1));
+    const sinDist = mathSin(dist);
+    if (count <= 1 || !sinDist) {
+        return [to.slice()];
+    }
+
+    const result = [];
+    for (let i = 1; i < count; i++) {
+        const t = i / count;
+        const a = mathSin((1 - t) * dist) / sinDist;
+        const b = mathSin(t * dist) / sinDist;
+        const x = a * mathCos(lat1) * mathCos(lng1) + b * mathCos(lat2) * mathCos(lng2);
+        const y = a * mathCos(lat1) * mathSin(lng1) + b * mathCos(lat2) * mathSin(lng2);
+        const z = a * mathSin(lat1) + b * mathSin(lat2);
+        result.push([
+            mathAtan2(y, x) * DEGREE,
+            mathAtan2(z, mathSqrt(x * x + y * y)) * DEGREE
+        ]);
+    }
+    result.push(to.slice());
+    return result;
+}
@@ -0,0 +1,335 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { isArray, each } from 'zrender/src/core/util';
+import * as layout from '../../util/layout';
+import BoundingRect, { RectLike } from 'zrender/src/core/BoundingRect';
+import MatrixModel, { MatrixCoordItemOption } from './MatrixModel';
+import { MatrixDimName, MatrixHeaderCell } from './MatrixDim';
+import GlobalModel from '../../model/Global';
+import ExtensionAPI from '../../core/ExtensionAPI';
+import {
+    ScaleDataValue,
+    SeriesOption,
+    SeriesOnMatrixOptionMixin
+} from '../../util/types';
+import { ParsedModelFinder, ParsedModelFinderKnown, SINGLE_REFERRING } from '../../util/model';
+import { CoordinateSystem, CoordinateSystemMaster } from '../CoordinateSystem';
+import SeriesModel from '../../model/Series';
+
+/**
+ * Layout of the matrix:
+ *
+ * +--------+-----------------+
+ * | corner |    x header     |
+ * +--------+-----------------+
+ * |   y    |                 |
+ * | header |      body       |
+ * |        |                 |
+ * +--------+-----------------+
+ *
+ * Columns are the levels of y header followed by the leaves of x header.
+ * Rows are the levels of x header followed by the leaves of y header.
+ */
+class Matrix implements CoordinateSystem, CoordinateSystemMaster {
+
+    static readonly dimensions = ['x', 'y'];
+    static getDimensionsInfo() {
+        return [{
+            name: 'x', type: 'ordinal' as const
+        }, {
+            name: 'y', type: 'ordinal' as const
+        }];
+    }
+
+    readonly type = 'matrix';
+
+    readonly dimensions = Matrix.dimensions;
+
+    private _model: MatrixModel;
+
+    private _rect: BoundingRect;
+
+    /**
+     * Boundaries of the columns from left to right.
+     */
+    private _xBounds: number[];
+    /**
+     * Boundaries of the rows from top to bottom.
+     */
+    private _yBounds: number[];
+
+    /**
+     * Level count of the shown headers.
+     */
+    private _xLevelCount: number;
+    private _yLevelCount: number;
+
+    constructor(matrixModel: MatrixModel, ecModel: GlobalModel, api: ExtensionAPI) {
+        this._model = matrixModel;
+    }
+    // Required in createListFromData
+    getDimensionsInfo = Matrix.getDimensionsInfo;
+
+    getModel() {
+        return this._model;
+    }
+
+    getRect() {
+        return this._rect;
+    }
+
+    update(ecModel: GlobalModel, api: ExtensionAPI) {
+        const model = this._model;
+        const xDim = model.getDim('x');
+        const yDim = model.getDim('y');
+
+        const rect = this._rect = layout.getLayoutRect(model.getBoxLayoutParams(), {
+            width: api.getWidth(),
+            height: api.getHeight()
+        });
+
+        const xLevelCount = this._xLevelCount = model.get(['x', 'show']) ? xDim.getLevelCount() : 0;
+        const yLevelCount = this._yLevelCount = model.get(['y', 'show']) ? yDim.getLevelCount() : 0;
+
+        this._xBounds = layoutBounds(
+            getLevelSizes(model.get(['y', 'levelSize']), yLevelCount).concat(getLeafSizes(xDim.getLeaves())),
+            rect.x,
+            rect.width
+        );
+        this._yBounds = layoutBounds(
+            getLevelSizes(model.get(['x', 'levelSize']), xLevelCount).concat(getLeafSizes(yDim.getLeaves())),
+            rect.y,
+            rect.height
+        );
+    }
+
+    /**
+     * Get the range of leaf indices covered by coord item. Return null if not found.
+     */
+    getLeafRange(dim: MatrixDimName, coordItem: MatrixCoordItemOption): [number, number] {
+        const matrixDim = this._model.getDim(dim);
+        const items = isArray(coordItem) ? coordItem : [coordItem, coordItem];
+        let start = matrixDim.getLeafIndex(items[0]);
+        let end = matrixDim.getLeafIndex(items[items.length - 1]);
+        if (start < 0 || end < 0) {
+            return null;
+        }
+        if (start > end) {
+            const tmp = start;
+            start = end;
+            end = tmp;
+        }
+        return [start, end];
+    }
+
+    /**
+     * Convert [x, y] to the rect of the cell.
+     * Ranges like [[x0, x1], y] get the rect covering all the cells.
+     */
+    dataToRect(data: MatrixCoordItemOption[]): RectLike {
+        const xRange = data && this.getLeafRange('x', data[0]);
+        const yRange = data && this.getLeafRange('y', data[1]);
+        if (!xRange || !yRange) {
+            return {x: NaN, y: NaN, width: NaN, height: NaN};
+        }
+        return this.getLeafRangeRect(xRange, yRange);
+    }
+
+    /**
+     * Rect covering the cells in the given ranges of leaf indices.
+     */
+    getLeafRangeRect(xRange: number[], yRange: number[]): RectLike {
+        return this._getRect(
+            this._xBounds, this._yLevelCount + xRange[0], this._yLevelCount + xRange[1] + 1,
+            this._yBounds, this._xLevelCount + yRange[0], this._xLevelCount + yRange[1] + 1
+        );
+    }
+
+    /**
+     * Convert [x, y] to the center of the cell.
+     */
+    dataToPoint(data: ScaleDataValue | ScaleDataValue[], reserved?: unknown, out?: number[]): number[] {
+        out = out || [];
+        const rect = this.dataToRect(isArray(data) ? data : [data]);
+        out[0] = rect.x + rect.width / 2;
+        out[1] = rect.y + rect.height / 2;
+        return out;
+    }
+
+    /**
+     * Convert a (x, y) point to the leaf indices [xIndex, yIndex].
+     */
+    pointToData(point: number[]): number[] {
+        const model = this._model;
+        const xIndex = findLeaf(
+            this._xBounds, this._yLevelCount, model.getDim('x').getLeaves().length, point[0]
+        );
+        const yIndex = findLeaf(
+            this._yBounds, this._xLevelCount, model.getDim('y').getLeaves().length, point[1]
+        );
+        return [xIndex, yIndex];
+    }
+
+    /**
+     * Rect of the header cell of x or y.
+     */
+    getHeaderCellRect(dim: MatrixDimName, cell: MatrixHeaderCell): RectLike {
+        if (dim === 'x') {
+            return this._getRect(
+                this._xBounds, this._yLevelCount + cell.span[0], this._yLevelCount + cell.span[1] + 1,
+                this._yBounds, cell.level, cell.level + cell.levelSpan
+            );
+        }
+        return this._getRect(
+            this._xBounds, cell.level, cell.level + cell.levelSpan,
+            this._yBounds, this._xLevelCount + cell.span[0], this._xLevelCount + cell.span[1] + 1
+        );
+    }
+
+    getHeaderLevelCount(dim: MatrixDimName): number {
+        return dim === 'x' ? this._xLevelCount : this._yLevelCount;
+    }
+
+    getBodyRect(): RectLike {
+        const xBounds = this._xBounds;
+        const yBounds = this._yBounds;
+        return this._getRect(
+            xBounds, this._yLevelCount, xBounds.length - 1,
+            yBounds, this._xLevelCount, yBounds.length - 1
+        );
+    }
+
+    getCornerRect(): RectLike {
+        return this._getRect(
+            this._xBounds, 0, this._yLevelCount,
+            this._yBounds, 0, this._xLevelCount
+        );
+    }
+
+    private _getRect(
+        xBounds: number[], xStart: number, xEnd: number,
+        yBounds: number[], yStart: number, yEnd: number
+    ): RectLike {
+        return {
+            x: xBounds[xStart],
+            y: yBounds[yStart],
+            width: xBounds[xEnd] - xBounds[xStart],
+            height: yBounds[yEnd] - yBounds[yStart]
+        };
+    }
+
+    convertToPixel(ecModel: GlobalModel, finder: ParsedModelFinder, value: ScaleDataValue | ScaleDataValue[]) {
+        const coordSys = getCoordSys(finder);
+        return coordSys === this ? coordSys.dataToPoint(value) : null;
+    }
+
+    convertFromPixel(ecModel: GlobalModel, finder: ParsedModelFinder, pixel: number[]) {
+        const coordSys = getCoordSys(finder);
+        return coordSys === this ? coordSys.pointToData(pixel) : null;
+    }
+
+    containPoint(point: number[]): boolean {
+        const rect = this.getBodyRect();
+        return point[0] >= rect.x && point[0] <= rect.x + rect.width
+            && point[1] >= rect.y && point[1] <= rect.y + rect.height;
+    }
+
+    static create(ecModel: GlobalModel, api: ExtensionAPI) {
+        const matrixList: Matrix[] = [];
+
+        ecModel.eachComponent('matrix', function (matrixModel: MatrixModel) {
+            const matrix = new Matrix(matrixModel, ecModel, api);
+            matrixList.push(matrix);
+            matrixModel.coordinateSystem = matrix;
+        });
+
+        ecModel.eachSeries(function (seriesModel: SeriesModel<SeriesOption & SeriesOnMatrixOptionMixin>) {
+            if (seriesModel.get('coordinateSystem') === 'matrix') {
+                const matrixModel = seriesModel.getReferringComponents(
+                    'matrix', SINGLE_REFERRING
+                ).models[0] as MatrixModel;
+                // Inject coordinate system
+                seriesModel.coordinateSystem = matrixModel && matrixModel.coordinateSystem;
+            }
+        });
+        return matrixList;
+    }
+}
+
+function getLevelSizes(levelSize: number | number[], levelCount: number): number[] {
+    const sizes = [];
+    for (let i = 0; i < levelCount; i++) {
+        const size = isArray(levelSize) ? levelSize[i] : levelSize;
+        sizes.push(size == null ? NaN : +size);
+    }
+    return sizes;
+}
+
+function getLeafSizes(leaves: MatrixHeaderCell[]): number[] {
+    const sizes: number[] = [];
+    each(leaves, function (leaf) {
+        const size = leaf.option.size;
+        sizes.push(size == null ? NaN : +size);
+    });
+    return sizes;
+}
+
+/**
+ * Sizes of NaN share the rest space equally.
+ */
+function layoutBounds(sizes: number[], start: number, total: number): number[] {
+    let fixedSum = 0;
+    let autoCount = 0;
+    for (let i = 0; i < sizes.length; i++) {
+        isNaN(sizes[i]) ? autoCount++ : (fixedSum += sizes[i]);
+    }
+    const autoSize = autoCount ? Math.max(total - fixedSum, 0) / autoCount : 0;
+
+    const bounds = [start];
+    for (let i = 0; i < sizes.length; i++) {
+        start += isNaN(sizes[i]) ? autoSize : sizes[i];
+        bounds.push(start);
+    }
+    return bounds;
+}
+
+function findLeaf(bounds: number[], offset: number, count: number, val: number): number {
+    for (let i = 0; i < count; i++) {
+        if (val >= bounds[offset + i] && val <= bounds[offset + i + 1]) {
+            return i;
+        }
+    }
+    return NaN;
+}
+
+function getCoordSys(finder: ParsedModelFinderKnown): Matrix {
+    const matrixModel = finder.matrixModel as MatrixModel;
+    const seriesModel = finder.seriesModel;
+
+    const coordSys = matrixModel
+        ? matrixModel.coordinateSystem
+        : seriesModel
+        ? seriesModel.coordinateSystem
+        : null;
+
+    return coordSys as Matrix;
+}
+
+export default Matrix;
@@ -0,0 +1,165 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { createHashMap, HashMap, isObject, isArray } from 'zrender/src/core/util';
+import { ItemStyleOption, LabelOption, OptionDataValue } from '../../util/types';
+
+export type MatrixDimName = 'x' | 'y';
+
+export interface MatrixHeaderCellOption {
+    value?: OptionDataValue
+    children?: (MatrixHeaderCellOption | OptionDataValue)[]
+    /**
+     * Width of the column (in x) or height of the row (in y) in pixel.
+     * Only works on leaf cells. Size is calculated automatically if not specified.
+     */
+    size?: number
+    itemStyle?: ItemStyleOption
+    label?: LabelOption
+}
+
+export interface MatrixDimensionOption {
+    show?: boolean
+    data?: (MatrixHeaderCellOption | OptionDataValue)[]
+    /**
+     * Size of each header level, that is, height of levels in x and width of levels in y.
+     * Size is calculated automatically if not specified.
+     */
+    levelSize?: number | number[]
+    itemStyle?: ItemStyleOption
+    label?: LabelOption
+}
+
+export interface MatrixHeaderCell {
+    value: string
+    /**
+     * Depth of the cell in the header, from 0.
+     */
+    level: number
+    /**
+     * Leaf at a upper level spans the rest levels.
+     */
+    levelSpan: number
+    /**
+     * Index of the first and the last leaf covered by this cell.
+     */
+    span: [number, number]
+    option: MatrixHeaderCellOption
+}
+
+/**
+ * Parsed header tree of `matrix.x` or `matrix.y`.
+ * The leaves are the columns (in x) or the rows (in y) of the matrix.
+ */
+class MatrixDim {
+
+    readonly dim: MatrixDimName;
+
+    private _cells: MatrixHeaderCell[] = [];
+
+    private _leaves: MatrixHeaderCell[] = [];
+
+    private _levelCount: number;
+
+    private _leafIndexMap: HashMap<number> = createHashMap<number>();
+
+    constructor(dim: MatrixDimName, option: MatrixDimensionOption) {
+        this.dim = dim;
+
+        const data = (option && option.data) || [];
+        this._levelCount = getDepth(data);
+        this._parse(data, 0);
+    }
+
+    private _parse(items: MatrixDimensionOption['data'], level: number): void {
+        for (let i = 0; i < items.length; i++) {
+            const option = normalizeCellOption(items[i]);
+            const children = option.children;
+            const isLeaf = !children || !children.length;
+            const start = this._leaves.length;
+
+            const cell: MatrixHeaderCell = {
+                value: option.value == null ? '' : option.value + '',
+                level: level,
+                levelSpan: isLeaf ? this._levelCount - level : 1,
+                span: [start, start],
+                option: option
+            };
+            this._cells.push(cell);
+
+            if (isLeaf) {
+                // The first one is used if duplicated.
+                if (this._leafIndexMap.get(cell.value) == null) {
+                    this._leafIndexMap.set(cell.value, start);
+                }
+                this._leaves.push(cell);
+            }
+            else {
+                this._parse(children, level + 1);
+                cell.span[1] = this._leaves.length - 1;
+            }
+        }
+    }
+
+    getCells(): MatrixHeaderCell[] {
+        return this._cells;
+    }
+
+    getLeaves(): MatrixHeaderCell[] {
+        return this._leaves;
+    }
+
+    getLevelCount(): number {
+        return this._levelCount;
+    }
+
+    /**
+     * Leaf can be found by its value, or by its index if value is a number.
+     * Return -1 if not found.
+     */
+    getLeafIndex(value: OptionDataValue): number {
+        if (value == null) {
+            return -1;
+        }
+        const index = this._leafIndexMap.get(value + '');
+        if (index != null) {
+            return index;
+        }
+        return (typeof value === 'number' && value >= 0 && value < this._leaves.length && value % 1 === 0)
+            ? value
+            : -1;
+    }
+}
+
+function normalizeCellOption(item: MatrixHeaderCellOption | OptionDataValue): MatrixHeaderCellOption {
+    return isObject(item) && !(item instanceof Date)
+        ? item as MatrixHeaderCellOption
+        : { value: item as OptionDataValue };
+}
+
+function getDepth(items: MatrixDimensionOption['data']): number {
+    let depth = 0;
+    for (let i = 0; i < items.length; i++) {
+        const children = normalizeCellOption(items[i]).children;
+        depth = Math.max(depth, isArray(children) && children.length ? getDepth(children) : 0);
+    }
+    return items.length ? depth + 1 : 0;
+}
+
+export default MatrixDim;
@@ -0,0 +1,156 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import ComponentModel from '../../model/Component';
+import {
+    ComponentOption,
+    BoxLayoutOptionMixin,
+    ItemStyleOption,
+    LabelOption,
+    OptionDataValue
+} from '../../util/types';
+import Matrix from './Matrix';
+import MatrixDim, { MatrixDimName, MatrixDimensionOption } from './MatrixDim';
+import { CoordinateSystemHostModel } from '../CoordinateSystem';
+
+/**
+ * Locate a cell or a range of cells in one dimension of matrix.
+ * Can be the value or the index of the leaf header cell.
+ * Or `[start, end]` to cover a range.
+ */
+export type MatrixCoordItemOption = OptionDataValue | OptionDataValue[];
+
+export interface MatrixBodyCellOption {
+    /**
+     * [x, y]
+     */
+    coord?: MatrixCoordItemOption[]
+    /**
+     * Merge the cells covered by `coord` into one.
+     */
+    mergeCells?: boolean
+    value?: OptionDataValue
+    itemStyle?: ItemStyleOption
+    label?: LabelOption
+}
+
+export interface MatrixOption extends ComponentOption, BoxLayoutOptionMixin {
+    mainType?: 'matrix'
+
+    /**
+     * Column headers
+     */
+    x?: MatrixDimensionOption
+    /**
+     * Row headers
+     */
+    y?: MatrixDimensionOption
+
+    body?: {
+        data?: MatrixBodyCellOption[]
+        itemStyle?: ItemStyleOption
+        label?: LabelOption
+    }
+
+    /**
+     * Style of the corner where the x and y headers meet.
+     */
+    cornerStyle?: ItemStyleOption
+}
+
+class MatrixModel extends ComponentModel<MatrixOption> implements CoordinateSystemHostModel {
+
+    static type = 'matrix';
+    type = MatrixModel.type;
+
+    static layoutMode = 'box' as const;
+
+    coordinateSystem: Matrix;
+
+    private _xDim: MatrixDim;
+    private _yDim: MatrixDim;
+
+    optionUpdated() {
+        const option = this.option;
+        this._xDim = new MatrixDim('x', option.x);
+        this._yDim = new MatrixDim('y', option.y);
+    }
+
+    getDim(dim: MatrixDimName): MatrixDim {
+        return dim === 'x' ? this._xDim : this._yDim;
+    }
+
+    static defaultOption: MatrixOption = {
+        zlevel: 0,
+        z: 2,
+        left: '10%',
+        top: '10%',
+        right: '10%',
+        bottom: '10%',
+
+        x: {
+            show: true,
+            data: [],
+            itemStyle: {
+                color: '#f3f5f9',
+                borderColor: '#ccc',
+                borderWidth: 1
+            },
+            label: {
+                show: true,
+                color: '#333'
+            }
+        },
+
+        y: {
+            show: true,
+            data: [],
+            itemStyle: {
+                color: '#f3f5f9',
+                borderColor: '#ccc',
+                borderWidth: 1
+            },
+            label: {
+                show: true,
+                color: '#333'
+            }
+        },
+
+        body: {
+            data: [],
+            itemStyle: {
+                color: '#fff',
+                borderColor: '#ccc',
+                borderWidth: 1
+            },
+            label: {
+                show: true,
+                color: '#333'
+            }
+        },
+
+        cornerStyle: {
+            color: '#fff',
+            borderColor: '#ccc',
+            borderWidth: 1
+        }
+    };
+}
+
+export default MatrixModel;
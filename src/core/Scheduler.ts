@@ -170,6 +170,37 @@ class Scheduler {
         });
     }
 
+    /**
+     * Only restore the data of the series in `seriesDirtyMap` (key: `seriesModel.uid`),
+     * rather than all of the series and components like `restoreData`.
+     * An overall data processor with target series (like `dataZoomProcessor`) processes
+     * all of its target series together, so the other target series of it are restored
+     * and added to `seriesDirtyMap` too. The overall tasks are set dirty by their stubs
+     * in the restored pipelines. An overall data processor without target series is
+     * performed on the current data of the other series again, which should not break them.
+     */
+    restoreSeriesData(ecModel: GlobalModel, seriesDirtyMap: HashMap<any>): void {
+        const stageTaskMap = this._stageTaskMap;
+
+        each(this._dataProcessorHandlers, function (handler) {
+            const overallTask = stageTaskMap.get(handler.uid).overallTask;
+            if (!overallTask || !(handler.seriesType || handler.getTargetSeries)) {
+                return;
+            }
+            let isTarget = false;
+            overallTask.agentStubMap.each(function (stub, pipelineId) {
+                isTarget = isTarget || !!seriesDirtyMap.get(pipelineId);
+            });
+            isTarget && overallTask.agentStubMap.each(function (stub, pipelineId) {
+                seriesDirtyMap.set(pipelineId, 1);
+            });
+        });
+
+        ecModel.eachRawSeries(function (seriesModel) {
+            seriesDirtyMap.get(seriesModel.uid) && seriesModel.restoreData();
+        });
+    }
+
     // If seriesModel provided, incremental threshold is check by series data.
     getPerformArgs(task: GeneralTask, isBlock?: boolean): {
         step: number, modBy: number, modDataCount: number
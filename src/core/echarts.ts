@@ -75,7 +75,7 @@ import { parseClassType } from '../util/clazz';
 import {ECEventProcessor} from '../util/ECEventProcessor';
 import {
     Payload, ECElement, RendererType, ECActionEvent,
-    ActionHandler, ActionInfo, OptionPreprocessor, PostUpdater,
+    ActionHandler, ActionInfo, OptionPreprocessor, PostUpdater, UpdateLifecycleName, UpdateLifecycleHandler,
     LoadingEffect, LoadingEffectCreator, StageHandlerInternal,
     StageHandlerOverallReset, StageHandler,
     ViewRootGroup, DimensionDefinitionLoose, ECEventData, ThemeOption,
@@ -109,7 +109,12 @@ import decal from '../visual/decal';
 import type {MorphDividingMethod} from 'zrender/src/tool/morphPath';
 import CanvasPainter from 'zrender/src/canvas/Painter';
 import SVGPainter from 'zrender/src/svg/Painter';
+import SVGSSRPainter, { SVGRenderToStringOption } from '../renderer/svg/SSRPainter';
+import { createSSRMetaGetter } from './ssr';
 import geoSourceManager from '../coord/geo/geoSourceManager';
+import {
+    registerCustomSeries as registerCustomSeriesImpl
+} from '../chart/custom/customSeriesRegistry';
 
 declare let global: any;
 
@@ -184,6 +189,7 @@ export const PRIORITY = {
 // All events will be triggered out side main process (i.e. when !this[IN_MAIN_PROCESS]).
 const IN_MAIN_PROCESS_KEY = '__flagInMainProcess' as const;
 const OPTION_UPDATED_KEY = '__optionUpdated' as const;
+const STREAM_UPDATED_KEY = '__streamUpdated' as const;
 const STATUS_NEEDS_UPDATE_KEY = '__needsUpdateStatus' as const;
 const ACTION_REG = /^[a-zA-Z0-9_]+$/;
 
@@ -282,6 +288,7 @@ let doConvertPixel: (
     value: (number | number[]) | (ScaleDataValue | ScaleDataValue[])
 ) => (number | number[]);
 let updateStreamModes: (ecIns: ECharts, ecModel: GlobalModel) => void;
+let updateStream: (ecIns: ECharts, seriesDirtyMap: zrUtil.HashMap<any>) => void;
 let doDispatchAction: (this: ECharts, payload: Payload, silent: boolean) => void;
 let flushPendingActions: (this: ECharts, silent: boolean) => void;
 let triggerUpdatedEvent: (this: ECharts, silent: boolean) => void;
@@ -369,12 +376,16 @@ class ECharts extends Eventful<ECEventDefinition> {
 
     private _disposed: boolean;
 
+    private _ssr: boolean;
+
     private _loadingFX: LoadingEffect;
 
     private _labelManager: LabelManager;
 
 
     private [OPTION_UPDATED_KEY]: boolean | {silent: boolean};
+    // key: uid of the streamed series.
+    private [STREAM_UPDATED_KEY]: zrUtil.HashMap<1>;
     private [IN_MAIN_PROCESS_KEY]: boolean;
     private [CONNECT_STATUS_KEY]: ConnectStatus;
     private [STATUS_NEEDS_UPDATE_KEY]: boolean;
@@ -388,6 +399,7 @@ class ECharts extends Eventful<ECEventDefinition> {
             renderer?: RendererType,
             devicePixelRatio?: number,
             useDirtyRect?: boolean,
+            ssr?: boolean,
             width?: number,
             height?: number
         }
@@ -419,13 +431,23 @@ class ECharts extends Eventful<ECEventDefinition> {
                 : devUseDirtyRect;
         }
 
-        const zr = this._zr = zrender.init(dom, {
+        if (__DEV__) {
+            if (opts.ssr && opts.renderer !== 'svg') {
+                throw new Error('Server side rendering is only supported by the svg renderer.');
+            }
+        }
+
+        const zrInitOpts: zrender.ZRenderInitOpt & { ssr?: boolean } = {
             renderer: opts.renderer || defaultRenderer,
             devicePixelRatio: opts.devicePixelRatio,
             width: opts.width,
             height: opts.height,
-            useDirtyRect: opts.useDirtyRect == null ? defaultUseDirtyRect : opts.useDirtyRect
-        });
+            useDirtyRect: opts.useDirtyRect == null ? defaultUseDirtyRect : opts.useDirtyRect,
+            // Painter will not touch DOM.
+            ssr: opts.ssr
+        };
+        const zr = this._zr = zrender.init(dom, zrInitOpts);
+        this._ssr = !!opts.ssr;
 
         // Expect 60 fps.
         this._throttledZrFlush = throttle(zrUtil.bind(zr.flush, zr), 17);
@@ -500,10 +522,28 @@ class ECharts extends Eventful<ECEventDefinition> {
 
             this[OPTION_UPDATED_KEY] = false;
 
+            // Option update includes the streamed data.
+            this[STREAM_UPDATED_KEY] = null;
+
             flushPendingActions.call(this, silent);
 
             triggerUpdatedEvent.call(this, silent);
         }
+        // Streamed data only restores and processes the streamed series again without
+        // option merge, but the extent of coordinate system is updated.
+        else if (this[STREAM_UPDATED_KEY]) {
+            this[IN_MAIN_PROCESS_KEY] = true;
+
+            updateStream(this, this[STREAM_UPDATED_KEY]);
+
+            this._zr.flush();
+
+            this[IN_MAIN_PROCESS_KEY] = false;
+
+            this[STREAM_UPDATED_KEY] = null;
+
+            triggerUpdatedEvent.call(this, false);
+        }
         // Avoid do both lazy update and progress in one frame.
         else if (scheduler.unfinished) {
             // Stream progress.
@@ -598,6 +638,10 @@ class ECharts extends Eventful<ECEventDefinition> {
 
         this[IN_MAIN_PROCESS_KEY] = true;
 
+        // The previous model and views are still intact here. Let the extensions
+        // take what they need before they are merged or replaced.
+        this._model && triggerUpdateLifecycle('series:beforeupdate', this._model, this._api);
+
         if (!this._model || notMerge) {
             const optionManager = new OptionManager(this._api);
             const theme = this._theme;
@@ -707,6 +751,37 @@ class ECharts extends Eventful<ECEventDefinition> {
         return (zr.painter as SVGPainter).toDataURL();
     }
 
+    /**
+     * Render the chart to SVG string. Only available in server side rendering,
+     * which is enabled by `ssr: true` in `init`.
+     * Metadata of series and legend items is written to the elements,
+     * so that the SVG can be hydrated by `echarts.hydrate.ts` in the browser.
+     */
+    renderToSVGString(opts?: Pick<SVGRenderToStringOption, 'useViewBox'>): string {
+        if (this._disposed) {
+            disposedWarning(this.id);
+            return;
+        }
+        if (!this._ssr) {
+            if (__DEV__) {
+                console.error('renderToSVGString can only be called when `ssr` is enabled in `init`.');
+            }
+            return;
+        }
+
+        const zr = this._zr;
+        // Stop animations so that the final state is rendered.
+        zr.storage.traverse(function (el: Element) {
+            el.stopAnimation(null, true);
+            const textContent = el.getTextContent();
+            textContent && textContent.stopAnimation(null, true);
+        });
+
+        return (zr.painter as SVGSSRPainter).renderToString(zrUtil.extend({
+            getElementMeta: createSSRMetaGetter(this._model)
+        }, opts));
+    }
+
     getDataURL(opts?: {
         // file type 'png' by default
         type?: 'png' | 'jpg' | 'svg',
@@ -1119,7 +1194,8 @@ class ECharts extends Eventful<ECEventDefinition> {
         }
         this._disposed = true;
 
-        modelUtil.setAttribute(this.getDom(), DOM_ATTRIBUTE_KEY, '');
+        const dom = this.getDom();
+        dom && modelUtil.setAttribute(dom, DOM_ATTRIBUTE_KEY, '');
 
         const api = this._api;
         const ecModel = this._model;
@@ -1334,6 +1410,42 @@ class ECharts extends Eventful<ECEventDefinition> {
         this.getZr().wakeUp();
     }
 
+    /**
+     * Append data to the series and remove the oldest items beyond `maxCount`.
+     * Different from `appendData`, the extent of coordinate system is updated,
+     * and the views update their elements by diff (items keep their ids after
+     * shifted), so that the sliding window animates smoothly.
+     * Multiple calls before the next frame are merged into one update.
+     *
+     * The update is partial: only the data of the streamed series is restored and
+     * processed again, and only the series on the same coordinate systems are laid
+     * out and rendered again, where line and large scatter patch their existing paths.
+     * A huge series is still rendered progressively in the following frames.
+     */
+    streamData(params: {
+        seriesIndex: number,
+        data: any,
+        maxCount?: number
+    }): void {
+        if (this._disposed) {
+            disposedWarning(this.id);
+            return;
+        }
+
+        const seriesModel = this.getModel().getSeriesByIndex(params.seriesIndex) as SeriesModel;
+
+        if (__DEV__) {
+            assert(params.data && seriesModel);
+        }
+
+        seriesModel.streamData(params);
+
+        (this[STREAM_UPDATED_KEY] || (this[STREAM_UPDATED_KEY] = zrUtil.createHashMap()))
+            .set(seriesModel.uid, 1);
+
+        this.getZr().wakeUp();
+    }
+
 
     // A work around for no `internal` modifier in ts yet but
     // need to strictly hide private methods to JS users.
@@ -1610,6 +1722,8 @@ class ECharts extends Eventful<ECEventDefinition> {
 
                 performPostUpdateFuncs(ecModel, api);
 
+                triggerUpdateLifecycle('series:afterupdate', ecModel, api);
+
                 // console.profile && console.profileEnd('update');
             },
 
@@ -1778,6 +1892,66 @@ class ECharts extends Eventful<ECEventDefinition> {
             });
         };
 
+        /**
+         * Partial version of `updateMethods.update` for `streamData`.
+         */
+        updateStream = function (ecIns: ECharts, seriesDirtyMap: zrUtil.HashMap<any>): void {
+            const ecModel = ecIns._model;
+            const api = ecIns._api;
+            const coordSysMgr = ecIns._coordSysMgr;
+            const scheduler = ecIns._scheduler;
+            const payload = {type: 'streamData'};
+
+            // update before setOption
+            if (!ecModel) {
+                return;
+            }
+
+            ecModel.setUpdatePayload(payload);
+
+            scheduler.restoreSeriesData(ecModel, seriesDirtyMap);
+
+            scheduler.performSeriesTasks(ecModel);
+
+            coordSysMgr.create(ecModel, api);
+
+            scheduler.performDataProcessorTasks(ecModel, payload);
+
+            updateStreamModes(ecIns, ecModel);
+
+            coordSysMgr.update(ecModel, api);
+
+            // The extent of the coordinate systems of the restored series are probably
+            // changed, so the other series on them need to be laid out again.
+            const dirtyCoordSysHosts: object[] = [];
+            ecModel.eachSeries(function (seriesModel) {
+                const coordSys = seriesModel.coordinateSystem;
+                if (coordSys && seriesDirtyMap.get(seriesModel.uid)) {
+                    dirtyCoordSysHosts.push(coordSys.model || coordSys);
+                }
+            });
+            const layoutDirtyMap = zrUtil.createHashMap<1>();
+            ecModel.eachSeries(function (seriesModel) {
+                const coordSys = seriesModel.coordinateSystem;
+                if (seriesDirtyMap.get(seriesModel.uid)
+                    || coordSys && indexOf(dirtyCoordSysHosts, coordSys.model || coordSys) >= 0
+                ) {
+                    layoutDirtyMap.set(seriesModel.uid, 1);
+                }
+            });
+
+            // Do not clear the color palette, where the colors are kept by name, so the
+            // series processed again get the same colors.
+            scheduler.performVisualTasks(ecModel, payload, {setDirty: true, dirtyMap: layoutDirtyMap});
+
+            renderComponents(ecIns, ecModel, api, payload);
+            renderSeries(ecIns, ecModel, api, payload, layoutDirtyMap);
+
+            performPostUpdateFuncs(ecModel, api);
+
+            triggerUpdateLifecycle('series:afterupdate', ecModel, api);
+        };
+
         doDispatchAction = function (this: ECharts, payload: Payload, silent: boolean): void {
             const ecModel = this.getModel();
             const payloadType = payload.type;
@@ -1919,6 +2093,7 @@ class ECharts extends Eventful<ECEventDefinition> {
                     // animation finished for robustness.
                     zr.animation.isFinished()
                     && !ecIns[OPTION_UPDATED_KEY]
+                    && !ecIns[STREAM_UPDATED_KEY]
                     && !ecIns._scheduler.unfinished
                     && !ecIns._pendingActions.length
                 ) {
@@ -2533,6 +2708,8 @@ const postInitFuncs: PostIniter[] = [];
 
 const postUpdateFuncs: PostUpdater[] = [];
 
+const updateLifecycleFuncs: {[name in UpdateLifecycleName]?: UpdateLifecycleHandler[]} = {};
+
 const visualFuncs: StageHandlerInternal[] = [];
 
 const themeStorage: {[themeName: string]: ThemeOption} = {};
@@ -2563,16 +2740,18 @@ export function init(
         devicePixelRatio?: number,
         width?: number,
         height?: number,
-        locale?: string | LocaleOption
+        locale?: string | LocaleOption,
+        ssr?: boolean
     }
 ): EChartsType {
+    const isSSR = !!(opts && opts.ssr);
     if (__DEV__) {
-        if (!dom) {
+        if (!dom && !isSSR) {
             throw new Error('Initialize failed: invalid dom.');
         }
     }
 
-    const existInstance = getInstanceByDom(dom);
+    const existInstance = dom && getInstanceByDom(dom);
     if (existInstance) {
         if (__DEV__) {
             console.warn('There is a chart instance already initialized on the dom.');
@@ -2581,7 +2760,7 @@ export function init(
     }
 
     if (__DEV__) {
-        if (zrUtil.isDom(dom)
+        if (dom && zrUtil.isDom(dom)
             && dom.nodeName.toUpperCase() !== 'CANVAS'
             && (
                 (!dom.clientWidth && (!opts || opts.width == null))
@@ -2599,7 +2778,7 @@ export function init(
     chart.id = 'ec_' + idBase++;
     instances[chart.id] = chart;
 
-    modelUtil.setAttribute(dom, DOM_ATTRIBUTE_KEY, chart.id);
+    dom && modelUtil.setAttribute(dom, DOM_ATTRIBUTE_KEY, chart.id);
 
     enableConnect(chart);
 
@@ -2727,6 +2906,24 @@ export function registerPostUpdate(postUpdateFunc: PostUpdater): void {
     }
 }
 
+/**
+ * Register handler on the update lifecycle.
+ * 'series:beforeupdate' is triggered in `setOption` before the new option is merged,
+ * 'series:afterupdate' is triggered after all of the views have been rendered.
+ */
+export function registerUpdateLifecycle(name: UpdateLifecycleName, handler: UpdateLifecycleHandler): void {
+    const handlers = updateLifecycleFuncs[name] || (updateLifecycleFuncs[name] = []);
+    if (indexOf(handlers, handler) < 0) {
+        handler && handlers.push(handler);
+    }
+}
+
+function triggerUpdateLifecycle(name: UpdateLifecycleName, ecModel: GlobalModel, api: ExtensionAPI): void {
+    each(updateLifecycleFuncs[name], function (handler) {
+        handler(ecModel, api);
+    });
+}
+
 /**
  * @usage
  * registerAction('someAction', 'someEvent', function () { ... });
@@ -2910,6 +3107,19 @@ export function getMap(mapName: string) {
 
 export const registerTransform = registerExternalTransform;
 
+/**
+ * Register a reusable `renderItem` of custom series. Then it can be used by
+ * `{type: 'custom', renderItem: type}` or `{type: type}` in series option.
+ * The parameters and usage: see `customSeriesRegistry.registerCustomSeries`.
+ */
+export function registerCustomSeries(
+    type: Parameters<typeof registerCustomSeriesImpl>[0],
+    renderItem: Parameters<typeof registerCustomSeriesImpl>[1],
+    opt?: Parameters<typeof registerCustomSeriesImpl>[2]
+): void {
+    registerCustomSeriesImpl(type, renderItem, opt);
+}
+
 /**
  * Globa dispatchAction to a specified chart instance.
  */
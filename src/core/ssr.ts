@@ -0,0 +1,75 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import Element from 'zrender/src/Element';
+import Displayable from 'zrender/src/graphic/Displayable';
+import { isArray, isObject } from 'zrender/src/core/util';
+import GlobalModel from '../model/Global';
+import { getECData } from '../util/innerStore';
+import { findEventDispatcher } from '../util/event';
+import { SSRMeta } from '../renderer/svg/ssrMeta';
+
+function isMetaHost(el: Element): boolean {
+    const ecData = getECData(el);
+    return ecData.ssrType === 'legend'
+        || (ecData.seriesIndex != null && ecData.dataIndex != null);
+}
+
+function stringifyValue(value: unknown): string {
+    if (isArray(value)) {
+        return value.join(',');
+    }
+    return value == null || isObject(value) ? null : value + '';
+}
+
+/**
+ * Get the metadata of elements in server side rendering.
+ * Elements like labels use the metadata of their host.
+ */
+export function createSSRMetaGetter(ecModel: GlobalModel) {
+    return function (el: Displayable): SSRMeta {
+        const host = findEventDispatcher(el, isMetaHost, true);
+        if (!host) {
+            return;
+        }
+        const ecData = getECData(host);
+        if (ecData.ssrType === 'legend') {
+            return {
+                type: 'legend',
+                name: ecData.ssrName
+            };
+        }
+        const seriesModel = ecModel.getSeriesByIndex(ecData.seriesIndex);
+        if (!seriesModel) {
+            return;
+        }
+        const dataType = ecData.dataType;
+        const dataIndex = ecData.dataIndex;
+        const data = seriesModel.getData(dataType);
+        return {
+            type: 'series',
+            seriesIndex: ecData.seriesIndex,
+            seriesName: seriesModel.name,
+            dataIndex: dataIndex,
+            dataType: dataType,
+            name: data.getName(dataIndex),
+            value: stringifyValue(seriesModel.getRawValue(dataIndex, dataType))
+        };
+    };
+}
@@ -120,7 +120,7 @@ type MapCb<Ctx> = (this: CtxOrList<Ctx>, ...args: any) => ParsedValue | ParsedVa
 const TRANSFERABLE_PROPERTIES = [
     'hasItemOption', '_nameList', '_idList', '_invertedIndicesMap',
     '_rawData', '_dimValueGetter',
-    '_count', '_rawCount', '_nameDimIdx', '_idDimIdx', '_nameRepeatCount'
+    '_count', '_rawCount', '_nameDimIdx', '_idDimIdx', '_nameRepeatCount', '_shiftedCount'
 ];
 const CLONE_PROPERTIES = [
     '_extent', '_approximateExtent', '_rawExtent'
@@ -221,6 +221,8 @@ class List<
 
     private _count: number = 0;
     private _rawCount: number = 0;
+    // Count of the items removed by `shiftData`, which keeps the generated ids stable.
+    private _shiftedCount: number = 0;
     private _storage: DataStorage = {};
     // We have an extra array store here. It's faster to be acessed than KV structured `_storage`.
     // We profile the code `storage[dim]` and it seems to be KeyedLoadIC_Megamorphic instead of fast property access.
@@ -527,6 +529,72 @@ class List<
         this._initDataFromProvider(start, end, true);
     }
 
+    /**
+     * Remove the first `count` items, which is used to keep a sliding window
+     * of streaming data.
+     * Caution: Can be only called on raw data (before `this._indices` created).
+     * The storage is created again rather than modified in place, because it is
+     * shared with the lists created by `cloneShallow`, which are probably still in
+     * use (like the old data kept in views for animation).
+     */
+    shiftData(count: number): void {
+        if (__DEV__) {
+            zrUtil.assert(!this._indices, 'shiftData can only be called on raw data.');
+        }
+
+        count = Math.min(count, this._count);
+        if (!(count > 0)) {
+            return;
+        }
+
+        this._rawData.shiftData(count);
+
+        const newCount = this._count - count;
+        const dimensions = this.dimensions;
+        const oldStorage = this._storage;
+        const storage: DataStorage = this._storage = {};
+        const rawExtent = this._rawExtent = {} as List['_rawExtent'];
+
+        const storageArr = this._storageArr = map(dimensions, (dim) => {
+            const oldStore = oldStorage[dim];
+            const newStore = storage[dim] = new dataCtors[this._dimensionInfos[dim].type](newCount);
+            const dimRawExtent = rawExtent[dim] = getInitialExtent();
+            for (let i = 0; i < newCount; i++) {
+                const val = newStore[i] = oldStore[i + count];
+                val < dimRawExtent[0] && (dimRawExtent[0] = val as number);
+                val > dimRawExtent[1] && (dimRawExtent[1] = val as number);
+            }
+            return newStore;
+        });
+        if (__DEV__) {
+            zrUtil.assert(storageArr.length === dimensions.length);
+        }
+
+        this._nameList = this._nameList.slice(count);
+        this._idList = this._idList.slice(count);
+        this._shiftedCount += count;
+        this._rawCount = this._count = newCount;
+
+        // Reset data extent
+        this._extent = {};
+        this._approximateExtent = {};
+
+        if (this._invertedIndicesMap) {
+            this._invertedIndicesMap = zrUtil.extend({}, this._invertedIndicesMap);
+            prepareInvertedIndex(this);
+        }
+    }
+
+    /**
+     * Count of the items removed by `shiftData` so far. An item of raw index
+     * `rawIndex` in this list is the item of raw index
+     * `rawIndex + this.getShiftedCount() - oldList.getShiftedCount()` in an older
+     * list of the same series.
+     */
+    getShiftedCount(): number {
+        return this._shiftedCount;
+    }
+
     /**
      * Caution: Can be only called on raw data (before `this._indices` created).
      * This method does not modify `rawData` (`dataProvider`), but only
@@ -632,7 +700,9 @@ class List<
         });
 
         if (rawData.fillStorage) {
-            rawData.fillStorage(start, end, storageArr, rawExtentArr);
+            rawData.fillStorage(start, end, storageArr, rawExtentArr, map(dimensions, (dim) => {
+                return dimensionInfoMap[dim];
+            }));
         }
         else {
             let dataItem = [] as OptionDataItem;
@@ -2014,6 +2084,8 @@ class List<
 
             keyedColumns: getDimValueSimply,
 
+            keyedTypedColumns: getDimValueSimply,
+
             original: function (
                 this: List, dataItem: any, dimName: string, dataIndex: number, dimIndex: number
             ): ParsedValue {
@@ -2140,7 +2212,7 @@ class List<
                 id = getIdNameFromStore(list, list._idDimIdx, list._idOrdinalMeta, rawIndex);
             }
             if (id == null) {
-                id = ID_PREFIX + rawIndex;
+                id = ID_PREFIX + (rawIndex + list._shiftedCount);
             }
             return id;
         };
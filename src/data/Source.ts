@@ -29,6 +29,7 @@ import {
     SOURCE_FORMAT_UNKNOWN,
     SOURCE_FORMAT_KEYED_COLUMNS,
     SOURCE_FORMAT_TYPED_ARRAY,
+    SOURCE_FORMAT_KEYED_TYPED_COLUMNS,
     DimensionName,
     OptionSourceHeader,
     DimensionDefinitionLoose,
@@ -41,7 +42,8 @@ import {
     OptionSourceDataArrayRows,
     SERIES_LAYOUT_BY_ROW,
     OptionSourceDataOriginal,
-    OptionSourceDataKeyedColumns
+    OptionSourceDataKeyedColumns,
+    OptionSourceDictionaryColumn
 } from '../util/types';
 import { DatasetOption } from '../component/dataset/install';
 import { getDataItemValue } from '../util/model';
@@ -79,6 +81,17 @@ import { getDataItemValue } from '../util/model';
  *
  * + "typedArray"
  *
+ * + "keyedTypedColumns":
+ * Like "keyedColumns", but some of the columns are typed arrays or dictionary-encoded
+ * (see `OptionSourceDictionaryColumn`), which are read into `List` column by column
+ * without creating rows. It is usually used for large data, like an Arrow table
+ * (see `parseArrowTable`).
+ * {
+ *     'product': {indices: new Int32Array([0, 1, 0]), dictionary: ['Matcha Latte', 'Milk Tea']},
+ *     'count': new Int32Array([823, 235, 1042]),
+ *     'score': new Float64Array([95.8, 81.4, 91.2])
+ * }
+ *
  * + "unknown"
  */
 
@@ -169,7 +182,9 @@ class SourceImpl {
     }) {
 
         this.data = fields.data || (
-            fields.sourceFormat === SOURCE_FORMAT_KEYED_COLUMNS ? {} : []
+            (fields.sourceFormat === SOURCE_FORMAT_KEYED_COLUMNS
+                || fields.sourceFormat === SOURCE_FORMAT_KEYED_TYPED_COLUMNS
+            ) ? {} : []
         );
         this.sourceFormat = fields.sourceFormat || SOURCE_FORMAT_UNKNOWN;
 
@@ -287,6 +302,12 @@ function makeEncodeDefine(
         : null;
 }
 
+export function isDictionaryColumn(col: unknown): col is OptionSourceDictionaryColumn {
+    return isObject(col)
+        && isArrayLike((col as OptionSourceDictionaryColumn).indices)
+        && isArrayLike((col as OptionSourceDictionaryColumn).dictionary);
+}
+
 /**
  * Note: An empty array will be detected as `SOURCE_FORMAT_ARRAY_ROWS`.
  */
@@ -320,9 +341,15 @@ export function detectSourceFormat(data: DatasetOption['source']): SourceFormat
     }
     else if (isObject(data)) {
         for (const key in data) {
-            if (hasOwn(data, key) && isArrayLike((data as Dictionary<unknown>)[key])) {
-                sourceFormat = SOURCE_FORMAT_KEYED_COLUMNS;
-                break;
+            if (hasOwn(data, key)) {
+                const col = (data as Dictionary<unknown>)[key];
+                if (isTypedArray(col) || isDictionaryColumn(col)) {
+                    sourceFormat = SOURCE_FORMAT_KEYED_TYPED_COLUMNS;
+                    break;
+                }
+                else if (isArrayLike(col)) {
+                    sourceFormat = SOURCE_FORMAT_KEYED_COLUMNS;
+                }
             }
         }
     }
@@ -412,7 +439,7 @@ function determineSourceDimensions(
             dimensionsDefine = objectRowsCollectDimensions(data as OptionSourceDataObjectRows);
         }
     }
-    else if (sourceFormat === SOURCE_FORMAT_KEYED_COLUMNS) {
+    else if (sourceFormat === SOURCE_FORMAT_KEYED_COLUMNS || sourceFormat === SOURCE_FORMAT_KEYED_TYPED_COLUMNS) {
         if (!dimensionsDefine) {
             dimensionsDefine = [];
             each(data as OptionSourceDataKeyedColumns, function (colArr, key) {
@@ -0,0 +1,185 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+/**
+ * Parse CSV/TSV string to be used as dataset source, like:
+ * ```js
+ * dataset: {
+ *     source: 'product,score\nMatcha Latte,89.3\n"Milk Tea, large",92.1',
+ *     sourceFormat: 'csv',
+ *     // By default ','. Use '\t' for TSV.
+ *     delimiter: ',',
+ *     // Whether the first line is the dimension names. By default true.
+ *     header: true
+ * }
+ * ```
+ * Fields follow RFC 4180, where fields containing delimiters, quotes or line breaks
+ * are enclosed in double quotes, and a double quote in it is escaped by another one.
+ */
+
+import { isObject } from 'zrender/src/core/util';
+import { createSource, Source, SourceMetaRawOption } from '../Source';
+import {
+    DimensionDefinition, DimensionIndex, OptionDataValue, SERIES_LAYOUT_BY_COLUMN, SOURCE_FORMAT_ARRAY_ROWS
+} from '../../util/types';
+import { makeInner } from '../../util/model';
+import { guessDimensionType } from './sourceHelper';
+
+
+export interface CSVParseOption {
+    delimiter?: string;
+    header?: boolean;
+}
+
+const QUOTE = '"';
+
+export function parseCSV(text: string, delimiter?: string): string[][] {
+    delimiter = delimiter || ',';
+    const delimiterLen = delimiter.length;
+    const len = text.length;
+    const rows: string[][] = [];
+    let row: string[] = [];
+    // Skip BOM.
+    let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+    while (i <= len) {
+        let field: string;
+        let isQuoted = false;
+        if (text.charAt(i) === QUOTE) {
+            isQuoted = true;
+            field = '';
+            i++;
+            while (i < len) {
+                const quoteIdx = text.indexOf(QUOTE, i);
+                if (quoteIdx < 0) {
+                    // Unclosed quote, take the rest as the field.
+                    field += text.slice(i);
+                    i = len;
+                    break;
+                }
+                field += text.slice(i, quoteIdx);
+                i = quoteIdx + 1;
+                // Escaped quote.
+                if (text.charAt(i) === QUOTE) {
+                    field += QUOTE;
+                    i++;
+                }
+                else {
+                    break;
+                }
+            }
+        }
+
+        // Read until delimiter or line break. Characters after the closing quote are kept.
+        const start = i;
+        while (i < len
+            && text.substr(i, delimiterLen) !== delimiter
+            && text.charAt(i) !== '\n'
+            && text.charAt(i) !== '\r'
+        ) {
+            i++;
+        }
+        field = isQuoted ? field + text.slice(start, i) : text.slice(start, i);
+
+        if (i < len && text.substr(i, delimiterLen) === delimiter) {
+            row.push(field);
+            i += delimiterLen;
+            continue;
+        }
+
+        // End of line. Empty lines are ignored.
+        if (row.length || field !== '' || isQuoted) {
+            row.push(field);
+            rows.push(row);
+        }
+        row = [];
+        i += (text.charAt(i) === '\r' && text.charAt(i + 1) === '\n') ? 2 : 1;
+    }
+
+    return rows;
+}
+
+const inner = makeInner<{ typeGuessed: boolean }, DimensionDefinition>();
+
+/**
+ * The values of number and time dimensions are converted, where empty fields
+ * are regarded as missing values ('-').
+ * Only the dimension type of time and ordinal are specified, number dimensions
+ * are left to the default.
+ */
+export function createSourceFromCSV(
+    text: string,
+    opt: CSVParseOption,
+    thisMetaRawOption: SourceMetaRawOption
+): Source {
+    const rows: OptionDataValue[][] = parseCSV(text || '', opt.delimiter);
+    const headerRow = opt.header !== false ? rows.shift() as string[] : null;
+
+    // `dimensions` specified by user has higher priority.
+    const rawMetaOption: SourceMetaRawOption = {
+        seriesLayoutBy: SERIES_LAYOUT_BY_COLUMN,
+        sourceHeader: false,
+        dimensions: thisMetaRawOption.dimensions || headerRow
+    };
+    const detectSource = createSource(rows, rawMetaOption, SOURCE_FORMAT_ARRAY_ROWS, null);
+    const dimsDefine = detectSource.dimensionsDefine || [];
+    let dimCount = dimsDefine.length;
+    for (let i = 0; i < rows.length; i++) {
+        dimCount = Math.max(dimCount, rows[i].length);
+    }
+
+    const dimensions: DimensionDefinition[] = [];
+    for (let dimIdx = 0; dimIdx < dimCount; dimIdx++) {
+        const dimDefine = dimsDefine[dimIdx] || {};
+        const type = guessDimensionType(detectSource, dimIdx);
+        const isNumber = type !== 'ordinal' && type !== 'time';
+        if (type !== 'ordinal') {
+            for (let i = 0; i < rows.length; i++) {
+                const row = rows[i];
+                const val = row[dimIdx];
+                if (val === '' || val == null) {
+                    row[dimIdx] = '-';
+                }
+                else if (isNumber && val !== '-') {
+                    row[dimIdx] = +val;
+                }
+            }
+        }
+        const dimension: DimensionDefinition = {
+            name: dimDefine.name,
+            displayName: dimDefine.displayName,
+            type: isNumber ? dimDefine.type : type
+        };
+        !isNumber && dimDefine.type == null && (inner(dimension).typeGuessed = true);
+        dimensions.push(dimension);
+    }
+
+    rawMetaOption.dimensions = dimensions;
+    return createSource(rows, rawMetaOption, SOURCE_FORMAT_ARRAY_ROWS, null);
+}
+
+/**
+ * Whether the type of the dimension is detected from the values of CSV source
+ * rather than specified by user.
+ */
+export function isDimensionTypeGuessed(source: Source, dimIndex: DimensionIndex): boolean {
+    const dimsDef = source.metaRawOption && source.metaRawOption.dimensions;
+    const dimDef = dimsDef && dimsDef[dimIndex];
+    return isObject(dimDef) && !!inner(dimDef).typeGuessed;
+}
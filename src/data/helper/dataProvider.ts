@@ -21,9 +21,11 @@
 // ??? refactor? check the outer usage of data provider.
 // merge with defaultDimValueGetter?
 
-import {isTypedArray, extend, assert, each, isObject, bind} from 'zrender/src/core/util';
+import {
+    isTypedArray, extend, assert, each, isObject, bind, map, createHashMap, isArray
+} from 'zrender/src/core/util';
 import {getDataItemValue} from '../../util/model';
-import { createSourceFromSeriesDataOption, Source, isSourceInstance } from '../Source';
+import { createSourceFromSeriesDataOption, Source, isSourceInstance, isDictionaryColumn } from '../Source';
 import {ArrayLike, Dictionary} from 'zrender/src/core/types';
 import {
     SOURCE_FORMAT_ORIGINAL,
@@ -31,12 +33,16 @@ import {
     SOURCE_FORMAT_KEYED_COLUMNS,
     SOURCE_FORMAT_TYPED_ARRAY,
     SOURCE_FORMAT_ARRAY_ROWS,
+    SOURCE_FORMAT_KEYED_TYPED_COLUMNS,
     SERIES_LAYOUT_BY_COLUMN,
     SERIES_LAYOUT_BY_ROW,
     DimensionName, DimensionIndex, OptionSourceData,
-    DimensionIndexLoose, OptionDataItem, OptionDataValue, SourceFormat, SeriesLayoutBy, ParsedValue
+    DimensionIndexLoose, OptionDataItem, OptionDataValue, SourceFormat, SeriesLayoutBy, ParsedValue,
+    OptionSourceDataKeyedTypedColumns, OptionSourceDictionaryColumn
 } from '../../util/types';
 import List from '../List';
+import DataDimensionInfo from '../DataDimensionInfo';
+import { parseDataValue } from './dataValueHelper';
 
 export interface DataProvider {
     /**
@@ -58,9 +64,15 @@ export interface DataProvider {
         start: number,
         end: number,
         out: ArrayLike<ParsedValue>[],
-        extent: number[][]
+        extent: number[][],
+        // Dimension info of each storage in `out`.
+        dimInfos?: DataDimensionInfo[]
     ): void
     appendData?(newData: ArrayLike<OptionDataItem>): void;
+    // Remove the first `count` items.
+    shiftData?(count: number): void;
+    // Copy the data before `appendData` or `shiftData` if it is shared.
+    detachData?(): void;
     clean?(): void;
 }
 
@@ -73,7 +85,9 @@ export interface DefaultDataProvider {
         start: number,
         end: number,
         out: ArrayLike<ParsedValue>[],
-        extent: number[][]
+        extent: number[][],
+        // Dimension info of each storage in `out`.
+        dimInfos?: DataDimensionInfo[]
     ): void
 }
 /**
@@ -90,6 +104,8 @@ export class DefaultDataProvider implements DataProvider {
 
     private _dimSize: number;
 
+    private _detached: boolean;
+
     pure: boolean;
 
     persistent: boolean;
@@ -143,6 +159,39 @@ export class DefaultDataProvider implements DataProvider {
     appendData(newData: OptionSourceData): void {
     }
 
+    shiftData(count: number): void {
+    }
+
+    /**
+     * Copy the data, so that `appendData` and `shiftData` do not modify the
+     * data shared with others, like the source of a dataset, which is shared
+     * by all of the series on the dataset. Only copy at the first call.
+     */
+    detachData(): void {
+        if (this._detached) {
+            return;
+        }
+        this._detached = true;
+
+        const data = this._data;
+        // Typed array is not modified but replaced by `appendData`.
+        if (isTypedArray(data)) {
+            return;
+        }
+        if (isArray(data)) {
+            this._data = data.slice();
+        }
+        else {
+            const newData: Dictionary<unknown> = {};
+            each(data as Dictionary<unknown>, function (col, key) {
+                newData[key] = isArray(col) ? col.slice() : col;
+            });
+            this._data = newData as OptionSourceData;
+        }
+        // `getItem` and `count` are bound to the data.
+        mountMethods(this, this._data, this._source);
+    }
+
     clean(): void {
     }
 
@@ -222,19 +271,24 @@ export class DefaultDataProvider implements DataProvider {
 
             [SOURCE_FORMAT_ARRAY_ROWS + '_' + SERIES_LAYOUT_BY_COLUMN]: {
                 pure: true,
-                appendData: appendDataSimply
+                appendData: appendDataSimply,
+                shiftData: shiftDataSimply
             },
 
             [SOURCE_FORMAT_ARRAY_ROWS + '_' + SERIES_LAYOUT_BY_ROW]: {
                 pure: true,
                 appendData: function () {
                     throw new Error('Do not support appendData when set seriesLayoutBy: "row".');
+                },
+                shiftData: function () {
+                    throw new Error('Do not support shiftData when set seriesLayoutBy: "row".');
                 }
             },
 
             [SOURCE_FORMAT_OBJECT_ROWS]: {
                 pure: true,
-                appendData: appendDataSimply
+                appendData: appendDataSimply,
+                shiftData: shiftDataSimply
             },
 
             [SOURCE_FORMAT_KEYED_COLUMNS]: {
@@ -247,11 +301,38 @@ export class DefaultDataProvider implements DataProvider {
                             oldCol.push(newCol[i]);
                         }
                     });
+                },
+                shiftData: function (this: DefaultDataProvider, count: number) {
+                    each(this._data as Dictionary<OptionDataValue[]>, function (col) {
+                        col && col.splice(0, count);
+                    });
                 }
             },
 
             [SOURCE_FORMAT_ORIGINAL]: {
-                appendData: appendDataSimply
+                appendData: appendDataSimply,
+                shiftData: shiftDataSimply
+            },
+
+            [SOURCE_FORMAT_KEYED_TYPED_COLUMNS]: {
+                pure: true,
+                appendData: function (this: DefaultDataProvider, newData: OptionSourceDataKeyedTypedColumns) {
+                    const data = this._data as OptionSourceDataKeyedTypedColumns;
+                    // Typed arrays can not grow, so columns are created again.
+                    each(newData, function (newCol, key) {
+                        const oldCol = data[key];
+                        data[key] = oldCol ? concatColumn(oldCol, newCol) : newCol;
+                    });
+                },
+                shiftData: function (this: DefaultDataProvider, count: number) {
+                    const data = this._data as OptionSourceDataKeyedTypedColumns;
+                    each(data, function (col, key) {
+                        data[key] = isDictionaryColumn(col)
+                            ? {indices: sliceArrayLike(col.indices, count), dictionary: col.dictionary}
+                            : sliceArrayLike(col, count);
+                    });
+                },
+                fillStorage: fillStorageForKeyedTypedColumns
             },
 
             [SOURCE_FORMAT_TYPED_ARRAY]: {
@@ -267,6 +348,11 @@ export class DefaultDataProvider implements DataProvider {
                     this._data = newData;
                 },
 
+                // Data has been cleaned after used, so only the index offset is updated.
+                shiftData: function (this: DefaultDataProvider, count: number): void {
+                    this._offset -= count;
+                },
+
                 // Clean self if data is already used.
                 clean: function (this: DefaultDataProvider): void {
                     // PENDING
@@ -276,12 +362,153 @@ export class DefaultDataProvider implements DataProvider {
             }
         };
 
+        function fillStorageForKeyedTypedColumns(
+            this: DefaultDataProvider,
+            start: number,
+            end: number,
+            storage: ArrayLike<ParsedValue>[],
+            extent: number[][],
+            dimInfos: DataDimensionInfo[]
+        ): void {
+            const data = this._data as OptionSourceDataKeyedTypedColumns;
+
+            for (let dimIdx = 0; dimIdx < storage.length; dimIdx++) {
+                const dimInfo = dimInfos[dimIdx];
+                const col = data[dimInfo.name];
+                const isTyped = isTypedArray(col);
+                const dimExtent = extent[dimIdx];
+                let min = dimExtent[0] == null ? Infinity : dimExtent[0];
+                let max = dimExtent[1] == null ? -Infinity : dimExtent[1];
+                const arr = storage[dimIdx];
+
+                // Each value in dictionary is only parsed once, where the categories
+                // are collected to `OrdinalMeta` if the dimension has one.
+                let indices: ArrayLike<number>;
+                let parsedDictionary: ParsedValue[];
+                if (isDictionaryColumn(col)) {
+                    indices = col.indices;
+                    parsedDictionary = map(col.dictionary as OptionDataValue[], function (val) {
+                        return parseDataValue(val, dimInfo);
+                    });
+                }
+
+                for (let i = start; i < end; i++) {
+                    let val: ParsedValue;
+                    if (!col) {
+                        val = NaN;
+                    }
+                    else if (parsedDictionary) {
+                        const code = indices[i];
+                        val = code >= 0 ? parsedDictionary[code] : NaN;
+                    }
+                    else if (isTyped) {
+                        val = (col as ArrayLike<number>)[i];
+                    }
+                    else {
+                        val = parseDataValue((col as ArrayLike<OptionDataValue>)[i], dimInfo);
+                    }
+                    arr[i] = val;
+                    val < min && (min = val as number);
+                    val > max && (max = val as number);
+                }
+                dimExtent[0] = min;
+                dimExtent[1] = max;
+            }
+        }
+
         function appendDataSimply(this: DefaultDataProvider, newData: ArrayLike<OptionDataItem>): void {
             for (let i = 0; i < newData.length; i++) {
                 (this._data as any[]).push(newData[i]);
             }
         }
 
+        function shiftDataSimply(this: DefaultDataProvider, count: number): void {
+            // Keep the source header.
+            (this._data as any[]).splice(this._source.startIndex, count);
+        }
+
+        type KeyedTypedColumn = OptionSourceDataKeyedTypedColumns[string];
+
+        function concatColumn(oldCol: KeyedTypedColumn, newCol: KeyedTypedColumn): KeyedTypedColumn {
+            if (isDictionaryColumn(oldCol) && isDictionaryColumn(newCol)) {
+                return concatDictionaryColumn(oldCol, newCol);
+            }
+            return concatArrayLike(decodeColumn(oldCol), decodeColumn(newCol));
+        }
+
+        function concatDictionaryColumn(
+            oldCol: OptionSourceDictionaryColumn,
+            newCol: OptionSourceDictionaryColumn
+        ): OptionSourceDictionaryColumn {
+            const oldIndices = oldCol.indices;
+            const newIndices = newCol.indices;
+            const indices = new Int32Array(oldIndices.length + newIndices.length);
+            indices.set(oldIndices);
+
+            // Map the codes of the new column to the merged dictionary.
+            let dictionary = oldCol.dictionary;
+            let codeMap = map(newCol.dictionary as OptionDataValue[], function (val, code) {
+                return code;
+            });
+            if (newCol.dictionary !== dictionary) {
+                const merged = Array.prototype.slice.call(dictionary) as OptionDataValue[];
+                const codeByValue = createHashMap<number>();
+                each(merged, function (val, code) {
+                    codeByValue.set(val + '', code);
+                });
+                codeMap = map(newCol.dictionary as OptionDataValue[], function (val) {
+                    let code = codeByValue.get(val + '');
+                    if (code == null) {
+                        code = merged.length;
+                        merged.push(val);
+                        codeByValue.set(val + '', code);
+                    }
+                    return code;
+                });
+                dictionary = merged;
+            }
+
+            for (let i = 0; i < newIndices.length; i++) {
+                const code = newIndices[i];
+                indices[oldIndices.length + i] = code >= 0 ? codeMap[code] : -1;
+            }
+            return {indices: indices, dictionary: dictionary};
+        }
+
+        function decodeColumn(col: KeyedTypedColumn): ArrayLike<OptionDataValue> {
+            if (!isDictionaryColumn(col)) {
+                return col;
+            }
+            const result = [];
+            for (let i = 0; i < col.indices.length; i++) {
+                const code = col.indices[i];
+                result.push(code >= 0 ? col.dictionary[code] : null);
+            }
+            return result;
+        }
+
+        function concatArrayLike(arr1: ArrayLike<any>, arr2: ArrayLike<any>): ArrayLike<any> {
+            if (isTypedArray(arr1) && isTypedArray(arr2)) {
+                const Ctor = arr1.constructor === arr2.constructor ? arr1.constructor as Float64ArrayConstructor
+                    : Float64Array;
+                const result = new Ctor(arr1.length + arr2.length);
+                result.set(arr1);
+                result.set(arr2, arr1.length);
+                return result;
+            }
+            const result = Array.prototype.slice.call(arr1);
+            for (let i = 0; i < arr2.length; i++) {
+                result.push(arr2[i]);
+            }
+            return result;
+        }
+
+        function sliceArrayLike(arr: ArrayLike<any>, start: number): ArrayLike<any> {
+            return isTypedArray(arr)
+                ? (arr as Float64Array).subarray(start)
+                : Array.prototype.slice.call(arr, start);
+        }
+
     })();
 }
 
@@ -335,6 +562,24 @@ const rawSourceItemGetterMap: Dictionary<RawSourceItemGetter> = {
         }
         return item;
     },
+    [SOURCE_FORMAT_KEYED_TYPED_COLUMNS]: function (
+        rawData, startIndex, dimsDef, idx
+    ): OptionDataValue[] {
+        const item = [];
+        for (let i = 0; i < dimsDef.length; i++) {
+            const col = (rawData as OptionSourceDataKeyedTypedColumns)[dimsDef[i].name];
+            let val = null;
+            if (isDictionaryColumn(col)) {
+                const code = col.indices[idx];
+                val = code >= 0 ? col.dictionary[code] : null;
+            }
+            else if (col) {
+                val = col[idx];
+            }
+            item.push(val);
+        }
+        return item;
+    },
     [SOURCE_FORMAT_ORIGINAL]: getItemSimply
 };
 
@@ -388,6 +633,12 @@ const rawSourceDataCounterMap: Dictionary<RawSourceDataCounter> = {
         const col = (rawData as Dictionary<OptionDataValue[]>)[dimName];
         return col ? col.length : 0;
     },
+    [SOURCE_FORMAT_KEYED_TYPED_COLUMNS]: function (
+        rawData, startIndex, dimsDef
+    ) {
+        const col = (rawData as OptionSourceDataKeyedTypedColumns)[dimsDef[0].name];
+        return !col ? 0 : isDictionaryColumn(col) ? col.indices.length : col.length;
+    },
     [SOURCE_FORMAT_ORIGINAL]: countSimply
 };
 
@@ -442,7 +693,9 @@ const rawSourceValueGetterMap: {[sourceFormat: string]: RawSourceValueGetter} =
             : value[dimIndex];
     },
 
-    [SOURCE_FORMAT_TYPED_ARRAY]: getRawValueSimply
+    [SOURCE_FORMAT_TYPED_ARRAY]: getRawValueSimply,
+
+    [SOURCE_FORMAT_KEYED_TYPED_COLUMNS]: getRawValueSimply
 };
 
 export function getRawSourceValueGetter(sourceFormat: SourceFormat): RawSourceValueGetter {
@@ -0,0 +1,594 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+/**
+ * A minimal reader of Apache Arrow IPC data (both the stream format and the file format).
+ * The table is converted to a "keyedTypedColumns" source, which can be used in dataset:
+ * ```js
+ * const table = echarts.parseArrowTable(arrayBuffer);
+ * chart.setOption({
+ *     dataset: {
+ *         source: table.source,
+ *         dimensions: table.dimensions
+ *     },
+ *     ...
+ * });
+ * ```
+ *
+ * Only flat columns are supported, that is: Null, Int, FloatingPoint, Bool, Utf8,
+ * Date, Timestamp, and dictionary-encoded columns of them.
+ * Dictionary-encoded columns are kept encoded, and the dictionary values are mapped
+ * to the categories of `OrdinalMeta` when the data is read into `List`.
+ * Compressed body and big-endian data are not supported.
+ *
+ * See https://arrow.apache.org/docs/format/Columnar.html
+ */
+
+import { each, map } from 'zrender/src/core/util';
+import { DimensionDefinition, OptionDataValue, OptionSourceDataKeyedTypedColumns } from '../../util/types';
+import { ListDimensionType } from '../List';
+import { throwError } from '../../util/log';
+
+
+export interface ArrowTable {
+    source: OptionSourceDataKeyedTypedColumns;
+    dimensions: DimensionDefinition[];
+}
+
+// Enums defined in Schema.fbs and Message.fbs of Arrow.
+const MESSAGE_HEADER_SCHEMA = 1;
+const MESSAGE_HEADER_DICTIONARY_BATCH = 2;
+const MESSAGE_HEADER_RECORD_BATCH = 3;
+
+const TYPE_NULL = 1;
+const TYPE_INT = 2;
+const TYPE_FLOATING_POINT = 3;
+const TYPE_UTF8 = 5;
+const TYPE_BOOL = 6;
+const TYPE_DATE = 8;
+const TYPE_TIMESTAMP = 10;
+
+const PRECISION_HALF = 0;
+const PRECISION_SINGLE = 1;
+
+const DATE_UNIT_DAY = 0;
+// Timestamp unit: SECOND, MILLISECOND, MICROSECOND, NANOSECOND.
+const TIMESTAMP_UNIT_TO_MS = [1e3, 1, 1e-3, 1e-6];
+
+const MS_PER_DAY = 864e5;
+
+const MAGIC = 'ARROW1';
+
+interface ArrowField {
+    name: string;
+    typeId: number;
+    // Position of the type table.
+    type: number;
+    dictionaryId: number;
+    // Index type of dictionary-encoded field.
+    indexType: number;
+}
+
+type ArrowColumnChunk = Float64Array | Int32Array | OptionDataValue[];
+
+interface FieldNode {
+    length: number;
+    nullCount: number;
+}
+
+interface ReadBatchContext {
+    view: DataView;
+    bytes: Uint8Array;
+    // Start position of the message body.
+    body: number;
+    // Position of the struct vector of `FieldNode` and `Buffer`.
+    nodes: number;
+    buffers: number;
+    nodeIdx: number;
+    bufferIdx: number;
+}
+
+export default function parseArrowTable(data: ArrayBuffer | ArrayBufferView): ArrowTable {
+    const bytes = data instanceof ArrayBuffer
+        ? new Uint8Array(data)
+        : new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    let start = 0;
+    let end = bytes.length;
+    // File format is: magic, stream format, footer, footer length, magic.
+    if (readASCII(bytes, 0, MAGIC.length) === MAGIC) {
+        end = end - MAGIC.length - 4;
+        end -= view.getInt32(end, true);
+        start = 8;
+    }
+
+    let fields: ArrowField[];
+    const chunks: ArrowColumnChunk[][] = [];
+    const dictionaries: ArrowColumnChunk[] = [];
+
+    readMessages(view, start, end, function (headerType, header, body) {
+        if (headerType === MESSAGE_HEADER_SCHEMA) {
+            fields = readSchema(view, bytes, header);
+            each(fields, function (field, idx) {
+                chunks[idx] = [];
+            });
+        }
+        else if (headerType === MESSAGE_HEADER_DICTIONARY_BATCH) {
+            const id = readInt64(view, fbField(view, header, 0));
+            const field = findDictionaryField(fields, id);
+            const batch = fbTable(view, header, 1);
+            const ctx = createReadBatchContext(view, bytes, batch, body);
+            const values = readColumn(ctx, field.typeId, field.type, field.name);
+            // Delta dictionary batch appends values to the existing dictionary.
+            dictionaries[id] = fbBool(view, header, 2) && dictionaries[id]
+                ? concatChunks([dictionaries[id], values])
+                : values;
+        }
+        else if (headerType === MESSAGE_HEADER_RECORD_BATCH) {
+            const ctx = createReadBatchContext(view, bytes, header, body);
+            each(fields, function (field, idx) {
+                chunks[idx].push(
+                    field.dictionaryId != null
+                        ? readColumn(ctx, TYPE_INT, field.indexType, field.name, true)
+                        : readColumn(ctx, field.typeId, field.type, field.name)
+                );
+            });
+        }
+    });
+
+    if (!fields) {
+        throwInvalid('schema is not found');
+    }
+
+    const source: ArrowTable['source'] = {};
+    const dimensions = map(fields, function (field, idx) {
+        const col = concatChunks(chunks[idx]);
+        const dictionary = field.dictionaryId != null ? dictionaries[field.dictionaryId] : null;
+        source[field.name] = dictionary
+            ? {indices: col as Int32Array, dictionary: dictionary as OptionDataValue[]}
+            : col;
+
+        const typeId = field.typeId;
+        const type: ListDimensionType = typeId === TYPE_UTF8
+            ? 'ordinal'
+            : (typeId === TYPE_DATE || typeId === TYPE_TIMESTAMP)
+            ? 'time'
+            : 'float';
+        return {name: field.name, type: type};
+    });
+
+    return {
+        source: source,
+        dimensions: dimensions
+    };
+}
+
+function readMessages(
+    view: DataView,
+    start: number,
+    end: number,
+    cb: (headerType: number, header: number, body: number) => void
+): void {
+    let pos = start;
+    while (pos + 4 <= end) {
+        let metaLength = view.getInt32(pos, true);
+        pos += 4;
+        // Continuation indicator, which is followed by the real length.
+        if (metaLength === -1) {
+            metaLength = view.getInt32(pos, true);
+            pos += 4;
+        }
+        // End of stream.
+        if (metaLength <= 0) {
+            break;
+        }
+        const message = fbRoot(view, pos);
+        pos += metaLength;
+
+        const headerType = fbUint8(view, message, 1);
+        const header = fbTable(view, message, 2);
+        const bodyLength = readInt64(view, fbField(view, message, 3));
+        if (header) {
+            cb(headerType, header, pos);
+        }
+        pos += bodyLength;
+    }
+}
+
+function readSchema(view: DataView, bytes: Uint8Array, schema: number): ArrowField[] {
+    // Endianness: 0 is little-endian.
+    if (fbInt16(view, schema, 0)) {
+        throwInvalid('big-endian is not supported');
+    }
+    return fbMapTables(view, schema, 1, function (field) {
+        const name = fbString(view, bytes, field, 0);
+        const typeId = fbUint8(view, field, 2);
+        if (!isSupportedType(typeId)) {
+            let errMsg = '';
+            if (__DEV__) {
+                errMsg = 'Type ' + typeId + ' of the Arrow field "' + name + '" is not supported.';
+            }
+            throwError(errMsg);
+        }
+        const dictionary = fbTable(view, field, 4);
+        return {
+            name: name,
+            typeId: typeId,
+            type: fbTable(view, field, 3),
+            dictionaryId: dictionary ? readInt64(view, fbField(view, dictionary, 0)) : null,
+            indexType: dictionary ? fbTable(view, dictionary, 1) : null
+        };
+    });
+}
+
+function findDictionaryField(fields: ArrowField[], id: number): ArrowField {
+    for (let i = 0; i < (fields || []).length; i++) {
+        if (fields[i].dictionaryId === id) {
+            return fields[i];
+        }
+    }
+    throwInvalid('dictionary ' + id + ' is not found in schema');
+}
+
+function isSupportedType(typeId: number): boolean {
+    return typeId === TYPE_NULL
+        || typeId === TYPE_INT
+        || typeId === TYPE_FLOATING_POINT
+        || typeId === TYPE_UTF8
+        || typeId === TYPE_BOOL
+        || typeId === TYPE_DATE
+        || typeId === TYPE_TIMESTAMP;
+}
+
+function createReadBatchContext(
+    view: DataView, bytes: Uint8Array, recordBatch: number, body: number
+): ReadBatchContext {
+    if (fbField(view, recordBatch, 3)) {
+        throwInvalid('compressed body is not supported');
+    }
+    return {
+        view: view,
+        bytes: bytes,
+        body: body,
+        nodes: fbVector(view, recordBatch, 1),
+        buffers: fbVector(view, recordBatch, 2),
+        nodeIdx: 0,
+        bufferIdx: 0
+    };
+}
+
+function readFieldNode(ctx: ReadBatchContext): FieldNode {
+    // struct FieldNode { length: long; null_count: long; }
+    const pos = ctx.nodes + 16 * ctx.nodeIdx++;
+    return {
+        length: readInt64(ctx.view, pos),
+        nullCount: readInt64(ctx.view, pos + 8)
+    };
+}
+
+/**
+ * @return Position of the buffer, or `-1` if the buffer is empty.
+ */
+function readBuffer(ctx: ReadBatchContext): number {
+    // struct Buffer { offset: long; length: long; }
+    const pos = ctx.buffers + 16 * ctx.bufferIdx++;
+    return readInt64(ctx.view, pos + 8) > 0
+        ? ctx.body + readInt64(ctx.view, pos)
+        : -1;
+}
+
+/**
+ * Numbers are read to `Float64Array`, where null is `NaN`, and time values
+ * are converted to timestamps in milliseconds. Dictionary indices are read to
+ * `Int32Array`, where null is `-1`. Others are read to arrays.
+ */
+function readColumn(
+    ctx: ReadBatchContext, typeId: number, type: number, name: string, isIndices?: boolean
+): ArrowColumnChunk {
+    const view = ctx.view;
+    const bytes = ctx.bytes;
+    const node = readFieldNode(ctx);
+    const len = node.length;
+
+    if (typeId === TYPE_NULL) {
+        // Null type has no buffers.
+        const result = new Float64Array(len);
+        for (let i = 0; i < len; i++) {
+            result[i] = NaN;
+        }
+        return result;
+    }
+
+    const validity = readBuffer(ctx);
+    function isValid(i: number): boolean {
+        return !node.nullCount || validity < 0 || !!(bytes[validity + (i >> 3)] & (1 << (i & 7)));
+    }
+
+    if (typeId === TYPE_UTF8) {
+        const offsets = readBuffer(ctx);
+        const values = readBuffer(ctx);
+        const result: OptionDataValue[] = [];
+        for (let i = 0; i < len; i++) {
+            result.push(
+                isValid(i)
+                    ? decodeUTF8(
+                        bytes,
+                        values + view.getInt32(offsets + i * 4, true),
+                        values + view.getInt32(offsets + i * 4 + 4, true)
+                    )
+                    : null
+            );
+        }
+        return result;
+    }
+
+    const values = readBuffer(ctx);
+    const result = isIndices ? new Int32Array(len) : new Float64Array(len);
+    const nullValue = isIndices ? -1 : NaN;
+    let getValue: (i: number) => number;
+
+    if (typeId === TYPE_BOOL) {
+        getValue = function (i) {
+            return (bytes[values + (i >> 3)] >> (i & 7)) & 1;
+        };
+    }
+    else if (typeId === TYPE_FLOATING_POINT) {
+        const precision = fbInt16(view, type, 0);
+        if (precision === PRECISION_HALF) {
+            throwUnsupportedColumn(name);
+        }
+        getValue = precision === PRECISION_SINGLE
+            ? function (i) {
+                return view.getFloat32(values + i * 4, true);
+            }
+            : function (i) {
+                return view.getFloat64(values + i * 8, true);
+            };
+    }
+    else if (typeId === TYPE_INT) {
+        getValue = createIntGetter(view, values, fbInt32(view, type, 0), fbBool(view, type, 1), name);
+    }
+    else if (typeId === TYPE_DATE) {
+        // Default unit is MILLISECOND.
+        getValue = fbInt16(view, type, 0, 1) === DATE_UNIT_DAY
+            ? function (i) {
+                return view.getInt32(values + i * 4, true) * MS_PER_DAY;
+            }
+            : function (i) {
+                return readInt64(view, values + i * 8);
+            };
+    }
+    else if (typeId === TYPE_TIMESTAMP) {
+        const scale = TIMESTAMP_UNIT_TO_MS[fbInt16(view, type, 0)];
+        getValue = function (i) {
+            return readInt64(view, values + i * 8) * scale;
+        };
+    }
+
+    for (let i = 0; i < len; i++) {
+        result[i] = isValid(i) ? getValue(i) : nullValue;
+    }
+    return result;
+}
+
+function createIntGetter(
+    view: DataView, values: number, bitWidth: number, isSigned: boolean, name: string
+): (i: number) => number {
+    switch (bitWidth) {
+        case 8:
+            return isSigned
+                ? function (i) {
+                    return view.getInt8(values + i);
+                }
+                : function (i) {
+                    return view.getUint8(values + i);
+                };
+        case 16:
+            return isSigned
+                ? function (i) {
+                    return view.getInt16(values + i * 2, true);
+                }
+                : function (i) {
+                    return view.getUint16(values + i * 2, true);
+                };
+        case 32:
+            return isSigned
+                ? function (i) {
+                    return view.getInt32(values + i * 4, true);
+                }
+                : function (i) {
+                    return view.getUint32(values + i * 4, true);
+                };
+        case 64:
+            // Precision is lost if out of the safe integer range.
+            return isSigned
+                ? function (i) {
+                    return readInt64(view, values + i * 8);
+                }
+                : function (i) {
+                    const pos = values + i * 8;
+                    return view.getUint32(pos + 4, true) * 4294967296 + view.getUint32(pos, true);
+                };
+    }
+    throwUnsupportedColumn(name);
+}
+
+function concatChunks(chunks: ArrowColumnChunk[]): ArrowColumnChunk {
+    if (chunks.length === 1) {
+        return chunks[0];
+    }
+    let len = 0;
+    let isTyped = true;
+    each(chunks, function (chunk) {
+        len += chunk.length;
+        isTyped = isTyped && !(chunk instanceof Array);
+    });
+    if (!isTyped) {
+        let arr: OptionDataValue[] = [];
+        each(chunks, function (chunk: OptionDataValue[]) {
+            arr = arr.concat(chunk);
+        });
+        return arr;
+    }
+    // All of the chunks of a column are in the same type.
+    const result = chunks[0] instanceof Int32Array ? new Int32Array(len) : new Float64Array(len);
+    let offset = 0;
+    each(chunks, function (chunk: Float64Array | Int32Array) {
+        result.set(chunk, offset);
+        offset += chunk.length;
+    });
+    return result;
+}
+
+function readInt64(view: DataView, pos: number): number {
+    return pos
+        ? view.getInt32(pos + 4, true) * 4294967296 + view.getUint32(pos, true)
+        : 0;
+}
+
+function readASCII(bytes: Uint8Array, start: number, end: number): string {
+    let str = '';
+    for (let i = start; i < end && i < bytes.length; i++) {
+        str += String.fromCharCode(bytes[i]);
+    }
+    return str;
+}
+
+function decodeUTF8(bytes: Uint8Array, start: number, end: number): string {
+    let str = '';
+    let i = start;
+    while (i < end) {
+        const c = bytes[i++];
+        let code;
+        if (c < 0x80) {
+            code = c;
+        }
+        else if (c < 0xe0) {
+            code = ((c & 0x1f) << 6) | (bytes[i++] & 0x3f);
+        }
+        else if (c < 0xf0) {
+            code = ((c & 0x0f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+        }
+        else {
+            code = ((c & 0x07) << 18) | ((bytes[i++] & 0x3f) << 12)
+                | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f);
+        }
+        if (code > 0xffff) {
+            code -= 0x10000;
+            str += String.fromCharCode(0xd800 + (code >> 10), 0xdc00 + (code & 0x3ff));
+        }
+        else {
+            str += String.fromCharCode(code);
+        }
+    }
+    return str;
+}
+
+function throwInvalid(reason: string): never {
+    let errMsg = '';
+    if (__DEV__) {
+        errMsg = 'Invalid Arrow data: ' + reason + '.';
+    }
+    throwError(errMsg);
+    return null as never;
+}
+
+function throwUnsupportedColumn(name: string): never {
+    let errMsg = '';
+    if (__DEV__) {
+        errMsg = 'The type of the Arrow field "' + name + '" is not supported.';
+    }
+    throwError(errMsg);
+    return null as never;
+}
+
+
+// ------------------------------------------------
+// A minimal flatbuffers reader. All of the "tables"
+// below are absolute positions in the data.
+// ------------------------------------------------
+
+function fbRoot(view: DataView, pos: number): number {
+    return pos + view.getUint32(pos, true);
+}
+
+/**
+ * @return Position of the field, or `0` if the field is absent.
+ */
+function fbField(view: DataView, table: number, fieldIdx: number): number {
+    const vtable = table - view.getInt32(table, true);
+    const vtableOffset = 4 + fieldIdx * 2;
+    const fieldOffset = vtableOffset < view.getUint16(vtable, true)
+        ? view.getUint16(vtable + vtableOffset, true)
+        : 0;
+    return fieldOffset ? table + fieldOffset : 0;
+}
+
+function fbUint8(view: DataView, table: number, fieldIdx: number): number {
+    const pos = fbField(view, table, fieldIdx);
+    return pos ? view.getUint8(pos) : 0;
+}
+
+function fbBool(view: DataView, table: number, fieldIdx: number): boolean {
+    return !!fbUint8(view, table, fieldIdx);
+}
+
+function fbInt16(view: DataView, table: number, fieldIdx: number, defaultValue?: number): number {
+    const pos = fbField(view, table, fieldIdx);
+    return pos ? view.getInt16(pos, true) : (defaultValue || 0);
+}
+
+function fbInt32(view: DataView, table: number, fieldIdx: number): number {
+    const pos = fbField(view, table, fieldIdx);
+    return pos ? view.getInt32(pos, true) : 0;
+}
+
+function fbTable(view: DataView, table: number, fieldIdx: number): number {
+    const pos = fbField(view, table, fieldIdx);
+    return pos ? pos + view.getUint32(pos, true) : 0;
+}
+
+/**
+ * @return Position of the first element, where the length is stored before it.
+ */
+function fbVector(view: DataView, table: number, fieldIdx: number): number {
+    const pos = fbTable(view, table, fieldIdx);
+    return pos ? pos + 4 : 0;
+}
+
+function fbMapTables<T>(
+    view: DataView, table: number, fieldIdx: number, cb: (table: number) => T
+): T[] {
+    const result: T[] = [];
+    const vector = fbVector(view, table, fieldIdx);
+    const len = vector ? view.getUint32(vector - 4, true) : 0;
+    for (let i = 0; i < len; i++) {
+        const pos = vector + i * 4;
+        result.push(cb(pos + view.getUint32(pos, true)));
+    }
+    return result;
+}
+
+function fbString(view: DataView, bytes: Uint8Array, table: number, fieldIdx: number): string {
+    const vector = fbVector(view, table, fieldIdx);
+    return vector
+        ? decodeUTF8(bytes, vector, vector + view.getUint32(vector - 4, true))
+        : null;
+}
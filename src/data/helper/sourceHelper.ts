@@ -29,7 +29,7 @@ import {
     HashMap,
     retrieve2
 } from 'zrender/src/core/util';
-import { SourceMetaRawOption, Source } from '../Source';
+import { SourceMetaRawOption, Source, isDictionaryColumn } from '../Source';
 
 import {
     SOURCE_FORMAT_ORIGINAL,
@@ -37,20 +37,25 @@ import {
     SOURCE_FORMAT_OBJECT_ROWS,
     SERIES_LAYOUT_BY_ROW,
     SOURCE_FORMAT_KEYED_COLUMNS,
+    SOURCE_FORMAT_KEYED_TYPED_COLUMNS,
     DimensionName,
     OptionSourceDataArrayRows,
     OptionDataValue,
     OptionSourceDataKeyedColumns,
+    OptionSourceDataKeyedTypedColumns,
     OptionSourceDataOriginal,
     OptionSourceDataObjectRows,
     OptionEncode,
     DimensionIndex,
+    DimensionType,
     SeriesEncodableModel
 } from '../../util/types';
 import { DatasetModel } from '../../component/dataset/install';
 import SeriesModel from '../../model/Series';
 import GlobalModel from '../../model/Global';
 import { CoordDimensionDefinition } from './createDimensions';
+import { getRawSourceDataCounter, getRawSourceItemGetter, getRawSourceValueGetter } from './dataProvider';
+import { parseDate } from '../../util/number';
 
 // The result of `guessOrdinal`.
 export const BE_ORDINAL = {
@@ -207,7 +212,10 @@ export function makeSeriesEncodeForNameBased(
     const dimensionsDefine = source.dimensionsDefine;
 
     let potentialNameDimIndex;
-    if (sourceFormat === SOURCE_FORMAT_OBJECT_ROWS || sourceFormat === SOURCE_FORMAT_KEYED_COLUMNS) {
+    if (sourceFormat === SOURCE_FORMAT_OBJECT_ROWS
+        || sourceFormat === SOURCE_FORMAT_KEYED_COLUMNS
+        || sourceFormat === SOURCE_FORMAT_KEYED_TYPED_COLUMNS
+    ) {
         each(dimensionsDefine, function (dim, idx) {
             if ((isObject(dim) ? dim.name : dim) === 'name') {
                 potentialNameDimIndex = idx;
@@ -323,12 +331,32 @@ export function queryDatasetUpstreamDatasetModels(
         return [];
     }
 
+    const indexOption = datasetModel.get('fromDatasetIndex', true);
+    const idOption = datasetModel.get('fromDatasetId', true);
+
+    // Multiple upstreams. Query them one by one to keep the order specified by user,
+    // which matters in some transforms like 'join'.
+    const isMultipleIndex = isArray(indexOption);
+    if (isMultipleIndex || (indexOption == null && isArray(idOption))) {
+        const models: DatasetModel[] = [];
+        each((isMultipleIndex ? indexOption : idOption) as (number | string)[], function (indexOrId) {
+            const model = queryReferringComponents(
+                datasetModel.ecModel,
+                'dataset',
+                isMultipleIndex ? { index: indexOrId as number } : { id: indexOrId },
+                SINGLE_REFERRING
+            ).models[0] as DatasetModel;
+            model && models.push(model);
+        });
+        return models;
+    }
+
     return queryReferringComponents(
         datasetModel.ecModel,
         'dataset',
         {
-            index: datasetModel.get('fromDatasetIndex', true),
-            id: datasetModel.get('fromDatasetId', true)
+            index: indexOption as number,
+            id: idOption as string
         },
         SINGLE_REFERRING
     ).models as DatasetModel[];
@@ -350,6 +378,42 @@ export function guessOrdinal(source: Source, dimIndex: DimensionIndex): BeOrdina
     );
 }
 
+/**
+ * Guess the type of a dimension by the values in source, which can be
+ * 'ordinal', 'time' (all of the sampled values are date strings that can
+ * be parsed by `parseDate`) or 'number'.
+ */
+export function guessDimensionType(source: Source, dimIndex: DimensionIndex): DimensionType {
+    const dimDefine = source.dimensionsDefine && source.dimensionsDefine[dimIndex];
+    if (dimDefine && dimDefine.type != null) {
+        return dimDefine.type;
+    }
+    if (guessOrdinal(source, dimIndex) !== BE_ORDINAL.Must) {
+        return 'number';
+    }
+
+    const data = source.data;
+    const startIndex = source.startIndex;
+    const dimsDef = source.dimensionsDefine;
+    const getItem = getRawSourceItemGetter(source.sourceFormat, source.seriesLayoutBy);
+    const getValue = getRawSourceValueGetter(source.sourceFormat);
+    const count = getRawSourceDataCounter(source.sourceFormat, source.seriesLayoutBy)(data, startIndex, dimsDef);
+    // Experience value, the same as `doGuessOrdinal`.
+    const maxLoop = 5;
+
+    for (let i = 0, sampled = 0; i < count && sampled < maxLoop; i++) {
+        const val = getValue(getItem(data, startIndex, dimsDef, i), dimIndex, dimDefine && dimDefine.name);
+        if (val == null || val === '' || val === '-') {
+            continue;
+        }
+        if (!isString(val) || isNaN(+parseDate(val))) {
+            return 'ordinal';
+        }
+        sampled++;
+    }
+    return 'time';
+}
+
 // dimIndex may be overflow source data.
 // return {BE_ORDINAL}
 function doGuessOrdinal(
@@ -433,6 +497,23 @@ function doGuessOrdinal(
             }
         }
     }
+    else if (sourceFormat === SOURCE_FORMAT_KEYED_TYPED_COLUMNS) {
+        const dataKeyedTypedColumns = data as OptionSourceDataKeyedTypedColumns;
+        if (!dimName) {
+            return BE_ORDINAL.Not;
+        }
+        const sample = dataKeyedTypedColumns[dimName];
+        if (!sample || isTypedArray(sample)) {
+            return BE_ORDINAL.Not;
+        }
+        // Dictionary values are detected. Index type is not considered.
+        const values = isDictionaryColumn(sample) ? sample.dictionary : sample;
+        for (let i = 0; i < values.length && i < maxLoop; i++) {
+            if ((result = detectValue(values[i])) != null) {
+                return result;
+            }
+        }
+    }
     else if (sourceFormat === SOURCE_FORMAT_ORIGINAL) {
         const dataOriginal = data as OptionSourceDataOriginal;
         for (let i = 0; i < dataOriginal.length && i < maxLoop; i++) {
@@ -30,6 +30,7 @@ import {
     querySeriesUpstreamDatasetModel, queryDatasetUpstreamDatasetModels
 } from './sourceHelper';
 import { applyDataTransform } from './transform';
+import { createSourceFromCSV } from './csv';
 
 
 /**
@@ -119,6 +120,10 @@ import { applyDataTransform } from './transform';
  *     id: 'regressionFormula',
  *     fromDatasetId: 'regressionData',
  *     fromTransformResult: 1
+ * }, {
+ *     // Multiple upstreams.
+ *     fromDatasetIndex: [0, 1],
+ *     transform: { type: 'join', config: {...} }
  * }]
  * ```
  */
@@ -248,13 +253,22 @@ export class SourceManager {
             // Is root dataset.
             else {
                 const sourceData = datasetModel.get('source', true);
-                resultSourceList = [createSource(
-                    sourceData,
-                    this._getSourceMetaRawOption(),
-                    null,
-                    // Note: dataset option does not have `encode`.
-                    null
-                )];
+                resultSourceList = [datasetModel.get('sourceFormat', true) === 'csv'
+                    ? createSourceFromCSV(
+                        sourceData as string,
+                        {
+                            delimiter: datasetModel.get('delimiter', true),
+                            header: datasetModel.get('header', true)
+                        },
+                        this._getSourceMetaRawOption()
+                    )
+                    : createSource(
+                        sourceData as OptionSourceData,
+                        this._getSourceMetaRawOption(),
+                        null,
+                        // Note: dataset option does not have `encode`.
+                        null
+                    )];
                 upstreamSignList = [];
             }
         }
@@ -55,6 +55,8 @@ import {
     PictorialBarChart,
     ThemeRiverChart,
     SunburstChart,
+    IcicleChart,
+    ChordChart,
     CustomChart
 } from './export/charts';
 
@@ -65,6 +67,7 @@ import {
     SingleAxisComponent,
     ParallelComponent,
     CalendarComponent,
+    MatrixComponent,
     GraphicComponent,
     ToolboxComponent,
     TooltipComponent,
@@ -87,6 +90,10 @@ import {
     TransformComponent
 } from './export/components';
 
+import {
+    UniversalTransition
+} from './export/features';
+
 
 // -----------------
 // Render engines
@@ -134,6 +141,8 @@ use([
     PictorialBarChart,
     ThemeRiverChart,
     SunburstChart,
+    IcicleChart,
+    ChordChart,
     CustomChart
 ]);
 
@@ -204,6 +213,15 @@ use(ParallelComponent);
 // );
 use(CalendarComponent);
 
+// `matrix` coordinate system. for example,
+// chart.setOption({
+//     matrix: {x: {data: [...]}, y: {data: [...]}},
+//     series: [{
+//         coordinateSystem: 'matrix'
+//     }]
+// });
+use(MatrixComponent);
+
 
 
 // ------------------
@@ -332,4 +350,10 @@ use(AriaComponent);
 // });
 use(TransformComponent);
 
-use(DatasetComponent);
\ No newline at end of file
+use(DatasetComponent);
+
+// Morph the data items between the series before and after `setOption`, for example:
+// chart.setOption({
+//     series: {type: 'bar', universalTransition: true}
+// });
+use(UniversalTransition);
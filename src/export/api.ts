@@ -41,6 +41,8 @@ export {use} from '../extension';
 //////////////// Helper Methods /////////////////////
 export {default as parseGeoJSON} from '../coord/geo/parseGeoJson';
 export {default as parseGeoJson} from '../coord/geo/parseGeoJson';
+export {default as parseArrowTable} from '../data/helper/parseArrowTable';
+export {createForceLayoutWorkerRunner} from '../chart/graph/forceWorker';
 
 export * as number from './api/number';
 export * as time from './api/time';
@@ -46,6 +46,8 @@ export {install as HeatmapChart} from '../chart/heatmap/install';
 export {install as PictorialBarChart} from '../chart/bar/installPictorialBar';
 export {install as ThemeRiverChart} from '../chart/themeRiver/install';
 export {install as SunburstChart} from '../chart/sunburst/install';
+export {install as IcicleChart} from '../chart/icicle/install';
+export {install as ChordChart} from '../chart/chord/install';
 export {install as CustomChart} from '../chart/custom/install';
 
 
@@ -71,6 +73,8 @@ export {install as CustomChart} from '../chart/custom/install';
 // export {PictorialBarSeriesOption} from '../chart/bar/PictorialBarSeries';
 // export {ThemeRiverSeriesOption} from '../chart/themeRiver/ThemeRiverSeries';
 // export {SunburstSeriesOption} from '../chart/sunburst/SunburstSeries';
+// export {IcicleSeriesOption} from '../chart/icicle/IcicleSeries';
+// export {ChordSeriesOption} from '../chart/chord/ChordSeries';
 // export {CustomSeriesOption} from '../chart/custom/install';
 
 export {
@@ -95,5 +99,7 @@ export {
     PictorialBarSeriesOption,
     ThemeRiverSeriesOption,
     SunburstSeriesOption,
+    IcicleSeriesOption,
+    ChordSeriesOption,
     CustomSeriesOption
 } from './option';
\ No newline at end of file
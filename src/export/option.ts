@@ -33,6 +33,7 @@ import type {SingleAxisOption as SingleAxisComponentOption} from '../coord/singl
 import type {ParallelAxisOption as ParallelAxisComponentOption} from '../coord/parallel/AxisModel';
 import type {ParallelCoordinateSystemOption as ParallelComponentOption} from '../coord/parallel/ParallelModel';
 import type {CalendarOption as CalendarComponentOption} from '../coord/calendar/CalendarModel';
+import type {MatrixOption as MatrixComponentOption} from '../coord/matrix/MatrixModel';
 import type {ToolboxOption} from '../component/toolbox/ToolboxModel';
 import type {TooltipOption as TooltipComponentOption} from '../component/tooltip/TooltipModel';
 import type {AxisPointerOption as AxisPointerComponentOption} from '../component/axisPointer/AxisPointerModel';
@@ -83,6 +84,8 @@ import type {HeatmapSeriesOption as HeatmapSeriesOptionInner} from '../chart/hea
 import type {PictorialBarSeriesOption as PictorialBarSeriesOptionInner} from '../chart/bar/PictorialBarSeries';
 import type {ThemeRiverSeriesOption as ThemeRiverSeriesOptionInner} from '../chart/themeRiver/ThemeRiverSeries';
 import type {SunburstSeriesOption as SunburstSeriesOptionInner} from '../chart/sunburst/SunburstSeries';
+import type {IcicleSeriesOption as IcicleSeriesOptionInner} from '../chart/icicle/IcicleSeries';
+import type {ChordSeriesOption as ChordSeriesOptionInner} from '../chart/chord/ChordSeries';
 import type {CustomSeriesOption as CustomSeriesOptionInner} from '../chart/custom/install';
 
 import type { GraphicComponentLooseOption as GraphicComponentOption } from '../component/graphic/install';
@@ -132,6 +135,7 @@ export {
     AngleAxisComponentOption,
     ParallelComponentOption,
     CalendarComponentOption,
+    MatrixComponentOption,
     TooltipComponentOption,
     AxisPointerComponentOption,
     BrushComponentOption,
@@ -176,6 +180,8 @@ export type HeatmapSeriesOption = HeatmapSeriesOptionInner & SeriesInjectedOptio
 export type PictorialBarSeriesOption = PictorialBarSeriesOptionInner & SeriesInjectedOption;
 export type ThemeRiverSeriesOption = ThemeRiverSeriesOptionInner & SeriesInjectedOption;
 export type SunburstSeriesOption = SunburstSeriesOptionInner & SeriesInjectedOption;
+export type IcicleSeriesOption = IcicleSeriesOptionInner & SeriesInjectedOption;
+export type ChordSeriesOption = ChordSeriesOptionInner & SeriesInjectedOption;
 export type CustomSeriesOption = CustomSeriesOptionInner & SeriesInjectedOption;
 
 export type SeriesOption = LineSeriesOption
@@ -199,6 +205,8 @@ export type SeriesOption = LineSeriesOption
     | PictorialBarSeriesOption
     | ThemeRiverSeriesOption
     | SunburstSeriesOption
+    | IcicleSeriesOption
+    | ChordSeriesOption
     | CustomSeriesOption;
 
 export interface EChartsOption extends ECBasicOption {
@@ -217,6 +225,7 @@ export interface EChartsOption extends ECBasicOption {
     parallel?: ParallelComponentOption | ParallelComponentOption[];
     parallelAxis?: ParallelAxisComponentOption | ParallelAxisComponentOption[];
     calendar?: CalendarComponentOption | CalendarComponentOption[];
+    matrix?: MatrixComponentOption | MatrixComponentOption[];
     toolbox?: ToolboxComponentOption | ToolboxComponentOption[];
     tooltip?: TooltipComponentOption | TooltipComponentOption[];
     axisPointer?: AxisPointerComponentOption | AxisPointerComponentOption[];
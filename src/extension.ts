@@ -22,6 +22,7 @@ import {
     registerProcessor,
     registerPostInit,
     registerPostUpdate,
+    registerUpdateLifecycle,
     registerAction,
     registerCoordinateSystem,
     registerLayout,
@@ -29,6 +30,7 @@ import {
     registerTransform,
     registerLoading,
     registerMap,
+    registerCustomSeries,
     PRIORITY
 } from './core/echarts';
 import ComponentView from './view/Component';
@@ -47,6 +49,7 @@ const extensionRegisters = {
     registerProcessor,
     registerPostInit,
     registerPostUpdate,
+    registerUpdateLifecycle,
     registerAction,
     registerCoordinateSystem,
     registerLayout,
@@ -54,6 +57,7 @@ const extensionRegisters = {
     registerTransform,
     registerLoading,
     registerMap,
+    registerCustomSeries,
     PRIORITY,
 
     ComponentModel,
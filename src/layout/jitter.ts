@@ -0,0 +1,200 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { isArray } from 'zrender/src/core/util';
+import createRenderPlanner from '../chart/helper/createRenderPlanner';
+import type Cartesian2D from '../coord/cartesian/Cartesian2D';
+import type Axis2D from '../coord/cartesian/Axis2D';
+import SeriesModel from '../model/Series';
+import List from '../data/List';
+import { makeInner } from '../util/model';
+import { createFloat32Array } from '../util/vendor';
+import { StageHandler, Dictionary } from '../util/types';
+
+interface PlacedItem {
+    offset: number
+    floatCoord: number
+    radius: number
+}
+
+const inner = makeInner<{
+    // Offset of each point along the category axis, indexed by data index.
+    offsets: number[] | Float32Array
+    dimIdx: number
+}, List>();
+
+/**
+ * Pseudo random number in [0, 1) so that the jitter is stable across re-renders.
+ */
+function pseudoRandom(seed: number): number {
+    const x = Math.sin(seed * 12.9898 + 78.233) * 43758.5453;
+    return x - Math.floor(x);
+}
+
+function findJitterAxis(coordSys: Cartesian2D): Axis2D {
+    const axes = coordSys.getAxes();
+    for (let i = 0; i < axes.length; i++) {
+        const axis = axes[i];
+        if (axis.type === 'category' && axis.model.get('jitter') > 0) {
+            return axis;
+        }
+    }
+}
+
+function getSymbolRadius(data: List, dataIndex: number, isLarge: boolean, dimIdx: number): number {
+    const size = isLarge ? data.getVisual('symbolSize') : data.getItemVisual(dataIndex, 'symbolSize');
+    return ((isArray(size) ? size[dimIdx] : size) || 0) / 2;
+}
+
+/**
+ * Find the offset closest to the band center that doesn't overlap the placed items,
+ * like a beeswarm plot. Return null if no space left.
+ */
+function placeAvoidOverlap(
+    items: PlacedItem[],
+    floatCoord: number,
+    radius: number,
+    margin: number,
+    maxOffset: number
+): number {
+    const candidates = [0];
+    for (let i = 0; i < items.length; i++) {
+        const item = items[i];
+        const dist = radius + item.radius + margin;
+        const dy = floatCoord - item.floatCoord;
+        if (Math.abs(dy) < dist) {
+            const dx = Math.sqrt(dist * dist - dy * dy);
+            candidates.push(item.offset + dx, item.offset - dx);
+        }
+    }
+    candidates.sort(function (a, b) {
+        return Math.abs(a) - Math.abs(b) || a - b;
+    });
+
+    for (let i = 0; i < candidates.length; i++) {
+        const offset = candidates[i];
+        if (Math.abs(offset) > maxOffset + 1e-6) {
+            // Candidates are sorted.
+            return null;
+        }
+        let overlapped = false;
+        for (let j = 0; j < items.length && !overlapped; j++) {
+            const item = items[j];
+            const dist = radius + item.radius + margin;
+            const dx = offset - item.offset;
+            const dy = floatCoord - item.floatCoord;
+            overlapped = dx * dx + dy * dy < dist * dist - 1e-6;
+        }
+        if (!overlapped) {
+            return offset;
+        }
+    }
+    return null;
+}
+
+/**
+ * Spread the points in the same category band, configured by `jitter`
+ * on the category axis. It runs after the symbol size visual is encoded.
+ */
+export default function jitterLayout(seriesType: string): StageHandler {
+    return {
+        seriesType: seriesType,
+
+        plan: createRenderPlanner(),
+
+        reset: function (seriesModel: SeriesModel) {
+            const coordSys = seriesModel.coordinateSystem as Cartesian2D;
+            const data = seriesModel.getData();
+            inner(data).offsets = null;
+
+            if (!coordSys || coordSys.type !== 'cartesian2d') {
+                return;
+            }
+            const axis = findJitterAxis(coordSys);
+            if (!axis) {
+                return;
+            }
+
+            const axisModel = axis.model;
+            const dimIdx = axis.dim === 'x' ? 0 : 1;
+            const spread = Math.min(axisModel.get('jitter'), axis.getBandWidth());
+            const jitterOverlap = axisModel.get('jitterOverlap');
+            const margin = axisModel.get('jitterMargin') || 0;
+            const isLarge = seriesModel.pipelineContext.large;
+            const offsets = inner(data).offsets = createFloat32Array(data.count());
+            inner(data).dimIdx = dimIdx;
+            // Placed items in each band, only used when avoiding overlap.
+            const bands: Dictionary<PlacedItem[]> = {};
+
+            return {
+                progress(params, data) {
+                    const points = isLarge && data.getLayout('points') as ArrayLike<number>;
+
+                    for (let i = params.start; i < params.end; i++) {
+                        const point: ArrayLike<number> = points
+                            ? [points[(i - params.start) * 2], points[(i - params.start) * 2 + 1]]
+                            : data.getItemLayout(i);
+                        if (!point || isNaN(point[0]) || isNaN(point[1])) {
+                            continue;
+                        }
+
+                        const radius = getSymbolRadius(data, i, isLarge, dimIdx);
+                        const random = (pseudoRandom(data.getRawIndex(i)) - 0.5) * spread;
+                        let offset: number;
+                        if (jitterOverlap) {
+                            offset = random;
+                        }
+                        else {
+                            const bandKey = Math.round(point[dimIdx]);
+                            const items = bands[bandKey] || (bands[bandKey] = []);
+                            const floatCoord = point[1 - dimIdx];
+                            offset = placeAvoidOverlap(
+                                items, floatCoord, radius, margin, Math.max(spread / 2 - radius, 0)
+                            );
+                            // No space left in the band.
+                            if (offset == null) {
+                                offset = random;
+                            }
+                            items.push({ offset: offset, floatCoord: floatCoord, radius: radius });
+                        }
+
+                        offsets[i] = offset;
+                        if (points) {
+                            (points as Float32Array)[(i - params.start) * 2 + dimIdx] += offset;
+                        }
+                        else {
+                            (point as number[])[dimIdx] += offset;
+                        }
+                    }
+                }
+            };
+        }
+    };
+}
+
+/**
+ * Apply the jitter offset of the data item to the point, used in `convertToPixel`.
+ */
+export function applyJitter(data: List, dataIndex: number, point: number[]): number[] {
+    const store = inner(data);
+    if (store.offsets && point && dataIndex >= 0 && dataIndex < store.offsets.length) {
+        point[store.dimIdx] += store.offsets[dataIndex];
+    }
+    return point;
+}
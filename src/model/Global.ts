@@ -132,6 +132,7 @@ const BUILTIN_CHARTS_MAP = {
     pictorialBar: 'PictorialBarChart',
     themeRiver: 'ThemeRiverChart',
     sunburst: 'SunburstChart',
+    icicle: 'IcicleChart',
     custom: 'CustomChart'
 } as const;
 
@@ -47,6 +47,7 @@ import type { BrushCommonSelectorsForSeries, BrushSelectableArea } from '../comp
 import makeStyleMapper from './mixin/makeStyleMapper';
 import { SourceManager } from '../data/helper/sourceManager';
 import { Source } from '../data/Source';
+import { querySeriesUpstreamDatasetModel } from '../data/helper/sourceHelper';
 import { defaultSeriesFormatTooltip } from '../component/tooltip/seriesFormatTooltip';
 import {ECSymbol} from '../util/symbol';
 import {Group} from '../util/graphic';
@@ -336,6 +337,26 @@ class SeriesModel<Opt extends SeriesOption = SeriesOption> extends ComponentMode
         data.appendData(params.data);
     }
 
+    /**
+     * Append data and remove the oldest items that exceed `maxCount`,
+     * which keeps a sliding window of streaming data.
+     */
+    streamData(params: {data: ArrayLike<any>, maxCount?: number}): void {
+        const data = this.getRawData();
+        // The source of a dataset is shared by all of the series on it,
+        // which should not be modified under the other series.
+        if (querySeriesUpstreamDatasetModel(this)) {
+            const provider = data.getProvider();
+            provider.detachData && provider.detachData();
+        }
+        data.appendData(params.data);
+
+        const maxCount = params.maxCount;
+        if (maxCount != null && maxCount >= 0 && data.count() > maxCount) {
+            data.shiftData(data.count() - maxCount);
+        }
+    }
+
     /**
      * Consider some method like `filter`, `map` need make new data,
      * We should make sure that `seriesModel.getData()` get correct
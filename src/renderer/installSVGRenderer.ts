@@ -19,7 +19,24 @@
 
 import { EChartsExtensionInstallRegisters } from '../extension';
 import SVGPainter from 'zrender/src/svg/Painter';
+import Storage from 'zrender/src/Storage';
+import env from 'zrender/src/core/env';
+import SVGSSRPainter, { SVGSSRPainterOption } from './svg/SSRPainter';
+import { installTextMeasureFallback } from './svg/measureText';
+
+/**
+ * Use the string painter in server side rendering, which doesn't need DOM.
+ */
+function SVGPainterFactory(root: HTMLElement, storage: Storage, opts: SVGSSRPainterOption, zrId: number) {
+    return opts && opts.ssr
+        ? new SVGSSRPainter(root, storage, opts, zrId)
+        : new SVGPainter(root, storage, opts, zrId);
+}
 
 export function install(registers: EChartsExtensionInstallRegisters) {
-    registers.registerPainter('svg', SVGPainter);
-}
\ No newline at end of file
+    registers.registerPainter('svg', SVGPainterFactory as unknown as typeof SVGPainter);
+
+    if (!env.domSupported) {
+        installTextMeasureFallback();
+    }
+}
@@ -0,0 +1,209 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { PainterBase } from 'zrender/src/PainterBase';
+import Storage from 'zrender/src/Storage';
+import Displayable from 'zrender/src/graphic/Displayable';
+import timsort from 'zrender/src/core/timsort';
+import { isString, noop } from 'zrender/src/core/util';
+import { GradientObject } from 'zrender/src/graphic/Gradient';
+import { PatternObject } from 'zrender/src/graphic/Pattern';
+import { brush, createBrushScope } from './graphic';
+import { createVNode, renderVNode, SVGVNode } from './vdom';
+import { SSRMeta } from './ssrMeta';
+
+export interface SVGSSRPainterOption {
+    width?: number | string
+    height?: number | string
+    ssr?: boolean
+}
+
+export interface SVGRenderToStringOption {
+    /**
+     * Use `viewBox` so that the SVG can be scaled with its container.
+     */
+    useViewBox?: boolean
+    /**
+     * Metadata written to the element as `data-ec-*` attributes. See `ssrMeta.ts`.
+     */
+    getElementMeta?: (el: Displayable) => SSRMeta
+}
+
+const DEFAULT_WIDTH = 300;
+const DEFAULT_HEIGHT = 150;
+
+function parseSize(size: number | string, defaultSize: number): number {
+    const num = parseFloat(size as string);
+    return isNaN(num) ? defaultSize : num;
+}
+
+/**
+ * zrender binds DOM events on the viewport root unless it runs in node (judged by
+ * the absence of `navigator`), which also happens in jsdom, browsers and node 21+.
+ * The dummy root accepts the listeners but never triggers any event.
+ */
+function createDummyViewportRoot(): HTMLElement {
+    return {
+        style: {},
+        addEventListener: noop,
+        removeEventListener: noop,
+        // Used where `addEventListener` is not on `window`.
+        attachEvent: noop,
+        detachEvent: noop
+    } as unknown as HTMLElement;
+}
+
+function shapeCompareFunc(a: Displayable, b: Displayable): number {
+    if (a.zlevel === b.zlevel) {
+        if (a.z === b.z) {
+            return a.z2 - b.z2;
+        }
+        return a.z - b.z;
+    }
+    return a.zlevel - b.zlevel;
+}
+
+/**
+ * SVG painter which doesn't touch DOM. Displayables are converted to a
+ * virtual DOM and serialized to string by `renderToString`.
+ * It's used in server side rendering.
+ */
+class SVGSSRPainter implements PainterBase {
+
+    type = 'svg';
+
+    root: HTMLElement = null;
+
+    storage: Storage;
+
+    private _zrId: number;
+
+    private _width: number;
+    private _height: number;
+
+    private _backgroundColor: string;
+
+    private _viewportRoot = createDummyViewportRoot();
+
+    constructor(root: HTMLElement, storage: Storage, opts: SVGSSRPainterOption, zrId: number) {
+        this.storage = storage;
+        this._zrId = zrId;
+        opts = opts || {};
+        this.resize(opts.width, opts.height);
+    }
+
+    getType() {
+        return 'svg';
+    }
+
+    getViewportRoot(): HTMLElement {
+        return this._viewportRoot;
+    }
+
+    getViewportRootOffset(): { offsetLeft: number, offsetTop: number } {
+        return;
+    }
+
+    resize(width?: number | string, height?: number | string) {
+        this._width = parseSize(width, this._width || DEFAULT_WIDTH);
+        this._height = parseSize(height, this._height || DEFAULT_HEIGHT);
+    }
+
+    getWidth() {
+        return this._width;
+    }
+
+    getHeight() {
+        return this._height;
+    }
+
+    setBackgroundColor(backgroundColor: string | GradientObject | PatternObject) {
+        // Only plain color is supported.
+        this._backgroundColor = isString(backgroundColor) ? backgroundColor : null;
+    }
+
+    /**
+     * Nothing is painted until `renderToString`.
+     */
+    refresh() {}
+
+    refreshHover() {}
+
+    clear() {}
+
+    dispose() {}
+
+    configLayer() {}
+
+    pathToImage(): null {
+        return null;
+    }
+
+    renderToVNode(opts?: SVGRenderToStringOption): SVGVNode {
+        opts = opts || {};
+        const width = this._width;
+        const height = this._height;
+        const scope = createBrushScope(this._zrId, opts.getElementMeta);
+
+        // Display list is not sorted by storage if canvas is not supported, such as in node.
+        const list = this.storage.getDisplayList(true).slice();
+        timsort(list, shapeCompareFunc);
+
+        const children: SVGVNode[] = [];
+        for (let i = 0; i < list.length; i++) {
+            const el = list[i];
+            if (!el.invisible) {
+                const vnode = brush(el, scope);
+                vnode && children.push(vnode);
+            }
+        }
+
+        const bgColor = this._backgroundColor;
+        const bgNodes = bgColor && bgColor !== 'none' && bgColor !== 'transparent'
+            ? [createVNode('rect', {
+                width: width,
+                height: height,
+                x: 0,
+                y: 0,
+                id: 0,
+                fill: bgColor
+            })]
+            : [];
+
+        return createVNode('svg', {
+            width: width,
+            height: height,
+            xmlns: 'http://www.w3.org/2000/svg',
+            'xmlns:xlink': 'http://www.w3.org/1999/xlink',
+            version: '1.1',
+            baseProfile: 'full',
+            viewBox: opts.useViewBox ? '0 0 ' + width + ' ' + height : null
+        }, [].concat(
+            bgNodes,
+            scope.defs.length ? [createVNode('defs', null, scope.defs)] : [],
+            children
+        ));
+    }
+
+    renderToString(opts?: SVGRenderToStringOption): string {
+        return renderVNode(this.renderToVNode(opts));
+    }
+}
+
+export default SVGSSRPainter;
@@ -0,0 +1,422 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+/**
+ * Convert the displayables to virtual nodes. The output is consistent with
+ * the SVG painter of zrender, except that shadows and patterns are not supported.
+ */
+
+import Displayable from 'zrender/src/graphic/Displayable';
+import Path, { PathStyleProps } from 'zrender/src/graphic/Path';
+import ZRImage from 'zrender/src/graphic/Image';
+import TSpan from 'zrender/src/graphic/TSpan';
+import { PathRebuilder } from 'zrender/src/core/PathProxy';
+import { MatrixArray } from 'zrender/src/core/matrix';
+import { GradientObject } from 'zrender/src/graphic/Gradient';
+import { LinearGradientObject } from 'zrender/src/graphic/LinearGradient';
+import { RadialGradientObject } from 'zrender/src/graphic/RadialGradient';
+import { DEFAULT_FONT, getLineHeight } from 'zrender/src/contain/text';
+import { normalizeLineDash } from 'zrender/src/graphic/helper/dashStyle';
+import { parse as parseColor, toHex } from 'zrender/src/tool/color';
+import { map, indexOf, isString } from 'zrender/src/core/util';
+import { createVNode, SVGVNode, SVGVNodeAttrs } from './vdom';
+import { SSRMeta, getSSRMetaKeys, getSSRMetaAttrName } from './ssrMeta';
+
+const NONE = 'none';
+const PI = Math.PI;
+const PI2 = PI * 2;
+const DEGREE = 180 / PI;
+const EPSILON = 1e-4;
+
+/**
+ * Definitions shared by the elements of one rendering.
+ */
+export interface BrushScope {
+    zrId: number
+    defs: SVGVNode[]
+    gradients: GradientObject[]
+    clipPaths: Path[]
+    getElementMeta?: (el: Displayable) => SSRMeta
+}
+
+export function createBrushScope(zrId: number, getElementMeta?: BrushScope['getElementMeta']): BrushScope {
+    return {
+        zrId: zrId,
+        defs: [],
+        gradients: [],
+        clipPaths: [],
+        getElementMeta: getElementMeta
+    };
+}
+
+function round3(val: number) {
+    return Math.round(val * 1e3) / 1e3;
+}
+function round4(val: number) {
+    return Math.round(val * 1e4) / 1e4;
+}
+
+function isAroundZero(val: number) {
+    return val < EPSILON && val > -EPSILON;
+}
+
+function isGradient(value: unknown): value is GradientObject {
+    return value && ((value as GradientObject).type === 'linear' || (value as GradientObject).type === 'radial');
+}
+
+class SVGPathBuilder implements PathRebuilder {
+    private _d: (string | number)[] = [];
+    private _invalid = false;
+
+    moveTo(x: number, y: number) {
+        this._add('M', x, y);
+    }
+    lineTo(x: number, y: number) {
+        this._add('L', x, y);
+    }
+    bezierCurveTo(x: number, y: number, x2: number, y2: number, x3: number, y3: number) {
+        this._add('C', x, y, x2, y2, x3, y3);
+    }
+    quadraticCurveTo(x: number, y: number, x2: number, y2: number) {
+        this._add('Q', x, y, x2, y2);
+    }
+    arc(cx: number, cy: number, r: number, startAngle: number, endAngle: number, anticlockwise: boolean) {
+        this.ellipse(cx, cy, r, r, 0, startAngle, endAngle, anticlockwise);
+    }
+    ellipse(
+        cx: number, cy: number, rx: number, ry: number, psi: number,
+        startAngle: number, endAngle: number, anticlockwise: boolean
+    ) {
+        const firstCmd = this._d.length === 0;
+        const clockwise = !anticlockwise;
+        let dTheta = endAngle - startAngle;
+        const dThetaPositive = Math.abs(dTheta);
+        const isCircle = isAroundZero(dThetaPositive - PI2)
+            || (clockwise ? dTheta >= PI2 : -dTheta >= PI2);
+        // Mapping to 0~2PI
+        const unifiedTheta = dTheta > 0 ? dTheta % PI2 : (dTheta % PI2 + PI2);
+
+        let large = false;
+        if (isCircle) {
+            large = true;
+        }
+        else if (!isAroundZero(dThetaPositive)) {
+            large = (unifiedTheta >= PI) === clockwise;
+        }
+
+        const x0 = round4(cx + rx * Math.cos(startAngle));
+        const y0 = round4(cy + ry * Math.sin(startAngle));
+
+        // Arc is not drawn if the start point and the end point are the same.
+        if (isCircle) {
+            dTheta = clockwise ? PI2 - 1e-4 : -PI2 + 1e-4;
+            if (firstCmd) {
+                this._d.push('M', x0, y0);
+            }
+        }
+
+        const x = round4(cx + rx * Math.cos(startAngle + dTheta));
+        const y = round4(cy + ry * Math.sin(startAngle + dTheta));
+        if (isNaN(x0) || isNaN(y0) || isNaN(rx) || isNaN(ry) || isNaN(psi) || isNaN(x) || isNaN(y)) {
+            return;
+        }
+        this._d.push('A', round4(rx), round4(ry), Math.round(psi * DEGREE), +large, +clockwise, x, y);
+    }
+    rect(x: number, y: number, w: number, h: number) {
+        this._add('M', x, y);
+        this._add('L', x + w, y);
+        this._add('L', x + w, y + h);
+        this._add('L', x, y + h);
+        this._add('L', x, y);
+    }
+    closePath() {
+        // Not use Z as first command
+        if (this._d.length > 0) {
+            this._add('Z');
+        }
+    }
+
+    private _add(cmd: string, ...args: number[]) {
+        this._d.push(cmd);
+        for (let i = 0; i < args.length; i++) {
+            if (isNaN(args[i])) {
+                this._invalid = true;
+                return;
+            }
+            this._d.push(round4(args[i]));
+        }
+    }
+
+    getStr() {
+        return this._invalid ? '' : this._d.join(' ');
+    }
+}
+
+function getPathData(el: Path): string {
+    if (!el.path) {
+        el.createPathProxy();
+    }
+    const path = el.path;
+    if (el.shapeChanged()) {
+        path.beginPath();
+        el.buildPath(path, el.shape);
+        el.pathUpdated();
+    }
+    const builder = new SVGPathBuilder();
+    path.rebuildPath(builder, el.style.strokePercent == null ? 1 : el.style.strokePercent);
+    return builder.getStr();
+}
+
+function getGradientId(gradient: GradientObject, scope: BrushScope): string {
+    let idx = indexOf(scope.gradients, gradient);
+    if (idx < 0) {
+        idx = scope.gradients.length;
+        scope.gradients.push(gradient);
+
+        const attrs: SVGVNodeAttrs = {
+            id: 'zr' + scope.zrId + '-gradient-' + idx,
+            gradientUnits: gradient.global ? 'userSpaceOnUse' : 'objectBoundingBox'
+        };
+        if (gradient.type === 'linear') {
+            attrs.x1 = (gradient as LinearGradientObject).x;
+            attrs.y1 = (gradient as LinearGradientObject).y;
+            attrs.x2 = (gradient as LinearGradientObject).x2;
+            attrs.y2 = (gradient as LinearGradientObject).y2;
+        }
+        else {
+            attrs.cx = (gradient as RadialGradientObject).x;
+            attrs.cy = (gradient as RadialGradientObject).y;
+            attrs.r = (gradient as RadialGradientObject).r;
+        }
+        const stops = map(gradient.colorStops, function (stop) {
+            const color = stop.color;
+            const stopAttrs: SVGVNodeAttrs = {
+                offset: stop.offset * 100 + '%'
+            };
+            // Alpha in stop-color is not recognized by Safari.
+            if (color.indexOf('rgba') > -1) {
+                stopAttrs['stop-color'] = '#' + toHex(color);
+                stopAttrs['stop-opacity'] = parseColor(color)[3];
+            }
+            else {
+                stopAttrs['stop-color'] = color;
+            }
+            return createVNode('stop', stopAttrs);
+        });
+        scope.defs.push(createVNode(gradient.type === 'linear' ? 'linearGradient' : 'radialGradient', attrs, stops));
+    }
+    return 'zr' + scope.zrId + '-gradient-' + idx;
+}
+
+function getPaint(paint: PathStyleProps['fill'], scope: BrushScope): string {
+    if (isGradient(paint)) {
+        return 'url(#' + getGradientId(paint, scope) + ')';
+    }
+    // Patterns are not supported.
+    return isString(paint) && paint !== 'transparent' ? paint : NONE;
+}
+
+function setTransform(attrs: SVGVNodeAttrs, m: MatrixArray) {
+    if (m) {
+        attrs.transform = 'matrix('
+            + round3(m[0]) + ','
+            + round3(m[1]) + ','
+            + round3(m[2]) + ','
+            + round3(m[3]) + ','
+            + round4(m[4]) + ','
+            + round4(m[5])
+            + ')';
+    }
+}
+
+function setStyle(attrs: SVGVNodeAttrs, el: Path | TSpan, scope: BrushScope) {
+    const style = el.style as PathStyleProps;
+    const opacity = style.opacity == null ? 1 : style.opacity;
+    const fill = style.fill;
+    const stroke = style.stroke;
+
+    if (fill != null && fill !== NONE) {
+        attrs.fill = getPaint(fill, scope);
+        attrs['fill-opacity'] = style.fillOpacity != null ? style.fillOpacity * opacity : opacity;
+    }
+    else {
+        attrs.fill = NONE;
+    }
+
+    if (stroke != null && stroke !== NONE) {
+        const strokeWidth = style.lineWidth;
+        const strokeScale = style.strokeNoScale ? (el as Path).getLineScale() : 1;
+        attrs.stroke = getPaint(stroke, scope);
+        attrs['stroke-width'] = strokeScale ? strokeWidth / strokeScale : 0;
+        // stroke then fill for text; fill then stroke for others
+        attrs['paint-order'] = style.strokeFirst ? 'stroke' : 'fill';
+        attrs['stroke-opacity'] = style.strokeOpacity != null ? style.strokeOpacity * opacity : opacity;
+
+        let lineDash = style.lineDash && strokeWidth > 0 && normalizeLineDash(style.lineDash, strokeWidth);
+        if (lineDash) {
+            let lineDashOffset = style.lineDashOffset;
+            if (strokeScale && strokeScale !== 1) {
+                lineDash = map(lineDash, function (rawVal) {
+                    return rawVal / strokeScale;
+                });
+                if (lineDashOffset) {
+                    lineDashOffset = Math.round(lineDashOffset / strokeScale);
+                }
+            }
+            attrs['stroke-dasharray'] = lineDash.join(',');
+            attrs['stroke-dashoffset'] = lineDashOffset || 0;
+        }
+        style.lineCap && (attrs['stroke-linecap'] = style.lineCap);
+        style.lineJoin && (attrs['stroke-linejoin'] = style.lineJoin);
+        style.miterLimit && (attrs['stroke-miterlimit'] = style.miterLimit);
+    }
+    else {
+        attrs.stroke = NONE;
+    }
+}
+
+function brushPath(el: Path, scope: BrushScope): SVGVNode {
+    const attrs: SVGVNodeAttrs = {
+        d: getPathData(el)
+    };
+    setStyle(attrs, el, scope);
+    setTransform(attrs, el.transform);
+    return createVNode('path', attrs);
+}
+
+function brushImage(el: ZRImage): SVGVNode {
+    const style = el.style;
+    const image = style.image;
+    let src: string;
+    if (isString(image)) {
+        src = image;
+    }
+    // Image and canvas elements only exist when DOM is supported.
+    else if (image && (image as HTMLImageElement).src) {
+        src = (image as HTMLImageElement).src;
+    }
+    else if (image && (image as HTMLCanvasElement).toDataURL) {
+        src = (image as HTMLCanvasElement).toDataURL();
+    }
+    if (!src) {
+        return;
+    }
+    const attrs: SVGVNodeAttrs = {
+        'xlink:href': src,
+        width: style.width,
+        height: style.height,
+        x: style.x || 0,
+        y: style.y || 0,
+        opacity: style.opacity == null ? 1 : style.opacity
+    };
+    setTransform(attrs, el.transform);
+    return createVNode('image', attrs);
+}
+
+const TEXT_ALIGN_TO_ANCHOR = {
+    left: 'start',
+    right: 'end',
+    center: 'middle',
+    middle: 'middle'
+};
+
+function brushText(el: TSpan, scope: BrushScope): SVGVNode {
+    const style = el.style;
+    let text = style.text;
+    text != null && (text += '');
+    if (!text || isNaN(style.x) || isNaN(style.y)) {
+        return;
+    }
+    const font = style.font || DEFAULT_FONT;
+
+    // Always use vertical align 'middle' and locate text by `y`,
+    // in case different fonts are displayed differently in vertical align.
+    let y = style.y || 0;
+    const lineHeight = getLineHeight(font);
+    if (style.textBaseline === 'top') {
+        y += lineHeight / 2;
+    }
+    else if (style.textBaseline === 'bottom') {
+        y -= lineHeight / 2;
+    }
+
+    const attrs: SVGVNodeAttrs = {
+        'xml:space': 'preserve',
+        style: 'font:' + font,
+        'dominant-baseline': 'central',
+        'text-anchor': TEXT_ALIGN_TO_ANCHOR[style.textAlign as keyof typeof TEXT_ALIGN_TO_ANCHOR]
+            || style.textAlign,
+        x: style.x || 0,
+        y: y
+    };
+    setStyle(attrs, el, scope);
+    setTransform(attrs, el.transform);
+    return createVNode('text', attrs, null, text);
+}
+
+function getClipPathId(clipPath: Path, scope: BrushScope): string {
+    let idx = indexOf(scope.clipPaths, clipPath);
+    if (idx < 0) {
+        idx = scope.clipPaths.length;
+        scope.clipPaths.push(clipPath);
+        const attrs: SVGVNodeAttrs = {
+            d: getPathData(clipPath)
+        };
+        setTransform(attrs, clipPath.transform);
+        scope.defs.push(createVNode('clipPath', {
+            id: 'zr' + scope.zrId + '-clip-' + idx
+        }, [createVNode('path', attrs)]));
+    }
+    return 'zr' + scope.zrId + '-clip-' + idx;
+}
+
+/**
+ * Create virtual node of the displayable. Return `undefined` if nothing needs to be drawn.
+ */
+export function brush(el: Displayable, scope: BrushScope): SVGVNode {
+    let vnode = el instanceof Path
+        ? brushPath(el, scope)
+        : el instanceof ZRImage
+        ? brushImage(el)
+        : el instanceof TSpan
+        ? brushText(el, scope)
+        : null;
+
+    const meta = vnode && scope.getElementMeta && scope.getElementMeta(el);
+    if (meta) {
+        const metaKeys = getSSRMetaKeys();
+        for (let i = 0; i < metaKeys.length; i++) {
+            const val = meta[metaKeys[i]];
+            if (val != null) {
+                vnode.attrs[getSSRMetaAttrName(metaKeys[i])] = val;
+            }
+        }
+    }
+
+    const clipPaths = el.__clipPaths;
+    if (vnode && clipPaths) {
+        // The inner clip path is at the end.
+        for (let i = clipPaths.length - 1; i >= 0; i--) {
+            vnode = createVNode('g', {
+                'clip-path': 'url(#' + getClipPathId(clipPaths[i], scope) + ')'
+            }, [vnode]);
+        }
+    }
+    return vnode;
+}
@@ -0,0 +1,248 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+/* global document, window */
+
+/**
+ * Lightweight runtime attaching interactions to the SVG rendered by
+ * `renderToSVGString` on the server. It only depends on the metadata
+ * attributes written to the elements, see `ssrMeta.ts`.
+ */
+
+import { extend } from 'zrender/src/core/util';
+import { SSRMeta, getSSRMetaAttrName, getSSRMetaKeys } from './ssrMeta';
+
+export interface HydrateItemParams extends SSRMeta {
+    event: MouseEvent
+}
+
+export interface HydrateOption {
+    /**
+     * Show tooltip of the series items. `formatter` returns plain text.
+     */
+    tooltip?: boolean | {
+        formatter?: (params: HydrateItemParams) => string
+    }
+    /**
+     * Toggle series (or data items with the same name) by clicking the legend items.
+     */
+    legend?: boolean
+    /**
+     * Blur other series when hovering on a series item.
+     */
+    emphasis?: boolean | {
+        blurOpacity?: number
+    }
+    on?: {
+        click?: (params: HydrateItemParams) => void
+        mouseover?: (params: HydrateItemParams) => void
+        mouseout?: (params: HydrateItemParams) => void
+    }
+}
+
+export interface HydratedChart {
+    dispose(): void
+}
+
+const META_TYPE_ATTR = getSSRMetaAttrName('type');
+const DEFAULT_BLUR_OPACITY = 0.3;
+const LEGEND_INACTIVE_OPACITY = 0.5;
+const TOOLTIP_OFFSET = 10;
+
+function readMeta(el: Element): SSRMeta {
+    const meta: Partial<Record<keyof SSRMeta, string | number>> = {};
+    const metaKeys = getSSRMetaKeys();
+    for (let i = 0; i < metaKeys.length; i++) {
+        const key = metaKeys[i];
+        const val = el.getAttribute(getSSRMetaAttrName(key));
+        if (val != null) {
+            meta[key] = (key === 'seriesIndex' || key === 'dataIndex') ? +val : val;
+        }
+    }
+    return meta as SSRMeta;
+}
+
+/**
+ * Find the element with metadata from the event target.
+ */
+function findMetaElement(target: EventTarget, svg: SVGSVGElement): Element {
+    let el = target as Element;
+    while (el && el !== svg) {
+        if (el.getAttribute && el.getAttribute(META_TYPE_ATTR)) {
+            return el;
+        }
+        el = el.parentNode as Element;
+    }
+}
+
+function isSameItem(a: SSRMeta, b: SSRMeta): boolean {
+    return a.type === b.type
+        && a.seriesIndex === b.seriesIndex
+        && a.dataIndex === b.dataIndex
+        && a.dataType === b.dataType
+        && a.name === b.name;
+}
+
+function defaultTooltipFormatter(params: HydrateItemParams): string {
+    const name = params.name != null && params.name !== '' ? params.name + ': ' : '';
+    return (params.seriesName ? params.seriesName + '\n' : '') + name + (params.value || '');
+}
+
+/**
+ * Attach to the server side rendered SVG in the container.
+ */
+export function hydrate(dom: HTMLElement | SVGSVGElement, opts?: HydrateOption): HydratedChart {
+    opts = opts || {};
+    const svg = (dom.tagName.toLowerCase() === 'svg' ? dom : dom.querySelector('svg')) as SVGSVGElement;
+    if (!svg) {
+        if (__DEV__) {
+            console.error('No SVG element found in the container.');
+        }
+        return;
+    }
+    const container = (dom === svg ? svg.parentNode : dom) as HTMLElement;
+    const handlers = opts.on || {};
+    const emphasisOpt = opts.emphasis;
+    const blurOpacity = (emphasisOpt && typeof emphasisOpt === 'object' && emphasisOpt.blurOpacity != null)
+        ? emphasisOpt.blurOpacity : DEFAULT_BLUR_OPACITY;
+    const tooltipOpt = opts.tooltip;
+    const tooltipFormatter = (tooltipOpt && typeof tooltipOpt === 'object' && tooltipOpt.formatter)
+        || defaultTooltipFormatter;
+
+    const metaEls: Element[] = [];
+    const metas: SSRMeta[] = [];
+    const allMetaEls = svg.querySelectorAll('[' + META_TYPE_ATTR + ']');
+    for (let i = 0; i < allMetaEls.length; i++) {
+        metaEls.push(allMetaEls[i]);
+        metas.push(readMeta(allMetaEls[i]));
+    }
+
+    const hiddenNames: {[name: string]: boolean} = {};
+    let hovered: SSRMeta;
+    let tooltipEl: HTMLElement;
+
+    function eachEl(cb: (el: SVGElement, meta: SSRMeta) => void) {
+        for (let i = 0; i < metaEls.length; i++) {
+            cb(metaEls[i] as SVGElement, metas[i]);
+        }
+    }
+
+    function updateEmphasis() {
+        eachEl(function (el, meta) {
+            const blurred = emphasisOpt !== false
+                && hovered && meta.type === 'series' && meta.seriesIndex !== hovered.seriesIndex;
+            el.style.opacity = blurred ? blurOpacity + '' : '';
+        });
+    }
+
+    function updateLegend() {
+        eachEl(function (el, meta) {
+            if (meta.type === 'legend') {
+                el.style.opacity = hiddenNames[meta.name] ? LEGEND_INACTIVE_OPACITY + '' : '';
+            }
+            else {
+                const hidden = hiddenNames[meta.seriesName] || hiddenNames[meta.name];
+                el.style.display = hidden ? 'none' : '';
+            }
+        });
+    }
+
+    function showTooltip(params: HydrateItemParams) {
+        if (!tooltipEl) {
+            tooltipEl = document.createElement('div');
+            tooltipEl.style.cssText = 'position:absolute;pointer-events:none;white-space:pre;z-index:9999999;'
+                + 'background:#fff;border:1px solid #ccc;border-radius:4px;padding:5px 10px;'
+                + 'font:14px sans-serif;color:#666;box-shadow:rgba(0,0,0,0.2) 1px 2px 10px;';
+            if (window.getComputedStyle(container).position === 'static') {
+                container.style.position = 'relative';
+            }
+            container.appendChild(tooltipEl);
+        }
+        const rect = container.getBoundingClientRect();
+        // Text content is used to avoid injection.
+        tooltipEl.textContent = tooltipFormatter(params);
+        tooltipEl.style.left = (params.event.clientX - rect.left + TOOLTIP_OFFSET) + 'px';
+        tooltipEl.style.top = (params.event.clientY - rect.top + TOOLTIP_OFFSET) + 'px';
+        tooltipEl.style.display = 'block';
+    }
+
+    function hideTooltip() {
+        tooltipEl && (tooltipEl.style.display = 'none');
+    }
+
+    function getParams(meta: SSRMeta, event: MouseEvent): HydrateItemParams {
+        return extend({ event: event }, meta);
+    }
+
+    function onMouseMove(e: MouseEvent) {
+        const el = findMetaElement(e.target, svg);
+        const meta = el && readMeta(el);
+
+        if (hovered && (!meta || !isSameItem(meta, hovered))) {
+            handlers.mouseout && handlers.mouseout(getParams(hovered, e));
+            hovered = null;
+            hideTooltip();
+            updateEmphasis();
+        }
+        if (meta && meta.type === 'series') {
+            if (!hovered) {
+                hovered = meta;
+                handlers.mouseover && handlers.mouseover(getParams(meta, e));
+                updateEmphasis();
+            }
+            tooltipOpt !== false && showTooltip(getParams(meta, e));
+        }
+    }
+
+    function onMouseLeave(e: MouseEvent) {
+        if (hovered) {
+            handlers.mouseout && handlers.mouseout(getParams(hovered, e));
+            hovered = null;
+            updateEmphasis();
+        }
+        hideTooltip();
+    }
+
+    function onClick(e: MouseEvent) {
+        const el = findMetaElement(e.target, svg);
+        if (!el) {
+            return;
+        }
+        const meta = readMeta(el);
+        if (meta.type === 'legend' && opts.legend !== false) {
+            hiddenNames[meta.name] = !hiddenNames[meta.name];
+            updateLegend();
+        }
+        handlers.click && handlers.click(getParams(meta, e));
+    }
+
+    svg.addEventListener('mousemove', onMouseMove);
+    svg.addEventListener('mouseleave', onMouseLeave);
+    svg.addEventListener('click', onClick);
+
+    return {
+        dispose() {
+            svg.removeEventListener('mousemove', onMouseMove);
+            svg.removeEventListener('mouseleave', onMouseLeave);
+            svg.removeEventListener('click', onClick);
+            tooltipEl && tooltipEl.parentNode && tooltipEl.parentNode.removeChild(tooltipEl);
+            tooltipEl = null;
+        }
+    };
+}
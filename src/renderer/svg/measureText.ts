@@ -0,0 +1,74 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { $override, DEFAULT_FONT } from 'zrender/src/contain/text';
+import { createCanvas } from 'zrender/src/core/util';
+
+let measureCtx: CanvasRenderingContext2D;
+
+/**
+ * Rough width of a character relative to the font size.
+ */
+function getCharWidthRatio(charCode: number): number {
+    // CJK and full width characters.
+    if (charCode >= 0x2e80) {
+        return 1;
+    }
+    // Narrow characters such as 'i', 'l', '.', ','.
+    if ('iIl.,:;|!\'` '.indexOf(String.fromCharCode(charCode)) >= 0) {
+        return 0.3;
+    }
+    // Upper case letters and wide characters.
+    if ((charCode >= 65 && charCode <= 90) || charCode === 109 || charCode === 119) {
+        return 0.7;
+    }
+    return 0.55;
+}
+
+function estimateTextWidth(text: string, font: string): number {
+    const fontSize = /(\d+(?:\.\d+)?)px/.exec(font || DEFAULT_FONT);
+    const size = fontSize ? +fontSize[1] : 12;
+    let width = 0;
+    for (let i = 0; i < text.length; i++) {
+        width += getCharWidthRatio(text.charCodeAt(i)) * size;
+    }
+    return width;
+}
+
+/**
+ * Measuring text needs canvas, which is not available without DOM unless
+ * `setCanvasCreator` is called. Estimate the text width in that case.
+ */
+export function installTextMeasureFallback() {
+    $override('measureText', function (text: string, font?: string) {
+        if (!measureCtx) {
+            try {
+                measureCtx = createCanvas().getContext('2d');
+            }
+            catch (e) {}
+        }
+        if (measureCtx) {
+            measureCtx.font = font || DEFAULT_FONT;
+            return measureCtx.measureText(text);
+        }
+        return {
+            width: estimateTextWidth(text, font)
+        };
+    });
+}
@@ -0,0 +1,59 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+/**
+ * Metadata of the server side rendered SVG. It's written to the elements
+ * as `data-ec-*` attributes by the SSR painter and read by the client
+ * runtime in `echarts.hydrate.ts`, which doesn't load the whole library.
+ */
+
+import { keys } from 'zrender/src/core/util';
+
+export interface SSRMeta {
+    type: 'series' | 'legend'
+    seriesIndex?: number
+    seriesName?: string
+    dataIndex?: number
+    // 'node' or 'edge' in graph series.
+    dataType?: string
+    // Name of the data item or the legend item.
+    name?: string
+    // Raw value. Array value is joined by ','.
+    value?: string
+}
+
+export const SSR_META_ATTR_PREFIX = 'data-ec-';
+
+const META_ATTR_NAMES: {[key in keyof SSRMeta]-?: string} = {
+    type: 'type',
+    seriesIndex: 'series-index',
+    seriesName: 'series-name',
+    dataIndex: 'data-index',
+    dataType: 'data-type',
+    name: 'name',
+    value: 'value'
+};
+
+export function getSSRMetaAttrName(key: keyof SSRMeta): string {
+    return SSR_META_ATTR_PREFIX + META_ATTR_NAMES[key];
+}
+
+export function getSSRMetaKeys(): (keyof SSRMeta)[] {
+    return keys(META_ATTR_NAMES);
+}
@@ -0,0 +1,85 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { keys, map } from 'zrender/src/core/util';
+import { Dictionary } from 'zrender/src/core/types';
+
+/**
+ * Virtual DOM node of SVG used in server side rendering,
+ * where the real SVG DOM is not available.
+ */
+export interface SVGVNode {
+    tag: string
+    attrs: SVGVNodeAttrs
+    children?: SVGVNode[]
+    text?: string
+}
+
+export type SVGVNodeAttrs = Dictionary<string | number>;
+
+export function createVNode(
+    tag: string,
+    attrs?: SVGVNodeAttrs,
+    children?: SVGVNode[],
+    text?: string
+): SVGVNode {
+    return {
+        tag: tag,
+        attrs: attrs || {},
+        children: children,
+        text: text
+    };
+}
+
+const ESCAPE_MAP: Dictionary<string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    '\'': '&#39;'
+};
+
+export function escapeSVGString(str: string): string {
+    return str.replace(/[&<>"']/g, function (c) {
+        return ESCAPE_MAP[c];
+    });
+}
+
+function attrsToString(attrs: SVGVNodeAttrs): string {
+    return map(keys(attrs), function (key) {
+        const val = attrs[key];
+        return val == null ? '' : ' ' + key + '="' + escapeSVGString(val + '') + '"';
+    }).join('');
+}
+
+/**
+ * Serialize the virtual node to SVG markup.
+ */
+export function renderVNode(vnode: SVGVNode): string {
+    const children = vnode.children;
+    const text = vnode.text;
+    const open = '<' + vnode.tag + attrsToString(vnode.attrs);
+    if (!(children && children.length) && text == null) {
+        return open + '/>';
+    }
+    return open + '>'
+        + (text != null ? escapeSVGString(text) : '')
+        + (children ? map(children, renderVNode).join('') : '')
+        + '</' + vnode.tag + '>';
+}
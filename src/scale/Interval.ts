@@ -23,6 +23,10 @@ import * as formatUtil from '../util/format';
 import Scale from './Scale';
 import * as helper from './helper';
 import {ScaleTick, Dictionary} from '../util/types';
+import { AxisBreakOption } from '../coord/axisCommonTypes';
+import {
+    ScaleBreak, parseBreaks, collapseValue, expandValue, findBreak, getCollapsedExtent
+} from './breakHelper';
 
 const roundNumber = numberUtil.round;
 
@@ -36,6 +40,10 @@ class IntervalScale<SETTING extends Dictionary<unknown> = Dictionary<unknown>> e
     protected _niceExtent: [number, number];
     private _intervalPrecision: number = 2;
 
+    private _breakOptionList: AxisBreakOption[];
+    private _breaks: ScaleBreak[];
+    // The extent that `_breaks` is calculated with.
+    private _breaksExtent: [number, number];
 
     parse(val: number): number {
         return val;
@@ -46,11 +54,40 @@ class IntervalScale<SETTING extends Dictionary<unknown> = Dictionary<unknown>> e
     }
 
     normalize(val: number): number {
-        return helper.normalize(val, this._extent);
+        const breaks = this.getBreaks();
+        return breaks.length
+            ? helper.normalize(collapseValue(val, breaks), getCollapsedExtent(this._extent, breaks))
+            : helper.normalize(val, this._extent);
     }
 
     scale(val: number): number {
-        return helper.scale(val, this._extent);
+        const breaks = this.getBreaks();
+        return breaks.length
+            ? expandValue(helper.scale(val, getCollapsedExtent(this._extent, breaks)), breaks)
+            : helper.scale(val, this._extent);
+    }
+
+    setBreakOption(breakOptionList: AxisBreakOption[]): void {
+        this._breakOptionList = breakOptionList;
+        this._breaksExtent = null;
+    }
+
+    /**
+     * @override
+     */
+    getBreaks(): ScaleBreak[] {
+        const breakOptionList = this._breakOptionList;
+        if (!breakOptionList || !breakOptionList.length) {
+            return [];
+        }
+        // Extent may be modified directly (e.g., in `niceExtent`), so check it lazily.
+        const extent = this._extent;
+        const breaksExtent = this._breaksExtent;
+        if (!breaksExtent || breaksExtent[0] !== extent[0] || breaksExtent[1] !== extent[1]) {
+            this._breaks = parseBreaks(breakOptionList, val => this.parse(val as number), extent);
+            this._breaksExtent = extent.slice() as [number, number];
+        }
+        return this._breaks;
     }
 
     setExtent(start: number | string, end: number | string): void {
@@ -116,9 +153,16 @@ class IntervalScale<SETTING extends Dictionary<unknown> = Dictionary<unknown>> e
                 });
             }
         }
+        const breaks = this.getBreaks();
         let tick = niceTickExtent[0];
 
         while (tick <= niceTickExtent[1]) {
+            // Skip the collapsed range, otherwise there might be too many ticks in it.
+            const brk = findBreak(tick, breaks);
+            if (brk) {
+                tick = roundNumber(Math.ceil(brk.end / interval) * interval, intervalPrecision);
+                continue;
+            }
             ticks.push({
                 value: tick
             });
@@ -156,6 +200,7 @@ class IntervalScale<SETTING extends Dictionary<unknown> = Dictionary<unknown>> e
         const ticks = this.getTicks(true);
         const minorTicks = [];
         const extent = this.getExtent();
+        const breaks = this.getBreaks();
 
         for (let i = 1; i < ticks.length; i++) {
             const nextTick = ticks[i];
@@ -169,7 +214,7 @@ class IntervalScale<SETTING extends Dictionary<unknown> = Dictionary<unknown>> e
                 const minorTick = roundNumber(prevTick.value + (count + 1) * minorInterval);
 
                 // For the first and last interval. The count may be less than splitNumber.
-                if (minorTick > extent[0] && minorTick < extent[1]) {
+                if (minorTick > extent[0] && minorTick < extent[1] && !findBreak(minorTick, breaks)) {
                     minorTicksGroup.push(minorTick);
                 }
                 count++;
@@ -230,7 +275,7 @@ class IntervalScale<SETTING extends Dictionary<unknown> = Dictionary<unknown>> e
         }
 
         const result = helper.intervalScaleNiceTicks(
-            extent, splitNumber, minInterval, maxInterval
+            extent, splitNumber, minInterval, maxInterval, this.getBreaks()
         );
 
         this._intervalPrecision = result.intervalPrecision;
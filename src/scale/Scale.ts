@@ -29,6 +29,7 @@ import {
     ScaleTick
 } from '../util/types';
 import { ScaleRawExtentInfo } from '../coord/scaleRawExtentInfo';
+import { ScaleBreak } from './breakHelper';
 
 
 abstract class Scale<SETTING extends Dictionary<unknown> = Dictionary<unknown>> {
@@ -140,6 +141,14 @@ abstract class Scale<SETTING extends Dictionary<unknown> = Dictionary<unknown>>
         this._isBlank = isBlank;
     }
 
+    /**
+     * Get the collapsed breaks, sorted by value.
+     * Only scales that support breaks return non-empty result.
+     */
+    getBreaks(): ScaleBreak[] {
+        return [];
+    }
+
     /**
      * Update interval and extent of intervals for nice ticks
      *
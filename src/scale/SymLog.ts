@@ -0,0 +1,277 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import Scale from './Scale';
+import * as numberUtil from '../util/number';
+import * as formatUtil from '../util/format';
+import * as scaleHelper from './helper';
+import { ScaleTick } from '../util/types';
+
+const mathLog = Math.log;
+const mathPow = Math.pow;
+const mathAbs = Math.abs;
+const roundNumber = numberUtil.round;
+
+/**
+ * Symmetric log scale, which is able to display values across zero.
+ * The transform is `sign(x) * log(1 + |x| / linthresh)`, which is
+ * approximately linear in `[-linthresh, linthresh]` and logarithmic
+ * outside of it.
+ */
+class SymLogScale extends Scale {
+    static type = 'symlog';
+    readonly type = 'symlog';
+
+    base = 10;
+
+    // The range `[-linthresh, linthresh]` is approximately linear.
+    linthresh = 1;
+
+    // Ticks are placed on the exponents that are multiple of it.
+    private _exponentInterval: number = 1;
+
+
+    parse(val: number): number {
+        return val;
+    }
+
+    contain(val: number): boolean {
+        return scaleHelper.contain(val, this._extent);
+    }
+
+    normalize(val: number): number {
+        return scaleHelper.normalize(this.transform(val), this._getTransformedExtent());
+    }
+
+    scale(val: number): number {
+        return this.untransform(scaleHelper.scale(val, this._getTransformedExtent()));
+    }
+
+    setExtent(start: number | string, end: number | string): void {
+        const thisExtent = this._extent;
+        if (!isNaN(start as number)) {
+            thisExtent[0] = parseFloat(start as string);
+        }
+        if (!isNaN(end as number)) {
+            thisExtent[1] = parseFloat(end as string);
+        }
+    }
+
+    /**
+     * Map a data value to the linear space where ticks are evenly distributed.
+     */
+    transform(val: number): number {
+        const sign = val < 0 ? -1 : 1;
+        return sign * mathLog(1 + mathAbs(val) / this.linthresh) / mathLog(this.base);
+    }
+
+    /**
+     * The inverse of `transform`.
+     */
+    untransform(val: number): number {
+        const sign = val < 0 ? -1 : 1;
+        return sign * this.linthresh * (mathPow(this.base, mathAbs(val)) - 1);
+    }
+
+    getTicks(): ScaleTick[] {
+        const extent = this._extent;
+        const ticks: ScaleTick[] = [];
+        if (!this._exponentInterval || !isFinite(extent[1] - extent[0])) {
+            return ticks;
+        }
+
+        // Negative side, from large magnitude to small.
+        if (extent[0] < 0) {
+            const exponents = this._getTickExponents(-extent[0], Math.max(-extent[1], 0));
+            for (let i = exponents.length - 1; i >= 0; i--) {
+                ticks.push({value: -this._exponentToValue(exponents[i])});
+            }
+        }
+        if (extent[0] <= 0 && extent[1] >= 0) {
+            ticks.push({value: 0});
+        }
+        if (extent[1] > 0) {
+            const exponents = this._getTickExponents(extent[1], Math.max(extent[0], 0));
+            for (let i = 0; i < exponents.length; i++) {
+                ticks.push({value: this._exponentToValue(exponents[i])});
+            }
+        }
+
+        if (!ticks.length || ticks[0].value > extent[0]) {
+            ticks.unshift({value: extent[0]});
+        }
+        if (ticks[ticks.length - 1].value < extent[1]) {
+            ticks.push({value: extent[1]});
+        }
+
+        return ticks;
+    }
+
+    getMinorTicks(splitNumber: number): number[][] {
+        const ticks = this.getTicks();
+        const minorTicks = [];
+
+        for (let i = 1; i < ticks.length; i++) {
+            const prevValue = ticks[i - 1].value;
+            const nextValue = ticks[i].value;
+            const minorTicksGroup = [];
+            for (let count = 1; count < splitNumber; count++) {
+                minorTicksGroup.push(
+                    roundNumber(prevValue + (nextValue - prevValue) * count / splitNumber)
+                );
+            }
+            minorTicks.push(minorTicksGroup);
+        }
+
+        return minorTicks;
+    }
+
+    /**
+     * @param opt.precision If 'auto', decide by the magnitude of the value.
+     */
+    getLabel(
+        data: ScaleTick,
+        opt?: {
+            precision?: 'auto' | number
+        }
+    ): string {
+        if (data == null) {
+            return '';
+        }
+
+        let precision = opt && opt.precision;
+        const value = data.value;
+
+        if (precision == null) {
+            precision = numberUtil.getPrecisionSafe(value) || 0;
+        }
+        else if (precision === 'auto') {
+            // Keep about three significant digits.
+            const magnitude = mathAbs(value) || this.linthresh;
+            precision = Math.min(Math.max(2 - numberUtil.quantityExponent(magnitude), 0), 20);
+        }
+
+        return formatUtil.addCommas(roundNumber(value, precision as number, true));
+    }
+
+    /**
+     * @param splitNumber By default `5`.
+     */
+    niceTicks(splitNumber?: number): void {
+        splitNumber = splitNumber || 5;
+        const extent = this._extent;
+        if (!isFinite(extent[1] - extent[0])) {
+            return;
+        }
+        if (extent[0] > extent[1]) {
+            extent.reverse();
+        }
+        const transformedExtent = this._getTransformedExtent();
+        const span = transformedExtent[1] - transformedExtent[0];
+        this._exponentInterval = Math.max(Math.round(span / splitNumber), 1);
+    }
+
+    niceExtent(opt: {
+        splitNumber: number,
+        fixMin?: boolean,
+        fixMax?: boolean
+    }): void {
+        const extent = this._extent;
+        if (extent[0] === extent[1]) {
+            const expandSize = mathAbs(extent[0]) || this.linthresh;
+            !opt.fixMin && (extent[0] -= expandSize / 2);
+            !opt.fixMax && (extent[1] += expandSize / 2);
+        }
+        // If there are no data and extent are [Infinity, -Infinity]
+        if (!isFinite(extent[1] - extent[0])) {
+            extent[0] = 0;
+            extent[1] = this.linthresh;
+        }
+
+        this.niceTicks(opt.splitNumber);
+
+        if (!opt.fixMin) {
+            extent[0] = this._niceBound(extent[0], false);
+        }
+        if (!opt.fixMax) {
+            extent[1] = this._niceBound(extent[1], true);
+        }
+    }
+
+    private _getTransformedExtent(): [number, number] {
+        const extent = this._extent;
+        return [this.transform(extent[0]), this.transform(extent[1])];
+    }
+
+    private _exponentToValue(exponent: number): number {
+        return roundNumber(
+            this.linthresh * mathPow(this.base, exponent),
+            numberUtil.getPrecisionSafe(this.linthresh)
+        );
+    }
+
+    /**
+     * Exponents of ticks whose values are in `[lowerMagnitude, upperMagnitude]`.
+     */
+    private _getTickExponents(upperMagnitude: number, lowerMagnitude: number): number[] {
+        const exponentInterval = this._exponentInterval;
+        const exponents = [];
+        const maxExponent = this._getExponent(upperMagnitude, false);
+        for (let exponent = 0; exponent <= maxExponent; exponent += exponentInterval) {
+            if (this._exponentToValue(exponent) >= lowerMagnitude) {
+                exponents.push(exponent);
+            }
+        }
+        return exponents;
+    }
+
+    /**
+     * @return The integer exponent `k` such that `linthresh * base ^ k` is around the magnitude.
+     */
+    private _getExponent(magnitude: number, ceil: boolean): number {
+        const exponent = mathLog(magnitude / this.linthresh) / mathLog(this.base);
+        // Avoid rounding error like `log(1000) / log(10) = 2.9999999999999996`.
+        const rounded = Math.round(exponent);
+        if (mathAbs(exponent - rounded) < 1e-10) {
+            return rounded;
+        }
+        return ceil ? Math.ceil(exponent) : Math.floor(exponent);
+    }
+
+    /**
+     * Expand the bound of the extent outward to a tick value.
+     */
+    private _niceBound(val: number, isMax: boolean): number {
+        if (val === 0) {
+            return 0;
+        }
+        const sign = val < 0 ? -1 : 1;
+        const magnitude = mathAbs(val);
+        const outward = (val > 0) === isMax;
+        if (magnitude <= this.linthresh) {
+            return outward ? sign * this.linthresh : 0;
+        }
+        const exponent = this._getExponent(magnitude, outward);
+        return sign * this._exponentToValue(exponent);
+    }
+}
+
+Scale.registerClass(SymLogScale);
+
+export default SymLogScale;
@@ -79,6 +79,7 @@ import { warn } from '../util/log';
 import { LocaleOption } from '../core/locale';
 import Model from '../model/Model';
 import { filter, map } from 'zrender/src/core/util';
+import { findBreak, getCollapsedExtent } from './breakHelper';
 
 // FIXME 公用？
 const bisect = function (
@@ -170,7 +171,11 @@ class TimeScale extends IntervalScale<TimeScaleSetting> {
             extent
         );
 
-        ticks = ticks.concat(innerTicks);
+        const breaks = this.getBreaks();
+        ticks = ticks.concat(breaks.length
+            ? filter(innerTicks, tick => !findBreak(tick.value, breaks))
+            : innerTicks
+        );
 
         ticks.push({
             value: extent[1],
@@ -210,7 +215,8 @@ class TimeScale extends IntervalScale<TimeScaleSetting> {
         approxTickNum = approxTickNum || 10;
 
         const extent = this._extent;
-        const span = extent[1] - extent[0];
+        const collapsedExtent = getCollapsedExtent(extent, this.getBreaks());
+        const span = collapsedExtent[1] - collapsedExtent[0];
         this._approxInterval = span / approxTickNum;
 
         if (minInterval != null && this._approxInterval < minInterval) {
@@ -243,11 +249,7 @@ class TimeScale extends IntervalScale<TimeScaleSetting> {
     }
 
     normalize(val: number): number {
-        return scaleHelper.normalize(this.parse(val), this._extent);
-    }
-
-    scale(val: number): number {
-        return scaleHelper.scale(val, this._extent);
+        return super.normalize(this.parse(val));
     }
 
 }
@@ -0,0 +1,171 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { parsePercent } from '../util/number';
+import { AxisBreakOption } from '../coord/axisCommonTypes';
+import { ScaleDataValue } from '../util/types';
+
+const DEFAULT_BREAK_GAP = '2%';
+
+/**
+ * A collapsed range of a scale, where `start`, `end` and `gap`
+ * are all in the unit of the (parsed) data value.
+ */
+export interface ScaleBreak {
+    start: number;
+    end: number;
+    gap: number;
+    // The original option, used to identify the break in actions.
+    option: AxisBreakOption;
+}
+
+/**
+ * Parse break options to collapsed breaks inside the given extent.
+ * Breaks are sorted by `start`, and overlapped breaks are dropped.
+ * Expanded breaks are ignored.
+ */
+export function parseBreaks(
+    breakOptionList: AxisBreakOption[],
+    parse: (val: ScaleDataValue) => number,
+    extent: [number, number]
+): ScaleBreak[] {
+    const breaks: ScaleBreak[] = [];
+    if (!breakOptionList || !isFinite(extent[0]) || !isFinite(extent[1])) {
+        return breaks;
+    }
+
+    for (let i = 0; i < breakOptionList.length; i++) {
+        const option = breakOptionList[i];
+        if (!option || option.isExpanded) {
+            continue;
+        }
+        let start = +parse(option.start);
+        let end = +parse(option.end);
+        if (isNaN(start) || isNaN(end)) {
+            continue;
+        }
+        if (start > end) {
+            const tmp = start;
+            start = end;
+            end = tmp;
+        }
+        start = Math.max(start, extent[0]);
+        end = Math.min(end, extent[1]);
+        if (start >= end) {
+            continue;
+        }
+        breaks.push({start: start, end: end, gap: 0, option: option});
+    }
+
+    breaks.sort(function (a, b) {
+        return a.start - b.start;
+    });
+    for (let i = breaks.length - 1; i > 0; i--) {
+        if (breaks[i].start < breaks[i - 1].end) {
+            breaks.splice(i, 1);
+        }
+    }
+
+    // Percent gaps are relative to the collapsed span, which in turn depends on
+    // the gaps. That is: `span = uncollapsed + absGaps + percentSum * span`.
+    let uncollapsed = extent[1] - extent[0];
+    let absGapSum = 0;
+    let percentSum = 0;
+    const percents: number[] = [];
+    for (let i = 0; i < breaks.length; i++) {
+        const brk = breaks[i];
+        const len = brk.end - brk.start;
+        const gapOption = brk.option.gap != null ? brk.option.gap : DEFAULT_BREAK_GAP;
+        uncollapsed -= len;
+        if (typeof gapOption === 'string' && /%\s*$/.test(gapOption)) {
+            percents[i] = parsePercent(gapOption, 1) || 0;
+            percentSum += percents[i];
+        }
+        else {
+            brk.gap = Math.max(Math.min(+gapOption || 0, len), 0);
+            absGapSum += brk.gap;
+        }
+    }
+    const span = percentSum < 1 ? (uncollapsed + absGapSum) / (1 - percentSum) : 0;
+    for (let i = 0; i < breaks.length; i++) {
+        if (percents[i] != null) {
+            const brk = breaks[i];
+            brk.gap = Math.max(Math.min(percents[i] * span, brk.end - brk.start), 0);
+        }
+    }
+
+    return breaks;
+}
+
+/**
+ * Map a data value to the linear space where breaks are collapsed.
+ */
+export function collapseValue(val: number, breaks: ScaleBreak[]): number {
+    let shrink = 0;
+    for (let i = 0; i < breaks.length; i++) {
+        const brk = breaks[i];
+        if (val >= brk.end) {
+            shrink += brk.end - brk.start - brk.gap;
+        }
+        else if (val > brk.start) {
+            return brk.start - shrink + (val - brk.start) / (brk.end - brk.start) * brk.gap;
+        }
+        else {
+            break;
+        }
+    }
+    return val - shrink;
+}
+
+/**
+ * The inverse of `collapseValue`.
+ */
+export function expandValue(val: number, breaks: ScaleBreak[]): number {
+    let shrink = 0;
+    for (let i = 0; i < breaks.length; i++) {
+        const brk = breaks[i];
+        const gapStart = brk.start - shrink;
+        if (val >= gapStart + brk.gap) {
+            shrink += brk.end - brk.start - brk.gap;
+        }
+        else if (val > gapStart) {
+            return brk.start + (val - gapStart) / brk.gap * (brk.end - brk.start);
+        }
+        else {
+            break;
+        }
+    }
+    return val + shrink;
+}
+
+/**
+ * @return The break that strictly contains the value.
+ */
+export function findBreak(val: number, breaks: ScaleBreak[]): ScaleBreak {
+    for (let i = 0; i < breaks.length; i++) {
+        const brk = breaks[i];
+        if (val > brk.start && val < brk.end) {
+            return brk;
+        }
+    }
+}
+
+export function getCollapsedExtent(extent: [number, number], breaks: ScaleBreak[]): [number, number] {
+    return [collapseValue(extent[0], breaks), collapseValue(extent[1], breaks)];
+}
@@ -18,6 +18,7 @@
 */
 
 import * as numberUtil from '../util/number';
+import { ScaleBreak, getCollapsedExtent } from './breakHelper';
 
 const roundNumber = numberUtil.round;
 
@@ -30,17 +31,20 @@ type intervalScaleNiceTicksResult = {
  * @param extent Both extent[0] and extent[1] should be valid number.
  *               Should be extent[0] < extent[1].
  * @param splitNumber splitNumber should be >= 1.
+ * @param breaks If specified, the interval is calculated from the collapsed span.
  */
 export function intervalScaleNiceTicks(
     extent: [number, number],
     splitNumber: number,
     minInterval?: number,
-    maxInterval?: number
+    maxInterval?: number,
+    breaks?: ScaleBreak[]
 ): intervalScaleNiceTicksResult {
 
     const result = {} as intervalScaleNiceTicksResult;
 
-    const span = extent[1] - extent[0];
+    const collapsedExtent = breaks && breaks.length ? getCollapsedExtent(extent, breaks) : extent;
+    const span = collapsedExtent[1] - collapsedExtent[0];
     let interval = result.interval = numberUtil.nice(span / splitNumber, true);
     if (minInterval != null && interval < minInterval) {
         interval = result.interval = minInterval;
@@ -0,0 +1,530 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { DimensionLoose, Dictionary } from './types';
+import { hasOwn, trim, map } from 'zrender/src/core/util';
+import { throwError } from './log';
+import { getRawValueParser } from '../data/helper/dataValueHelper';
+import { round, isNumeric } from './number';
+
+
+/**
+ * A small expression language to compute a value from a data row.
+ * It is parsed once and evaluated on each row. Only the syntax and the
+ * functions below are supported, no JS global or property can be accessed.
+ *
+ * Sementic supports:
+ * (1) literal: `12.5`, `1e3`, `'str'`, `"str"`, `true`, `false`, `null`.
+ * (2) dimension reference: `revenue`, or `dim('revenue 2020')`, `dim(0)` for
+ *     the names that are not identifiers.
+ * (3) operators (from high to low precedence):
+ *     unary `-` `+` `!`; `*` `/` `%`; `+` `-`; `<` `<=` `>` `>=`; `==` `!=`;
+ *     `&&`; `||`; `?:`.
+ *     `+` adds if both of the operands are numeric (like `12` or `'12'`), otherwise
+ *     concatenates strings. Other arithmetic operators coerce the operands by the
+ *     'number' parser.
+ *     `<` `<=` `>` `>=` compare numbers if both of the operands are numeric,
+ *     otherwise compare the raw values, where strings are compared lexically.
+ *     So use `time(a) < time(b)` to compare date strings.
+ * (4) functions: see `FUNCTIONS`.
+ *
+ * For example:
+ * ```js
+ * '(revenue - cost) / revenue'
+ * 'upper(country) + "-" + year'
+ * 'score >= 60 ? "pass" : "fail"'
+ * ```
+ */
+
+type ValueGetterParam = Dictionary<unknown>;
+export interface ComputeExpressionValueGetterParamGetter<VGP extends ValueGetterParam = ValueGetterParam> {
+    (dimLoose: DimensionLoose): VGP
+}
+export interface ComputeExpressionValueGetter<VGP extends ValueGetterParam = ValueGetterParam> {
+    (param: VGP): unknown
+}
+
+interface ComputeGetters<VGP extends ValueGetterParam = ValueGetterParam> {
+    prepareGetValue: ComputeExpressionValueGetterParamGetter<VGP>;
+    getValue: ComputeExpressionValueGetter<VGP>;
+}
+
+
+const numberParser = getRawValueParser('number');
+const timeParser = getRawValueParser('time');
+
+function toNumber(val: unknown): number {
+    return typeof val === 'number'
+        ? val
+        : (val == null || val === '' || typeof val === 'boolean')
+        ? NaN
+        : numberParser(val) as number;
+}
+
+function toStr(val: unknown): string {
+    return val == null ? '' : val + '';
+}
+
+const FUNCTIONS: Dictionary<(...args: unknown[]) => unknown> = {
+    abs: val => Math.abs(toNumber(val)),
+    ceil: val => Math.ceil(toNumber(val)),
+    floor: val => Math.floor(toNumber(val)),
+    round: (val, precision) => round(toNumber(val), precision == null ? 0 : toNumber(precision)),
+    sqrt: val => Math.sqrt(toNumber(val)),
+    pow: (base, exp) => Math.pow(toNumber(base), toNumber(exp)),
+    exp: val => Math.exp(toNumber(val)),
+    log: val => Math.log(toNumber(val)),
+    min: (...args) => Math.min.apply(null, map(args, toNumber)),
+    max: (...args) => Math.max.apply(null, map(args, toNumber)),
+    // Coerce by the raw value parsers, the same as `parser` in filter transform.
+    // 'number' parser is loose: '120px' => 120.
+    number: val => toNumber(val),
+    time: val => timeParser(val),
+    string: val => toStr(val),
+    concat: (...args) => map(args, toStr).join(''),
+    lower: val => toStr(val).toLowerCase(),
+    upper: val => toStr(val).toUpperCase(),
+    trim: val => trim(toStr(val)),
+    len: val => toStr(val).length,
+    substr: (val, start, len) => toStr(val).substr(
+        toNumber(start), len == null ? undefined : toNumber(len)
+    ),
+    isNull: val => val == null || val === '' || val === '-' || (typeof val === 'number' && isNaN(val)),
+    coalesce: (...args) => {
+        for (let i = 0; i < args.length; i++) {
+            if (!FUNCTIONS.isNull(args[i])) {
+                return args[i];
+            }
+        }
+        return null;
+    }
+};
+
+const BINARY_OPERATORS: Dictionary<(lval: unknown, rval: unknown) => unknown> = {
+    '+': function (lval, rval) {
+        return (isNumeric(lval) && isNumeric(rval))
+            ? toNumber(lval) + toNumber(rval)
+            : toStr(lval) + toStr(rval);
+    },
+    '-': (lval, rval) => toNumber(lval) - toNumber(rval),
+    '*': (lval, rval) => toNumber(lval) * toNumber(rval),
+    '/': (lval, rval) => toNumber(lval) / toNumber(rval),
+    '%': (lval, rval) => toNumber(lval) % toNumber(rval),
+    '<': (lval, rval) => compare(lval, rval) < 0,
+    '<=': (lval, rval) => compare(lval, rval) <= 0,
+    '>': (lval, rval) => compare(lval, rval) > 0,
+    '>=': (lval, rval) => compare(lval, rval) >= 0,
+    '==': (lval, rval) => isEqual(lval, rval),
+    '!=': (lval, rval) => !isEqual(lval, rval)
+};
+
+// From low to high.
+const BINARY_PRECEDENCE: string[][] = [
+    ['==', '!='],
+    ['<', '<=', '>', '>='],
+    ['+', '-'],
+    ['*', '/', '%']
+];
+
+/**
+ * @return Negative if `lval` is less than `rval`, positive if greater, `0` if equal,
+ *     and `NaN` if they are not comparable.
+ */
+function compare(lval: unknown, rval: unknown): number {
+    if (isNumeric(lval) && isNumeric(rval)) {
+        return toNumber(lval) - toNumber(rval);
+    }
+    return (lval as number) < (rval as number) ? -1
+        : (lval as number) > (rval as number) ? 1
+        : (lval as number) <= (rval as number) ? 0
+        : NaN;
+}
+
+function isEqual(lval: unknown, rval: unknown): boolean {
+    // `1 == '1'` is true, but `null == 0` is false.
+    return (lval == null || rval == null)
+        ? lval == rval // eslint-disable-line eqeqeq
+        : lval + '' === rval + '';
+}
+
+
+interface ParsedNodeInternal {
+    evaluate(): unknown;
+}
+class LiteralNodeInternal implements ParsedNodeInternal {
+    value: unknown;
+    evaluate() {
+        return this.value;
+    }
+}
+class ValueGetterNodeInternal implements ParsedNodeInternal {
+    valueGetterParam: ValueGetterParam;
+    getValue: ComputeExpressionValueGetter;
+    evaluate() {
+        // Call getValue with no `this`.
+        const getValue = this.getValue;
+        return getValue(this.valueGetterParam);
+    }
+}
+class UnaryNodeInternal implements ParsedNodeInternal {
+    op: string;
+    child: ParsedNodeInternal;
+    evaluate() {
+        const val = this.child.evaluate();
+        return this.op === '!' ? !val
+            : this.op === '-' ? -toNumber(val)
+            : toNumber(val);
+    }
+}
+class BinaryNodeInternal implements ParsedNodeInternal {
+    op: string;
+    left: ParsedNodeInternal;
+    right: ParsedNodeInternal;
+    evaluate() {
+        return BINARY_OPERATORS[this.op](this.left.evaluate(), this.right.evaluate());
+    }
+}
+class AndNodeInternal implements ParsedNodeInternal {
+    left: ParsedNodeInternal;
+    right: ParsedNodeInternal;
+    evaluate() {
+        return this.left.evaluate() && this.right.evaluate();
+    }
+}
+class OrNodeInternal implements ParsedNodeInternal {
+    left: ParsedNodeInternal;
+    right: ParsedNodeInternal;
+    evaluate() {
+        return this.left.evaluate() || this.right.evaluate();
+    }
+}
+class ConditionalNodeInternal implements ParsedNodeInternal {
+    test: ParsedNodeInternal;
+    consequent: ParsedNodeInternal;
+    alternate: ParsedNodeInternal;
+    evaluate() {
+        return this.test.evaluate() ? this.consequent.evaluate() : this.alternate.evaluate();
+    }
+}
+class CallNodeInternal implements ParsedNodeInternal {
+    func: (...args: unknown[]) => unknown;
+    args: ParsedNodeInternal[];
+    evaluate() {
+        return this.func.apply(null, map(this.args, arg => arg.evaluate()));
+    }
+}
+
+
+type TokenType = 'number' | 'string' | 'name' | 'punc' | 'end';
+interface Token {
+    type: TokenType;
+    value: string | number;
+    pos: number;
+}
+
+// Longer ones first.
+const PUNCTUATORS = [
+    '<=', '>=', '==', '!=', '&&', '||',
+    '+', '-', '*', '/', '%', '<', '>', '!', '?', ':', '(', ')', ','
+];
+const NUMBER_REG = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/;
+const NAME_REG = /^[A-Za-z_$][\w$]*/;
+
+function throwSyntaxError(exprStr: string, pos: number, reason: string): never {
+    let errMsg = '';
+    if (__DEV__) {
+        errMsg = 'Illegal expression "' + exprStr + '" at position ' + pos + ': ' + reason;
+    }
+    throwError(errMsg);
+    // Never reach here.
+    return null as never;
+}
+
+function tokenize(exprStr: string): Token[] {
+    const tokens: Token[] = [];
+    let pos = 0;
+    const len = exprStr.length;
+
+    while (pos < len) {
+        const ch = exprStr.charAt(pos);
+        if (/\s/.test(ch)) {
+            pos++;
+            continue;
+        }
+        const rest = exprStr.slice(pos);
+
+        let matched = NUMBER_REG.exec(rest);
+        if (matched) {
+            tokens.push({type: 'number', value: +matched[0], pos: pos});
+            pos += matched[0].length;
+            continue;
+        }
+        matched = NAME_REG.exec(rest);
+        if (matched) {
+            tokens.push({type: 'name', value: matched[0], pos: pos});
+            pos += matched[0].length;
+            continue;
+        }
+        if (ch === '"' || ch === '\'') {
+            let str = '';
+            let end = pos + 1;
+            while (end < len && exprStr.charAt(end) !== ch) {
+                // Only escape the next char.
+                if (exprStr.charAt(end) === '\\') {
+                    end++;
+                }
+                str += exprStr.charAt(end);
+                end++;
+            }
+            if (end >= len) {
+                throwSyntaxError(exprStr, pos, 'unterminated string.');
+            }
+            tokens.push({type: 'string', value: str, pos: pos});
+            pos = end + 1;
+            continue;
+        }
+
+        let punc: string;
+        for (let i = 0; i < PUNCTUATORS.length; i++) {
+            if (rest.indexOf(PUNCTUATORS[i]) === 0) {
+                punc = PUNCTUATORS[i];
+                break;
+            }
+        }
+        if (!punc) {
+            throwSyntaxError(exprStr, pos, 'unexpected "' + ch + '".');
+        }
+        tokens.push({type: 'punc', value: punc, pos: pos});
+        pos += punc.length;
+    }
+
+    tokens.push({type: 'end', value: null, pos: len});
+    return tokens;
+}
+
+
+/**
+ * Recursive descent parser.
+ */
+class ExpressionParser {
+
+    private _exprStr: string;
+    private _tokens: Token[];
+    private _pos = 0;
+    private _getters: ComputeGetters;
+
+    constructor(exprStr: string, getters: ComputeGetters) {
+        this._exprStr = exprStr;
+        this._tokens = tokenize(exprStr);
+        this._getters = getters;
+    }
+
+    parse(): ParsedNodeInternal {
+        const node = this._parseConditional();
+        const token = this._peek();
+        if (token.type !== 'end') {
+            throwSyntaxError(this._exprStr, token.pos, 'unexpected "' + token.value + '".');
+        }
+        return node;
+    }
+
+    private _peek(): Token {
+        return this._tokens[this._pos];
+    }
+
+    private _next(): Token {
+        return this._tokens[this._pos++];
+    }
+
+    private _isPunc(value: string): boolean {
+        const token = this._peek();
+        return token.type === 'punc' && token.value === value;
+    }
+
+    private _expectPunc(value: string): void {
+        const token = this._next();
+        if (token.type !== 'punc' || token.value !== value) {
+            throwSyntaxError(this._exprStr, token.pos, '"' + value + '" is expected.');
+        }
+    }
+
+    private _parseConditional(): ParsedNodeInternal {
+        const test = this._parseOr();
+        if (!this._isPunc('?')) {
+            return test;
+        }
+        this._next();
+        const node = new ConditionalNodeInternal();
+        node.test = test;
+        node.consequent = this._parseConditional();
+        this._expectPunc(':');
+        node.alternate = this._parseConditional();
+        return node;
+    }
+
+    private _parseOr(): ParsedNodeInternal {
+        let left = this._parseAnd();
+        while (this._isPunc('||')) {
+            this._next();
+            const node = new OrNodeInternal();
+            node.left = left;
+            node.right = this._parseAnd();
+            left = node;
+        }
+        return left;
+    }
+
+    private _parseAnd(): ParsedNodeInternal {
+        let left = this._parseBinary(0);
+        while (this._isPunc('&&')) {
+            this._next();
+            const node = new AndNodeInternal();
+            node.left = left;
+            node.right = this._parseBinary(0);
+            left = node;
+        }
+        return left;
+    }
+
+    private _parseBinary(level: number): ParsedNodeInternal {
+        if (level >= BINARY_PRECEDENCE.length) {
+            return this._parseUnary();
+        }
+        const ops = BINARY_PRECEDENCE[level];
+        let left = this._parseBinary(level + 1);
+        let token = this._peek();
+        while (token.type === 'punc' && ops.indexOf(token.value as string) >= 0) {
+            this._next();
+            const node = new BinaryNodeInternal();
+            node.op = token.value as string;
+            node.left = left;
+            node.right = this._parseBinary(level + 1);
+            left = node;
+            token = this._peek();
+        }
+        return left;
+    }
+
+    private _parseUnary(): ParsedNodeInternal {
+        if (this._isPunc('-') || this._isPunc('+') || this._isPunc('!')) {
+            const node = new UnaryNodeInternal();
+            node.op = this._next().value as string;
+            node.child = this._parseUnary();
+            return node;
+        }
+        return this._parsePrimary();
+    }
+
+    private _parsePrimary(): ParsedNodeInternal {
+        const token = this._next();
+
+        if (token.type === 'number' || token.type === 'string') {
+            return makeLiteral(token.value);
+        }
+        if (token.type === 'punc' && token.value === '(') {
+            const node = this._parseConditional();
+            this._expectPunc(')');
+            return node;
+        }
+        if (token.type === 'name') {
+            const name = token.value as string;
+            if (this._isPunc('(')) {
+                return this._parseCall(token);
+            }
+            if (name === 'true' || name === 'false' || name === 'null') {
+                return makeLiteral(name === 'null' ? null : name === 'true');
+            }
+            return this._makeValueGetter(name);
+        }
+
+        return throwSyntaxError(
+            this._exprStr, token.pos,
+            token.type === 'end' ? 'unexpected end.' : 'unexpected "' + token.value + '".'
+        );
+    }
+
+    private _parseCall(nameToken: Token): ParsedNodeInternal {
+        const name = nameToken.value as string;
+        this._expectPunc('(');
+
+        // `dim('name')` or `dim(0)` references a dimension by literal.
+        if (name === 'dim') {
+            const argToken = this._next();
+            if (argToken.type !== 'string' && argToken.type !== 'number') {
+                throwSyntaxError(this._exprStr, argToken.pos, 'dim() only accepts a string or number literal.');
+            }
+            this._expectPunc(')');
+            return this._makeValueGetter(argToken.value);
+        }
+
+        // Use `hasOwn` to avoid accessing things like `constructor`.
+        if (!hasOwn(FUNCTIONS, name)) {
+            throwSyntaxError(this._exprStr, nameToken.pos, 'unknown function "' + name + '".');
+        }
+        const node = new CallNodeInternal();
+        node.func = FUNCTIONS[name];
+        node.args = [];
+        if (!this._isPunc(')')) {
+            node.args.push(this._parseConditional());
+            while (this._isPunc(',')) {
+                this._next();
+                node.args.push(this._parseConditional());
+            }
+        }
+        this._expectPunc(')');
+        return node;
+    }
+
+    private _makeValueGetter(dimLoose: DimensionLoose): ParsedNodeInternal {
+        const node = new ValueGetterNodeInternal();
+        node.valueGetterParam = this._getters.prepareGetValue(dimLoose);
+        node.getValue = this._getters.getValue;
+        return node;
+    }
+}
+
+function makeLiteral(value: unknown): LiteralNodeInternal {
+    const node = new LiteralNodeInternal();
+    node.value = value;
+    return node;
+}
+
+
+class ComputeExpressionParsed {
+
+    private _node: ParsedNodeInternal;
+
+    constructor(
+        exprStr: string,
+        getters: ComputeGetters
+    ) {
+        this._node = new ExpressionParser(exprStr, getters).parse();
+    }
+
+    evaluate(): unknown {
+        return this._node.evaluate();
+    }
+};
+
+export function parseComputeExpression<VGP extends ValueGetterParam = ValueGetterParam>(
+    exprStr: string,
+    getters: ComputeGetters<VGP>
+): ComputeExpressionParsed {
+    return new ComputeExpressionParsed(exprStr, getters);
+}
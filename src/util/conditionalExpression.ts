@@ -106,6 +106,23 @@ import {
  * }
  * ```
  *
+ * [MORE_OPERATORS]
+ * ```js
+ * // In list, the same rule as `eq` on each item.
+ * { dimension: 'Product', in: ['Tofu', 'Biscuit'] }
+ * { dimension: 'Product', notIn: ['Tofu', 'Biscuit'] }
+ * // String matching. Numbers are converted to string, others never match.
+ * // Case sensitive unless `ignoreCase: true`.
+ * { dimension: 'Product', contains: 'tofu', ignoreCase: true }
+ * { dimension: 'Product', startsWith: 'To' }
+ * { dimension: 'Product', endsWith: 'fu' }
+ * // null/undefined, '', '-' and NaN are null.
+ * { dimension: 'Sales', isNull: true }
+ * { dimension: 'Sales', isNotNull: true }
+ * // Closed interval, the same rule as `gte` and `lte`.
+ * { dimension: 'Date', between: ['2012-01-01', '2012-12-31'], parser: 'time' }
+ * ```
+ *
  *
  * [EMPTY_RULE]
  * (1) If a relational expression set value as `null`/`undefined` like:
@@ -135,6 +152,14 @@ import {
  */
 interface RelationalExpressionOptionByOp extends Record<RelationalOperator, OptionDataValue> {
     reg?: RegExp | string; // RegExp
+    in?: OptionDataValue[];
+    notIn?: OptionDataValue[];
+    contains?: string;
+    startsWith?: string;
+    endsWith?: string;
+    isNull?: boolean;
+    isNotNull?: boolean;
+    between?: [OptionDataValue, OptionDataValue];
 };
 const RELATIONAL_EXPRESSION_OP_ALIAS_MAP = {
     value: 'eq',
@@ -165,8 +190,16 @@ interface RelationalExpressionOption extends
         RelationalExpressionOptionByOp, RelationalExpressionOptionByOpAlias {
     dimension?: DimensionLoose;
     parser?: RawValueParserType;
+    // Only for `contains`, `startsWith` and `endsWith`.
+    ignoreCase?: boolean;
 }
 
+// Not operators but modifiers in relational expression.
+const RELATIONAL_EXPRESSION_MODIFIER_MAP = {
+    parser: true,
+    ignoreCase: true
+} as const;
+
 type RelationalExpressionOpEvaluate = (tarVal: unknown, condVal: unknown) => boolean;
 
 
@@ -195,6 +228,130 @@ class RegExpEvaluator implements FilterComparator {
     }
 }
 
+function throwIllegalCondValue(op: string, condVal: unknown, expect: string): void {
+    let errMsg = '';
+    if (__DEV__) {
+        errMsg = makePrintable('"' + op + '" expects ' + expect + ', but got', condVal, 'in');
+    }
+    throwError(errMsg);
+}
+
+class InListEvaluator implements FilterComparator {
+    private _isIn: boolean;
+    private _comparators: FilterComparator[];
+
+    constructor(isIn: boolean, condVal: unknown, valueParser: (val: unknown) => unknown) {
+        if (!isArray(condVal)) {
+            throwIllegalCondValue(isIn ? 'in' : 'notIn', condVal, 'an array');
+        }
+        this._isIn = isIn;
+        this._comparators = map(
+            condVal as unknown[],
+            item => createFilterComparator('eq', valueParser ? valueParser(item) : item)
+        );
+    }
+
+    evaluate(lVal: unknown): boolean {
+        const comparators = this._comparators;
+        for (let i = 0; i < comparators.length; i++) {
+            if (comparators[i].evaluate(lVal)) {
+                return this._isIn;
+            }
+        }
+        return !this._isIn;
+    }
+}
+
+type StringMatchOperator = 'contains' | 'startsWith' | 'endsWith';
+
+class StringMatchEvaluator implements FilterComparator {
+    private _op: StringMatchOperator;
+    private _condVal: string;
+    private _ignoreCase: boolean;
+
+    constructor(op: StringMatchOperator, condVal: unknown, ignoreCase: boolean) {
+        if (!isString(condVal) && typeof condVal !== 'number') {
+            throwIllegalCondValue(op, condVal, 'a string');
+        }
+        this._op = op;
+        this._ignoreCase = !!ignoreCase;
+        this._condVal = ignoreCase ? (condVal + '').toLowerCase() : condVal + '';
+    }
+
+    evaluate(lVal: unknown): boolean {
+        const type = typeof lVal;
+        if (type !== 'string' && type !== 'number') {
+            return false;
+        }
+        const str = this._ignoreCase ? (lVal + '').toLowerCase() : lVal + '';
+        const condVal = this._condVal;
+        const idx = this._op === 'endsWith' ? str.lastIndexOf(condVal) : str.indexOf(condVal);
+        return this._op === 'contains' ? idx >= 0
+            : this._op === 'startsWith' ? idx === 0
+            : idx >= 0 && idx === str.length - condVal.length;
+    }
+}
+
+class NullEvaluator implements FilterComparator {
+    private _isNull: boolean;
+
+    constructor(isNull: boolean) {
+        this._isNull = isNull;
+    }
+
+    evaluate(lVal: unknown): boolean {
+        const valIsNull = lVal == null || lVal === '' || lVal === '-'
+            || (typeof lVal === 'number' && isNaN(lVal));
+        return valIsNull === this._isNull;
+    }
+}
+
+class BetweenEvaluator implements FilterComparator {
+    private _gte: FilterComparator;
+    private _lte: FilterComparator;
+
+    constructor(condVal: unknown, valueParser: (val: unknown) => unknown) {
+        if (!isArray(condVal) || condVal.length !== 2) {
+            throwIllegalCondValue('between', condVal, '[min, max]');
+        }
+        let min = (condVal as unknown[])[0];
+        let max = (condVal as unknown[])[1];
+        if (valueParser) {
+            min = valueParser(min);
+            max = valueParser(max);
+        }
+        this._gte = createFilterComparator('gte', min);
+        this._lte = createFilterComparator('lte', max);
+    }
+
+    evaluate(lVal: unknown): boolean {
+        return this._gte.evaluate(lVal) && this._lte.evaluate(lVal);
+    }
+}
+
+function createMoreEvaluator(
+    op: keyof RelationalExpressionOptionByOp,
+    condValRaw: unknown,
+    valueParser: (val: unknown) => unknown,
+    exprOption: RelationalExpressionOption
+): FilterComparator {
+    switch (op) {
+        case 'in':
+        case 'notIn':
+            return new InListEvaluator(op === 'in', condValRaw, valueParser);
+        case 'contains':
+        case 'startsWith':
+        case 'endsWith':
+            return new StringMatchEvaluator(op, condValRaw, exprOption.ignoreCase);
+        case 'isNull':
+        case 'isNotNull':
+            // `isNull: false` is the same as `isNotNull: true`.
+            return new NullEvaluator((op === 'isNull') === !!condValRaw);
+        case 'between':
+            return new BetweenEvaluator(condValRaw, valueParser);
+    }
+}
+
 
 
 
@@ -397,17 +554,19 @@ function parseRelationalOption(
 
     for (let i = 0; i < exprKeys.length; i++) {
         const keyRaw = exprKeys[i];
-        if (keyRaw === 'parser' || getters.valueGetterAttrMap.get(keyRaw)) {
+        if (hasOwn(RELATIONAL_EXPRESSION_MODIFIER_MAP, keyRaw) || getters.valueGetterAttrMap.get(keyRaw)) {
             continue;
         }
 
         const op: keyof RelationalExpressionOptionByOp = hasOwn(RELATIONAL_EXPRESSION_OP_ALIAS_MAP, keyRaw)
             ? RELATIONAL_EXPRESSION_OP_ALIAS_MAP[keyRaw as keyof RelationalExpressionOptionByOpAlias]
             : (keyRaw as keyof RelationalExpressionOptionByOp);
-        const condValueRaw = exprOption[keyRaw];
-        const condValueParsed = valueParser ? valueParser(condValueRaw) : condValueRaw;
+        const condValueRaw = exprOption[keyRaw as keyof RelationalExpressionOption];
+        // The list of `in`, `between` are parsed item by item.
+        const condValueParsed = (valueParser && !isArray(condValueRaw)) ? valueParser(condValueRaw) : condValueRaw;
         const evaluator = createFilterComparator(op, condValueParsed)
-            || (op === 'reg' && new RegExpEvaluator(condValueParsed));
+            || (op === 'reg' && new RegExpEvaluator(condValueParsed))
+            || createMoreEvaluator(op, condValueRaw, valueParser, exprOption);
 
         if (!evaluator) {
             if (__DEV__) {
@@ -50,5 +50,10 @@ export interface ECData {
         name: string;
         option: ComponentItemTooltipOption<unknown>;
     };
+
+    // Written as metadata of elements in server side rendering.
+    // Series items are recognized by `seriesIndex` and `dataIndex`.
+    ssrType?: 'legend';
+    ssrName?: string;
 }
 export const getECData = makeInner<ECData, Element>();
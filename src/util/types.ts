@@ -237,6 +237,12 @@ export interface PostUpdater {
     (ecModel: GlobalModel, api: ExtensionAPI): void;
 }
 
+export type UpdateLifecycleName = 'series:beforeupdate' | 'series:afterupdate';
+
+export interface UpdateLifecycleHandler {
+    (ecModel: GlobalModel, api: ExtensionAPI): void;
+}
+
 export interface StageHandlerReset {
     (seriesModel: SeriesModel, ecModel: GlobalModel, api: ExtensionAPI, payload?: Payload):
         StageHandlerProgressExecutor | StageHandlerProgressExecutor[] | void
@@ -439,6 +445,7 @@ export const SOURCE_FORMAT_ARRAY_ROWS = 'arrayRows' as const;
 export const SOURCE_FORMAT_OBJECT_ROWS = 'objectRows' as const;
 export const SOURCE_FORMAT_KEYED_COLUMNS = 'keyedColumns' as const;
 export const SOURCE_FORMAT_TYPED_ARRAY = 'typedArray' as const;
+export const SOURCE_FORMAT_KEYED_TYPED_COLUMNS = 'keyedTypedColumns' as const;
 export const SOURCE_FORMAT_UNKNOWN = 'unknown' as const;
 
 export type SourceFormat =
@@ -447,6 +454,7 @@ export type SourceFormat =
     | typeof SOURCE_FORMAT_OBJECT_ROWS
     | typeof SOURCE_FORMAT_KEYED_COLUMNS
     | typeof SOURCE_FORMAT_TYPED_ARRAY
+    | typeof SOURCE_FORMAT_KEYED_TYPED_COLUMNS
     | typeof SOURCE_FORMAT_UNKNOWN;
 
 export const SERIES_LAYOUT_BY_COLUMN = 'column' as const;
@@ -570,7 +578,8 @@ export type OptionSourceData<
     | OptionSourceDataObjectRows<VAL>
     | OptionSourceDataArrayRows<VAL>
     | OptionSourceDataKeyedColumns<VAL>
-    | OptionSourceDataTypedArray;
+    | OptionSourceDataTypedArray
+    | OptionSourceDataKeyedTypedColumns;
 export type OptionDataItemOriginal<
     VAL extends OptionDataValue = OptionDataValue
 > = VAL | VAL[] | OptionDataItemObject<VAL>;
@@ -585,6 +594,14 @@ export type OptionSourceDataArrayRows<VAL extends OptionDataValue = OptionDataVa
 export type OptionSourceDataKeyedColumns<VAL extends OptionDataValue = OptionDataValue> =
     Dictionary<ArrayLike<VAL>>;
 export type OptionSourceDataTypedArray = ArrayLike<number>;
+export type OptionSourceDataKeyedTypedColumns =
+    Dictionary<ArrayLike<number> | ArrayLike<OptionDataValue> | OptionSourceDictionaryColumn>;
+// Dictionary-encoded column, where each value is `dictionary[indices[i]]`.
+// Negative or NaN index means null.
+export interface OptionSourceDictionaryColumn {
+    indices: ArrayLike<number>;
+    dictionary: ArrayLike<OptionDataValue>;
+}
 
 // See also `model.js#getDataItemValue`.
 export type OptionDataItem =
@@ -597,6 +614,7 @@ export type OptionDataItem =
 export type OptionDataItemObject<T> = {
     id?: OptionId;
     name?: OptionName;
+    groupId?: OptionId;
     value?: T[] | T;
     selected?: boolean;
 };
@@ -1596,6 +1614,28 @@ export interface SeriesOption<
      */
     selectedMap?: Dictionary<boolean>
     selectedMode?: 'single' | 'multiple' | boolean
+
+    /**
+     * Morph the data items from the previous series when `setOption`.
+     * Items are matched by `groupId` of item, `dataGroupId` of series or the data id.
+     */
+    universalTransition?: boolean | UniversalTransitionOption
+
+    /**
+     * Group id of all the data items in this series.
+     * Used to match the items of the series before and after `setOption`.
+     */
+    dataGroupId?: OptionId
+}
+
+export interface UniversalTransitionOption {
+    enabled?: boolean
+    /**
+     * How to divide the shape in one-to-many or many-to-one transition.
+     * 'split' only works on rect and sector, other shapes will be cloned.
+     * @default 'split'
+     */
+    divideShape?: 'split' | 'clone'
 }
 
 export interface SeriesOnCartesianOptionMixin {
@@ -1629,6 +1669,11 @@ export interface SeriesOnCalendarOptionMixin {
     calendarId?: string
 }
 
+export interface SeriesOnMatrixOptionMixin {
+    matrixIndex?: number
+    matrixId?: string
+}
+
 export interface SeriesLargeOptionMixin {
     large?: boolean
     largeThreshold?: number
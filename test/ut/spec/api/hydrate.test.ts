@@ -0,0 +1,100 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { hydrate, HydrateItemParams } from '../../../../src/echarts.hydrate';
+
+
+describe('hydrate', function () {
+
+    const SVG = '<svg width="200" height="100" xmlns="http://www.w3.org/2000/svg">'
+        + '<g data-ec-type="legend" data-ec-name="S1"><path d="M0 0L10 0"/><text>S1</text></g>'
+        + '<g data-ec-type="legend" data-ec-name="S2"><path d="M20 0L30 0"/><text>S2</text></g>'
+        + '<path id="a" d="M0 50L10 50" data-ec-type="series" data-ec-series-index="0" data-ec-series-name="S1"'
+        + ' data-ec-data-index="0" data-ec-name="A" data-ec-value="12"/>'
+        + '<path id="b" d="M20 50L30 50" data-ec-type="series" data-ec-series-index="1" data-ec-series-name="S2"'
+        + ' data-ec-data-index="0" data-ec-name="A" data-ec-value="34"/>'
+        + '</svg>';
+
+    let container: HTMLElement;
+
+    beforeEach(function () {
+        container = document.createElement('div');
+        container.innerHTML = SVG;
+        document.body.appendChild(container);
+    });
+
+    afterEach(function () {
+        document.body.removeChild(container);
+    });
+
+    function dispatch(el: Element, type: string) {
+        el.dispatchEvent(new MouseEvent(type, { bubbles: true, clientX: 5, clientY: 5 }));
+    }
+
+    function getById(id: string) {
+        return container.querySelector('#' + id) as SVGElement;
+    }
+
+    it('tooltip_and_emphasis', function () {
+        const overList: HydrateItemParams[] = [];
+        const chart = hydrate(container, {
+            on: {
+                mouseover(params) {
+                    overList.push(params);
+                }
+            }
+        });
+
+        dispatch(getById('b'), 'mousemove');
+        expect(overList.length).toEqual(1);
+        expect(overList[0].seriesIndex).toEqual(1);
+        expect(overList[0].dataIndex).toEqual(0);
+        expect(overList[0].value).toEqual('34');
+
+        const tooltipEl = container.querySelector('div');
+        expect(tooltipEl.textContent).toEqual('S2\nA: 34');
+        expect(tooltipEl.style.display).toEqual('block');
+        expect(getById('a').style.opacity).toEqual('0.3');
+        expect(getById('b').style.opacity).toEqual('');
+
+        dispatch(container.querySelector('svg'), 'mouseleave');
+        expect(tooltipEl.style.display).toEqual('none');
+        expect(getById('a').style.opacity).toEqual('');
+
+        chart.dispose();
+        expect(container.querySelector('div')).toBeNull();
+    });
+
+    it('legend_toggle', function () {
+        const chart = hydrate(container, { tooltip: false });
+        const legendItem = container.querySelector('[data-ec-name="S1"] text');
+
+        dispatch(legendItem, 'click');
+        expect(getById('a').style.display).toEqual('none');
+        expect(getById('b').style.display).toEqual('');
+        expect((legendItem.parentNode as SVGElement).style.opacity).toEqual('0.5');
+
+        dispatch(legendItem, 'click');
+        expect(getById('a').style.display).toEqual('');
+        expect((legendItem.parentNode as SVGElement).style.opacity).toEqual('');
+
+        chart.dispose();
+    });
+
+});
@@ -0,0 +1,153 @@
+/**
+ * @jest-environment node
+ */
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { init, EChartsType } from '../../../../src/echarts.all';
+
+
+describe('ssr', function () {
+
+    let chart: EChartsType;
+
+    afterEach(function () {
+        chart && chart.dispose();
+        chart = null;
+    });
+
+    it('render_to_svg_string_without_dom', function () {
+        expect(typeof document).toEqual('undefined');
+
+        chart = init(null, null, {
+            renderer: 'svg',
+            ssr: true,
+            width: 400,
+            height: 300
+        });
+        chart.setOption({
+            backgroundColor: '#fff',
+            tooltip: {},
+            toolbox: {
+                feature: {
+                    dataView: {},
+                    saveAsImage: {}
+                }
+            },
+            title: {
+                text: 'Sales & <Profit>'
+            },
+            xAxis: {
+                type: 'category',
+                data: ['A', 'B', 'C']
+            },
+            yAxis: {},
+            series: [{
+                type: 'bar',
+                data: [1, 2, 3]
+            }, {
+                type: 'line',
+                areaStyle: {
+                    color: {
+                        type: 'linear',
+                        x: 0,
+                        y: 0,
+                        x2: 0,
+                        y2: 1,
+                        colorStops: [{
+                            offset: 0, color: 'rgba(255, 0, 0, 0.5)'
+                        }, {
+                            offset: 1, color: '#00f'
+                        }]
+                    }
+                },
+                data: [3, 2, 1]
+            }]
+        });
+
+        const svg = chart.renderToSVGString();
+        expect(svg.indexOf('<svg width="400" height="300"')).toEqual(0);
+        expect(svg.slice(-6)).toEqual('</svg>');
+        expect(svg).toContain('<rect width="400" height="300" x="0" y="0" id="0" fill="#fff"/>');
+        // Text is escaped.
+        expect(svg).toContain('>Sales &amp; &lt;Profit&gt;</text>');
+        // Gradient is defined and referenced.
+        expect(svg).toMatch(/<linearGradient id="(zr\d+-gradient-0)"[^>]*>.*<\/linearGradient>/);
+        expect(svg).toContain('stop-opacity="0.5"');
+        expect(svg).toContain('fill="url(#');
+        // Bars are drawn.
+        expect(svg.match(/<path /g).length).toBeGreaterThan(3);
+
+        expect(chart.renderToSVGString({ useViewBox: true })).toContain('viewBox="0 0 400 300"');
+    });
+
+    it('resize', function () {
+        chart = init(null, null, {
+            renderer: 'svg',
+            ssr: true,
+            width: 400,
+            height: 300
+        });
+        chart.setOption({
+            series: {
+                type: 'pie',
+                data: [1, 2, 3]
+            }
+        });
+        chart.resize({
+            width: 200,
+            height: 100
+        });
+        expect(chart.getWidth()).toEqual(200);
+        expect(chart.renderToSVGString().indexOf('<svg width="200" height="100"')).toEqual(0);
+    });
+
+    it('write_meta_for_hydration', function () {
+        chart = init(null, null, {
+            renderer: 'svg',
+            ssr: true,
+            width: 400,
+            height: 300
+        });
+        chart.setOption({
+            animation: false,
+            legend: {},
+            xAxis: {
+                type: 'category',
+                data: ['A', 'B']
+            },
+            yAxis: {},
+            series: [{
+                name: 'S1',
+                type: 'bar',
+                data: [12, 34]
+            }]
+        });
+
+        const svg = chart.renderToSVGString();
+        expect(svg).toContain('data-ec-type="series"');
+        expect(svg).toContain('data-ec-series-index="0"');
+        expect(svg).toContain('data-ec-series-name="S1"');
+        expect(svg).toContain('data-ec-data-index="1"');
+        expect(svg).toContain('data-ec-name="B"');
+        expect(svg).toContain('data-ec-value="34"');
+        expect(svg).toMatch(/data-ec-type="legend"[^>]*data-ec-name="S1"/);
+    });
+
+});
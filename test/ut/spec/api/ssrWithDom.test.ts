@@ -0,0 +1,63 @@
+
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { init, EChartsType } from '../../../../src/echarts.all';
+import env from 'zrender/src/core/env';
+
+
+// Server side rendering in environment that looks like a browser, like jsdom,
+// where zrender binds DOM events on the viewport root of the painter.
+describe('ssr_with_dom', function () {
+
+    let chart: EChartsType;
+
+    afterEach(function () {
+        chart && chart.dispose();
+        chart = null;
+    });
+
+    it('render_to_svg_string', function () {
+        expect(typeof document).toEqual('object');
+        expect(env.node).toEqual(false);
+
+        chart = init(null, null, {
+            renderer: 'svg',
+            ssr: true,
+            width: 400,
+            height: 300
+        });
+        chart.setOption({
+            tooltip: {},
+            xAxis: {
+                type: 'category',
+                data: ['A', 'B', 'C']
+            },
+            yAxis: {},
+            series: {
+                type: 'bar',
+                data: [1, 2, 3]
+            }
+        });
+
+        const svg = chart.renderToSVGString();
+        expect(svg.indexOf('<svg width="400" height="300"')).toEqual(0);
+        expect(svg.match(/<path /g).length).toBeGreaterThan(3);
+    });
+});
@@ -0,0 +1,319 @@
+
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { EChartsType } from '../../../../src/echarts';
+import { createChart, getECModel } from '../../core/utHelper';
+import Axis2D from '../../../../src/coord/cartesian/Axis2D';
+import GridModel from '../../../../src/coord/cartesian/GridModel';
+import ChartView from '../../../../src/view/Chart';
+import SeriesModel from '../../../../src/model/Series';
+import LineView from '../../../../src/chart/line/LineView';
+import LargeSymbolDraw from '../../../../src/chart/helper/LargeSymbolDraw';
+
+
+describe('api/streamData', function () {
+
+    let chart: EChartsType;
+    beforeEach(function () {
+        chart = createChart();
+    });
+
+    afterEach(function () {
+        chart.dispose();
+    });
+
+    // The update is performed in the next frame.
+    function flushFrame() {
+        // @ts-ignore
+        chart._onframe();
+    }
+
+    function getXAxis(): Axis2D {
+        return (getECModel(chart).getComponent('grid') as GridModel).coordinateSystem.getAxis('x');
+    }
+
+    function getChartView(seriesIndex: number): ChartView {
+        const seriesModel = getECModel(chart).getSeriesByIndex(seriesIndex) as SeriesModel;
+        // @ts-ignore
+        return chart._chartsMap[seriesModel.__viewId];
+    }
+
+    const HOUR = 3600 * 1000;
+
+    it('time_axis_sliding_window', function () {
+        chart.setOption({
+            animation: false,
+            xAxis: { type: 'time', min: 'dataMin', max: 'dataMax' },
+            yAxis: {},
+            series: {
+                type: 'line',
+                data: [[0, 1], [HOUR, 2], [2 * HOUR, 3]]
+            }
+        });
+        expect(getXAxis().scale.getExtent()).toEqual([0, 2 * HOUR]);
+
+        chart.streamData({
+            seriesIndex: 0,
+            data: [[3 * HOUR, 4]],
+            maxCount: 3
+        });
+        chart.streamData({
+            seriesIndex: 0,
+            data: [[4 * HOUR, 5]],
+            maxCount: 3
+        });
+        flushFrame();
+
+        const data = getECModel(chart).getSeriesByIndex(0).getData();
+        expect(data.count()).toEqual(3);
+        expect(data.mapArray('y', y => y)).toEqual([3, 4, 5]);
+        expect(getXAxis().scale.getExtent()).toEqual([2 * HOUR, 4 * HOUR]);
+        // Layout is updated by the new extent.
+        const points = data.getLayout('points');
+        expect(points[0]).toBeCloseTo(getXAxis().toGlobalCoord(getXAxis().dataToCoord(2 * HOUR)));
+
+        // Later `setOption` without data keeps the streamed data.
+        chart.setOption({ yAxis: { min: 0 } });
+        expect(getECModel(chart).getSeriesByIndex(0).getData().count()).toEqual(3);
+    });
+
+    it('dataset_source', function () {
+        chart.setOption({
+            animation: false,
+            dataset: {
+                source: [
+                    ['time', 'value'],
+                    [0, 1],
+                    [HOUR, 2]
+                ]
+            },
+            xAxis: { type: 'time', min: 'dataMin', max: 'dataMax' },
+            yAxis: {},
+            series: {
+                type: 'line'
+            }
+        });
+
+        chart.streamData({
+            seriesIndex: 0,
+            data: [[2 * HOUR, 3], [3 * HOUR, 4]],
+            maxCount: 2
+        });
+        flushFrame();
+
+        const data = getECModel(chart).getSeriesByIndex(0).getData();
+        expect(data.count()).toEqual(2);
+        expect(data.mapArray('value', val => val)).toEqual([3, 4]);
+        // Header of the source is kept.
+        expect(data.getRawDataItem(0)).toEqual([2 * HOUR, 3]);
+        expect(getXAxis().scale.getExtent()).toEqual([2 * HOUR, 3 * HOUR]);
+    });
+
+    it('dataset_shared_by_series', function () {
+        const source = [
+            ['time', 'a', 'b'],
+            [0, 1, 10],
+            [HOUR, 2, 20]
+        ];
+        chart.setOption({
+            dataset: { source: source },
+            xAxis: { type: 'time' },
+            yAxis: {},
+            series: [
+                { type: 'line', encode: { x: 'time', y: 'a' } },
+                { type: 'line', encode: { x: 'time', y: 'b' } }
+            ]
+        });
+
+        chart.streamData({
+            seriesIndex: 0,
+            data: [[2 * HOUR, 3, 30], [3 * HOUR, 4, 40]],
+            maxCount: 2
+        });
+        flushFrame();
+
+        const ecModel = getECModel(chart);
+        const data = ecModel.getSeriesByIndex(0).getData();
+        expect(data.mapArray('a', val => val)).toEqual([3, 4]);
+        expect(data.getRawDataItem(0)).toEqual([2 * HOUR, 3, 30]);
+
+        // The other series on the dataset and the dataset itself are not modified.
+        const otherData = ecModel.getSeriesByIndex(1).getData();
+        expect(otherData.mapArray('b', val => val)).toEqual([10, 20]);
+        expect(otherData.getRawDataItem(0)).toEqual([0, 1, 10]);
+        expect(otherData.getRawDataItem(1)).toEqual([HOUR, 2, 20]);
+        expect(source.length).toEqual(3);
+    });
+
+    it('partial_update', function () {
+        chart.setOption({
+            grid: [{ bottom: '55%' }, { top: '55%' }],
+            xAxis: [
+                { type: 'time', min: 'dataMin', max: 'dataMax', gridIndex: 0 },
+                { type: 'time', min: 'dataMin', max: 'dataMax', gridIndex: 1 }
+            ],
+            yAxis: [{ gridIndex: 0 }, { gridIndex: 1 }],
+            series: [{
+                type: 'line',
+                data: [[0, 1], [HOUR, 2], [2 * HOUR, 3]]
+            }, {
+                type: 'line',
+                data: [[0, 3], [2 * HOUR, 1]]
+            }, {
+                type: 'line',
+                xAxisIndex: 1,
+                yAxisIndex: 1,
+                data: [[0, 1], [HOUR, 2]]
+            }]
+        });
+        const ecModel = getECModel(chart);
+        const oldData = ecModel.getSeriesByIndex(0).getData();
+        const oldPolyline = (getChartView(0) as LineView)._polyline;
+        const oldSiblingData = ecModel.getSeriesByIndex(1).getData();
+        const oldSiblingPoints = oldSiblingData.getLayout('points');
+        const oldOtherGridData = ecModel.getSeriesByIndex(2).getData();
+        const oldOtherGridPoints = oldOtherGridData.getLayout('points');
+
+        chart.streamData({
+            seriesIndex: 0,
+            data: [[3 * HOUR, 4]],
+            maxCount: 3
+        });
+        flushFrame();
+
+        // The streamed series is restored and processed again.
+        const data = ecModel.getSeriesByIndex(0).getData();
+        expect(data).not.toBe(oldData);
+        expect(data.mapArray('y', y => y)).toEqual([2, 3, 4]);
+        // The path is patched rather than created again.
+        const polyline = (getChartView(0) as LineView)._polyline;
+        expect(polyline).toBe(oldPolyline);
+        expect(polyline.shape.points.length).toEqual(6);
+        // The series on the same grid is laid out again by the new extent, but not restored.
+        expect(ecModel.getSeriesByIndex(1).getData()).toBe(oldSiblingData);
+        expect(oldSiblingData.getLayout('points')).not.toBe(oldSiblingPoints);
+        // The series on the other grid is not touched.
+        expect(ecModel.getSeriesByIndex(2).getData()).toBe(oldOtherGridData);
+        expect(oldOtherGridData.getLayout('points')).toBe(oldOtherGridPoints);
+    });
+
+    it('large_scatter_path_patched', function () {
+        const rawData = [];
+        for (let i = 0; i < 10; i++) {
+            rawData.push([i, i]);
+        }
+        chart.setOption({
+            animation: false,
+            xAxis: { min: 'dataMin', max: 'dataMax' },
+            yAxis: {},
+            series: {
+                type: 'scatter',
+                large: true,
+                largeThreshold: 5,
+                data: rawData
+            }
+        });
+        // @ts-ignore
+        const symbolDraw = getChartView(0)._symbolDraw as LargeSymbolDraw;
+        const oldSymbolEl = symbolDraw._symbolEl;
+
+        chart.streamData({
+            seriesIndex: 0,
+            data: [[10, 10], [11, 11]],
+            maxCount: 10
+        });
+        flushFrame();
+
+        expect(symbolDraw._symbolEl).toBe(oldSymbolEl);
+        expect(symbolDraw.group.childCount()).toEqual(1);
+        const points = symbolDraw._symbolEl.shape.points;
+        expect(points.length).toEqual(20);
+        // The first point is at the left of the new extent.
+        expect(points[0]).toBeCloseTo(getXAxis().toGlobalCoord(getXAxis().dataToCoord(2)));
+    });
+
+    it('restore_targets_of_data_zoom', function () {
+        chart.setOption({
+            xAxis: {},
+            yAxis: {},
+            dataZoom: { start: 0, end: 50 },
+            series: [{
+                type: 'line',
+                data: [[0, 1], [1, 2], [2, 3], [3, 4]]
+            }, {
+                type: 'line',
+                data: [[0, 1], [1, 2], [2, 3], [3, 4]]
+            }]
+        });
+        const ecModel = getECModel(chart);
+        expect(ecModel.getSeriesByIndex(1).getData().mapArray('x', x => x)).toEqual([0, 1]);
+
+        chart.streamData({
+            seriesIndex: 0,
+            data: [[4, 5]]
+        });
+        flushFrame();
+
+        // The window is enlarged by the new extent, where the other series is filtered
+        // from its raw data again but not the filtered data.
+        expect(ecModel.getSeriesByIndex(0).getData().mapArray('x', x => x)).toEqual([0, 1, 2]);
+        expect(ecModel.getSeriesByIndex(1).getData().mapArray('x', x => x)).toEqual([0, 1, 2]);
+    });
+
+    it('progressive_render', function () {
+        const rawData = [];
+        for (let i = 0; i < 10; i++) {
+            rawData.push([i, i]);
+        }
+        chart.setOption({
+            animation: false,
+            xAxis: {},
+            yAxis: {},
+            series: {
+                type: 'scatter',
+                progressive: 4,
+                progressiveThreshold: 5,
+                data: rawData
+            }
+        });
+        for (let i = 0; i < 5; i++) {
+            flushFrame();
+        }
+        // @ts-ignore
+        const scheduler = chart._scheduler;
+        expect(scheduler.unfinished).toEqual(false);
+
+        chart.streamData({
+            seriesIndex: 0,
+            data: [[10, 10], [11, 11]],
+            maxCount: 10
+        });
+        flushFrame();
+        expect(scheduler.unfinished).toEqual(true);
+
+        for (let i = 0; i < 5; i++) {
+            flushFrame();
+        }
+        expect(scheduler.unfinished).toEqual(false);
+        const data = getECModel(chart).getSeriesByIndex(0).getData();
+        expect(data.getItemGraphicEl(0)).toBeTruthy();
+        expect(data.getItemGraphicEl(9)).toBeTruthy();
+    });
+});
@@ -0,0 +1,181 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { EChartsType, registerMap } from '../../../../../src/echarts';
+import { createChart, getECModel } from '../../../core/utHelper';
+import { createProjection } from '../../../../../src/coord/geo/projection';
+import GeoModel from '../../../../../src/coord/geo/GeoModel';
+import { GeoJSONRegion } from '../../../../../src/coord/geo/Region';
+import LinesSeriesModel from '../../../../../src/chart/lines/LinesSeries';
+
+
+function makeSquare(name: string, x: number, y: number, size: number) {
+    return {
+        type: 'Feature',
+        properties: { name: name },
+        geometry: {
+            type: 'Polygon',
+            coordinates: [[[x, y], [x + size, y], [x + size, y + size], [x, y + size], [x, y]]]
+        }
+    };
+}
+
+registerMap('ut_projection_squares', {
+    type: 'FeatureCollection',
+    features: [
+        makeSquare('A', -60, -40, 50),
+        makeSquare('B', 10, 10, 50)
+    ]
+} as any);
+
+
+describe('geo_projection', function () {
+
+    let chart: EChartsType;
+    beforeEach(function () {
+        chart = createChart();
+    });
+
+    afterEach(function () {
+        chart.dispose();
+    });
+
+    it('builtin_projections_round_trip', function () {
+        const coords = [[0, 0], [-120, 45], [100, -30], [30, 60]];
+        ['mercator', 'albers', 'robinson', 'orthographic'].forEach(function (type) {
+            const projection = createProjection({ type: type as 'mercator', origin: [20, 10] });
+            coords.forEach(function (coord) {
+                const point = projection.project(coord);
+                if (type === 'orthographic' && isNaN(point[0])) {
+                    // On the back of the globe.
+                    return;
+                }
+                const result = projection.unproject(point);
+                expect(result[0]).toBeCloseTo(coord[0], 1);
+                expect(result[1]).toBeCloseTo(coord[1], 1);
+            });
+        });
+    });
+
+    it('north_is_up', function () {
+        ['mercator', 'albers', 'robinson', 'orthographic'].forEach(function (type) {
+            const projection = createProjection(type as 'mercator');
+            expect(projection.project([0, 20])[1]).toBeLessThan(projection.project([0, -20])[1]);
+        });
+    });
+
+    it('convert_with_projection', function () {
+        chart.setOption({
+            geo: {
+                map: 'ut_projection_squares',
+                projection: 'mercator'
+            }
+        });
+        const geo = (getECModel(chart).getComponent('geo') as GeoModel).coordinateSystem;
+        expect(geo.projection).toBeTruthy();
+
+        const coord = [30, 20];
+        const pixel = chart.convertToPixel({ geoIndex: 0 }, coord);
+        const result = chart.convertFromPixel({ geoIndex: 0 }, pixel);
+        expect(result[0]).toBeCloseTo(coord[0], 5);
+        expect(result[1]).toBeCloseTo(coord[1], 5);
+
+        // Mercator stretches the high latitude.
+        const p0 = chart.convertToPixel({ geoIndex: 0 }, [0, 0]);
+        const p1 = chart.convertToPixel({ geoIndex: 0 }, [0, 20]);
+        const p2 = chart.convertToPixel({ geoIndex: 0 }, [0, 40]);
+        expect(p0[1] - p1[1]).toBeLessThan(p1[1] - p2[1]);
+
+        // Center is in [lng, lat].
+        expect(geo.getCenter()[0]).toBeCloseTo(0, 5);
+        chart.setOption({
+            geo: { center: [30, 20] }
+        });
+        const center = (getECModel(chart).getComponent('geo') as GeoModel).coordinateSystem.getCenter();
+        expect(center[0]).toBeCloseTo(30, 5);
+        expect(center[1]).toBeCloseTo(20, 5);
+    });
+
+    it('reuse_projection_until_option_changes', function () {
+        chart.setOption({
+            geo: {
+                map: 'ut_projection_squares',
+                projection: { type: 'albers', origin: [10, 0] }
+            }
+        });
+        function getGeo() {
+            return (getECModel(chart).getComponent('geo') as GeoModel).coordinateSystem;
+        }
+        const projection = getGeo().projection;
+        const region = getGeo().regions[0] as GeoJSONRegion;
+        const geometries = region.getProjectedGeometries(projection);
+
+        chart.setOption({ geo: { zoom: 2 } });
+        chart.dispatchAction({ type: 'geoRoam', componentType: 'geo', zoom: 1.5 });
+        expect(getGeo().projection).toBe(projection);
+        // Projected geometries are cached in the region.
+        expect(region.getProjectedGeometries(getGeo().projection)).toBe(geometries);
+
+        chart.setOption({ geo: { projection: { origin: [20, 0] } } });
+        expect(getGeo().projection).not.toBe(projection);
+    });
+
+    it('custom_projection', function () {
+        chart.setOption({
+            geo: {
+                map: 'ut_projection_squares',
+                projection: {
+                    project: (coord: number[]) => [coord[0] * 2, -coord[1]],
+                    unproject: (point: number[]) => [point[0] / 2, -point[1]]
+                }
+            }
+        });
+        const geo = (getECModel(chart).getComponent('geo') as GeoModel).coordinateSystem;
+        const rect = geo.getBoundingRect();
+        expect(rect.x).toEqual(-120);
+        expect(rect.width).toEqual(240);
+        expect(rect.y).toEqual(-60);
+        expect(rect.height).toEqual(100);
+    });
+
+    it('lines_follow_great_circle', function () {
+        const option = {
+            geo: {
+                map: 'ut_projection_squares'
+            },
+            series: {
+                type: 'lines',
+                polyline: true,
+                data: [{ coords: [[-60, 40], [60, 40]] }]
+            }
+        };
+        chart.setOption(option);
+        const getPoints = () => (getECModel(chart).getSeriesByIndex(0) as LinesSeriesModel)
+            .getData().getItemLayout(0) as number[][];
+        expect(getPoints().length).toEqual(2);
+
+        chart.setOption({ geo: { projection: 'mercator' } });
+        const points = getPoints();
+        expect(points.length).toBeGreaterThan(2);
+        // Great circle bends to the pole.
+        const middle = points[Math.floor(points.length / 2)];
+        expect(middle[1]).toBeLessThan(points[0][1]);
+    });
+
+});
@@ -0,0 +1,131 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+import { EChartsType } from '../../../../../src/echarts';
+import { createChart, getECModel } from '../../../core/utHelper';
+import MatrixModel from '../../../../../src/coord/matrix/MatrixModel';
+import Matrix from '../../../../../src/coord/matrix/Matrix';
+import { Rect } from '../../../../../src/util/graphic';
+
+
+describe('matrix', function () {
+
+    let chart: EChartsType;
+    beforeEach(function () {
+        chart = createChart();
+    });
+
+    afterEach(function () {
+        chart.dispose();
+    });
+
+    const matrixOption = {
+        left: 0,
+        top: 0,
+        width: 300,
+        height: 200,
+        x: {
+            data: [{ value: 'A', children: ['a1', 'a2'] }, 'B']
+        },
+        y: {
+            levelSize: 60,
+            data: ['r1', 'r2']
+        }
+    };
+
+    function getMatrix(): Matrix {
+        return (getECModel(chart).getComponent('matrix') as MatrixModel).coordinateSystem;
+    }
+
+    it('layout_cells', function () {
+        chart.setOption({
+            matrix: matrixOption
+        });
+        const matrix = getMatrix();
+
+        // Columns: y header (60), a1, a2, B share the rest.
+        // Rows: two levels of x header, r1, r2 share the whole height.
+        expect(matrix.dataToRect(['a2', 'r2'])).toEqual({ x: 140, y: 150, width: 80, height: 50 });
+        expect(matrix.dataToRect([['a1', 'B'], 'r1'])).toEqual({ x: 60, y: 100, width: 240, height: 50 });
+        expect(matrix.dataToPoint(['B', 'r1'])).toEqual([260, 125]);
+        expect(matrix.pointToData([150, 160])).toEqual([1, 1]);
+        expect(matrix.dataToPoint(['C', 'r1'])).toEqual([NaN, NaN]);
+
+        const xCells = matrix.getModel().getDim('x').getCells();
+        // 'B' is a leaf on the first level and spans down to the second level.
+        expect(matrix.getHeaderCellRect('x', xCells[0])).toEqual({ x: 60, y: 0, width: 160, height: 50 });
+        expect(matrix.getHeaderCellRect('x', xCells[3])).toEqual({ x: 220, y: 0, width: 80, height: 100 });
+    });
+
+    it('custom_leaf_size', function () {
+        chart.setOption({
+            matrix: {
+                left: 0,
+                top: 0,
+                width: 300,
+                height: 200,
+                x: {
+                    show: false,
+                    data: [{ value: 'a', size: 100 }, 'b']
+                },
+                y: {
+                    show: false,
+                    data: ['r']
+                }
+            }
+        });
+        const matrix = getMatrix();
+
+        expect(matrix.dataToRect(['a', 'r'])).toEqual({ x: 0, y: 0, width: 100, height: 200 });
+        expect(matrix.dataToRect(['b', 'r'])).toEqual({ x: 100, y: 0, width: 200, height: 200 });
+    });
+
+    it('series_on_matrix', function () {
+        chart.setOption({
+            matrix: matrixOption,
+            visualMap: { min: 0, max: 10, show: false, seriesIndex: 0 },
+            series: [{
+                type: 'heatmap',
+                coordinateSystem: 'matrix',
+                data: [['a1', 'r1', 5]]
+            }, {
+                type: 'scatter',
+                coordinateSystem: 'matrix',
+                data: [['a2', 'r2']]
+            }, {
+                type: 'pie',
+                coordinateSystem: 'matrix',
+                coord: ['B', 'r1'],
+                radius: '50%',
+                data: [1, 2]
+            }]
+        });
+        const ecModel = getECModel(chart);
+
+        const rect = ecModel.getSeriesByIndex(0).getData().getItemGraphicEl(0) as Rect;
+        expect([rect.shape.x, rect.shape.y, rect.shape.width, rect.shape.height]).toEqual([60, 100, 80, 50]);
+
+        expect(ecModel.getSeriesByIndex(1).getData().getItemLayout(0)).toEqual([180, 175]);
+
+        const pieLayout = ecModel.getSeriesByIndex(2).getData().getItemLayout(0);
+        expect(pieLayout.cx).toEqual(260);
+        expect(pieLayout.cy).toEqual(125);
+        expect(pieLayout.r).toEqual(12.5);
+    });
+
+});
@@ -189,6 +189,30 @@ describe('List', function () {
             expect(list.getRawDataItem(0)).toEqual([10, 10]);
             expect(list.getItemModel(0).option).toEqual([10, 10]);
         });
+
+        it('shiftData', function () {
+            const list = new List(['x', 'y'], new Model());
+            list.initData([[10, 15], [20, 25], [30, 35]]);
+            const oldList = list.cloneShallow();
+            const oldId = list.getId(2);
+
+            list.appendData([[40, 45]]);
+            list.shiftData(2);
+
+            expect(list.count()).toEqual(2);
+            expect(list.mapArray(['x', 'y'], function (x, y) {
+                return [x, y];
+            })).toEqual([[30, 35], [40, 45]]);
+            expect(list.getRawDataItem(0)).toEqual([30, 35]);
+            expect(list.getDataExtent('x')).toEqual([30, 40]);
+            // Ids are kept so that the items can be diffed with the old ones.
+            expect(list.getId(0)).toEqual(oldId);
+
+            // Lists sharing the storage are not affected.
+            expect(oldList.count()).toEqual(3);
+            expect(oldList.get('x', 0)).toEqual(10);
+            expect(oldList.getId(2)).toEqual(oldId);
+        });
     });
 
     describe('Data read', function () {
@@ -0,0 +1,177 @@
+
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { EChartsType } from '../../../../src/echarts';
+import { createChart, removeChart, getECModel } from '../../core/utHelper';
+import { parseCSV } from '../../../../src/data/helper/csv';
+import SeriesModel from '../../../../src/model/Series';
+import { parseDate } from '../../../../src/util/number';
+
+
+describe('csv', function () {
+
+    describe('parseCSV', function () {
+
+        it('quote_and_escape', function () {
+            expect(parseCSV('a,b,c\n"x, y","say ""hi""",3')).toEqual([
+                ['a', 'b', 'c'],
+                ['x, y', 'say "hi"', '3']
+            ]);
+            expect(parseCSV('a,"line1\nline2"\n,')).toEqual([
+                ['a', 'line1\nline2'],
+                ['', '']
+            ]);
+        });
+
+        it('line_break', function () {
+            expect(parseCSV('\ufeffa,b\r\n1,2\r\n\r\n3,4\r\n')).toEqual([
+                ['a', 'b'],
+                ['1', '2'],
+                ['3', '4']
+            ]);
+        });
+
+        it('delimiter', function () {
+            expect(parseCSV('a\tb\n"1\t2"\t3', '\t')).toEqual([
+                ['a', 'b'],
+                ['1\t2', '3']
+            ]);
+        });
+    });
+
+
+    describe('dataset', function () {
+
+        let chart: EChartsType;
+
+        beforeEach(function () {
+            chart = createChart({
+                width: 200,
+                height: 150
+            });
+        });
+
+        afterEach(function () {
+            removeChart(chart);
+        });
+
+        function getSeriesData(seriesIndex: number) {
+            return getECModel(chart).getSeriesByIndex(seriesIndex).getData();
+        }
+
+        it('dimension_type', function () {
+            chart.setOption({
+                dataset: {
+                    source: [
+                        'date,product,score',
+                        '2021-01-01,"Milk Tea, large",89.5',
+                        '2021-01-02,Cheese Cocoa,',
+                        '2021-01-03,Walnut Brownie,72'
+                    ].join('\n'),
+                    sourceFormat: 'csv'
+                },
+                xAxis: {type: 'time'},
+                yAxis: {},
+                series: [
+                    {type: 'scatter', encode: {x: 'date', y: 'score', itemName: 'product'}}
+                ]
+            });
+            const data = getSeriesData(0);
+            const source = (getECModel(chart).getSeriesByIndex(0) as SeriesModel).getSource();
+            expect(source.dimensionsDefine.map(dim => dim.name)).toEqual(['date', 'product', 'score']);
+            expect(source.dimensionsDefine[0].type).toEqual('time');
+            expect(source.dimensionsDefine[1].type).toEqual('ordinal');
+
+            expect(data.count()).toEqual(3);
+            expect(data.get('date', 0)).toEqual(+new Date(2021, 0, 1));
+            expect(data.get('score', 0)).toEqual(89.5);
+            expect(isNaN(data.get('score', 1) as number)).toEqual(true);
+            expect(data.getName(0)).toEqual('Milk Tea, large');
+        });
+
+        it('tsv_without_header', function () {
+            chart.setOption({
+                dataset: {
+                    source: 'Matcha Latte\t43.3\t85.8\nMilk Tea\t83.1\t73.4',
+                    sourceFormat: 'csv',
+                    delimiter: '\t',
+                    header: false
+                },
+                xAxis: {type: 'category'},
+                yAxis: {},
+                series: [{type: 'bar'}, {type: 'bar'}]
+            });
+            const data = getSeriesData(1);
+            expect(data.count()).toEqual(2);
+            expect(data.get(data.mapDimension('y'), 1)).toEqual(73.4);
+            expect(data.getName(0)).toEqual('Matcha Latte');
+        });
+
+        it('time_on_category_axis', function () {
+            chart.setOption({
+                dataset: {
+                    source: 'date,value\n2021-01-01,1\n2021-01-02,2',
+                    sourceFormat: 'csv'
+                },
+                xAxis: {type: 'category'},
+                yAxis: {},
+                series: [{type: 'line'}]
+            });
+            const data = getSeriesData(0);
+            expect(data.get(data.mapDimension('x'), 1)).toEqual(1);
+            expect(data.getName(1)).toEqual('2021-01-02');
+            expect(data.get(data.mapDimension('y'), 1)).toEqual(2);
+        });
+
+        it('declared_time_on_category_axis', function () {
+            chart.setOption({
+                dataset: {
+                    source: [['2021-01-01', 1], ['2021-01-02', 2]],
+                    dimensions: [{name: 'date', type: 'time'}, 'value']
+                },
+                xAxis: {type: 'category'},
+                yAxis: {},
+                series: [{type: 'line'}]
+            });
+            const data = getSeriesData(0);
+            // Not converted to ordinal as the type is specified by user.
+            expect(data.getDimensionInfo(data.mapDimension('x')).type).toEqual('time');
+            expect(data.get(data.mapDimension('x'), 1)).toEqual(+parseDate('2021-01-02'));
+        });
+
+        it('transform_on_csv', function () {
+            chart.setOption({
+                dataset: [{
+                    source: 'name,value\na,3\nb,1\nc,2',
+                    sourceFormat: 'csv'
+                }, {
+                    transform: {type: 'sort', config: {dimension: 'value', order: 'asc'}}
+                }],
+                xAxis: {type: 'category'},
+                yAxis: {},
+                series: [{type: 'bar', datasetIndex: 1}]
+            });
+            const data = getSeriesData(0);
+            expect(data.getName(0)).toEqual('b');
+            expect(data.get(data.mapDimension('y'), 2)).toEqual(3);
+        });
+    });
+
+});
@@ -21,6 +21,7 @@ import { EChartsType } from '../../../../src/echarts';
 import { createChart, removeChart, getECModel } from '../../core/utHelper';
 import { EChartsOption } from '../../../../src/export/option';
 import { retrieveRawValue } from '../../../../src/data/helper/dataProvider';
+import { aggregateCalculators } from '../../../../src/component/transform/aggregateTransform';
 
 
 describe('dataTransform', function () {
@@ -180,6 +181,566 @@ describe('dataTransform', function () {
         });
     });
 
+    function makeDatasetSourcePeople() {
+        return [
+            ['name', 'country', 'year', 'income'],
+            ['Tom', 'US', 2020, 10],
+            ['Jack', 'CN', 2020, 20],
+            ['Mary', 'US', 2021, 30],
+            ['Tom', 'US', 2021, 40],
+            ['Lily', 'CN', 2021, '-'],
+            ['Anna', 'US', 2021, 60]
+        ];
+    }
 
-});
+    function getTransformedData(dataset1: EChartsOption['dataset'], source?: unknown[][]) {
+        chart.setOption({
+            dataset: [{
+                id: 'people',
+                source: source || makeDatasetSourcePeople()
+            }].concat(dataset1 as []),
+            xAxis: { type: 'category' },
+            yAxis: {},
+            series: { type: 'bar', datasetIndex: 1 }
+        });
+        const listData = getECModel(chart).getSeries()[0].getData();
+        const rows = [];
+        for (let i = 0; i < listData.count(); i++) {
+            const row = [];
+            for (let j = 0; j < listData.dimensions.length; j++) {
+                row.push(retrieveRawValue(listData, i, j));
+            }
+            rows.push(row);
+        }
+        return {
+            dimensions: listData.dimensions,
+            rows: rows
+        };
+    }
+
+    it('aggregate_group_by', function () {
+        const result = getTransformedData({
+            transform: {
+                type: 'aggregate',
+                config: {
+                    groupBy: 'country',
+                    resultDimensions: [
+                        { from: 'country' },
+                        { from: 'income', method: 'sum' },
+                        { from: 'income', method: 'count', name: 'count' },
+                        { from: 'income', method: 'mean', name: 'mean' },
+                        { from: 'name', method: 'distinctCount', name: 'people' },
+                        { from: 'income', method: 'last', name: 'last' }
+                    ]
+                }
+            }
+        });
+        expect(result.dimensions).toEqual(['country', 'income', 'count', 'mean', 'people', 'last']);
+        expect(result.rows).toEqual([
+            ['US', 140, 4, 35, 3, 60],
+            ['CN', 20, 2, 20, 2, '-']
+        ]);
+    });
+
+    it('aggregate_quantiles', function () {
+        const result = getTransformedData({
+            transform: {
+                type: 'aggregate',
+                config: {
+                    resultDimensions: [
+                        { from: 'income', method: 'min', name: 'min' },
+                        { from: 'income', method: 'Q1', name: 'Q1' },
+                        { from: 'income', method: 'median', name: 'median' },
+                        { from: 'income', method: 'Q3', name: 'Q3' },
+                        { from: 'income', method: 'max', name: 'max' }
+                    ]
+                }
+            }
+        });
+        // Empty value is ignored.
+        expect(result.rows).toEqual([[10, 20, 30, 40, 60]]);
+    });
+
+    it('aggregate_multiple_group_by', function () {
+        const result = getTransformedData([{
+            transform: {
+                type: 'aggregate',
+                config: {
+                    groupBy: ['country', 'year'],
+                    resultDimensions: [
+                        { from: 'country' },
+                        { from: 'year' },
+                        { from: 'income', method: 'first' }
+                    ]
+                }
+            }
+        }]);
+        expect(result.rows).toEqual([
+            ['US', 2020, 10],
+            ['CN', 2020, 20],
+            ['US', 2021, 30],
+            ['CN', 2021, '-']
+        ]);
+    });
+
+    it('aggregate_min_max_of_large_group', function () {
+        const values = [];
+        for (let i = 0; i < 300000; i++) {
+            values.push(i % 1000 + 1);
+        }
+        values.push('', '-5');
+        expect(aggregateCalculators.min(values)).toEqual(-5);
+        expect(aggregateCalculators.max(values)).toEqual(1000);
+        expect(aggregateCalculators.min([])).toEqual(null);
+    });
+
+    it('aggregate_illegal_config', function () {
+        expect(() => {
+            getTransformedData({
+                transform: {
+                    type: 'aggregate',
+                    config: {
+                        groupBy: 'country',
+                        resultDimensions: [{ from: 'income' }]
+                    }
+                }
+            });
+        }).toThrowError(/groupBy/);
+    });
 
+    it('pivot_basic', function () {
+        const result = getTransformedData({
+            transform: {
+                type: 'pivot',
+                config: {
+                    index: 'name',
+                    columns: 'year',
+                    values: 'income'
+                }
+            }
+        });
+        expect(result.dimensions).toEqual(['name', '2020', '2021']);
+        expect(result.rows).toEqual([
+            ['Tom', 10, 40],
+            ['Jack', 20, '-'],
+            ['Mary', '-', 30],
+            ['Lily', '-', '-'],
+            ['Anna', '-', 60]
+        ]);
+    });
+
+    it('pivot_with_method', function () {
+        const result = getTransformedData({
+            transform: {
+                type: 'pivot',
+                config: {
+                    index: 'year',
+                    columns: 'country',
+                    values: 'income',
+                    method: 'sum'
+                }
+            }
+        });
+        expect(result.dimensions).toEqual(['year', 'US', 'CN']);
+        expect(result.rows).toEqual([
+            [2020, 10, 20],
+            [2021, 130, 0]
+        ]);
+    });
+
+    it('pivot_column_name_duplicates_index', function () {
+        expect(() => {
+            getTransformedData({
+                transform: {
+                    type: 'pivot',
+                    config: {
+                        index: 'country',
+                        columns: 'name',
+                        values: 'income'
+                    }
+                }
+            }, [
+                ['name', 'country', 'income'],
+                ['Tom', 'US', 10],
+                ['country', 'CN', 20]
+            ]);
+        }).toThrowError(/"country"/);
+    });
+
+    it('unpivot_basic', function () {
+        const result = getTransformedData({
+            transform: [{
+                type: 'pivot',
+                config: { index: 'name', columns: 'year', values: 'income' }
+            }, {
+                type: 'unpivot',
+                config: { index: 'name', nameDimension: 'year', valueDimension: 'income' }
+            }]
+        });
+        expect(result.dimensions).toEqual(['name', 'year', 'income']);
+        expect(result.rows).toEqual([
+            ['Tom', '2020', 10],
+            ['Tom', '2021', 40],
+            ['Jack', '2020', 20],
+            ['Jack', '2021', '-'],
+            ['Mary', '2020', '-'],
+            ['Mary', '2021', 30],
+            ['Lily', '2020', '-'],
+            ['Lily', '2021', '-'],
+            ['Anna', '2020', '-'],
+            ['Anna', '2021', 60]
+        ]);
+    });
+
+    it('unpivot_specified_columns', function () {
+        const result = getTransformedData({
+            transform: {
+                type: 'unpivot',
+                config: { index: 'income', columns: ['country', 'year'] }
+            }
+        });
+        expect(result.dimensions).toEqual(['income', 'name', 'value']);
+        expect(result.rows.slice(0, 2)).toEqual([
+            [10, 'country', 'US'],
+            [10, 'year', 2020]
+        ]);
+    });
+
+    function makeDatasetSourceLinear() {
+        const source: number[][] = [];
+        for (let x = 1; x <= 10; x++) {
+            source.push([x, 2 * x + 1]);
+        }
+        return ([['x', 'y']] as unknown[][]).concat(source);
+    }
+
+    it('regression_linear', function () {
+        const result = getTransformedData({
+            transform: {
+                type: 'regression',
+                config: { method: 'linear' }
+            }
+        }, makeDatasetSourceLinear());
+        expect(result.dimensions).toEqual(['x', 'y', 'expression', 'rSquared']);
+        expect(result.rows.length).toEqual(10);
+        expect(result.rows[0]).toEqual([1, 3, null, null]);
+        const last = result.rows[9];
+        expect(last[1]).toBeCloseTo(21);
+        expect(last[2]).toEqual('y = 2x + 1');
+        expect(last[3]).toBeCloseTo(1);
+    });
+
+    it('regression_polynomial_and_exponential', function () {
+        const polynomial = getTransformedData({
+            transform: {
+                type: 'regression',
+                config: { method: 'polynomial', order: 2, formulaOn: 'start' }
+            }
+        }, [['x', 'y'], [-2, 5], [-1, 2], [0, 1], [1, 2], [2, 5]]);
+        expect(polynomial.rows[0][2]).toEqual('y = 1x^2 + 0x + 1');
+        expect(polynomial.rows[3][1]).toBeCloseTo(2);
+
+        const exponential = getTransformedData({
+            transform: {
+                type: 'regression',
+                config: { method: 'exponential', formulaOn: 'none' }
+            }
+        }, [['x', 'y'], [0, 2], [1, 2 * Math.E], [2, 2 * Math.E * Math.E]]);
+        expect(exponential.dimensions).toEqual(['x', 'y']);
+        expect(exponential.rows[1][1]).toBeCloseTo(2 * Math.E);
+    });
+
+    it('regression_out_of_domain_points', function () {
+        const logarithmic = getTransformedData({
+            transform: {
+                type: 'regression',
+                config: { method: 'logarithmic', formulaOn: 'none' }
+            }
+        }, [['x', 'y'], [-1, 5], [0, 5], [1, 1], [Math.E, 3]]);
+        expect(logarithmic.rows.map(row => row[0])).toEqual([1, Math.E]);
+        expect(logarithmic.rows[1][1]).toBeCloseTo(3);
+
+        const exponential = getTransformedData({
+            transform: {
+                type: 'regression',
+                config: { method: 'exponential' }
+            }
+        }, [['x', 'y'], [0, -1], [1, 0]]);
+        expect(exponential.dimensions).toEqual(['x', 'y', 'expression', 'rSquared']);
+        expect(exponential.rows).toEqual([]);
+    });
+
+    it('moving_average', function () {
+        const simple = getTransformedData({
+            transform: {
+                type: 'movingAverage',
+                config: { dimension: 'income', period: 2 }
+            }
+        });
+        expect(simple.dimensions).toEqual(['name', 'country', 'year', 'income', 'incomeMA']);
+        expect(simple.rows.map(row => row[4])).toEqual(['-', 15, 25, 35, '-', 50]);
+
+        const exponential = getTransformedData({
+            transform: {
+                type: 'movingAverage',
+                config: { dimension: 'income', method: 'exponential', alpha: 0.5, name: 'ema' }
+            }
+        });
+        expect(exponential.dimensions[4]).toEqual('ema');
+        expect(exponential.rows.map(row => row[4])).toEqual([10, 15, 22.5, 31.25, '-', 45.625]);
+    });
+
+    it('loess', function () {
+        const result = getTransformedData({
+            transform: {
+                type: 'loess',
+                config: { bandwidth: 0.5 }
+            }
+        }, makeDatasetSourceLinear());
+        expect(result.dimensions).toEqual(['x', 'y']);
+        expect(result.rows.length).toEqual(10);
+        for (let i = 0; i < result.rows.length; i++) {
+            // Linear data is not changed by local linear regression.
+            expect(result.rows[i][1]).toBeCloseTo(2 * (result.rows[i][0] as number) + 1);
+        }
+    });
+
+    it('histogram', function () {
+        const source: unknown[][] = [['value']];
+        const values = [0.5, 1, 1.2, 2.5, 3, 3, 4.9, 7, 9.8, 10];
+        for (let i = 0; i < values.length; i++) {
+            source.push([values[i]]);
+        }
+
+        const byWidth = getTransformedData({
+            transform: {
+                type: 'histogram',
+                config: { binWidth: 2.5 }
+            }
+        }, source);
+        expect(byWidth.dimensions).toEqual(['binStart', 'binEnd', 'count', 'frequency']);
+        expect(byWidth.rows).toEqual([
+            [0, 2.5, 3, 0.3],
+            [2.5, 5, 4, 0.4],
+            [5, 7.5, 1, 0.1],
+            // The last bin is closed on both sides.
+            [7.5, 10, 2, 0.2]
+        ]);
+
+        // Niced to width 2.
+        const byCount = getTransformedData({
+            transform: {
+                type: 'histogram',
+                config: { binCount: 4 }
+            }
+        }, source);
+        expect(byCount.rows.map(row => row[0])).toEqual([0, 2, 4, 6, 8]);
+        expect(byCount.rows.map(row => row[2])).toEqual([3, 3, 1, 1, 2]);
+
+        // Sturges: ceil(log2(10)) + 1 = 5 bins, niced to width 2.
+        const byMethod = getTransformedData({
+            transform: {
+                type: 'histogram',
+                config: { dimension: 'value' }
+            }
+        }, source);
+        expect(byMethod.rows).toEqual(byCount.rows);
+    });
+
+    it('histogram_values_near_edges', function () {
+        function getRows(values: number[], binWidth: number) {
+            const source: unknown[][] = [['value']];
+            for (let i = 0; i < values.length; i++) {
+                source.push([values[i]]);
+            }
+            return getTransformedData({
+                transform: {
+                    type: 'histogram',
+                    config: { binWidth: binWidth }
+                }
+            }, source).rows;
+        }
+
+        expect(getRows([1, 19.96, 20, 25], 10).map(row => row.slice(0, 3))).toEqual([
+            [0, 10, 1],
+            [10, 20, 1],
+            [20, 30, 2]
+        ]);
+        // Max just above an edge is in a new bin.
+        expect(getRows([1, 20.04], 10).map(row => row[2])).toEqual([1, 0, 1]);
+        // (0.3 - 0) / 0.1 is 2.9999999999999996
+        expect(getRows([0, 0.3, 0.35], 0.1).map(row => row.slice(0, 3))).toEqual([
+            [0, 0.1, 1],
+            [0.1, 0.2, 0],
+            [0.2, 0.3, 0],
+            [0.3, 0.4, 2]
+        ]);
+    });
+
+    function makeDatasetSourceTarget() {
+        return [
+            ['country', 'year', 'target'],
+            ['US', 2020, 100],
+            ['CN', 2021, 200],
+            ['JP', 2021, 300]
+        ];
+    }
+
+    it('join', function () {
+        function join(how: string) {
+            return getTransformedData([{
+                fromDatasetIndex: [0, 2],
+                transform: {
+                    type: 'join',
+                    config: { on: ['country', 'year'], how: how }
+                }
+            }, {
+                source: makeDatasetSourceTarget()
+            }]);
+        }
+
+        const inner = join('inner');
+        expect(inner.dimensions).toEqual(['country', 'year', 'name', 'income', 'target']);
+        expect(inner.rows).toEqual([
+            ['US', 2020, 'Tom', 10, 100],
+            ['CN', 2021, 'Lily', '-', 200]
+        ]);
+
+        const left = join('left');
+        expect(left.rows.length).toEqual(6);
+        expect(left.rows[1]).toEqual(['CN', 2020, 'Jack', 20, '-']);
+
+        const outer = join('outer');
+        expect(outer.rows.length).toEqual(7);
+        expect(outer.rows[6]).toEqual(['JP', 2021, '-', '-', 300]);
+    });
+
+    it('join_duplicated_dimension_names', function () {
+        const result = getTransformedData([{
+            fromDatasetIndex: [0, 2],
+            transform: {
+                type: 'join',
+                config: { on: ['country', 'year'] }
+            }
+        }, {
+            source: [
+                ['country', 'year', 'income', 'income_1'],
+                ['US', 2020, 100, 1]
+            ]
+        }]);
+        expect(result.dimensions).toEqual(['country', 'year', 'name', 'income_0', 'income_1_1', 'income_1']);
+        expect(result.rows).toEqual([['US', 2020, 'Tom', 10, 100, 1]]);
+    });
+
+    it('join_keep_upstream_order', function () {
+        const result = getTransformedData([{
+            fromDatasetId: ['target', 'people'],
+            transform: {
+                type: 'join',
+                config: { on: ['country', 'year'] }
+            }
+        }, {
+            id: 'target',
+            source: makeDatasetSourceTarget()
+        }]);
+        expect(result.dimensions).toEqual(['country', 'year', 'target', 'name', 'income']);
+        expect(result.rows).toEqual([
+            ['US', 2020, 100, 'Tom', 10],
+            ['CN', 2021, 200, 'Lily', '-']
+        ]);
+    });
+
+    it('compute', function () {
+        const result = getTransformedData({
+            transform: {
+                type: 'compute',
+                config: {
+                    dimensions: [
+                        { name: 'tax', expression: 'income * 0.1', type: 'float' },
+                        { name: 'label', expression: 'name + "@" + country + (tax > 2 ? "!" : "")' }
+                    ]
+                }
+            }
+        });
+        expect(result.dimensions).toEqual(['name', 'country', 'year', 'income', 'tax', 'label']);
+        expect(result.rows[1].slice(4)).toEqual([2, 'Jack@CN']);
+        expect(result.rows[3].slice(4)).toEqual([4, 'Tom@US!']);
+        // Missing value is not computed.
+        expect(result.rows[4].slice(4)).toEqual(['-', 'Lily@CN']);
+    });
+
+    it('compute_time', function () {
+        const result = getTransformedData({
+            transform: {
+                type: 'compute',
+                config: {
+                    dimensions: { name: 'days', expression: '(time(end) - time(start)) / 86400000' }
+                }
+            }
+        }, [
+            ['start', 'end'],
+            ['2021-01-01', '2021-01-11'],
+            ['2021-02-01', '2021-03-01']
+        ]);
+        expect(result.rows.map(row => row[2])).toEqual([10, 28]);
+    });
+
+    it('filter_more_operators', function () {
+        function filterNames(config: unknown) {
+            const result = getTransformedData({
+                transform: { type: 'filter', config: config }
+            });
+            return result.rows.map(row => row[0]);
+        }
+
+        expect(filterNames({ dimension: 'name', in: ['Tom', 'Lily'] })).toEqual(['Tom', 'Tom', 'Lily']);
+        expect(filterNames({ dimension: 'year', notIn: ['2020'] })).toEqual(['Mary', 'Tom', 'Lily', 'Anna']);
+        expect(filterNames({ dimension: 'name', contains: 'a' })).toEqual(['Jack', 'Mary', 'Anna']);
+        expect(filterNames({ dimension: 'name', contains: 'A', ignoreCase: true })).toEqual(['Jack', 'Mary', 'Anna']);
+        expect(filterNames({ dimension: 'name', startsWith: 'T' })).toEqual(['Tom', 'Tom']);
+        expect(filterNames({ dimension: 'name', endsWith: 'Y', ignoreCase: true })).toEqual(['Mary', 'Lily']);
+        expect(filterNames({ dimension: 'year', startsWith: '202' }).length).toEqual(6);
+        expect(filterNames({ dimension: 'income', isNull: true })).toEqual(['Lily']);
+        expect(filterNames({ dimension: 'income', isNotNull: true }).length).toEqual(5);
+        expect(filterNames({ dimension: 'income', between: [20, 40] })).toEqual(['Jack', 'Mary', 'Tom']);
+        expect(filterNames({
+            and: [
+                { dimension: 'country', in: ['US'] },
+                { not: { dimension: 'income', between: [20, 40] } }
+            ]
+        })).toEqual(['Tom', 'Anna']);
+    });
+
+    it('filter_between_time', function () {
+        const result = getTransformedData({
+            transform: {
+                type: 'filter',
+                config: { dimension: 'date', between: ['2021-01-15', '2021-02-15'], parser: 'time' }
+            }
+        }, [
+            ['date', 'value'],
+            ['2021-01-01', 1],
+            ['2021-01-15', 2],
+            ['2021-02-01', 3],
+            ['2021-03-01', 4]
+        ]);
+        expect(result.rows.map(row => row[1])).toEqual([2, 3]);
+    });
+
+    it('filter_illegal_in', function () {
+        expect(() => {
+            getTransformedData({
+                transform: { type: 'filter', config: { dimension: 'name', in: 'Tom' } }
+            });
+        }).toThrowError(/"in" expects an array/);
+    });
+
+    it('filter_illegal_between', function () {
+        expect(() => {
+            getTransformedData({
+                transform: { type: 'filter', config: { dimension: 'income', between: [1] } }
+            });
+        }).toThrowError(/"between" expects \[min, max\]/);
+    });
+
+});
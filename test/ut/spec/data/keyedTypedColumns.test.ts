@@ -0,0 +1,215 @@
+
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { EChartsType } from '../../../../src/echarts';
+import { createChart, removeChart, getECModel } from '../../core/utHelper';
+import parseArrowTable from '../../../../src/data/helper/parseArrowTable';
+import { detectSourceFormat } from '../../../../src/data/Source';
+import { retrieveRawValue } from '../../../../src/data/helper/dataProvider';
+import SeriesModel from '../../../../src/model/Series';
+import CategoryAxisModel from '../../../../src/coord/cartesian/AxisModel';
+
+
+// An Arrow IPC stream of a table with 4 rows in 2 record batches:
+// city (dictionary-encoded utf8): 'Paris', 'Tokyo', '東京', 'Paris'
+// value (float64): 1.5, 2.5, -3.25, 4
+// count (int32): 10, null, 30, 40
+// time (timestamp in seconds): 1600000000, 1600000060, 1600000120, 1600000180
+// label (utf8): 'a', null, 'c', 'd'
+const ARROW_STREAM_BASE64 = [
+    '/////7ABAAAYAAAAAAAAAAwAGAAEAAYACAAQAAAAAAAQAAAABAABABgAAAAAAAAAAAAAAAAAAAAIAAgAAAAEAAgAAAAEAAAA',
+    'BQAAACQAAACQAAAAxAAAAAABAAA0AQAADgAUAAQACAAJAAwAEAAAABAAAAAQAAAAAAUAABwAAAAoAAAABAAAAGNpdHkAAAQA',
+    'BAAAAAAAAAAKAAAACAAUAAgAEAAAAAAADAAAAAAAAAAAAAAAAAAAABAAAAAIAAkABAAIAAAAAAAMAAAAIAAAAAEADAAQAAQA',
+    'CAAJAAwAAAAOAAAADAAAAAADAAAUAAAABQAAAHZhbHVlAAYABgAEAAYAAAACAAwAEAAEAAgACQAMAAAAAAAAABIAAAAMAAAA',
+    'AQIAABwAAAAFAAAAY291bnQACAAJAAQACAAAAAAAAAAOAAAAIAAAAAEADAAQAAQACAAJAAwAAAAOAAAADAAAAAAKAAAUAAAA',
+    'BAAAAHRpbWUAAAYABgAEAAYAAAAAAAwAEAAEAAgACQAMAAAAAAAAABIAAAAMAAAAAQUAABQAAAAFAAAAbGFiZWwABAAEAAAA',
+    'BgAAAAAAAAD/////wAAAABgAAAAAAAAADAAYAAQABgAIABAAAAAAABAAAAAEAAIAGAAAAAAAAAAgAAAAAAAAAAgAFAAIABAA',
+    'CAAAAAAAAAAAAAAAAAAAABAAAAAKABgACAAQABQAAAAMAAAAAAAAAAMAAAAAAAAADAAAACAAAAAAAAAAAQAAAAMAAAAAAAAA',
+    'AAAAAAAAAAAAAAAAAwAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAABAAAAAAAAAAEAAAAAAAAAAQAAAAAAAAAAAAAAAFAAAA',
+    'CgAAABAAAABQYXJpc1Rva3lv5p2x5Lqs/////2gBAAAYAAAAAAAAAAwAGAAEAAYACAAQAAAAAAAQAAAABAADACAAAAAAAAAA',
+    'WAAAAAAAAAAKABgACAAQABQAAAAAAAAAEAAAAAAAAAACAAAAAAAAAAwAAABgAAAAAAAAAAUAAAACAAAAAAAAAAAAAAAAAAAA',
+    'AgAAAAAAAAAAAAAAAAAAAAIAAAAAAAAAAQAAAAAAAAACAAAAAAAAAAAAAAAAAAAAAgAAAAAAAAABAAAAAAAAAAAAAAALAAAA',
+    'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAACAAAAAAAAAAIAAAAAAAAAAAAAAAAAAAACAAAAAAAAAAQAAAAAAAAABgAAAAAAAAA',
+    'AQAAAAAAAAAgAAAAAAAAAAgAAAAAAAAAKAAAAAAAAAAAAAAAAAAAACgAAAAAAAAAEAAAAAAAAAA4AAAAAAAAAAEAAAAAAAAA',
+    'QAAAAAAAAAAMAAAAAAAAAFAAAAAAAAAAAQAAAAAAAAAAAAAAAQAAAAAAAAAAAPg/AAAAAAAABEABAAAAAAAAAAoAAAAAAAAA',
+    'ABBeXwAAAAA8EF5fAAAAAAEAAAAAAAAAAAAAAAEAAAABAAAAAAAAAGEAAAAAAAAA/////2gBAAAYAAAAAAAAAAwAGAAEAAYA',
+    'CAAQAAAAAAAQAAAABAADACAAAAAAAAAASAAAAAAAAAAKABgACAAQABQAAAAAAAAAEAAAAAAAAAACAAAAAAAAAAwAAABgAAAA',
+    'AAAAAAUAAAACAAAAAAAAAAAAAAAAAAAAAgAAAAAAAAAAAAAAAAAAAAIAAAAAAAAAAAAAAAAAAAACAAAAAAAAAAAAAAAAAAAA',
+    'AgAAAAAAAAAAAAAAAAAAAAAAAAALAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAACAAAAAAAAAAIAAAAAAAAAAAAAAAAAAAA',
+    'CAAAAAAAAAAQAAAAAAAAABgAAAAAAAAAAAAAAAAAAAAYAAAAAAAAAAgAAAAAAAAAIAAAAAAAAAAAAAAAAAAAACAAAAAAAAAA',
+    'EAAAAAAAAAAwAAAAAAAAAAAAAAAAAAAAMAAAAAAAAAAMAAAAAAAAAEAAAAAAAAAAAgAAAAAAAAACAAAAAAAAAAAAAAAAAArA',
+    'AAAAAAAAEEAeAAAAKAAAAHgQXl8AAAAAtBBeXwAAAAAAAAAAAQAAAAIAAAAAAAAAY2QAAAAAAAD/////AAAAAA=='
+].join('');
+
+function makeArrowStream(): Uint8Array {
+    return new Uint8Array(Buffer.from(ARROW_STREAM_BASE64, 'base64'));
+}
+
+
+describe('keyedTypedColumns', function () {
+
+    let chart: EChartsType;
+
+    beforeEach(function () {
+        chart = createChart({
+            width: 200,
+            height: 150
+        });
+    });
+
+    afterEach(function () {
+        removeChart(chart);
+    });
+
+    function getSeriesData(seriesIndex: number) {
+        return getECModel(chart).getSeriesByIndex(seriesIndex).getData();
+    }
+
+    it('detect_source_format', function () {
+        expect(detectSourceFormat({ a: new Float64Array([1, 2]), b: ['x', 'y'] })).toEqual('keyedTypedColumns');
+        expect(detectSourceFormat({
+            a: { indices: new Int32Array([0, 1]), dictionary: ['x', 'y'] }
+        })).toEqual('keyedTypedColumns');
+        expect(detectSourceFormat({ a: [1, 2], b: ['x', 'y'] })).toEqual('keyedColumns');
+    });
+
+    it('typed_columns', function () {
+        chart.setOption({
+            dataset: {
+                source: {
+                    product: ['AA', 'BB', 'CC'],
+                    score: new Float64Array([89.3, 92.1, 94.4]),
+                    amount: new Int32Array([95, 89, 91])
+                }
+            },
+            xAxis: { type: 'category' },
+            yAxis: {},
+            series: { type: 'bar', encode: { x: 'product', y: 'amount' } }
+        });
+
+        const data = getSeriesData(0);
+        expect(data.count()).toEqual(3);
+        expect(data.mapArray(['product', 'amount'], function (x, y) {
+            return [x, y];
+        })).toEqual([[0, 95], [1, 89], [2, 91]]);
+        expect(data.getName(1)).toEqual('BB');
+        expect(retrieveRawValue(data, 2, 'score')).toEqual(94.4);
+        expect(data.getDataExtent('amount')).toEqual([89, 95]);
+    });
+
+    it('dictionary_column_to_ordinal_meta', function () {
+        chart.setOption({
+            dataset: {
+                source: {
+                    city: { indices: new Int32Array([1, 0, 1, -1]), dictionary: ['Paris', 'Tokyo'] },
+                    value: new Float64Array([1, 2, 3, 4])
+                }
+            },
+            // Codes are mapped to the categories defined in axis.
+            xAxis: { type: 'category', data: ['Tokyo', 'London', 'Paris'] },
+            yAxis: {},
+            series: { type: 'scatter' }
+        });
+
+        const data = getSeriesData(0);
+        expect(data.mapArray('city', function (x) {
+            return x;
+        })).toEqual([0, 2, 0, NaN]);
+        const axisModel = getECModel(chart).getComponent('xAxis') as CategoryAxisModel;
+        expect(axisModel.getOrdinalMeta().categories).toEqual(['Tokyo', 'London', 'Paris']);
+        expect(retrieveRawValue(data, 1, 'city')).toEqual('Paris');
+    });
+
+    it('append_and_shift', function () {
+        chart.setOption({
+            dataset: {
+                source: {
+                    city: { indices: new Int32Array([0, 1]), dictionary: ['Paris', 'Tokyo'] },
+                    value: new Float64Array([1, 2])
+                }
+            },
+            xAxis: { type: 'category' },
+            yAxis: {},
+            series: { type: 'scatter' }
+        });
+
+        const seriesModel = getECModel(chart).getSeriesByIndex(0) as SeriesModel;
+        seriesModel.appendData({
+            data: {
+                city: { indices: new Int32Array([1, 0]), dictionary: ['London', 'Tokyo'] },
+                value: new Float64Array([3, 4])
+            } as any
+        });
+        const rawData = seriesModel.getRawData();
+        expect(rawData.count()).toEqual(4);
+        expect(retrieveRawValue(rawData, 2, 'city')).toEqual('Tokyo');
+        expect(retrieveRawValue(rawData, 3, 'city')).toEqual('London');
+        expect(rawData.get('value', 3)).toEqual(4);
+
+        rawData.shiftData(3);
+        expect(rawData.count()).toEqual(1);
+        expect(retrieveRawValue(rawData, 0, 'city')).toEqual('London');
+        expect(retrieveRawValue(rawData, 0, 'value')).toEqual(4);
+    });
+
+    it('arrow_table', function () {
+        const table = parseArrowTable(makeArrowStream());
+
+        expect(table.dimensions).toEqual([
+            { name: 'city', type: 'ordinal' },
+            { name: 'value', type: 'float' },
+            { name: 'count', type: 'float' },
+            { name: 'time', type: 'time' },
+            { name: 'label', type: 'ordinal' }
+        ]);
+        const source = table.source as any;
+        expect(source.city.dictionary).toEqual(['Paris', 'Tokyo', '東京']);
+        expect(Array.prototype.slice.call(source.city.indices)).toEqual([0, 1, 2, 0]);
+        expect(Array.prototype.slice.call(source.value)).toEqual([1.5, 2.5, -3.25, 4]);
+        expect(Array.prototype.slice.call(source.count)).toEqual([10, NaN, 30, 40]);
+        expect(source.time[3]).toEqual(1600000180000);
+        expect(source.label).toEqual(['a', null, 'c', 'd']);
+    });
+
+    it('arrow_table_in_dataset', function () {
+        const table = parseArrowTable(makeArrowStream());
+        chart.setOption({
+            dataset: table,
+            xAxis: { type: 'category' },
+            yAxis: {},
+            series: { type: 'bar', encode: { x: 'city', y: 'value' } }
+        });
+
+        const data = getSeriesData(0);
+        expect(data.count()).toEqual(4);
+        expect(data.mapArray(['city', 'value'], function (x, y) {
+            return [x, y];
+        })).toEqual([[0, 1.5], [1, 2.5], [2, -3.25], [0, 4]]);
+        const axisModel = getECModel(chart).getComponent('xAxis') as CategoryAxisModel;
+        expect(axisModel.getOrdinalMeta().categories).toEqual(['Paris', 'Tokyo', '東京']);
+    });
+
+    it('arrow_table_invalid', function () {
+        expect(function () {
+            parseArrowTable(new Uint8Array(8));
+        }).toThrowError(/schema is not found/);
+    });
+
+});
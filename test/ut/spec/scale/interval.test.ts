@@ -183,4 +183,60 @@ describe('scale_interval', function () {
         });
     });
 
+    describe('breaks', function () {
+
+        function createBreakChart(gap?: number | string) {
+            chart.setOption({
+                xAxis: {type: 'category', data: ['a', 'b', 'c', 'd']},
+                yAxis: {
+                    type: 'value',
+                    breaks: [{start: 200, end: 9800, gap: gap}]
+                },
+                series: [{type: 'bar', data: [50, 120, 180, 10000]}]
+            });
+            return getECModel(chart).getComponent('yAxis', 0) as CartesianAxisModel;
+        }
+
+        it('ticks_skip_break', function () {
+            const yAxis = createBreakChart();
+            const scale = yAxis.axis.scale;
+            const ticks = scale.getTicks();
+            const breaks = scale.getBreaks();
+
+            expect(breaks.length).toEqual(1);
+            expect(ticks.length).toBeGreaterThan(3);
+            expect(ticks.length).toBeLessThan(20);
+            for (let i = 0; i < ticks.length; i++) {
+                const value = ticks[i].value;
+                expect(value > 200 && value < 9800).toEqual(false);
+            }
+        });
+
+        it('normalize_scale_roundtrip', function () {
+            const yAxis = createBreakChart(100);
+            const scale = yAxis.axis.scale;
+            const extent = scale.getExtent();
+            const collapsedSpan = extent[1] - extent[0] - (9800 - 200) + 100;
+
+            expect(scale.normalize(200)).toBeCloseTo((200 - extent[0]) / collapsedSpan);
+            expect(scale.normalize(9800)).toBeCloseTo((300 - extent[0]) / collapsedSpan);
+
+            const values = [extent[0], 100, 200, 5000, 9800, 9900, extent[1]];
+            for (let i = 0; i < values.length; i++) {
+                expect(scale.scale(scale.normalize(values[i]))).toBeCloseTo(values[i]);
+            }
+        });
+
+        it('expand_action', function () {
+            createBreakChart();
+            chart.dispatchAction({
+                type: 'expandAxisBreak',
+                yAxisIndex: 0,
+                breaks: [{start: 200, end: 9800}]
+            });
+            const yAxis = getECModel(chart).getComponent('yAxis', 0) as CartesianAxisModel;
+            expect(yAxis.axis.scale.getBreaks().length).toEqual(0);
+        });
+    });
+
 });
\ No newline at end of file
@@ -0,0 +1,84 @@
+
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { createChart, getECModel } from '../../core/utHelper';
+import { EChartsType } from '../../../../src/echarts';
+import CartesianAxisModel from '../../../../src/coord/cartesian/AxisModel';
+import SymLogScale from '../../../../src/scale/SymLog';
+
+
+describe('scale_symlog', function () {
+
+    let chart: EChartsType;
+    beforeEach(function () {
+        chart = createChart();
+    });
+
+    afterEach(function () {
+        chart.dispose();
+    });
+
+    function getYScale(): SymLogScale {
+        const yAxis = getECModel(chart).getComponent('yAxis', 0) as CartesianAxisModel;
+        return yAxis.axis.scale as SymLogScale;
+    }
+
+    it('ticks_cross_zero', function () {
+        chart.setOption({
+            xAxis: {type: 'category', data: ['a', 'b', 'c', 'd']},
+            yAxis: {type: 'symlog'},
+            series: [{type: 'bar', data: [-3200, -5, 40, 87000]}]
+        });
+
+        const scale = getYScale();
+        const ticks = scale.getTicks().map(tick => tick.value);
+
+        expect(scale.type).toEqual('symlog');
+        expect(scale.getExtent()).toEqual([-10000, 100000]);
+        expect(ticks).toContain(0);
+        expect(ticks[0]).toEqual(-10000);
+        expect(ticks[ticks.length - 1]).toEqual(100000);
+        for (let i = 1; i < ticks.length; i++) {
+            expect(ticks[i]).toBeGreaterThan(ticks[i - 1]);
+        }
+    });
+
+    it('linthresh', function () {
+        chart.setOption({
+            xAxis: {type: 'category', data: ['a', 'b']},
+            yAxis: {type: 'symlog', linthresh: 5},
+            series: [{type: 'line', data: [-2, 300]}]
+        });
+
+        const scale = getYScale();
+        expect(scale.linthresh).toEqual(5);
+        expect(scale.getExtent()).toEqual([-5, 500]);
+        expect(scale.normalize(0)).toBeGreaterThan(0);
+        expect(scale.scale(scale.normalize(-2))).toBeCloseTo(-2);
+        expect(scale.scale(scale.normalize(300))).toBeCloseTo(300);
+    });
+
+    it('label_auto_precision', function () {
+        const scale = new SymLogScale();
+        expect(scale.getLabel({value: 12345.678}, {precision: 'auto'})).toEqual('12,346');
+        expect(scale.getLabel({value: -3.14159}, {precision: 'auto'})).toEqual('-3.14');
+    });
+
+});
@@ -0,0 +1,111 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { EChartsType } from '../../../../src/echarts';
+import { createChart, getECModel } from '../../core/utHelper';
+import ChordSeriesModel from '../../../../src/chart/chord/ChordSeries';
+import { ChordNodeLayout, ChordEdgeLayout } from '../../../../src/chart/chord/chordLayout';
+
+
+describe('chord', function () {
+
+    let chart: EChartsType;
+    beforeEach(function () {
+        chart = createChart();
+    });
+
+    afterEach(function () {
+        chart.dispose();
+    });
+
+    function getSeries(): ChordSeriesModel {
+        return getECModel(chart).getSeriesByIndex(0) as ChordSeriesModel;
+    }
+
+    const nodes = [{ name: 'A' }, { name: 'B' }, { name: 'C' }];
+    const links = [
+        { source: 'A', target: 'B', value: 10 },
+        { source: 'A', target: 'C', value: 20 },
+        { source: 'B', target: 'C', value: 10 }
+    ];
+
+    it('node_angle_proportional_to_value', function () {
+        chart.setOption({
+            series: {
+                type: 'chord',
+                padAngle: 0,
+                startAngle: 90,
+                data: nodes,
+                links: links
+            }
+        });
+        const graph = getSeries().getGraph();
+        const layouts = graph.nodes.map(node => node.getLayout() as ChordNodeLayout);
+
+        expect(layouts.map(layout => layout.value)).toEqual([30, 20, 30]);
+        expect(layouts[0].startAngle).toBeCloseTo(-Math.PI / 2);
+        expect(layouts[0].endAngle - layouts[0].startAngle).toBeCloseTo(Math.PI * 2 * 30 / 80);
+        expect(layouts[1].startAngle).toBeCloseTo(layouts[0].endAngle);
+        expect(layouts[2].endAngle).toBeCloseTo(-Math.PI / 2 + Math.PI * 2);
+        // Radius defaults to 70% and 80% of the half of the view size.
+        expect(layouts[0].r0).toBeCloseTo(140);
+        expect(layouts[0].r).toBeCloseTo(160);
+    });
+
+    it('edge_ends_within_nodes', function () {
+        chart.setOption({
+            series: {
+                type: 'chord',
+                padAngle: 2,
+                data: nodes,
+                links: links
+            }
+        });
+        const graph = getSeries().getGraph();
+        const nodeA = graph.getNodeByIndex(0).getLayout() as ChordNodeLayout;
+        const edgeAB = graph.getEdgeByIndex(0).getLayout() as ChordEdgeLayout;
+        const edgeAC = graph.getEdgeByIndex(1).getLayout() as ChordEdgeLayout;
+
+        expect(edgeAB.sourceStartAngle).toBeCloseTo(nodeA.startAngle);
+        expect(edgeAB.sourceEndAngle).toBeCloseTo(edgeAC.sourceStartAngle);
+        expect(edgeAC.sourceEndAngle).toBeCloseTo(nodeA.endAngle);
+        // Both ends of an edge occupy the same angle.
+        expect(edgeAB.targetEndAngle - edgeAB.targetStartAngle)
+            .toBeCloseTo(edgeAB.sourceEndAngle - edgeAB.sourceStartAngle);
+        expect(edgeAB.r).toBeCloseTo(nodeA.r0);
+    });
+
+    it('node_value_and_elements', function () {
+        chart.setOption({
+            series: {
+                type: 'chord',
+                data: [{ name: 'A', value: 100 }, { name: 'B' }],
+                links: [{ source: 'A', target: 'B', value: 10 }]
+            }
+        });
+        const seriesModel = getSeries();
+        expect(seriesModel.getDataParams(1, 'node').value).toEqual(10);
+        expect(seriesModel.getData().getItemGraphicEl(0).type).toEqual('sector');
+        expect(seriesModel.getEdgeData().getItemGraphicEl(0)).toBeTruthy();
+
+        const nodeA = seriesModel.getGraph().getNodeByIndex(0).getLayout() as ChordNodeLayout;
+        expect(nodeA.value).toEqual(100);
+    });
+
+});
@@ -17,10 +17,11 @@
 * under the License.
 */
 
-import { EChartsType } from '../../../../src/echarts';
-import { createChart } from '../../core/utHelper';
-import { ZRColor } from '../../../../src/util/types';
+import { EChartsType, registerCustomSeries } from '../../../../src/echarts';
+import { createChart, getECModel } from '../../core/utHelper';
+import { ZRColor, CallbackDataParams } from '../../../../src/util/types';
 import { CustomSeriesRenderItemAPI, CustomSeriesRenderItemParams } from '../../../../src/chart/custom/install';
+import SeriesModel from '../../../../src/model/Series';
 
 
 describe('custom_series', function () {
@@ -69,4 +70,72 @@ describe('custom_series', function () {
         expect(resultPaletteColors).toEqual(colors);
     });
 
+    describe('registered', function () {
+
+        const renderedSeries: string[] = [];
+
+        registerCustomSeries('ut_bullet', function (params, api) {
+            renderedSeries.push(params.seriesName);
+            return {
+                type: 'rect',
+                shape: { x: 0, y: 0, width: 10, height: api.value(1) as number }
+            };
+        }, {
+            defaultOption: {
+                z: 5,
+                encode: { x: 0, y: 1 }
+            },
+            legendVisualProvider: true,
+            formatTooltip(params: CallbackDataParams) {
+                return 'bullet ' + params.name;
+            }
+        });
+
+        beforeEach(function () {
+            renderedSeries.length = 0;
+        });
+
+        function makeOption(seriesOpt: object) {
+            return {
+                legend: {},
+                xAxis: { data: ['a', 'b'] },
+                yAxis: {},
+                series: [Object.assign({
+                    name: 's0',
+                    data: [{ name: 'a', value: [0, 11] }, { name: 'b', value: [1, 22] }]
+                }, seriesOpt)]
+            };
+        }
+
+        function getSeries(): SeriesModel {
+            return getECModel(chart).getSeriesByIndex(0);
+        }
+
+        it('resolve_by_render_item', function () {
+            chart.setOption(makeOption({ type: 'custom', renderItem: 'ut_bullet' }));
+            expect(renderedSeries).toEqual(['s0', 's0']);
+            // Registered default option.
+            expect(getSeries().get('z')).toEqual(5);
+        });
+
+        it('resolve_by_type', function () {
+            chart.setOption(makeOption({ type: 'ut_bullet', z: 7 }));
+            expect(getSeries().subType).toEqual('custom');
+            expect(renderedSeries.length).toEqual(2);
+            // User option has higher priority.
+            expect(getSeries().get('z')).toEqual(7);
+        });
+
+        it('legend_and_tooltip', function () {
+            chart.setOption(makeOption({ type: 'ut_bullet' }));
+            const series = getSeries();
+            expect(series.legendVisualProvider.getAllNames()).toEqual(['a', 'b']);
+            expect(series.formatTooltip(1, false, null)).toEqual('bullet b');
+
+            chart.dispatchAction({ type: 'legendUnSelect', name: 'a' });
+            expect(getSeries().getData().count()).toEqual(1);
+        });
+
+    });
+
 });
@@ -0,0 +1,251 @@
+
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { EChartsType } from '../../../../src/echarts';
+import { createChart, getECModel } from '../../core/utHelper';
+import GraphSeriesModel from '../../../../src/chart/graph/GraphSeries';
+import Polyline from '../../../../src/chart/helper/Polyline';
+
+
+describe('graphEdgeBundling', function () {
+
+    let chart: EChartsType;
+    beforeEach(function () {
+        chart = createChart();
+    });
+
+    afterEach(function () {
+        chart.dispose();
+    });
+
+    function getSeries(): GraphSeriesModel {
+        return getECModel(chart).getSeriesByIndex(0) as GraphSeriesModel;
+    }
+
+    function distToLine(pt: number[], p1: number[], p2: number[]) {
+        const dx = p2[0] - p1[0];
+        const dy = p2[1] - p1[1];
+        return Math.abs(dx * (pt[1] - p1[1]) - dy * (pt[0] - p1[0])) / Math.sqrt(dx * dx + dy * dy);
+    }
+
+    // Categories are interleaved in data.
+    const circularNodes = [
+        { name: 'a1', category: 0 }, { name: 'b1', category: 1 },
+        { name: 'a2', category: 0 }, { name: 'b2', category: 1 },
+        { name: 'a3', category: 0 }, { name: 'b3', category: 1 }
+    ];
+    const circularLinks = [
+        { source: 'a1', target: 'b1' },
+        { source: 'a2', target: 'b2' },
+        { source: 'a1', target: 'a3' }
+    ];
+
+    it('hierarchical_by_category', function () {
+        chart.setOption({
+            series: {
+                type: 'graph',
+                layout: 'circular',
+                categories: [{ name: 'A' }, { name: 'B' }],
+                data: circularNodes,
+                links: circularLinks,
+                edgeBundling: {
+                    show: true
+                }
+            }
+        });
+        const graph = getSeries().getGraph();
+        const center = [graph.data.getLayout('cx'), graph.data.getLayout('cy')];
+        const angles = graph.nodes.map(node => {
+            const pt = node.getLayout() as number[];
+            return Math.atan2(pt[1] - center[1], pt[0] - center[0]);
+        });
+        const angleStep = Math.PI * 2 / 6;
+        // Nodes are placed in the order of categories.
+        expect(Math.abs(angles[2] - angles[0]) % (Math.PI * 2)).toBeCloseTo(angleStep, 5);
+        expect(Math.abs(angles[4] - angles[2]) % (Math.PI * 2)).toBeCloseTo(angleStep, 5);
+
+        graph.eachEdge(function (edge) {
+            const points = edge.getLayout() as number[][];
+            expect(points.length).toBeGreaterThan(3);
+            expect(points[0][0]).toBeCloseTo(edge.node1.getLayout()[0]);
+            expect(points[0][1]).toBeCloseTo(edge.node1.getLayout()[1]);
+            expect(points[points.length - 1][0]).toBeCloseTo(edge.node2.getLayout()[0]);
+            expect(points[points.length - 1][1]).toBeCloseTo(edge.node2.getLayout()[1]);
+        });
+
+        // Edges between categories pass the center.
+        const crossPoints = graph.getEdgeByIndex(0).getLayout() as number[][];
+        const mid = crossPoints[Math.floor(crossPoints.length / 2)];
+        const p1 = crossPoints[0];
+        const p2 = crossPoints[crossPoints.length - 1];
+        const dist = Math.sqrt(Math.pow(mid[0] - center[0], 2) + Math.pow(mid[1] - center[1], 2));
+        expect(dist).toBeLessThan(distToLine(center, p1, p2));
+
+        expect(graph.getEdgeByIndex(0).getGraphicEl()).toBeInstanceOf(Polyline);
+    });
+
+    it('hierarchy_and_strength', function () {
+        const option = {
+            series: {
+                type: 'graph',
+                layout: 'circular',
+                data: circularNodes,
+                links: circularLinks,
+                edgeBundling: {
+                    show: true,
+                    hierarchy: [{
+                        name: 'g1',
+                        children: ['a1', 'a2', { name: 'b1' }]
+                    }],
+                    strength: 0
+                }
+            }
+        };
+        chart.setOption(option);
+        const graph = getSeries().getGraph();
+        const center = [graph.data.getLayout('cx'), graph.data.getLayout('cy')];
+        // Straight lines if strength is 0.
+        graph.eachEdge(function (edge) {
+            const points = edge.getLayout() as number[][];
+            const p1 = points[0];
+            const p2 = points[points.length - 1];
+            for (let i = 0; i < points.length; i++) {
+                expect(distToLine(points[i], p1, p2)).toBeLessThan(1e-6);
+            }
+        });
+        // Nodes in hierarchy come first.
+        const names = ['a1', 'a2', 'b1', 'b2', 'a3', 'b3'];
+        const angles = names.map(name => {
+            const pt = graph.getNodeById(name).getLayout() as number[];
+            const angle = Math.atan2(pt[1] - center[1], pt[0] - center[0]);
+            return angle < 0 ? angle + Math.PI * 2 : angle;
+        });
+        for (let i = 1; i < angles.length; i++) {
+            expect(angles[i]).toBeGreaterThan(angles[i - 1]);
+        }
+    });
+
+    it('force_directed_bundling', function () {
+        const links = [
+            { source: 'p1', target: 'p2' },
+            { source: 'q1', target: 'q2' }
+        ];
+        const option = {
+            series: {
+                type: 'graph',
+                layout: 'none',
+                data: [
+                    { name: 'p1', x: 0, y: 0 },
+                    { name: 'p2', x: 100, y: 0 },
+                    { name: 'q1', x: 0, y: 20 },
+                    { name: 'q2', x: 100, y: 20 }
+                ],
+                links: links,
+                edgeBundling: {
+                    show: true
+                }
+            }
+        };
+        chart.setOption(option);
+        const graph = getSeries().getGraph();
+        const edge0 = graph.getEdgeByIndex(0).getLayout() as number[][];
+        const edge1 = graph.getEdgeByIndex(1).getLayout() as number[][];
+        const mid0 = edge0[Math.floor(edge0.length / 2)];
+        const mid1 = edge1[Math.floor(edge1.length / 2)];
+
+        // Parallel edges attract each other in the middle.
+        expect(mid1[1] - mid0[1]).toBeLessThan(20);
+        expect(mid1[1] - mid0[1]).toBeGreaterThan(0);
+        expect(edge0[0]).toEqual([0, 0]);
+        expect(edge1[edge1.length - 1]).toEqual([100, 20]);
+
+        // Edges in opposite direction are bundled too.
+        option.series.links = [links[0], { source: 'q2', target: 'q1' }];
+        chart.setOption(option);
+        const reversed = getSeries().getGraph().getEdgeByIndex(1).getLayout() as number[][];
+        expect(reversed[Math.floor(reversed.length / 2)][1]).toBeCloseTo(mid1[1], 5);
+    });
+
+    it('force_layout', function () {
+        chart.setOption({
+            series: {
+                type: 'graph',
+                layout: 'force',
+                force: {
+                    layoutAnimation: false
+                },
+                data: circularNodes,
+                links: circularLinks,
+                edgeBundling: {
+                    show: true
+                }
+            }
+        });
+        const graph = getSeries().getGraph();
+        graph.eachEdge(function (edge) {
+            expect((edge.getLayout() as number[][]).length).toBeGreaterThan(2);
+        });
+
+        chart.setOption({
+            series: {
+                edgeBundling: {
+                    show: false
+                }
+            }
+        });
+        const edge = getSeries().getGraph().getEdgeByIndex(0);
+        expect(edge.getGraphicEl()).not.toBeInstanceOf(Polyline);
+    });
+
+    it('straight_edges_while_force_layout_running', function () {
+        const data = [];
+        const links = [];
+        for (let i = 0; i < 20; i++) {
+            data.push({name: 'n' + i});
+            i && links.push({source: 'n' + i, target: 'n' + (i % 4)});
+        }
+        chart.setOption({
+            series: {
+                type: 'graph',
+                layout: 'force',
+                force: {
+                    layoutAnimation: false
+                },
+                edgeBundling: {
+                    show: true,
+                    type: 'force'
+                },
+                data: data,
+                links: links
+            }
+        });
+        const seriesModel = getSeries();
+        const graph = seriesModel.getGraph();
+        // Edges are bundled after the layout stops.
+        expect((graph.getEdgeByIndex(0).getLayout() as number[][]).length).toBeGreaterThan(2);
+
+        // Like dragging a node, which restarts the layout.
+        seriesModel.forceLayout.warmUp();
+        seriesModel.forceLayout.step(function () {});
+        graph.eachEdge(function (edge) {
+            expect(edge.getLayout()).toEqual([edge.node1.getLayout(), edge.node2.getLayout()]);
+        });
+    });
+});
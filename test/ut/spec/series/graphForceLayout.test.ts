@@ -0,0 +1,246 @@
+
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { EChartsType } from '../../../../src/echarts';
+import { createChart, getECModel } from '../../core/utHelper';
+import GraphSeriesModel from '../../../../src/chart/graph/GraphSeries';
+import { forceLayout, InputNode, LayoutCfg } from '../../../../src/chart/graph/forceHelper';
+import {
+    createForceLayoutWorkerRunner, runForceLayoutWorker, ForceWorkerLike
+} from '../../../../src/chart/graph/forceWorker';
+
+
+describe('graphForceLayout', function () {
+
+    const rect = {x: 0, y: 0, width: 400, height: 400};
+
+    function makeGridNodes(count: number): InputNode[] {
+        const nodes = [];
+        for (let i = 0; i < count; i++) {
+            nodes.push({
+                p: [(i % 10) * 40 + (i % 3), Math.floor(i / 10) * 40 + (i % 7)],
+                w: 1,
+                rep: 50
+            });
+        }
+        return nodes;
+    }
+
+    function stepOnce(nodes: InputNode[], opts: LayoutCfg) {
+        const simulation = forceLayout(nodes, [], opts);
+        simulation.step();
+        return nodes.map(node => [node.p[0], node.p[1]]);
+    }
+
+    it('barnes_hut_approximation', function () {
+        const opts = {rect: rect, gravity: 0};
+        const exact = stepOnce(makeGridNodes(100), {...opts, theta: 0});
+        const approximate = stepOnce(makeGridNodes(100), {...opts, theta: 0.9});
+        const origin = makeGridNodes(100);
+        for (let i = 0; i < exact.length; i++) {
+            const moveX = exact[i][0] - origin[i].p[0];
+            const moveY = exact[i][1] - origin[i].p[1];
+            const errorX = approximate[i][0] - exact[i][0];
+            const errorY = approximate[i][1] - exact[i][1];
+            expect(Math.sqrt(errorX * errorX + errorY * errorY))
+                .toBeLessThan(Math.sqrt(moveX * moveX + moveY * moveY) * 0.1 + 1e-3);
+        }
+    });
+
+    it('collision_and_fixed', function () {
+        const nodes: InputNode[] = [
+            {p: [100, 100], w: 1, rep: 0, fixed: true},
+            {p: [102, 100], w: 1, rep: 0},
+            {p: [300, 300], w: 1, rep: 0}
+        ];
+        stepOnce(nodes, {rect: rect, gravity: 0, collisionRadius: 10});
+        expect(nodes[0].p).toEqual([100, 100]);
+        expect(nodes[1].p[0]).toBeCloseTo(120);
+        expect(nodes[1].p[1]).toBeCloseTo(100);
+        expect(nodes[2].p).toEqual([300, 300]);
+    });
+
+    it('centering', function () {
+        const nodes = makeGridNodes(20);
+        stepOnce(nodes, {rect: {x: 1000, y: 1000, width: 400, height: 400}, gravity: 0, centering: true});
+        let x = 0;
+        let y = 0;
+        nodes.forEach(node => {
+            x += node.p[0] / nodes.length;
+            y += node.p[1] / nodes.length;
+        });
+        expect(x).toBeCloseTo(1200);
+        expect(y).toBeCloseTo(1200);
+    });
+
+    it('edge_strength', function () {
+        function getDistance(edgeStrength: number) {
+            const nodes: InputNode[] = [
+                {p: [100, 100], w: 1, rep: 0},
+                {p: [200, 100], w: 1, rep: 0}
+            ];
+            const simulation = forceLayout(nodes, [{n1: nodes[0], n2: nodes[1], d: 20}], {
+                rect: rect, gravity: 0, edgeStrength: edgeStrength
+            });
+            simulation.step();
+            return nodes[1].p[0] - nodes[0].p[0];
+        }
+        expect(getDistance(0)).toBeCloseTo(100);
+        expect(getDistance(0.5)).toBeGreaterThan(getDistance(1));
+    });
+
+
+    describe('worker', function () {
+
+        let chart: EChartsType;
+        beforeEach(function () {
+            chart = createChart();
+        });
+
+        afterEach(function () {
+            chart.dispose();
+        });
+
+        type Listener = (e: {data: any}) => void;
+        interface FakeWorker extends ForceWorkerLike {
+            other?: FakeWorker
+            listeners: Listener[]
+        }
+
+        // Messages are delivered asynchronously like real workers.
+        function createWorkerPair() {
+            function createEnd() {
+                const end: FakeWorker = {
+                    listeners: [],
+                    postMessage(message: any) {
+                        Promise.resolve().then(function () {
+                            end.other.listeners.slice().forEach(listener => listener({data: message}));
+                        });
+                    },
+                    addEventListener(type: string, listener: Listener) {
+                        end.listeners.push(listener);
+                    },
+                    removeEventListener(type: string, listener: Listener) {
+                        end.listeners.splice(end.listeners.indexOf(listener), 1);
+                    }
+                };
+                return end;
+            }
+            const main = createEnd();
+            const worker = createEnd();
+            main.other = worker;
+            worker.other = main;
+            return {main: main, worker: worker};
+        }
+
+        function flush() {
+            // All of the steps in microtasks are finished before the timer.
+            return new Promise(resolve => setTimeout(resolve, 0));
+        }
+
+        it('run_in_worker', async function () {
+            const pair = createWorkerPair();
+            runForceLayoutWorker(pair.worker);
+
+            const data = [];
+            const links = [];
+            for (let i = 0; i < 30; i++) {
+                data.push({name: 'n' + i});
+                i && links.push({source: 'n' + i, target: 'n' + Math.floor(i / 3)});
+            }
+            data[0] = {name: 'n0', x: 10, y: 20, fixed: true} as any;
+            chart.setOption({
+                series: {
+                    type: 'graph',
+                    layout: 'force',
+                    force: {
+                        layoutAnimation: false,
+                        runner: createForceLayoutWorkerRunner(pair.main)
+                    },
+                    data: data,
+                    links: links
+                }
+            });
+            await flush();
+
+            const seriesModel = getECModel(chart).getSeriesByIndex(0) as GraphSeriesModel;
+            const graph = seriesModel.getGraph();
+            const positions = graph.nodes.map(node => node.getLayout() as number[]);
+            expect(positions[0]).toEqual([10, 20]);
+            positions.forEach(function (pt) {
+                expect(isFinite(pt[0]) && isFinite(pt[1])).toEqual(true);
+            });
+            // Nodes are moved by worker.
+            const edge = graph.getEdgeByIndex(0);
+            const dist = Math.sqrt(
+                Math.pow(edge.node1.getLayout()[0] - edge.node2.getLayout()[0], 2)
+                + Math.pow(edge.node1.getLayout()[1] - edge.node2.getLayout()[1], 2)
+            );
+            expect(dist).toBeLessThan(200);
+
+            // Layout is stable, no more steps.
+            await flush();
+            expect(graph.getNodeByIndex(5).getLayout()).toEqual(positions[5]);
+        });
+
+        it('dispose_worker_runner_when_series_removed', async function () {
+            const pair = createWorkerPair();
+            runForceLayoutWorker(pair.worker);
+            let listenerRemoved = false;
+            const removeEventListener = pair.main.removeEventListener;
+            pair.main.removeEventListener = function (type: string, listener: Listener) {
+                listenerRemoved = true;
+                removeEventListener.call(this, type, listener);
+            };
+            const messageTypes: string[] = [];
+            pair.worker.addEventListener('message', function (e: {data: any}) {
+                messageTypes.push(e.data.type);
+            });
+
+            const data = [];
+            for (let i = 0; i < 10; i++) {
+                data.push({name: 'n' + i});
+            }
+            chart.setOption({
+                series: {
+                    type: 'graph',
+                    layout: 'force',
+                    force: {
+                        layoutAnimation: true,
+                        runner: createForceLayoutWorkerRunner(pair.main)
+                    },
+                    data: data
+                }
+            });
+            await flush();
+            const graph = (getECModel(chart).getSeriesByIndex(0) as GraphSeriesModel).getGraph();
+
+            chart.setOption({series: []}, {replaceMerge: 'series'});
+            await flush();
+            expect(listenerRemoved).toEqual(true);
+            expect(messageTypes).toContain('dispose');
+
+            // No more ticks after the simulation is disposed.
+            const position = (graph.getNodeByIndex(0).getLayout() as number[]).slice();
+            await new Promise(resolve => setTimeout(resolve, 50));
+            expect(graph.getNodeByIndex(0).getLayout()).toEqual(position);
+        });
+    });
+});
@@ -0,0 +1,178 @@
+
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { EChartsType } from '../../../../src/echarts';
+import { createChart, getECModel } from '../../core/utHelper';
+import IcicleSeriesModel from '../../../../src/chart/icicle/IcicleSeries';
+import { TreeNode } from '../../../../src/data/Tree';
+import ChartView from '../../../../src/view/Chart';
+import Element from 'zrender/src/Element';
+import { Polygon, Rect } from '../../../../src/util/graphic';
+
+
+describe('icicle', function () {
+
+    let chart: EChartsType;
+    beforeEach(function () {
+        chart = createChart();
+    });
+
+    afterEach(function () {
+        chart.dispose();
+    });
+
+    function getSeries(): IcicleSeriesModel {
+        return getECModel(chart).getSeriesByIndex(0) as IcicleSeriesModel;
+    }
+
+    function getNode(name: string): TreeNode {
+        const tree = getSeries().getData().tree;
+        let result: TreeNode;
+        tree.eachNode(function (node) {
+            if (node.name === name) {
+                result = node;
+            }
+        });
+        return result;
+    }
+
+    function getLayout(name: string) {
+        return getNode(name).getLayout();
+    }
+
+    function getBreadcrumbItems(): Polygon[] {
+        // @ts-ignore
+        const view = chart._chartsMap[getSeries().__viewId] as ChartView;
+        const items: Polygon[] = [];
+        view.group.traverse(function (el) {
+            el instanceof Polygon && items.push(el);
+        });
+        return items;
+    }
+
+    // Value of `a` is larger than the sum of its children,
+    // and the value of `root` is computed from children.
+    const icicleData = [{
+        name: 'root',
+        children: [{
+            name: 'a',
+            value: 6,
+            children: [{ name: 'a1', value: 2 }, { name: 'a2', value: 3 }]
+        }, {
+            name: 'b',
+            children: [{ name: 'b1', value: 2 }]
+        }, {
+            name: 'c',
+            value: 2
+        }]
+    }];
+
+    function setIcicleOption(opt?: object) {
+        chart.setOption({
+            animation: false,
+            series: Object.assign({
+                type: 'icicle',
+                name: 'series',
+                left: 0,
+                top: 0,
+                width: 400,
+                height: 300,
+                data: icicleData
+            }, opt)
+        });
+    }
+
+    it('vertical_layout', function () {
+        setIcicleOption();
+
+        expect(getLayout('root')).toEqual({ x: 0, y: 0, width: 400, height: 100 });
+        // Sorted by value in descending order and ties are kept in data order.
+        expect(getLayout('a')).toEqual({ x: 0, y: 100, width: 240, height: 100 });
+        expect(getLayout('b')).toEqual({ x: 240, y: 100, width: 80, height: 100 });
+        expect(getLayout('c')).toEqual({ x: 320, y: 100, width: 80, height: 100 });
+        expect(getLayout('a2')).toEqual({ x: 0, y: 200, width: 120, height: 100 });
+        expect(getLayout('a1')).toEqual({ x: 120, y: 200, width: 80, height: 100 });
+    });
+
+    it('horizontal_layout_and_sort', function () {
+        setIcicleOption({ orient: 'horizontal', sort: 'asc' });
+
+        expect(getLayout('root')).toEqual({ x: 0, y: 0, width: 400 / 3, height: 300 });
+        expect(getLayout('c').y).toEqual(0);
+        expect(getLayout('b').y).toEqual(60);
+        expect(getLayout('a')).toEqual({ x: 400 / 3, y: 120, width: 400 / 3, height: 180 });
+        expect(getLayout('a1').y).toEqual(120);
+        expect(getLayout('a2').y).toEqual(180);
+    });
+
+    it('levels', function () {
+        setIcicleOption({
+            levels: [{}, {
+                itemStyle: { color: 'red' }
+            }, {
+                itemStyle: { color: 'blue' }
+            }]
+        });
+
+        const data = getSeries().getData();
+        expect(data.getItemVisual(getNode('root').dataIndex, 'style').fill).toEqual('red');
+        expect(data.getItemVisual(getNode('a').dataIndex, 'style').fill).toEqual('blue');
+        expect(data.getItemVisual(getNode('c').dataIndex, 'style').fill).toEqual('blue');
+    });
+
+    it('root_to_node', function () {
+        setIcicleOption();
+        expect(getBreadcrumbItems().length).toEqual(1);
+
+        chart.dispatchAction({
+            type: 'icicleRootToNode',
+            targetNodeId: 'a'
+        });
+
+        // Ancestors are kept on the top levels with full width.
+        expect(getLayout('root')).toEqual({ x: 0, y: 0, width: 400, height: 100 });
+        expect(getLayout('a')).toEqual({ x: 0, y: 100, width: 400, height: 100 });
+        expect(getLayout('a2')).toEqual({ x: 0, y: 200, width: 200, height: 100 });
+        expect(getLayout('b')).toEqual(null);
+
+        const data = getSeries().getData();
+        expect((data.getItemGraphicEl(getNode('a2').dataIndex) as Rect).shape.width).toEqual(200);
+        expect(data.getItemGraphicEl(getNode('b').dataIndex)).toEqual(null);
+
+        // Roll up by clicking on the breadcrumb.
+        const items = getBreadcrumbItems();
+        expect(items.length).toEqual(3);
+        const onclick = items[0].onclick as Function;
+        onclick();
+
+        expect(getSeries().getViewRoot()).toBe(getSeries().getData().tree.root);
+        expect(getLayout('b')).toEqual({ x: 240, y: 100, width: 80, height: 100 });
+        expect(data.getItemGraphicEl(getNode('b').dataIndex)).toBeInstanceOf(Element);
+    });
+
+    it('skip_small_items', function () {
+        setIcicleOption({ minItemSize: 100 });
+
+        const data = getSeries().getData();
+        expect(data.getItemGraphicEl(getNode('a2').dataIndex)).toBeInstanceOf(Element);
+        expect(data.getItemGraphicEl(getNode('a1').dataIndex)).toBeFalsy();
+        expect(data.getItemGraphicEl(getNode('b1').dataIndex)).toBeFalsy();
+    });
+});
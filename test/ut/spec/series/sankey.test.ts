@@ -0,0 +1,147 @@
+
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { EChartsType } from '../../../../src/echarts';
+import { createChart, getECModel } from '../../core/utHelper';
+import SankeySeriesModel from '../../../../src/chart/sankey/SankeySeries';
+import { LinearGradientObject } from 'zrender/src/graphic/LinearGradient';
+import Path from 'zrender/src/graphic/Path';
+
+
+describe('sankey', function () {
+
+    let chart: EChartsType;
+    beforeEach(function () {
+        chart = createChart();
+    });
+
+    afterEach(function () {
+        chart.dispose();
+    });
+
+    function getSeries(): SankeySeriesModel {
+        return getECModel(chart).getSeriesByIndex(0) as SankeySeriesModel;
+    }
+
+    function getColumnNames(depth: number) {
+        const nodes = getSeries().getGraph().nodes.filter(node => node.getLayout().depth === depth);
+        nodes.sort((a, b) => a.getLayout().y - b.getLayout().y);
+        return nodes.map(node => node.id);
+    }
+
+    const cyclicLinks = [
+        { source: 'a', target: 'b', value: 10 },
+        { source: 'b', target: 'c', value: 8 },
+        { source: 'c', target: 'a', value: 3 },
+        { source: 'c', target: 'c', value: 2 }
+    ];
+
+    it('route_cyclic_edges', function () {
+        chart.setOption({
+            series: {
+                type: 'sankey',
+                data: [{ name: 'a' }, { name: 'b' }, { name: 'c' }],
+                links: cyclicLinks
+            }
+        });
+        const seriesModel = getSeries();
+        const graph = seriesModel.getGraph();
+        expect(graph.nodes.map(node => node.getLayout().depth)).toEqual([0, 1, 2]);
+
+        const cyclic = graph.edges.filter(edge => edge.getLayout().cyclic);
+        expect(cyclic.map(edge => edge.dataIndex)).toEqual([2, 3]);
+
+        let nodesBottom = 0;
+        graph.eachNode(node => {
+            nodesBottom = Math.max(nodesBottom, node.getLayout().y + node.getLayout().dy);
+        });
+        const selfLoop = graph.getEdgeByIndex(3).getLayout();
+        const backLink = graph.getEdgeByIndex(2).getLayout();
+        // The self loop spans fewer columns, so it's closer to the nodes.
+        expect(selfLoop.channel).toBeGreaterThan(nodesBottom);
+        expect(backLink.channel).toBeGreaterThanOrEqual(selfLoop.channel + selfLoop.dy);
+        expect(backLink.channel + backLink.dy).toBeLessThanOrEqual(seriesModel.layoutInfo.height + 1e-6);
+
+        // Cyclic edges enter after the acyclic ones, and the outer channel comes first.
+        expect(selfLoop.ty).toBe(graph.getEdgeByIndex(1).getLayout().dy);
+        expect(backLink.sy).toBe(0);
+        expect(selfLoop.sy).toBe(backLink.dy);
+    });
+
+    it('sort_nodes', function () {
+        const data = [
+            { name: 'src' }, { name: 'b' }, { name: 'c' }, { name: 'a' }
+        ];
+        const links = [
+            { source: 'src', target: 'b', value: 1 },
+            { source: 'src', target: 'c', value: 5 },
+            { source: 'src', target: 'a', value: 3 }
+        ];
+        chart.setOption({
+            series: { type: 'sankey', nodeSort: 'value', data: data, links: links }
+        });
+        expect(getColumnNames(1)).toEqual(['c', 'a', 'b']);
+
+        chart.setOption({
+            series: { nodeSort: 'name' }
+        });
+        expect(getColumnNames(1)).toEqual(['a', 'b', 'c']);
+
+        chart.setOption({
+            series: { nodeSort: 'data', layoutIterations: 100 }
+        });
+        expect(getColumnNames(1)).toEqual(['b', 'c', 'a']);
+
+        chart.setOption({
+            series: {
+                nodeSort: function (a: {name: string}, b: {name: string}) {
+                    return a.name === 'a' ? -1 : b.name === 'a' ? 1 : 0;
+                }
+            }
+        });
+        expect(getColumnNames(1)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('gradient_follows_orient', function () {
+        const option = {
+            series: {
+                type: 'sankey',
+                orient: 'vertical',
+                data: [{ name: 'a' }, { name: 'b' }],
+                links: [
+                    { source: 'a', target: 'b', value: 1 },
+                    { source: 'b', target: 'a', value: 1 }
+                ],
+                lineStyle: { color: 'gradient' }
+            }
+        };
+        chart.setOption(option);
+        const edgeData = getSeries().getData('edge');
+        const forward = (edgeData.getItemGraphicEl(0) as Path).style.fill as LinearGradientObject;
+        const backward = (edgeData.getItemGraphicEl(1) as Path).style.fill as LinearGradientObject;
+        expect(forward.type).toBe('linear');
+        expect([forward.x2, forward.y2]).toEqual([0, 1]);
+        expect(forward.colorStops[0].color).toBe(backward.colorStops[1].color);
+
+        chart.setOption({ series: { orient: 'horizontal' } });
+        const fill = (getSeries().getData('edge').getItemGraphicEl(0) as Path).style.fill as LinearGradientObject;
+        expect([fill.x2, fill.y2]).toEqual([1, 0]);
+    });
+});
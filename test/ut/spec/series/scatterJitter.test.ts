@@ -0,0 +1,108 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { EChartsType } from '../../../../src/echarts';
+import { createChart, getECModel } from '../../core/utHelper';
+
+
+describe('scatter_jitter', function () {
+
+    let chart: EChartsType;
+    beforeEach(function () {
+        chart = createChart();
+    });
+
+    afterEach(function () {
+        chart.dispose();
+    });
+
+    function getPoints(): number[][] {
+        const data = getECModel(chart).getSeriesByIndex(0).getData();
+        const points = [];
+        for (let i = 0; i < data.count(); i++) {
+            points.push(data.getItemLayout(i).slice());
+        }
+        return points;
+    }
+
+    function makeOption(xAxis: object) {
+        return {
+            animation: false,
+            xAxis: Object.assign({ type: 'category', data: ['A', 'B'] }, xAxis),
+            yAxis: {},
+            series: {
+                type: 'scatter',
+                symbolSize: 10,
+                data: [['A', 1], ['A', 1], ['A', 1], ['A', 1], ['B', 2], ['B', 2]]
+            }
+        };
+    }
+
+    it('no_jitter_by_default', function () {
+        chart.setOption(makeOption({}));
+        const points = getPoints();
+        expect(points[0][0]).toEqual(points[1][0]);
+    });
+
+    it('random_jitter_is_deterministic', function () {
+        chart.setOption(makeOption({ jitter: 40 }));
+        const points = getPoints();
+        const center = chart.convertToPixel({ xAxisIndex: 0 }, 'A') as number;
+        points.slice(0, 4).forEach(function (point) {
+            expect(Math.abs(point[0] - center)).toBeLessThanOrEqual(20);
+        });
+        expect(points[0][0]).not.toEqual(points[1][0]);
+
+        chart.resize();
+        chart.setOption(makeOption({ jitter: 40 }), true);
+        expect(getPoints()).toEqual(points);
+
+        const pixel = chart.convertToPixel({ seriesIndex: 0, dataIndex: 2 }, ['A', 1]) as number[];
+        expect(pixel[0]).toBeCloseTo(points[2][0], 3);
+        expect(pixel[1]).toBeCloseTo(points[2][1], 3);
+    });
+
+    it('avoid_overlap', function () {
+        chart.setOption(makeOption({ jitter: 100, jitterOverlap: false, jitterMargin: 0 }));
+        const points = getPoints();
+        for (let i = 0; i < 4; i++) {
+            for (let j = i + 1; j < 4; j++) {
+                // Symbol size is 10.
+                expect(Math.abs(points[i][0] - points[j][0])).toBeGreaterThanOrEqual(10 - 1e-6);
+            }
+        }
+        // The first one is at the band center.
+        expect(points[0][0]).toEqual(chart.convertToPixel({ xAxisIndex: 0 }, 'A'));
+    });
+
+    it('large_mode', function () {
+        const option = makeOption({ jitter: 40 });
+        chart.setOption(option);
+        const expected = getPoints();
+
+        chart.setOption({
+            series: { large: true, largeThreshold: 1 }
+        });
+        const points = getECModel(chart).getSeriesByIndex(0).getData().getLayout('points');
+        for (let i = 0; i < expected.length; i++) {
+            expect(points[i * 2]).toBeCloseTo(expected[i][0], 3);
+        }
+    });
+
+});
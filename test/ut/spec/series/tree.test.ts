@@ -0,0 +1,159 @@
+
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { EChartsType } from '../../../../src/echarts';
+import { createChart, getECModel } from '../../core/utHelper';
+import TreeSeriesModel from '../../../../src/chart/tree/TreeSeries';
+import { getNodeSize } from '../../../../src/chart/tree/layoutHelper';
+import { TreeNode } from '../../../../src/data/Tree';
+import Element from 'zrender/src/Element';
+
+
+describe('tree', function () {
+
+    let chart: EChartsType;
+    beforeEach(function () {
+        chart = createChart();
+    });
+
+    afterEach(function () {
+        chart.dispose();
+    });
+
+    function getSeries(): TreeSeriesModel {
+        return getECModel(chart).getSeriesByIndex(0) as TreeSeriesModel;
+    }
+
+    function getNode(name: string): TreeNode {
+        const tree = getSeries().getData().tree;
+        let result: TreeNode;
+        tree.eachNode(function (node) {
+            if (node.name === name) {
+                result = node;
+            }
+        });
+        return result;
+    }
+
+    const treeData = [{
+        name: 'root',
+        children: [{
+            name: 'a',
+            children: [{ name: 'a1' }, { name: 'a2 with a long label' }]
+        }, {
+            name: 'b',
+            children: [{ name: 'b1' }]
+        }, {
+            name: 'c'
+        }]
+    }];
+
+    it('compact_layout', function () {
+        chart.setOption({
+            series: {
+                type: 'tree',
+                layout: 'compact',
+                orient: 'TB',
+                data: treeData
+            }
+        });
+        const seriesModel = getSeries();
+        const leaves = ['a1', 'a2 with a long label', 'b1'].map(getNode);
+        for (let i = 1; i < leaves.length; i++) {
+            const distance = leaves[i].getLayout().x - leaves[i - 1].getLayout().x;
+            const minDistance = (
+                getNodeSize(seriesModel, leaves[i])[0] + getNodeSize(seriesModel, leaves[i - 1])[0]
+            ) / 2;
+            expect(distance).toBeGreaterThanOrEqual(minDistance - 1e-6);
+        }
+        // Parent is centered above its children.
+        const a = getNode('a');
+        expect(a.getLayout().x).toBeCloseTo((leaves[0].getLayout().x + leaves[1].getLayout().x) / 2);
+        expect(a.getLayout().y).toBeGreaterThan(getNode('root').getLayout().y);
+
+        chart.setOption({
+            series: {
+                nodeSize: function (params: {name: string}) {
+                    return params.name === 'b1' ? [100, 20] : [20, 20];
+                }
+            }
+        });
+        expect(getNode('b1').getLayout().x - getNode('a2 with a long label').getLayout().x)
+            .toBeGreaterThanOrEqual(60 * 2 - 1e-6);
+        expect(getNode('a1').getLayout().y - getNode('a').getLayout().y).toBeCloseTo(20);
+    });
+
+    it('indented_layout', function () {
+        chart.setOption({
+            series: {
+                type: 'tree',
+                layout: 'indented',
+                nodeSize: [16, 20],
+                data: treeData
+            }
+        });
+        const names = ['root', 'a', 'a1', 'a2 with a long label', 'b', 'b1', 'c'];
+        names.forEach(function (name, i) {
+            const node = getNode(name);
+            expect(node.getLayout().y).toBe(i * 20 + 10);
+            expect(node.getLayout().x).toBe((node.depth - 1) * 16);
+        });
+    });
+
+    it('custom_separation', function () {
+        chart.setOption({
+            series: {
+                type: 'tree',
+                separation: function () {
+                    return 1;
+                },
+                data: treeData
+            }
+        });
+        const ys = ['a1', 'a2 with a long label', 'b1', 'c'].map(name => getNode(name).getLayout().y);
+        expect(ys[1] - ys[0]).toBeCloseTo(ys[2] - ys[1]);
+    });
+
+    it('keep_clicked_node_stationary', function () {
+        chart.setOption({
+            animation: false,
+            series: {
+                type: 'tree',
+                initialTreeDepth: 1,
+                data: treeData
+            }
+        });
+        function getScreenPosition(name: string) {
+            const el = getSeries().getData().getItemGraphicEl(getNode(name).dataIndex) as Element;
+            const transform = el.getComputedTransform();
+            return [transform[4], transform[5]];
+        }
+        const before = getScreenPosition('a');
+        chart.dispatchAction({
+            type: 'treeExpandAndCollapse',
+            seriesIndex: 0,
+            dataIndex: getNode('a').dataIndex
+        });
+        expect(getNode('a1').getLayout()).toBeTruthy();
+        const after = getScreenPosition('a');
+        expect(after[0]).toBeCloseTo(before[0]);
+        expect(after[1]).toBeCloseTo(before[1]);
+    });
+});
@@ -0,0 +1,131 @@
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+import { EChartsType } from '../../../../src/echarts';
+import { createChart, getECModel } from '../../core/utHelper';
+import Path from 'zrender/src/graphic/Path';
+import Element from 'zrender/src/Element';
+import { isInAnyMorphing, isCombiningPath } from 'zrender/src/tool/morphPath';
+
+
+describe('universalTransition', function () {
+
+    let chart: EChartsType;
+    beforeEach(function () {
+        chart = createChart();
+    });
+
+    afterEach(function () {
+        chart.dispose();
+    });
+
+    function getItemPaths(seriesIndex: number): Path[] {
+        const data = getECModel(chart).getSeriesByIndex(seriesIndex).getData();
+        const paths: Path[] = [];
+        data.each(function (idx) {
+            let el: Element = data.getItemGraphicEl(idx);
+            // Symbol path is the first child of the symbol group.
+            while (el && el.isGroup) {
+                el = (el as any).childAt(0);
+            }
+            paths.push(el as Path);
+        });
+        return paths;
+    }
+
+    const barOption = {
+        xAxis: { type: 'category' },
+        yAxis: {},
+        series: {
+            type: 'bar',
+            universalTransition: true,
+            data: [
+                { id: 'A', name: 'A', value: 10 },
+                { id: 'B', name: 'B', value: 20 }
+            ]
+        }
+    } as const;
+
+    it('morph_one_to_one', function () {
+        chart.setOption(barOption);
+        chart.setOption({
+            xAxis: null,
+            yAxis: null,
+            series: {
+                type: 'pie',
+                universalTransition: true,
+                data: [
+                    { id: 'A', name: 'A', value: 10 },
+                    { id: 'B', name: 'B', value: 20 }
+                ]
+            }
+        }, { replaceMerge: ['xAxis', 'yAxis', 'series'] });
+
+        const paths = getItemPaths(0);
+        expect(paths.length).toEqual(2);
+        expect(isInAnyMorphing(paths[0])).toEqual(true);
+        expect(isInAnyMorphing(paths[1])).toEqual(true);
+    });
+
+    it('morph_one_to_many_and_back', function () {
+        chart.setOption(barOption);
+        chart.setOption({
+            series: {
+                type: 'bar',
+                universalTransition: true,
+                dataGroupId: 'A',
+                data: [
+                    { id: 'a1', value: 3 },
+                    { id: 'a2', value: 3 },
+                    { id: 'a3', value: 4 }
+                ]
+            }
+        }, { replaceMerge: ['series'] });
+
+        const detailPaths = getItemPaths(0);
+        expect(detailPaths.length).toEqual(3);
+        for (let i = 0; i < detailPaths.length; i++) {
+            expect(isInAnyMorphing(detailPaths[i])).toEqual(true);
+        }
+
+        chart.setOption(barOption, { replaceMerge: ['series'] });
+
+        const paths = getItemPaths(0);
+        // Combined from the three detail items.
+        expect(isCombiningPath(paths[0])).toEqual(true);
+        // Nothing to morph from.
+        expect(isInAnyMorphing(paths[1])).toEqual(false);
+    });
+
+    it('disabled', function () {
+        chart.setOption(barOption);
+        chart.setOption({
+            series: {
+                type: 'scatter',
+                data: [
+                    { id: 'A', value: 10 },
+                    { id: 'B', value: 20 }
+                ]
+            }
+        }, { replaceMerge: ['series'] });
+
+        const paths = getItemPaths(0);
+        expect(isInAnyMorphing(paths[0])).toEqual(false);
+    });
+
+});
@@ -0,0 +1,89 @@
+
+/*
+* Licensed to the Apache Software Foundation (ASF) under one
+* or more contributor license agreements.  See the NOTICE file
+* distributed with this work for additional information
+* regarding copyright ownership.  The ASF licenses this file
+* to you under the Apache License, Version 2.0 (the
+* "License"); you may not use this file except in compliance
+* with the License.  You may obtain a copy of the License at
+*
+*   http://www.apache.org/licenses/LICENSE-2.0
+*
+* Unless required by applicable law or agreed to in writing,
+* software distributed under the License is distributed on an
+* "AS IS" BASIS, WITHOUT WARRANTIES OR CONDITIONS OF ANY
+* KIND, either express or implied.  See the License for the
+* specific language governing permissions and limitations
+* under the License.
+*/
+
+import { parseComputeExpression } from '../../../../src/util/computeExpression';
+
+
+describe('util/computeExpression', function () {
+
+    const row: {[key: string]: unknown} = {
+        revenue: 200,
+        cost: 150,
+        country: 'cn',
+        'unit price': '12px',
+        empty: null
+    };
+
+    function evaluate(exprStr: string) {
+        return parseComputeExpression<{ name: string }>(exprStr, {
+            prepareGetValue: dimLoose => ({ name: dimLoose + '' }),
+            getValue: param => row[param.name]
+        }).evaluate();
+    }
+
+    it('arithmetic', function () {
+        expect(evaluate('(revenue - cost) / revenue')).toEqual(0.25);
+        expect(evaluate('1 + 2 * 3 - -4 % 3')).toEqual(8);
+        expect(evaluate('1e2 + .5')).toEqual(100.5);
+        // Loose number parser.
+        expect(evaluate('dim("unit price") * 2')).toEqual(24);
+        expect(isNaN(evaluate('empty * 2') as number)).toEqual(true);
+    });
+
+    it('string', function () {
+        expect(evaluate('upper(country) + "-" + revenue')).toEqual('CN-200');
+        expect(evaluate('\'it\\\'s\' + concat(1, null, "a")')).toEqual('it\'s1a');
+        expect(evaluate('substr("abcdef", 1, 3)')).toEqual('bcd');
+        expect(evaluate('len(trim("  ab "))')).toEqual(2);
+        // Numeric strings are added rather than concatenated.
+        expect(evaluate('"10" + 5')).toEqual(15);
+        expect(evaluate('dim("unit price") + 1')).toEqual('12px1');
+    });
+
+    it('relational', function () {
+        // Numeric strings are compared as numbers.
+        expect(evaluate('"10" < "9"')).toEqual(false);
+        expect(evaluate('"10" >= 9')).toEqual(true);
+        // Other strings are compared lexically.
+        expect(evaluate('"b" > "a"')).toEqual(true);
+        expect(evaluate('"2020/10/1" < "2020/9/1"')).toEqual(true);
+        expect(evaluate('time("2020/10/1") < time("2020/9/1")')).toEqual(false);
+    });
+
+    it('logical_and_conditional', function () {
+        expect(evaluate('revenue > cost && country == "cn" ? "up" : "down"')).toEqual('up');
+        expect(evaluate('revenue < cost || !true')).toEqual(false);
+        expect(evaluate('isNull(empty) ? coalesce(empty, cost) : 0')).toEqual(150);
+        expect(evaluate('revenue == "200"')).toEqual(true);
+        expect(evaluate('empty != 0')).toEqual(true);
+        expect(evaluate('round(max(1.234, min(5, 2)) / 3, 2)')).toEqual(0.67);
+    });
+
+    it('illegal_expression', function () {
+        expect(() => evaluate('revenue +')).toThrowError(/unexpected end/);
+        expect(() => evaluate('(revenue')).toThrowError(/"\)" is expected/);
+        expect(() => evaluate('"abc')).toThrowError(/unterminated string/);
+        expect(() => evaluate('revenue; cost')).toThrowError(/unexpected ";"/);
+        // No access to anything out of the sandbox.
+        expect(() => evaluate('constructor("return this")()')).toThrowError(/unknown function/);
+        expect(() => evaluate('revenue.constructor')).toThrowError(/unexpected "."/);
+    });
+
+});